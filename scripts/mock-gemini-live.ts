@@ -0,0 +1,46 @@
+/**
+ * Run the mock Gemini Live server for offline development.
+ *
+ *   npm run mock:gemini
+ *   VITE_REALTIME_WS_URL=ws://127.0.0.1:8787 npm run dev
+ */
+
+import {
+  startMockGeminiLiveServer,
+  geminiAudio,
+  geminiOutputTranscription,
+  geminiText,
+  geminiTurnComplete,
+  type MockTurnScript,
+} from "../src/test/mocks/mockGeminiLiveServer";
+
+const PORT = Number(process.env.MOCK_GEMINI_PORT ?? 8787);
+
+// Answer every user turn with a short spoken reply; text parts carry whiteboards
+const reply = (spoken: string, text?: string): MockTurnScript => ({
+  steps: [
+    { message: geminiAudio(600), delayMs: 300 },
+    { message: geminiOutputTranscription(spoken) },
+    ...(text ? [{ message: geminiText(text) }] : []),
+    { message: geminiTurnComplete(), delayMs: 200 },
+  ],
+});
+
+const turns: MockTurnScript[] = [
+  reply("Hello! I'm your mock teacher. What would you like to learn today?"),
+  reply("Great question. Let's take it one step at a time."),
+  reply(
+    "Here is the whiteboard.",
+    "[WHITEBOARD_START]\n## Title: Solving a linear equation\n### Problem\n$$2x + 3 = 11$$\n**Step 1:** Subtract 3 from both sides\n$$2x = 8$$\n**Step 2:** Divide both sides by 2\n$$x = 4$$\n### Answer\n$x = 4$\n[WHITEBOARD_END]"
+  ),
+];
+
+// Keep answering once the scripted turns run out
+for (let i = 0; i < 50; i++) {
+  turns.push(reply("I'm only a mock server, but I'm still listening!"));
+}
+
+startMockGeminiLiveServer({ turns }, PORT).then((server) => {
+  console.log(`Mock Gemini Live server listening on ${server.url}`);
+  console.log(`Start the app with VITE_REALTIME_WS_URL=${server.url}`);
+});
@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Headphones, Mic, Play, Square, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MicrophoneSample,
+  canSelectOutputDevice,
+  listAudioDevices,
+  playPCM16,
+  runEchoCheck,
+  type AudioDeviceList,
+  type AudioDevicePreferences,
+  type EchoCheckResult,
+} from "@/lib/audioDevices";
+import { CAPTURE_SAMPLE_RATE } from "@/lib/audioUtils";
+import { toast } from "@/hooks/use-toast";
+
+interface AudioDeviceSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  preferences: AudioDevicePreferences;
+  onPreferencesChange: (preferences: AudioDevicePreferences) => void;
+}
+
+// Radix Select can't use "" as a value
+const DEFAULT_DEVICE = "default";
+const LOOPBACK_SECONDS = 4;
+
+type TestState = "idle" | "recording" | "playing" | "checking";
+
+const deviceLabel = (device: MediaDeviceInfo, index: number, fallback: string) =>
+  device.label || `${fallback} ${index + 1}`;
+
+const AudioDeviceSettings = ({ open, onOpenChange, preferences, onPreferencesChange }: AudioDeviceSettingsProps) => {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [testState, setTestState] = useState<TestState>("idle");
+  const [level, setLevel] = useState(0);
+  const [echoResult, setEchoResult] = useState<EchoCheckResult | null>(null);
+  const sampleRef = useRef<MicrophoneSample | null>(null);
+  const levelIntervalRef = useRef<number | null>(null);
+  const stopTimeoutRef = useRef<number | null>(null);
+
+  // Refresh the list when the dialog opens and whenever a headset is plugged in
+  useEffect(() => {
+    if (!open) return;
+    const refresh = () => listAudioDevices().then(setDevices);
+    refresh();
+    navigator.mediaDevices?.addEventListener?.("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.("devicechange", refresh);
+  }, [open]);
+
+  const stopMeter = useCallback(() => {
+    if (levelIntervalRef.current) {
+      clearInterval(levelIntervalRef.current);
+      levelIntervalRef.current = null;
+    }
+    if (stopTimeoutRef.current) {
+      clearTimeout(stopTimeoutRef.current);
+      stopTimeoutRef.current = null;
+    }
+    setLevel(0);
+  }, []);
+
+  const finishLoopback = useCallback(async () => {
+    const sample = sampleRef.current;
+    if (!sample) return;
+    sampleRef.current = null;
+    stopMeter();
+    const recorded = sample.stop();
+
+    setTestState("playing");
+    try {
+      await playPCM16(recorded, CAPTURE_SAMPLE_RATE, preferences.outputDeviceId);
+    } catch (error) {
+      console.warn("Loopback playback failed:", error);
+      toast({ title: "Couldn't play your recording", description: "Check the speaker choice.", variant: "destructive" });
+    } finally {
+      setTestState("idle");
+    }
+  }, [preferences.outputDeviceId, stopMeter]);
+
+  const startLoopback = async () => {
+    setEchoResult(null);
+    const sample = new MicrophoneSample(preferences.inputDeviceId);
+    try {
+      await sample.start();
+    } catch (error) {
+      console.warn("Microphone test failed:", error);
+      toast({ title: "Couldn't open the microphone", description: "Check the browser's permission.", variant: "destructive" });
+      return;
+    }
+    sampleRef.current = sample;
+    setTestState("recording");
+    // Labels only appear once the page has microphone permission
+    listAudioDevices().then(setDevices);
+    levelIntervalRef.current = window.setInterval(() => setLevel(sample.getAudioLevel()), 100);
+    stopTimeoutRef.current = window.setTimeout(finishLoopback, LOOPBACK_SECONDS * 1000);
+  };
+
+  const startEchoCheck = async () => {
+    setEchoResult(null);
+    setTestState("checking");
+    try {
+      setEchoResult(await runEchoCheck(preferences));
+    } catch (error) {
+      console.warn("Echo check failed:", error);
+      toast({ title: "Echo check failed", description: "Check the microphone and speaker.", variant: "destructive" });
+    } finally {
+      setTestState("idle");
+    }
+  };
+
+  // Closing the dialog abandons any test in progress
+  useEffect(() => {
+    if (open) return;
+    stopMeter();
+    sampleRef.current?.stop();
+    sampleRef.current = null;
+    setTestState("idle");
+  }, [open, stopMeter]);
+
+  const update = (key: keyof AudioDevicePreferences, value: string) => {
+    setEchoResult(null);
+    onPreferencesChange({ ...preferences, [key]: value === DEFAULT_DEVICE ? null : value });
+  };
+
+  const outputSelectable = canSelectOutputDevice();
+  const isBusy = testState !== "idle";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Audio settings</DialogTitle>
+          <DialogDescription>Choose your microphone and speakers, and check them before the lesson.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label className="flex items-center gap-2">
+              <Mic className="w-4 h-4" /> Microphone
+            </Label>
+            <Select
+              value={preferences.inputDeviceId ?? DEFAULT_DEVICE}
+              onValueChange={(value) => update("inputDeviceId", value)}
+              disabled={isBusy}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+                {devices.inputs
+                  .filter((d) => d.deviceId && d.deviceId !== DEFAULT_DEVICE)
+                  .map((device, i) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {deviceLabel(device, i, "Microphone")}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label className="flex items-center gap-2">
+              <Volume2 className="w-4 h-4" /> Speakers
+            </Label>
+            <Select
+              value={preferences.outputDeviceId ?? DEFAULT_DEVICE}
+              onValueChange={(value) => update("outputDeviceId", value)}
+              disabled={isBusy || !outputSelectable}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+                {devices.outputs
+                  .filter((d) => d.deviceId && d.deviceId !== DEFAULT_DEVICE)
+                  .map((device, i) => (
+                    <SelectItem key={device.deviceId} value={device.deviceId}>
+                      {deviceLabel(device, i, "Speaker")}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+            {!outputSelectable && (
+              <p className="text-xs text-muted-foreground">This browser always uses the system speakers.</p>
+            )}
+          </div>
+
+          <div className="space-y-2 rounded-md bg-muted/50 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Microphone test</p>
+              {testState === "recording" ? (
+                <Button size="sm" variant="outline" onClick={finishLoopback}>
+                  <Square className="w-3 h-3 mr-1.5" /> Stop
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={startLoopback} disabled={isBusy}>
+                  <Play className="w-3 h-3 mr-1.5" /> {testState === "playing" ? "Playing back..." : "Record and play back"}
+                </Button>
+              )}
+            </div>
+            <Progress value={level} className="h-2" aria-label="Microphone level" />
+            <p className="text-xs text-muted-foreground">
+              {testState === "recording"
+                ? "Say a few words. You'll hear them back in a moment."
+                : `Records ${LOOPBACK_SECONDS} seconds, then plays it through your speakers.`}
+            </p>
+          </div>
+
+          <div className="space-y-2 rounded-md bg-muted/50 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium">Echo check</p>
+              <Button size="sm" variant="outline" onClick={startEchoCheck} disabled={isBusy}>
+                {testState === "checking" ? "Listening..." : "Check for echo"}
+              </Button>
+            </div>
+            {echoResult ? (
+              echoResult.echoDetected ? (
+                <p className="text-xs text-destructive flex items-center gap-1.5">
+                  <Headphones className="w-3.5 h-3.5" />
+                  Your microphone hears the speakers ({Math.round(echoResult.returnLossDb)} dB down). Use headphones so
+                  the teacher's voice isn't mistaken for yours.
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">No echo found. You're good to go.</p>
+              )
+            ) : (
+              <p className="text-xs text-muted-foreground">Plays a short sweep and listens for it on the microphone.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AudioDeviceSettings;
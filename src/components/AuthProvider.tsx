@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext, type AuthContextValue } from "@/hooks/useAuth";
+import { signOut as signOutLearner } from "@/lib/learnerAuth";
+import { loadProfile, saveProfile, type Profile, type ProfileInput } from "@/lib/profiles";
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  // Tagged with its user so a stale profile is never shown for a new sign-in
+  const [loadedProfile, setLoadedProfile] = useState<{ userId: string; profile: Profile | null } | null>(null);
+
+  const userId = session?.user.id ?? null;
+  const profile = userId && loadedProfile?.userId === userId ? loadedProfile.profile : null;
+  const isLoading = !sessionLoaded || (userId !== null && loadedProfile?.userId !== userId);
+
+  useEffect(() => {
+    // Subscribe first so a sign-in that lands during getSession isn't missed
+    const { data: listener } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+    });
+
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setSessionLoaded(true);
+    });
+
+    return () => listener.subscription.unsubscribe();
+  }, []);
+
+  // Load the profile whenever the signed-in user changes
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    loadProfile(userId).then((row) => {
+      if (!cancelled) setLoadedProfile({ userId, profile: row });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const updateProfile = useCallback(async (input: ProfileInput) => {
+    if (!userId) return false;
+    const saved = await saveProfile(userId, input);
+    if (saved) setLoadedProfile({ userId, profile: saved });
+    return Boolean(saved);
+  }, [userId]);
+
+  const signOut = useCallback(async () => {
+    await signOutLearner();
+    setLoadedProfile(null);
+  }, []);
+
+  const value = useMemo<AuthContextValue>(() => ({
+    session,
+    user: session?.user ?? null,
+    profile,
+    isLoading,
+    updateProfile,
+    signOut,
+  }), [session, profile, isLoading, updateProfile, signOut]);
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
@@ -1,21 +1,54 @@
 import { useRef, useEffect, useState, useCallback } from "react";
-import { Mic, RefreshCw } from "lucide-react";
+import { Mic, RefreshCw, VideoOff } from "lucide-react";
 import * as Simli from "simli-client";
-import { supabase } from "@/integrations/supabase/client";
+import { requestSimliSessionToken } from "@/lib/sessionTokens";
+import { setOutputDevice } from "@/lib/audioDevices";
 
 interface AvatarPanelProps {
   faceId: string;
   teacherName: string;
   status: "idle" | "listening" | "speaking" | "processing";
   isRecording: boolean;
+  /** Mic only sends while the button (or Space) is held */
+  isPushToTalk?: boolean;
+  /** The student's speech is being sent right now */
+  isUserTalking?: boolean;
   onMicPress: () => void;
   onMicRelease: () => void;
   audioLevel: number;
   isConnected: boolean;
   isReconnecting?: boolean;
-  onSimliReady?: (listenToTrack: (track: MediaStreamTrack) => void, clearBuffer: () => void) => void;
+  /** Speaker for the avatar's voice; null for the default */
+  outputDeviceId?: string | null;
+  /** Off stops the avatar stream to save bandwidth; the voice is then played by the page */
+  isVideoEnabled?: boolean;
+  onSimliReady?: (
+    listenToTrack: (track: MediaStreamTrack) => void,
+    clearBuffer: () => void,
+    getStats: () => Promise<RTCStatsReport | null>
+  ) => void;
 }
 
+/**
+ * WebRTC stats for the avatar stream. SimliClient keeps its connection
+ * private: over P2P it holds an RTCPeerConnection, over LiveKit a Room whose
+ * subscriber connection carries the video.
+ */
+type StatsSource = { getStats?: () => Promise<RTCStatsReport> };
+type SimliConnection = { pc?: StatsSource & { engine?: { pcManager?: { subscriber?: StatsSource } } } };
+
+const getSimliStats = async (client: Simli.SimliClient | null): Promise<RTCStatsReport | null> => {
+  const pc = (client as unknown as { connection?: SimliConnection } | null)?.connection?.pc;
+  const peer = typeof pc?.getStats === "function" ? pc : pc?.engine?.pcManager?.subscriber;
+  if (typeof peer?.getStats !== "function") return null;
+  try {
+    return await peer.getStats();
+  } catch (e) {
+    console.warn("Simli stats unavailable:", e);
+    return null;
+  }
+};
+
 const WaveformVisualizer = ({ audioLevel, isActive }: { audioLevel: number; isActive: boolean }) => {
   const bars = 5;
   return (
@@ -43,11 +76,15 @@ export const AvatarPanel = ({
   teacherName,
   status,
   isRecording,
+  isPushToTalk = false,
+  isUserTalking = false,
   onMicPress,
   onMicRelease,
   audioLevel,
   isConnected,
   isReconnecting = false,
+  outputDeviceId = null,
+  isVideoEnabled = true,
   onSimliReady,
 }: AvatarPanelProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -64,6 +101,10 @@ export const AvatarPanel = ({
     onSimliReadyRef.current = onSimliReady;
   }, [onSimliReady]);
 
+  useEffect(() => {
+    if (audioRef.current) setOutputDevice(audioRef.current, outputDeviceId);
+  }, [outputDeviceId]);
+
   const initSimli = useCallback(async () => {
     let isMounted = true;
 
@@ -84,46 +125,21 @@ export const AvatarPanel = ({
         setSimliError(null);
         console.log("Initializing Simli with face:", faceId);
 
-        // Fetch API key from backend function
-        const { data, error } = await supabase.functions.invoke("simli-token");
-
-        if (error) {
-          throw new Error(error.message || "Failed to get Simli token");
-        }
-
-        const apiKey = (data as any)?.apiKey as string | undefined;
-
-        if (!apiKey) {
-          throw new Error("No API key returned from simli-token function. Check SIMLI_API_KEY secret in Supabase.");
-        }
-
         // Wait for video element to be available
         if (!videoRef.current || !audioRef.current) {
           console.log("Waiting for video/audio elements...");
           return;
         }
 
-        if (!isMounted) return;
-
-        // Create the session request configuration
-        const sessionRequest = {
-          faceId: faceId,
-          handleSilence: false,
-          maxSessionLength: 3600,
-          maxIdleTime: 3600, // Increased to 1 hour to prevent 10-minute idle freeze
-          model: "fasttalk" as const,
-        };
+        // Session token is minted server-side; the Simli API key never leaves the backend
+        const sessionToken = await requestSimliSessionToken(faceId);
 
-        // Generate the session token
-        const sessionTokenResponse = await Simli.generateSimliSessionToken({
-          apiKey: apiKey,
-          config: sessionRequest,
-        });
+        if (!isMounted) return;
 
         // Create a fresh Simli client instance using v3 API
         // Signature: (session_token, videoElement, audioElement, iceServers, logLevel, transport_mode)
         const simliClient = new Simli.SimliClient(
-          sessionTokenResponse.session_token,
+          sessionToken,
           videoRef.current,
           audioRef.current,
           null, // undefined/null iceServers
@@ -175,6 +191,8 @@ export const AvatarPanel = ({
           }
         };
 
+        const getStats = () => getSimliStats(simliClientRef.current);
+
         // Wait for actual video frames before signaling ready
         const video = videoRef.current;
         const signalReady = () => {
@@ -183,7 +201,7 @@ export const AvatarPanel = ({
           setIsSimliReady(true);
           setSimliError(null);
           if (onSimliReadyRef.current) {
-            onSimliReadyRef.current(listenToTrack, clearBuffer);
+            onSimliReadyRef.current(listenToTrack, clearBuffer, getStats);
           }
         };
 
@@ -224,15 +242,15 @@ export const AvatarPanel = ({
   // Initialize Simli client when connected
   useEffect(() => {
     // Only initialize when connected, but DON'T tear down during reconnects
-    if (!isConnected) {
+    if (!isConnected || !isVideoEnabled) {
       // Skip cleanup if we're just reconnecting - keep avatar alive
-      if (isReconnecting) {
+      if (isVideoEnabled && isReconnecting) {
         console.log("Skipping Simli cleanup during reconnect");
         return;
       }
-      // Clean up when fully disconnected (not reconnecting)
+      // Clean up when fully disconnected (not reconnecting) or video is switched off
       if (simliClientRef.current) {
-        console.log("Cleaning up Simli client on disconnect");
+        console.log(isVideoEnabled ? "Cleaning up Simli client on disconnect" : "Stopping Simli while video is off");
         try {
           simliClientRef.current.stop();
         } catch (e) {
@@ -259,7 +277,8 @@ export const AvatarPanel = ({
             if (simliClientRef.current) {
               simliClientRef.current.ClearBuffer();
             }
-          }
+          },
+          () => getSimliStats(simliClientRef.current)
         );
       }
       return;
@@ -271,7 +290,7 @@ export const AvatarPanel = ({
 
     // NOTE: onSimliReady intentionally excluded — stored in ref to avoid re-init loops
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isConnected, isReconnecting, initSimli]);
+  }, [isConnected, isReconnecting, isVideoEnabled, initSimli]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -303,11 +322,12 @@ export const AvatarPanel = ({
       case "processing":
         return "Thinking...";
       default:
-        return isSimliReady ? "Say something!" : "Teacher is coming...";
+        if (!isSimliReady && isVideoEnabled) return "Teacher is coming...";
+        return isPushToTalk && isRecording ? "Hold the mic or Space to talk" : "Say something!";
     }
   };
 
-  const isListening = status === "listening" || isRecording;
+  const isListening = isPushToTalk ? isUserTalking : status === "listening" || isRecording;
 
   return (
     <div className="panel-card avatar-panel flex flex-col h-full relative overflow-hidden">
@@ -324,8 +344,21 @@ export const AvatarPanel = ({
         {/* FIX: audio must NOT be muted — this is what produces the avatar's voice */}
         <audio ref={audioRef} autoPlay className="hidden" />
 
+        {/* Video switched off on a weak connection */}
+        {!isVideoEnabled && isConnected && (
+          <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-amber-400 to-orange-500">
+            <div className="text-center p-4 space-y-3">
+              <VideoOff className="w-10 h-10 mx-auto text-white/80" />
+              <p className="text-white font-semibold text-sm">Video paused to save bandwidth</p>
+              <p className="text-white/70 text-xs max-w-[220px] mx-auto">
+                You'll still hear {teacherName}. The video comes back when the connection improves.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Loading/Error state overlay */}
-        {!isSimliReady && (
+        {!isSimliReady && (isVideoEnabled || !isConnected) && (
           <div className="absolute inset-0 flex items-center justify-center bg-gradient-to-br from-amber-400 to-orange-500">
             {simliError ? (
               <div className="text-center p-4 space-y-3">
@@ -365,14 +398,30 @@ export const AvatarPanel = ({
             </div>
           </div>
 
-          {/* Mic indicator - shows when listening */}
-          <div className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${
-            isRecording
-              ? "bg-status-listening/20 border-2 border-status-listening"
-              : "bg-white/10 border-2 border-white/20"
-          }`}>
-            <Mic className={`w-6 h-6 text-white ${isRecording ? "animate-pulse" : ""}`} />
-          </div>
+          {/* Mic indicator - shows when listening; hold it to talk in push-to-talk mode */}
+          <button
+            type="button"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              onMicPress();
+            }}
+            onPointerUp={onMicRelease}
+            onPointerCancel={onMicRelease}
+            onContextMenu={(e) => e.preventDefault()}
+            disabled={!isPushToTalk}
+            aria-pressed={isPushToTalk ? isUserTalking : undefined}
+            aria-label={isPushToTalk ? "Hold to talk" : "Microphone"}
+            title={isPushToTalk ? "Hold to talk (Space)" : undefined}
+            className={`w-12 h-12 rounded-full flex items-center justify-center transition-all select-none touch-none disabled:cursor-default ${
+              isUserTalking
+                ? "bg-status-listening/40 border-2 border-status-listening scale-110"
+                : isRecording && !isPushToTalk
+                ? "bg-status-listening/20 border-2 border-status-listening"
+                : "bg-white/10 border-2 border-white/20"
+            } ${isPushToTalk ? "cursor-pointer hover:bg-white/20" : ""}`}
+          >
+            <Mic className={`w-6 h-6 text-white ${isUserTalking || (isRecording && !isPushToTalk) ? "animate-pulse" : ""}`} />
+          </button>
         </div>
       </div>
     </div>
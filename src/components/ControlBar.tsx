@@ -1,4 +1,4 @@
-import { Video, Mic, MonitorUp, Phone, PhoneOff, Circle, Camera, MonitorOff, Hand } from "lucide-react";
+import { Video, Mic, MonitorUp, Phone, PhoneOff, Circle, Camera, MonitorOff, Hand, AudioLines, Keyboard, SlidersHorizontal } from "lucide-react";
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip";
 
 interface ControlBarProps {
@@ -12,6 +12,9 @@ interface ControlBarProps {
   recordingTime: number;
   onToggleCamera: () => void;
   onToggleMic: () => void;
+  isPushToTalk?: boolean;
+  onToggleMicMode?: () => void;
+  onOpenAudioSettings?: () => void;
   onShare: () => void;
   onCaptureScreen: () => void;
   onToggleCall: () => void;
@@ -36,6 +39,9 @@ export const ControlBar = ({
   recordingTime,
   onToggleCamera,
   onToggleMic,
+  isPushToTalk = false,
+  onToggleMicMode,
+  onOpenAudioSettings,
   onShare,
   onCaptureScreen,
   onToggleCall,
@@ -73,6 +79,30 @@ export const ControlBar = ({
           <span className="text-xs text-muted-foreground mt-1">Mic</span>
         </div>
 
+        {/* Mic mode: hands-free voice detection or push-to-talk */}
+        {onToggleMicMode && (
+          <div className="flex flex-col items-center">
+            <button
+              onClick={onToggleMicMode}
+              className={`control-button ${isPushToTalk ? "control-button-active" : ""}`}
+              title={isPushToTalk ? "Push-to-talk: hold Space or the avatar mic" : "Hands-free: talk any time"}
+            >
+              {isPushToTalk ? <Keyboard className="w-5 h-5" /> : <AudioLines className="w-5 h-5" />}
+            </button>
+            <span className="text-xs text-muted-foreground mt-1">{isPushToTalk ? "Hold" : "Auto"}</span>
+          </div>
+        )}
+
+        {/* Microphone and speaker choice, mic test and echo check */}
+        {onOpenAudioSettings && (
+          <div className="flex flex-col items-center">
+            <button onClick={onOpenAudioSettings} className="control-button" title="Audio settings">
+              <SlidersHorizontal className="w-5 h-5" />
+            </button>
+            <span className="text-xs text-muted-foreground mt-1">Audio</span>
+          </div>
+        )}
+
         <div className="flex flex-col items-center">
           <button 
             onClick={onShare} 
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { Brain, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  MEMORY_KINDS,
+  clearLearnerMemories,
+  deleteLearnerMemory,
+  listLearnerMemories,
+  type LearnerMemory,
+} from "@/lib/learnerMemory";
+import { toast } from "@/hooks/use-toast";
+
+const LearnerMemoryPanel = () => {
+  const [memories, setMemories] = useState<LearnerMemory[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    listLearnerMemories().then((loaded) => {
+      if (cancelled) return;
+      setMemories(loaded);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleDelete = async (id: string) => {
+    if (!(await deleteLearnerMemory(id))) {
+      toast({ title: "Couldn't forget that", description: "Please try again.", variant: "destructive" });
+      return;
+    }
+    setMemories((prev) => prev.filter((m) => m.id !== id));
+  };
+
+  const handleClear = async () => {
+    if (!(await clearLearnerMemories())) {
+      toast({ title: "Couldn't clear your memories", description: "Please try again.", variant: "destructive" });
+      return;
+    }
+    setMemories([]);
+    toast({ title: "Your teachers have forgotten everything" });
+  };
+
+  const groups = MEMORY_KINDS.map((kind) => ({
+    ...kind,
+    items: memories.filter((m) => m.kind === kind.value),
+  })).filter((group) => group.items.length > 0);
+
+  return (
+    <section className="panel-card max-w-lg mx-auto p-6 border border-border/50 space-y-4">
+      <div className="flex items-center gap-2">
+        <Brain className="w-5 h-5 text-primary" />
+        <h2 className="text-lg font-display font-semibold text-foreground">What your teachers remember</h2>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        After each lesson your teachers note a few things to help next time. Remove anything you'd rather they forgot.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing yet. Finish a lesson and notes will appear here.</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => (
+            <div key={group.value} className="space-y-1.5">
+              <p className="text-sm font-medium">{group.label}</p>
+              <ul className="space-y-1">
+                {group.items.map((memory) => (
+                  <li
+                    key={memory.id}
+                    className="flex items-start justify-between gap-3 rounded-md bg-muted/50 px-3 py-2 text-sm"
+                  >
+                    <span>{memory.content}</span>
+                    <button
+                      onClick={() => handleDelete(memory.id)}
+                      className="text-muted-foreground hover:text-destructive transition-colors"
+                      aria-label={`Forget "${memory.content}"`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" className="w-full">Forget everything</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Forget everything?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your teachers will start from scratch next lesson. Your saved lessons are kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleClear}>Forget everything</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default LearnerMemoryPanel;
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { recordingToOpus, recordingToWav, type LessonRecording } from "@/lib/lessonRecording";
+import {
+  transcriptToJSON,
+  transcriptToMarkdown,
+  transcriptToWebVTT,
+  type TranscriptMeta,
+} from "@/lib/transcriptExport";
+import type { Message } from "@/lib/chatMessage";
+import { downloadBlob, slug } from "@/lib/download";
+import { toast } from "@/hooks/use-toast";
+
+interface LessonExportMenuProps {
+  messages: Message[];
+  teacherName: string;
+  studentName: string;
+  title?: string;
+  getRecording: () => LessonRecording | null;
+}
+
+const LessonExportMenu = ({ messages, teacherName, studentName, title, getRecording }: LessonExportMenuProps) => {
+  const [isEncoding, setIsEncoding] = useState(false);
+
+  const recording = getRecording();
+  // Captions and the recording share the recording's start as time zero
+  const meta: TranscriptMeta = {
+    teacherName,
+    studentName,
+    title,
+    startedAt: recording ? new Date(recording.startedAt) : undefined,
+  };
+  const baseName = `lesson-${slug(teacherName)}-${new Date(recording?.startedAt ?? Date.now()).toISOString().slice(0, 10)}`;
+  const hasAudio = Boolean(recording && !recording.isEmpty);
+
+  const exportText = (content: string, extension: string, type: string) => {
+    downloadBlob(new Blob([content], { type }), `${baseName}.${extension}`);
+  };
+
+  const exportAudio = async (format: "wav" | "opus") => {
+    const current = getRecording();
+    if (!current || current.isEmpty) return;
+    setIsEncoding(true);
+    try {
+      if (format === "wav") {
+        downloadBlob(recordingToWav(current), `${baseName}.wav`);
+        return;
+      }
+      const opus = await recordingToOpus(current);
+      if (!opus) {
+        toast({
+          title: "Opus isn't supported here",
+          description: "This browser can't encode Opus. Download the WAV instead.",
+          variant: "destructive",
+        });
+        return;
+      }
+      downloadBlob(opus, `${baseName}.opus`);
+    } catch (error) {
+      console.warn("Lesson export failed:", error);
+      toast({ title: "Export failed", description: "Couldn't create the audio file.", variant: "destructive" });
+    } finally {
+      setIsEncoding(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="ml-auto p-2 rounded-full text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+          aria-label="Export lesson"
+          title="Export lesson"
+          disabled={isEncoding || (messages.length === 0 && !hasAudio)}
+        >
+          <Download className={`w-4 h-4 ${isEncoding ? "animate-pulse" : ""}`} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Recording</DropdownMenuLabel>
+        <DropdownMenuItem disabled={!hasAudio} onSelect={() => exportAudio("opus")}>
+          Audio (Opus, smaller)
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!hasAudio} onSelect={() => exportAudio("wav")}>
+          Audio (WAV)
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Transcript</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportText(transcriptToMarkdown(messages, meta), "md", "text/markdown")}>
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportText(transcriptToWebVTT(messages, meta), "vtt", "text/vtt")}>
+          Captions (WebVTT)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportText(transcriptToJSON(messages, meta), "json", "application/json")}>
+          JSON
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LessonExportMenu;
@@ -0,0 +1,84 @@
+import { ArrowLeft, Clock, MessageCircle, Target } from "lucide-react";
+import type { Teacher } from "@/lib/teachers";
+import { getLessonMinutes, getLessonPlansForTeacher, type LessonPlan } from "@/lib/lessonPlans";
+import type { KeyStage } from "@/lib/profiles";
+
+interface LessonPlanSelectProps {
+  teacher: Teacher;
+  keyStage?: KeyStage | null;
+  onSelect: (plan: LessonPlan | null) => void;
+  onBack: () => void;
+}
+
+const LessonPlanSelect = ({ teacher, keyStage, onSelect, onBack }: LessonPlanSelectProps) => {
+  const plans = getLessonPlansForTeacher(teacher.id, keyStage);
+
+  return (
+    <div className="h-screen bg-background flex flex-col items-center justify-center p-4 overflow-auto">
+      <div className="max-w-4xl w-full">
+        <button
+          onClick={onBack}
+          className="mb-4 flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-card text-muted-foreground hover:text-foreground text-sm font-medium shadow-md hover:shadow-lg transition-all"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Change Teacher
+        </button>
+
+        <div className="text-center mb-8">
+          <h1 className="text-3xl md:text-4xl font-display font-bold text-foreground mb-2">
+            What would you like to learn with {teacher.name}?
+          </h1>
+          <p className="text-muted-foreground text-sm md:text-base">
+            Pick a lesson, or just chat about anything
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {plans.map((plan) => (
+            <button
+              key={plan.id}
+              onClick={() => onSelect(plan)}
+              className="rounded-2xl p-5 text-left transition-all duration-300 border-2 border-border hover:border-primary/40 hover:shadow-md bg-card"
+            >
+              <div className="flex items-center justify-between gap-2 mb-2">
+                <span className="text-xs font-medium text-primary">{plan.subject}</span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${
+                    plan.keyStage === keyStage ? "bg-primary/10 text-primary" : "bg-muted text-muted-foreground"
+                  }`}
+                >
+                  {plan.keyStage}
+                </span>
+              </div>
+              <h3 className="font-display font-bold text-lg text-foreground mb-1">{plan.topic}</h3>
+              <p className="text-xs text-muted-foreground mb-3">{plan.summary}</p>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Target className="w-3.5 h-3.5" />
+                  {plan.objectives.length} objectives
+                </span>
+                <span className="flex items-center gap-1">
+                  <Clock className="w-3.5 h-3.5" />
+                  {getLessonMinutes(plan)} min
+                </span>
+              </div>
+            </button>
+          ))}
+
+          <button
+            onClick={() => onSelect(null)}
+            className="rounded-2xl p-5 text-left transition-all duration-300 border-2 border-dashed border-border hover:border-primary/40 hover:shadow-md bg-card flex flex-col justify-center"
+          >
+            <MessageCircle className="w-6 h-6 text-primary mb-2" />
+            <h3 className="font-display font-bold text-lg text-foreground mb-1">Open chat</h3>
+            <p className="text-xs text-muted-foreground">
+              Ask {teacher.name} about homework, revision or anything on your mind.
+            </p>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonPlanSelect;
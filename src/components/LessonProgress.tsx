@@ -0,0 +1,44 @@
+import { CheckCircle2, Circle, Target } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import type { LessonPlan } from "@/lib/lessonPlans";
+
+interface LessonProgressProps {
+  plan: LessonPlan;
+  completedObjectives: string[];
+}
+
+const LessonProgress = ({ plan, completedObjectives }: LessonProgressProps) => {
+  const done = plan.objectives.filter((o) => completedObjectives.includes(o.id)).length;
+
+  return (
+    <div className="panel-card p-4 border border-border/50 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Target className="w-4 h-4 text-primary shrink-0" />
+          <p className="text-sm font-semibold text-foreground truncate">{plan.topic}</p>
+        </div>
+        <span className="text-xs text-muted-foreground shrink-0">
+          {done}/{plan.objectives.length}
+        </span>
+      </div>
+      <Progress value={(done / plan.objectives.length) * 100} className="h-1.5" />
+      <ul className="space-y-1">
+        {plan.objectives.map((objective) => {
+          const isDone = completedObjectives.includes(objective.id);
+          return (
+            <li key={objective.id} className="flex items-start gap-2 text-xs">
+              {isDone ? (
+                <CheckCircle2 className="w-3.5 h-3.5 text-primary mt-0.5 shrink-0" />
+              ) : (
+                <Circle className="w-3.5 h-3.5 text-muted-foreground mt-0.5 shrink-0" />
+              )}
+              <span className={isDone ? "text-foreground" : "text-muted-foreground"}>{objective.text}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default LessonProgress;
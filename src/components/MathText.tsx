@@ -0,0 +1,60 @@
+import { useEffect, useRef } from "react";
+import { parseInlineLatex, sanitizeLatex } from "@/lib/whiteboardParser";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+
+// Render LaTeX math using KaTeX
+export const MathBlock = ({ latex, displayMode = true }: { latex: string; displayMode?: boolean }) => {
+  const containerRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (containerRef.current && latex) {
+      // Sanitize to remove any nested delimiters before rendering
+      const cleanLatex = sanitizeLatex(latex);
+      try {
+        katex.render(cleanLatex, containerRef.current, {
+          displayMode,
+          throwOnError: false,
+          strict: false,
+        });
+      } catch (e) {
+        console.error("KaTeX render error:", e);
+        if (containerRef.current) {
+          // Show clean latex without delimiters as fallback
+          containerRef.current.textContent = cleanLatex;
+        }
+      }
+    }
+  }, [latex, displayMode]);
+
+  return <span ref={containerRef} className={displayMode ? "block my-4 text-center" : "inline"} />;
+};
+
+// Parse and render markdown bold (**text**) as actual bold
+const renderWithBold = (text: string) => {
+  const parts = text.split(/(\*\*[^*]+\*\*)/g);
+  return parts.map((part, i) => {
+    if (part.startsWith('**') && part.endsWith('**')) {
+      const boldText = part.slice(2, -2);
+      return <strong key={i} className="font-semibold">{boldText}</strong>;
+    }
+    return <span key={i}>{part}</span>;
+  });
+};
+
+// Render text with inline LaTeX and markdown bold
+export const TextWithMath = ({ text }: { text: string }) => {
+  const segments = parseInlineLatex(text);
+
+  return (
+    <span>
+      {segments.map((segment, i) =>
+        segment.isLatex ? (
+          <MathBlock key={i} latex={segment.text} displayMode={false} />
+        ) : (
+          <span key={i}>{renderWithBold(segment.text)}</span>
+        )
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,36 @@
+import type { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { isProfileComplete } from "@/lib/profiles";
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  /** Let learners in before their profile is filled in (the profile page itself) */
+  allowIncompleteProfile?: boolean;
+}
+
+export const ProtectedRoute = ({ children, allowIncompleteProfile = false }: ProtectedRouteProps) => {
+  const { user, profile, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace state={{ from: `${location.pathname}${location.search}` }} />;
+  }
+
+  // New learners set up their profile before their first lesson
+  if (!allowIncompleteProfile && !isProfileComplete(profile)) {
+    return <Navigate to="/profile" replace state={{ from: `${location.pathname}${location.search}` }} />;
+  }
+
+  return <>{children}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, ClipboardList, X, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { MathBlock, TextWithMath } from "@/components/MathText";
+import { summarizeQuiz, type Quiz, type QuizAnswer, type QuizQuestion } from "@/lib/quiz";
+
+interface QuizPanelProps {
+  quiz: Quiz;
+  answers: QuizAnswer[];
+  isFinished: boolean;
+  teacherName?: string;
+  onAnswer: (questionId: string, response: string) => QuizAnswer | null;
+  onFinish: () => void;
+  onClose: () => void;
+}
+
+const INPUT_HINTS: Record<QuizQuestion["type"], string> = {
+  multiple_choice: "",
+  numeric: "Type a number, e.g. 3.5 or 3/4",
+  short_answer: "Type your answer",
+  math: "Type maths, e.g. 2x + 1 or \\frac{1}{2}",
+};
+
+// The expected answer, rendered as maths where that makes sense
+const ExpectedAnswer = ({ question }: { question: QuizQuestion }) =>
+  question.type === "math" ? <MathBlock latex={question.answer} displayMode={false} /> : <TextWithMath text={question.answer} />;
+
+const QuizPanel = ({ quiz, answers, isFinished, teacherName = "Your teacher", onAnswer, onFinish, onClose }: QuizPanelProps) => {
+  const [index, setIndex] = useState(0);
+  const [draft, setDraft] = useState("");
+
+  // A new quiz starts from the first question
+  useEffect(() => {
+    setIndex(0);
+    setDraft("");
+  }, [quiz.id]);
+
+  const question = quiz.questions[index];
+  const answer = answers.find((a) => a.questionId === question?.id);
+  const isLast = index === quiz.questions.length - 1;
+
+  const submit = (response: string) => {
+    if (!question || answer || !response.trim()) return;
+    onAnswer(question.id, response.trim());
+  };
+
+  const next = () => {
+    setDraft("");
+    if (isLast) onFinish();
+    else setIndex((i) => i + 1);
+  };
+
+  const header = (
+    <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-border">
+      <div className="flex items-center gap-2 min-w-0">
+        <ClipboardList className="w-4 h-4 text-primary shrink-0" />
+        <h3 className="font-semibold text-foreground truncate">{quiz.title}</h3>
+      </div>
+      <button onClick={onClose} className="text-muted-foreground hover:text-foreground" aria-label="Close quiz">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+
+  if (isFinished) {
+    const { correct, total } = summarizeQuiz(quiz, answers);
+    return (
+      <div className="panel-card h-full flex flex-col border border-border/50 overflow-hidden">
+        {header}
+        <ScrollArea className="flex-1">
+          <div className="p-4 space-y-4">
+            <div className="text-center">
+              <p className="text-3xl font-display font-bold text-foreground">
+                {correct}/{total}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {correct === total
+                  ? "Perfect score!"
+                  : `${teacherName} will go over the rest. Missed questions come back for review later.`}
+              </p>
+            </div>
+            <ul className="space-y-2">
+              {quiz.questions.map((q) => {
+                const a = answers.find((x) => x.questionId === q.id);
+                return (
+                  <li key={q.id} className="rounded-md bg-muted/50 px-3 py-2 text-sm space-y-1">
+                    <div className="flex items-start gap-2">
+                      {a?.correct ? (
+                        <CheckCircle2 className="w-4 h-4 text-green-600 mt-0.5 shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-destructive mt-0.5 shrink-0" />
+                      )}
+                      <TextWithMath text={q.prompt} />
+                    </div>
+                    {!a?.correct && (
+                      <p className="text-xs text-muted-foreground pl-6">
+                        Answer: <ExpectedAnswer question={q} />
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </ScrollArea>
+        <div className="p-4 border-t border-border">
+          <Button className="w-full" onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!question) return null;
+
+  return (
+    <div className="panel-card h-full flex flex-col border border-border/50 overflow-hidden">
+      {header}
+      <div className="px-4 pt-3 space-y-1.5">
+        <p className="text-xs text-muted-foreground">
+          Question {index + 1} of {quiz.questions.length}
+        </p>
+        <Progress value={((index + (answer ? 1 : 0)) / quiz.questions.length) * 100} className="h-1.5" />
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-4">
+          <p className="text-foreground font-medium leading-relaxed">
+            <TextWithMath text={question.prompt} />
+          </p>
+
+          {question.type === "multiple_choice" ? (
+            <div className="space-y-2">
+              {question.options?.map((option, i) => {
+                const isChosen = answer?.response === option;
+                return (
+                  <button
+                    key={i}
+                    onClick={() => submit(option)}
+                    disabled={Boolean(answer)}
+                    className={`w-full text-left rounded-lg border px-3 py-2 text-sm transition-colors ${
+                      isChosen
+                        ? answer?.correct
+                          ? "border-green-600 bg-green-600/10"
+                          : "border-destructive bg-destructive/10"
+                        : "border-border hover:border-primary/40 disabled:hover:border-border"
+                    }`}
+                  >
+                    <span className="font-medium mr-2">{String.fromCharCode(65 + i)}.</span>
+                    <TextWithMath text={option} />
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                submit(draft);
+              }}
+              className="space-y-2"
+            >
+              <Input
+                value={answer ? answer.response : draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder={INPUT_HINTS[question.type]}
+                inputMode={question.type === "numeric" ? "decimal" : "text"}
+                disabled={Boolean(answer)}
+                autoFocus
+              />
+              {question.type === "math" && draft.trim() && !answer && (
+                <div className="rounded-md bg-muted/50 px-3 py-2 text-sm">
+                  <MathBlock latex={draft} displayMode={false} />
+                </div>
+              )}
+              {!answer && (
+                <Button type="submit" className="w-full" disabled={!draft.trim()}>
+                  Check answer
+                </Button>
+              )}
+            </form>
+          )}
+
+          {answer && (
+            <div
+              className={`rounded-lg px-3 py-2 text-sm ${
+                answer.correct ? "bg-green-600/10 text-green-700" : "bg-destructive/10 text-destructive"
+              }`}
+            >
+              <p className="font-medium">{answer.correct ? "Correct!" : "Not quite."}</p>
+              {answer.feedback && <p>{answer.feedback}</p>}
+              {!answer.correct && (
+                <p>
+                  The answer is <ExpectedAnswer question={question} />
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+
+      {answer && (
+        <div className="p-4 border-t border-border">
+          <Button className="w-full" onClick={next}>
+            {isLast ? "See results" : "Next question"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
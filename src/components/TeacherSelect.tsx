@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { TEACHERS, type Teacher } from "@/lib/teachers";
-import { BookOpen, GraduationCap, Globe, Mic, MicOff } from "lucide-react";
+import { Link } from "react-router-dom";
+import { BookOpen, GraduationCap, Globe, History, Mic, MicOff, UserRound } from "lucide-react";
 import { useVoiceNavigation } from "@/hooks/useVoiceNavigation";
 
 import linaImg from "@/assets/teachers/lina.png";
@@ -89,6 +90,22 @@ const TeacherSelect = ({ onSelect }: TeacherSelectProps) => {
           <p className="text-muted-foreground text-sm md:text-base">
             Select a tutor to start your learning session
           </p>
+          <div className="mt-3 flex items-center justify-center gap-4">
+            <Link
+              to="/lessons"
+              className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+            >
+              <History className="w-4 h-4" />
+              Past lessons
+            </Link>
+            <Link
+              to="/profile"
+              className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+            >
+              <UserRound className="w-4 h-4" />
+              My profile
+            </Link>
+          </div>
 
           {/* Voice control toggle */}
           {isSupported && (
@@ -1,31 +1,41 @@
-import { useEffect, useRef, useState } from "react";
-import { Copy, RotateCcw, ThumbsUp, ThumbsDown, Send, Upload, PenLine } from "lucide-react";
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Copy, RotateCcw, ThumbsUp, ThumbsDown, Send, Upload, PenLine, Pencil, Clock, X } from "lucide-react";
+import type { Message } from "@/lib/chatMessage";
 import { hasWhiteboardContent } from "@/lib/whiteboardParser";
 import { cn } from "@/lib/utils";
 
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  originalContent?: string; // Raw content with whiteboard markers
-  timestamp: Date;
-}
-
 interface TranscriptPanelProps {
   messages: Message[];
   partialTranscript: string;
   isProcessing: boolean;
   teacherName?: string;
   onUploadClick?: () => void;
+  /** Open a blank whiteboard for the student to sketch their working on */
+  onSketchClick?: () => void;
   onShowWhiteboard?: (content: string) => void;
   onSendText?: (text: string) => void;
+  readOnly?: boolean; // Hide the composer, e.g. when reviewing a past lesson
+  subtitle?: string;
+  userName?: string;
+  userAvatarUrl?: string | null;
+  headerActions?: ReactNode; // e.g. the lesson export menu
+  onCancelPending?: (messageId: string) => void;
 }
 
+const getInitials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map((part) => part[0].toUpperCase()).join("") || "?";
+
+const UserAvatar = ({ name, avatarUrl }: { name: string; avatarUrl?: string | null }) => (
+  <div className="w-10 h-10 rounded-full bg-muted flex-shrink-0 flex items-center justify-center overflow-hidden text-sm font-semibold text-muted-foreground">
+    {avatarUrl ? <img src={avatarUrl} alt={name} className="w-full h-full object-cover" /> : getInitials(name)}
+  </div>
+);
+
 const formatTime = (date: Date) => {
   return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 };
 
-export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, teacherName = "Aria", onUploadClick, onShowWhiteboard, onSendText }: TranscriptPanelProps) => {
+export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, teacherName = "Aria", onUploadClick, onSketchClick, onShowWhiteboard, onSendText, readOnly = false, subtitle = "Tell me how you feel", userName = "You", userAvatarUrl, headerActions, onCancelPending }: TranscriptPanelProps) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [inputText, setInputText] = useState('');
 
@@ -44,8 +54,9 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
         </div>
         <div>
           <h3 className="font-display font-bold text-lg">{teacherName}</h3>
-          <p className="text-sm text-muted-foreground">Tell me how you feel</p>
+          <p className="text-sm text-muted-foreground">{subtitle}</p>
         </div>
+        {headerActions}
       </div>
 
       {/* Messages - fixed height scrollable container */}
@@ -62,11 +73,35 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
                 </div>
               )}
               <div className="flex flex-col gap-1">
-                <div className={`transcript-bubble ${message.role === "assistant" ? "transcript-bubble-ai" : "transcript-bubble-user"}`}>
-                  <p className="text-sm leading-relaxed">{message.content}</p>
+                <div className={`transcript-bubble ${message.role === "assistant" ? "transcript-bubble-ai" : "transcript-bubble-user"} ${message.pending ? "opacity-70" : ""}`}>
+                  {message.content && <p className="text-sm leading-relaxed">{message.content}</p>}
+                  {message.thoughts && (
+                    <details className="mt-2 text-xs text-muted-foreground">
+                      <summary className="cursor-pointer select-none">{teacherName}'s thinking</summary>
+                      <p className="mt-1 whitespace-pre-wrap italic">{message.thoughts}</p>
+                    </details>
+                  )}
                   <div className="flex items-center justify-end gap-1 mt-2">
                     <span className="text-xs text-muted-foreground">{formatTime(message.timestamp)}</span>
-                    <span className="text-xs text-status-speaking">✓✓</span>
+                    {message.pending ? (
+                      <>
+                        <span className="text-xs text-muted-foreground flex items-center gap-1" title="Sends when the connection is back">
+                          <Clock className="w-3 h-3" /> Waiting
+                        </span>
+                        {onCancelPending && (
+                          <button
+                            onClick={() => onCancelPending(message.id)}
+                            className="p-0.5 text-muted-foreground hover:text-destructive rounded transition-colors"
+                            title="Don't send"
+                            aria-label="Cancel message"
+                          >
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-xs text-status-speaking">✓✓</span>
+                    )}
                   </div>
                 </div>
                 {message.role === "assistant" && (
@@ -101,15 +136,7 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
                   </div>
                 )}
               </div>
-              {message.role === "user" && (
-                <div className="w-10 h-10 rounded-full bg-muted flex-shrink-0 flex items-center justify-center overflow-hidden">
-                  <img
-                    src="https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop&crop=face"
-                    alt="User"
-                    className="w-full h-full object-cover"
-                  />
-                </div>
-              )}
+              {message.role === "user" && <UserAvatar name={userName} avatarUrl={userAvatarUrl} />}
             </div>
           </div>
         ))}
@@ -121,13 +148,7 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
               <div className="transcript-bubble transcript-bubble-user opacity-70">
                 <p className="text-sm leading-relaxed italic">{partialTranscript}</p>
               </div>
-              <div className="w-10 h-10 rounded-full bg-muted flex-shrink-0 flex items-center justify-center overflow-hidden">
-                <img
-                  src="https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=100&h=100&fit=crop&crop=face"
-                  alt="User"
-                  className="w-full h-full object-cover"
-                />
-              </div>
+              <UserAvatar name={userName} avatarUrl={userAvatarUrl} />
             </div>
           </div>
         )}
@@ -152,6 +173,7 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
       </div>
 
       {/* Input area with upload button */}
+      {!readOnly && (
       <div className="p-4 border-t border-border/50 flex-shrink-0">
         <div className="flex items-center gap-2 bg-muted rounded-full px-4 py-2">
           <input
@@ -174,6 +196,15 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
           >
             <Upload className="w-5 h-5" />
           </button>
+          {onSketchClick && (
+            <button
+              onClick={onSketchClick}
+              className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+              title={`Sketch your working for ${teacherName} to check`}
+            >
+              <Pencil className="w-5 h-5" />
+            </button>
+          )}
           <button 
             onClick={() => {
               if (inputText.trim() && onSendText) {
@@ -193,6 +224,7 @@ export const TranscriptPanel = ({ messages, partialTranscript, isProcessing, tea
           </button>
         </div>
       </div>
+      )}
     </div>
   );
 };
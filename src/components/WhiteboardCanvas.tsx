@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState, type MouseEvent, type PointerEvent } from "react";
+import {
+  drawAnnotations,
+  eraserWidth,
+  textSize,
+  type Annotation,
+  type AnnotationLayer,
+  type AnnotationPoint,
+  type AnnotationTool,
+} from "@/lib/whiteboardAnnotations";
+import { cn } from "@/lib/utils";
+
+interface WhiteboardCanvasProps {
+  layer: AnnotationLayer | null;
+  /** Drawing mode: takes the pointer away from the board underneath */
+  active: boolean;
+  tool: AnnotationTool;
+  color: string;
+  size: number;
+  onDraw: (annotation: Annotation, boardWidth: number) => void;
+}
+
+/**
+ * A transparent canvas laid over the board (its parent must be positioned).
+ * Annotations are kept in the coordinates of the board width they were
+ * started at and scaled to fit, so a drawing survives the board resizing.
+ */
+const WhiteboardCanvas = ({ layer, active, tool, color, size, onDraw }: WhiteboardCanvasProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [box, setBox] = useState({ width: 0, height: 0 });
+  // The stroke or shape under the pointer, not yet part of the layer
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [textAt, setTextAt] = useState<AnnotationPoint | null>(null);
+  const [text, setText] = useState("");
+  // Escape drops the text instead of placing it when the box loses focus
+  const discardTextRef = useRef(false);
+
+  const scale = layer && box.width ? box.width / layer.width : 1;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => setBox({ width: canvas.clientWidth, height: canvas.clientHeight });
+    measure();
+    if (typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+    const ratio = window.devicePixelRatio || 1;
+    // Resizing the canvas also clears it
+    canvas.width = Math.round(box.width * ratio);
+    canvas.height = Math.round(box.height * ratio);
+    context.setTransform(ratio * scale, 0, 0, ratio * scale, 0, 0);
+    drawAnnotations(context, draft ? [...(layer?.annotations ?? []), draft] : layer?.annotations ?? []);
+  }, [box, scale, layer, draft]);
+
+  // Leaving drawing mode drops anything half-drawn
+  useEffect(() => {
+    if (active) return;
+    setDraft(null);
+    setTextAt(null);
+  }, [active]);
+
+  const pointAt = (event: MouseEvent<HTMLCanvasElement>): AnnotationPoint => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: (event.clientX - rect.left) / scale, y: (event.clientY - rect.top) / scale };
+  };
+
+  const commitText = () => {
+    if (textAt && text.trim() && !discardTextRef.current) onDraw({ kind: "text", at: textAt, text: text.trim(), color, size: textSize(size) }, box.width);
+    discardTextRef.current = false;
+    setTextAt(null);
+    setText("");
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!active || tool === "text" || event.button !== 0) return;
+    const point = pointAt(event);
+    event.currentTarget.setPointerCapture(event.pointerId);
+    if (tool === "pen") setDraft({ kind: "stroke", points: [point], color, width: size });
+    else if (tool === "eraser") setDraft({ kind: "erase", points: [point], width: eraserWidth(size) });
+    else setDraft({ kind: "shape", shape: tool, from: point, to: point, color, width: size });
+  };
+
+  // Text goes down on click, once the press has moved focus off any text being typed (which places it)
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    if (!active || tool !== "text") return;
+    setTextAt(pointAt(event));
+    setText("");
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = pointAt(event);
+    setDraft((current) => {
+      if (!current || current.kind === "text") return current;
+      return current.kind === "shape" ? { ...current, to: point } : { ...current, points: [...current.points, point] };
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const isDot = draft.kind === "shape" && draft.from.x === draft.to.x && draft.from.y === draft.to.y;
+    if (!isDot) onDraw(draft, box.width);
+    setDraft(null);
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        className={cn("absolute inset-0 w-full h-full", active ? "touch-none cursor-crosshair" : "pointer-events-none")}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onClick={handleClick}
+        aria-hidden
+      />
+      {textAt && (
+        <input
+          autoFocus
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={commitText}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+            if (e.key === "Escape") {
+              discardTextRef.current = true;
+              e.currentTarget.blur();
+            }
+          }}
+          placeholder="Type, then Enter"
+          className="absolute bg-transparent outline-none border-b border-dashed border-muted-foreground/50 min-w-[8rem]"
+          style={{
+            left: textAt.x * scale,
+            top: textAt.y * scale,
+            color,
+            fontSize: textSize(size) * scale,
+            fontFamily: "sans-serif",
+            lineHeight: 1,
+          }}
+        />
+      )}
+    </>
+  );
+};
+
+export default WhiteboardCanvas;
@@ -0,0 +1,199 @@
+import type { ReactNode } from "react";
+import { MathBlock, TextWithMath } from "@/components/MathText";
+import { cn } from "@/lib/utils";
+import {
+  plotGeometry,
+  type WhiteboardBlock,
+  type WhiteboardDocument,
+  type WhiteboardNoteKind,
+  type WhiteboardPlot,
+} from "@/lib/whiteboardDocument";
+
+const NOTE_STYLES: Record<WhiteboardNoteKind, { label: string; box: string; heading: string }> = {
+  overview: { label: "📋 Overview", box: "bg-blue-500/10 border-blue-500/20", heading: "text-blue-600 dark:text-blue-400" },
+  keypoints: { label: "🔑 Key Points", box: "bg-amber-500/10 border-amber-500/20", heading: "text-amber-600 dark:text-amber-400" },
+  tips: { label: "💡 Tips & Strategy", box: "bg-purple-500/10 border-purple-500/20", heading: "text-purple-600 dark:text-purple-400" },
+  summary: { label: "📝 Summary", box: "bg-green-500/10 border-green-500/20", heading: "text-green-600 dark:text-green-400" },
+};
+
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 200;
+
+// y = f(x) drawn to fit the box, with the axes where they fall inside it
+const PlotSvg = ({ plot, label }: { plot: WhiteboardPlot; label: string }) => {
+  const geometry = plotGeometry(plot, PLOT_WIDTH, PLOT_HEIGHT);
+  if (!geometry) return <p className="text-sm text-muted-foreground italic">{label}</p>;
+
+  return (
+    <svg viewBox={`0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}`} role="img" aria-label={label} className="w-full max-w-md mx-auto overflow-visible">
+      {geometry.yAxisX !== null && (
+        <line x1={geometry.yAxisX} x2={geometry.yAxisX} y1={0} y2={PLOT_HEIGHT} className="stroke-muted-foreground/40" strokeWidth={1} />
+      )}
+      {geometry.xAxisY !== null && (
+        <line x1={0} x2={PLOT_WIDTH} y1={geometry.xAxisY} y2={geometry.xAxisY} className="stroke-muted-foreground/40" strokeWidth={1} />
+      )}
+      {geometry.lines.map((points, i) => (
+        <polyline key={i} points={points} fill="none" className="stroke-primary" strokeWidth={2} />
+      ))}
+    </svg>
+  );
+};
+
+const Block = ({ block }: { block: WhiteboardBlock }) => {
+  switch (block.type) {
+    case "math":
+      return (
+        <div className="py-2 px-4 bg-muted/30 rounded-lg overflow-x-auto">
+          <MathBlock latex={block.latex} />
+        </div>
+      );
+
+    case "table":
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm border border-border rounded-lg">
+            {block.caption && (
+              <caption className="caption-bottom pt-2 text-xs text-muted-foreground">
+                <TextWithMath text={block.caption} />
+              </caption>
+            )}
+            <thead className="bg-muted/50">
+              <tr>
+                {block.header.map((cell, i) => (
+                  <th key={i} className="px-3 py-2 text-left font-semibold border-b border-border">
+                    <TextWithMath text={cell} />
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-b border-border/50 last:border-0">
+                  {row.map((cell, c) => (
+                    <td key={c} className="px-3 py-2">
+                      <TextWithMath text={cell} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+
+    case "diagram":
+      return (
+        <figure className="py-2">
+          {block.plot ? (
+            <PlotSvg plot={block.plot} label={block.alt} />
+          ) : (
+            <p className="text-sm text-muted-foreground italic">{block.alt}</p>
+          )}
+          {block.caption && (
+            <figcaption className="mt-2 text-xs text-center text-muted-foreground">
+              <TextWithMath text={block.caption} />
+            </figcaption>
+          )}
+        </figure>
+      );
+
+    case "text":
+    default:
+      return (
+        <div className="text-foreground whitespace-pre-line">
+          <TextWithMath text={block.text} />
+        </div>
+      );
+  }
+};
+
+const Blocks = ({ blocks }: { blocks: WhiteboardBlock[] }) => (
+  <div className="space-y-3">
+    {blocks.map((block, i) => (
+      <Block key={i} block={block} />
+    ))}
+  </div>
+);
+
+const Box = ({ className, heading, headingClassName, children }: { className: string; heading: string; headingClassName: string; children: ReactNode }) => (
+  <div className={`p-4 rounded-lg border ${className}`}>
+    <h3 className={`text-sm font-semibold mb-2 ${headingClassName}`}>{heading}</h3>
+    {children}
+  </div>
+);
+
+interface WhiteboardDocumentViewProps {
+  document: WhiteboardDocument;
+  /** While a board is being revealed: how many steps to show; the answer and closing notes wait for the last */
+  revealedSteps?: number;
+  /** Walkthrough: the step in focus, with the rest faded back */
+  activeStep?: number;
+}
+
+/** Renders a validated JSON whiteboard; the Markdown format keeps its own renderer in WhiteboardModal */
+const WhiteboardDocumentView = ({ document, revealedSteps, activeStep }: WhiteboardDocumentViewProps) => {
+  const isRevealing = revealedSteps !== undefined;
+  const steps = isRevealing ? document.steps.slice(0, revealedSteps) : document.steps;
+  const showEnding = steps.length === document.steps.length;
+  const notes = document.notes ?? [];
+  const overviews = notes.filter((note) => note.kind === "overview");
+  const others = notes.filter((note) => note.kind !== "overview");
+  // Everything but the focused step fades back during a walkthrough
+  const faded = activeStep !== undefined ? "opacity-40" : "";
+
+  const renderNote = (note: (typeof notes)[number], i: number) => {
+    const style = NOTE_STYLES[note.kind];
+    return (
+      <Box key={`${note.kind}-${i}`} className={cn(style.box, faded)} heading={style.label} headingClassName={style.heading}>
+        <Blocks blocks={note.blocks} />
+      </Box>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {document.problem && document.problem.length > 0 && (
+        <Box className={cn("bg-muted/50 border-border", faded)} heading="Problem" headingClassName="font-medium text-muted-foreground">
+          <Blocks blocks={document.problem} />
+        </Box>
+      )}
+
+      {overviews.map(renderNote)}
+
+      {steps.map((step, i) => (
+        <div
+          key={i}
+          data-walkthrough-step={i}
+          className={cn(
+            "flex gap-4 rounded-lg transition-all duration-300",
+            isRevealing && "animate-in fade-in slide-in-from-bottom-2 duration-500",
+            activeStep !== undefined && (i === activeStep ? "ring-2 ring-primary/40 bg-primary/5 p-2 -m-2" : "opacity-40")
+          )}
+        >
+          <div className="flex-shrink-0">
+            <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+              <span className="text-sm font-semibold text-primary">{i + 1}</span>
+            </div>
+          </div>
+          <div className="flex-1 pt-1 space-y-3 min-w-0">
+            {step.explanation && <TextWithMath text={step.explanation} />}
+            {step.blocks && <Blocks blocks={step.blocks} />}
+          </div>
+        </div>
+      ))}
+
+      {showEnding && document.answer && document.answer.length > 0 && (
+        <div className={cn("p-4 rounded-lg bg-primary/5 border-2 border-primary/20", faded)}>
+          <h3 className="text-sm font-semibold text-primary mb-2">✓ Answer</h3>
+          <div className="text-lg font-medium text-foreground">
+            <Blocks blocks={document.answer} />
+          </div>
+        </div>
+      )}
+
+      {showEnding && others.map(renderNote)}
+    </div>
+  );
+};
+
+export default WhiteboardDocumentView;
@@ -0,0 +1,119 @@
+import { Circle, Eraser, Minus, MoveUpRight, Pencil, Send, Square, Trash2, Type, Undo2, type LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ANNOTATION_COLORS, ANNOTATION_SIZES, type AnnotationTool } from "@/lib/whiteboardAnnotations";
+import { cn } from "@/lib/utils";
+
+const TOOLS: { tool: AnnotationTool; label: string; icon: LucideIcon }[] = [
+  { tool: "pen", label: "Pen", icon: Pencil },
+  { tool: "eraser", label: "Eraser", icon: Eraser },
+  { tool: "line", label: "Line", icon: Minus },
+  { tool: "arrow", label: "Arrow", icon: MoveUpRight },
+  { tool: "rectangle", label: "Rectangle", icon: Square },
+  { tool: "ellipse", label: "Circle", icon: Circle },
+  { tool: "text", label: "Text", icon: Type },
+];
+
+interface WhiteboardDrawingToolbarProps {
+  tool: AnnotationTool;
+  onToolChange: (tool: AnnotationTool) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  size: number;
+  onSizeChange: (size: number) => void;
+  canUndo: boolean;
+  onUndo: () => void;
+  /** Something is drawn, so there is something to clear or send */
+  hasDrawing: boolean;
+  onClear: () => void;
+  /** Send the drawing to the teacher; hides the button when omitted */
+  onSend?: () => void;
+  disabled?: boolean;
+}
+
+const WhiteboardDrawingToolbar = ({
+  tool,
+  onToolChange,
+  color,
+  onColorChange,
+  size,
+  onSizeChange,
+  canUndo,
+  onUndo,
+  hasDrawing,
+  onClear,
+  onSend,
+  disabled = false,
+}: WhiteboardDrawingToolbarProps) => (
+  <div className="px-6 py-3 border-t border-border flex flex-wrap items-center justify-between gap-3 flex-shrink-0">
+    <div className="flex flex-wrap items-center gap-3" role="toolbar" aria-label="Drawing tools">
+      <div className="flex items-center gap-1">
+        {TOOLS.map(({ tool: value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            variant={tool === value ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onToolChange(value)}
+            disabled={disabled}
+            aria-label={label}
+            aria-pressed={tool === value}
+            title={label}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1.5">
+        {ANNOTATION_COLORS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => onColorChange(value)}
+            disabled={disabled}
+            aria-label={`Colour ${value}`}
+            aria-pressed={color === value}
+            className={cn(
+              "w-6 h-6 rounded-full border-2 transition-transform disabled:opacity-50",
+              color === value ? "border-foreground scale-110" : "border-transparent"
+            )}
+            style={{ backgroundColor: value }}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        {ANNOTATION_SIZES.map((value) => (
+          <Button
+            key={value}
+            variant={size === value ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onSizeChange(value)}
+            disabled={disabled}
+            aria-label={`Size ${value}`}
+            aria-pressed={size === value}
+          >
+            <span className="rounded-full bg-foreground" style={{ width: value + 2, height: value + 2 }} />
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="sm" onClick={onUndo} disabled={disabled || !canUndo} aria-label="Undo" title="Undo">
+          <Undo2 className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onClear} disabled={disabled || !hasDrawing} aria-label="Clear drawing" title="Clear drawing">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+
+    {onSend && (
+      <Button size="sm" onClick={onSend} disabled={disabled || !hasDrawing} className="gap-2">
+        <Send className="w-4 h-4" />
+        Check my working
+      </Button>
+    )}
+  </div>
+);
+
+export default WhiteboardDrawingToolbar;
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import {
+  printWhiteboard,
+  whiteboardFileName,
+  whiteboardToLatex,
+  whiteboardToMarkdown,
+  whiteboardToPng,
+  type ExportableWhiteboard,
+  type WhiteboardExportMeta,
+} from "@/lib/whiteboardExport";
+import { downloadBlob } from "@/lib/download";
+import { toast } from "@/hooks/use-toast";
+
+interface WhiteboardExportMenuProps {
+  board: ExportableWhiteboard;
+  meta: WhiteboardExportMeta;
+  disabled?: boolean;
+}
+
+const WhiteboardExportMenu = ({ board, meta, disabled = false }: WhiteboardExportMenuProps) => {
+  const [isRendering, setIsRendering] = useState(false);
+  // Stamp the export with when it was saved unless the lesson's own date was given
+  const withDate = (): WhiteboardExportMeta => ({ ...meta, date: meta.date ?? new Date() });
+
+  const exportText = (render: typeof whiteboardToLatex, extension: string, type: string) => {
+    const current = withDate();
+    downloadBlob(new Blob([render(board, current)], { type }), `${whiteboardFileName(board, current)}.${extension}`);
+  };
+
+  const printBoard = () => {
+    if (!printWhiteboard(board, withDate())) {
+      toast({
+        title: "Couldn't open the print window",
+        description: "Allow pop-ups for this site, then try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const exportPng = async () => {
+    const current = withDate();
+    setIsRendering(true);
+    try {
+      const png = await whiteboardToPng(board, current);
+      if (!png) {
+        toast({
+          title: "Export failed",
+          description: "This browser couldn't draw the whiteboard as an image. Try Print / Save as PDF instead.",
+          variant: "destructive",
+        });
+        return;
+      }
+      downloadBlob(png, `${whiteboardFileName(board, current)}.png`);
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={disabled || isRendering}>
+          <Download className={`w-4 h-4 ${isRendering ? "animate-pulse" : ""}`} />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Save the whiteboard</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={printBoard}>Print / Save as PDF</DropdownMenuItem>
+        <DropdownMenuItem onSelect={exportPng}>Image (PNG)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => exportText(whiteboardToLatex, "tex", "application/x-tex")}>
+          LaTeX source (.tex)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportText(whiteboardToMarkdown, "md", "text/markdown")}>
+          Markdown
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default WhiteboardExportMenu;
@@ -1,4 +1,3 @@
-import { useEffect, useRef } from "react";
 import {
   Dialog,
   DialogContent,
@@ -7,82 +6,271 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Copy, X, PenLine } from "lucide-react";
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import { Copy, X, PenLine, AlertTriangle, ChevronLeft, ChevronRight, Footprints, RotateCcw, Radio, Pencil } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { ParsedWhiteboard, WhiteboardSection } from "@/lib/whiteboardParser";
+import { loadWhiteboard } from "@/lib/whiteboardDocument";
+import { MathBlock, TextWithMath } from "@/components/MathText";
+import WhiteboardDocumentView from "@/components/WhiteboardDocumentView";
+import WhiteboardExportMenu from "@/components/WhiteboardExportMenu";
+import WhiteboardCanvas from "@/components/WhiteboardCanvas";
+import WhiteboardDrawingToolbar from "@/components/WhiteboardDrawingToolbar";
+import { useWhiteboardAnnotations } from "@/hooks/useWhiteboardAnnotations";
 import {
-  ParsedWhiteboard,
-  parseWhiteboardContent,
-  parseInlineLatex,
-  sanitizeLatex,
-} from "@/lib/whiteboardParser";
-import katex from "katex";
-import "katex/dist/katex.min.css";
+  ANNOTATION_COLORS,
+  ANNOTATION_SIZES,
+  annotatedBoardToPng,
+  checkMyWorkingPrompt,
+  hasInk,
+  whiteboardBoardKey,
+  type AnnotationTool,
+} from "@/lib/whiteboardAnnotations";
+import type { WhiteboardExportMeta } from "@/lib/whiteboardExport";
+import { narratedStepIndex, sectionGroupStarts, walkthroughSteps } from "@/lib/whiteboardWalkthrough";
+import { cn } from "@/lib/utils";
 
 interface WhiteboardModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   content: string;
+  /** Content is still arriving: reveal it a step at a time as it grows */
+  isStreaming?: boolean;
+  /** Ask the teacher to go over a step again; hides the button when omitted */
+  onExplainStep?: (section: WhiteboardSection, boardTitle: string) => void;
+  /** What the teacher is saying right now, so the walkthrough can follow along */
+  narration?: string;
+  /** Teacher, topic and date for the header of exported copies; hides Export when omitted */
+  exportMeta?: WhiteboardExportMeta;
+  /** Send the student's drawing to the teacher as a PNG; hides the button when omitted */
+  onSendDrawing?: (pngBase64: string, prompt: string) => void;
+  /** Where a blank board's drawing is saved (see newSketchKey); without one it isn't saved */
+  sketchKey?: string | null;
 }
 
-// Render LaTeX math using KaTeX
-const MathBlock = ({ latex, displayMode = true }: { latex: string; displayMode?: boolean }) => {
-  const containerRef = useRef<HTMLElement>(null);
+// Pause between revealing one step and the next while a board streams in
+const STEP_REVEAL_MS = 700;
+// Newly revealed sections fade up into place
+const REVEAL_CLASS = "[&>*]:animate-in [&>*]:fade-in [&>*]:slide-in-from-bottom-2 [&>*]:duration-500";
 
-  useEffect(() => {
-    if (containerRef.current && latex) {
-      // Sanitize to remove any nested delimiters before rendering
-      const cleanLatex = sanitizeLatex(latex);
-      try {
-        katex.render(cleanLatex, containerRef.current, {
-          displayMode,
-          throwOnError: false,
-          strict: false,
-        });
-      } catch (e) {
-        console.error("KaTeX render error:", e);
-        if (containerRef.current) {
-          // Show clean latex without delimiters as fallback
-          containerRef.current.textContent = cleanLatex;
-        }
-      }
-    }
-  }, [latex, displayMode]);
+// One Markdown section, styled by its kind
+const renderSection = (section: WhiteboardSection) => {
+  switch (section.type) {
+    case 'problem':
+      return (
+        <div className="p-4 rounded-lg bg-muted/50 border border-border">
+          <h3 className="text-sm font-medium text-muted-foreground mb-2">Problem</h3>
+          <div className="text-foreground">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
 
-  const Tag = displayMode ? ("div" as const) : ("span" as const);
-  return <Tag ref={containerRef as any} className={displayMode ? "my-4 text-center" : "inline"} />;
-};
+    case 'overview':
+      return (
+        <div className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20">
+          <h3 className="text-sm font-semibold text-blue-600 dark:text-blue-400 mb-2">📋 Overview</h3>
+          <div className="text-foreground">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
 
-// Parse and render markdown bold (**text**) as actual bold
-const renderWithBold = (text: string) => {
-  const parts = text.split(/(\*\*[^*]+\*\*)/g);
-  return parts.map((part, i) => {
-    if (part.startsWith('**') && part.endsWith('**')) {
-      const boldText = part.slice(2, -2);
-      return <strong key={i} className="font-semibold">{boldText}</strong>;
-    }
-    return <span key={i}>{part}</span>;
-  });
+    case 'keypoints':
+      return (
+        <div className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/20">
+          <h3 className="text-sm font-semibold text-amber-600 dark:text-amber-400 mb-3">🔑 Key Points</h3>
+          <div className="text-foreground space-y-2">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
+
+    case 'tips':
+      return (
+        <div className="p-4 rounded-lg bg-purple-500/10 border border-purple-500/20">
+          <h3 className="text-sm font-semibold text-purple-600 dark:text-purple-400 mb-2">💡 Tips & Strategy</h3>
+          <div className="text-foreground">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
+
+    case 'summary':
+      return (
+        <div className="p-4 rounded-lg bg-green-500/10 border border-green-500/20">
+          <h3 className="text-sm font-semibold text-green-600 dark:text-green-400 mb-2">📝 Summary</h3>
+          <div className="text-foreground">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
+
+    case 'step':
+      return (
+        <div className="flex gap-4">
+          <div className="flex-shrink-0">
+            <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+              <span className="text-sm font-semibold text-primary">
+                {section.stepNumber}
+              </span>
+            </div>
+          </div>
+          <div className="flex-1 pt-1">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
+
+    case 'math':
+      return (
+        <div className="py-2 px-4 bg-muted/30 rounded-lg overflow-x-auto">
+          <MathBlock latex={section.content} />
+        </div>
+      );
+
+    case 'answer':
+      return (
+        <div className="p-4 rounded-lg bg-primary/5 border-2 border-primary/20">
+          <h3 className="text-sm font-semibold text-primary mb-2">✓ Answer</h3>
+          <div className="text-lg font-medium text-foreground">
+            <TextWithMath text={section.content} />
+          </div>
+        </div>
+      );
+
+    case 'text':
+    default:
+      return (
+        <div className="text-foreground">
+          <TextWithMath text={section.content} />
+        </div>
+      );
+  }
 };
 
-// Render text with inline LaTeX and markdown bold
-const TextWithMath = ({ text }: { text: string }) => {
-  const segments = parseInlineLatex(text);
+const WhiteboardModal = ({ open, onOpenChange, content, isStreaming = false, onExplainStep, narration = "", exportMeta, onSendDrawing, sketchKey = null }: WhiteboardModalProps) => {
+  const board = useMemo(() => loadWhiteboard(content), [content]);
+  // JSON boards have no Markdown sections; they render through WhiteboardDocumentView
+  const parsed: ParsedWhiteboard = board.format === "markdown"
+    ? board.parsed
+    : { title: board.document?.title ?? "Whiteboard", sections: [], rawContent: content };
 
-  return (
-    <span>
-      {segments.map((segment, i) =>
-        segment.isLatex ? (
-          <MathBlock key={i} latex={segment.text} displayMode={false} />
-        ) : (
-          <span key={i}>{renderWithBold(segment.text)}</span>
-        )
-      )}
-    </span>
+  // Steps revealed so far; Infinity when the board was opened whole rather than streamed
+  const [revealed, setRevealed] = useState(Infinity);
+  // A step's maths and follow-on text arrive with it, so each reveal starts at a new heading
+  const groupStarts = sectionGroupStarts(parsed.sections);
+  const revealUnits = board.format === "markdown" ? groupStarts.length : board.document?.steps.length ?? 0;
+
+  // Layout effects so a streaming board never paints fully revealed first
+  useLayoutEffect(() => {
+    if (!open) setRevealed(Infinity);
+  }, [open]);
+
+  useLayoutEffect(() => {
+    if (open && isStreaming) setRevealed((n) => (n === Infinity ? 0 : n));
+  }, [open, isStreaming]);
+
+  // Keeps going after the stream ends until everything is on the board
+  useEffect(() => {
+    if (revealed >= revealUnits) return;
+    const timer = setTimeout(() => setRevealed((n) => n + 1), STEP_REVEAL_MS);
+    return () => clearTimeout(timer);
+  }, [revealed, revealUnits]);
+
+  const isRevealing = revealed !== Infinity;
+  const visibleSections = revealed < groupStarts.length ? parsed.sections.slice(0, groupStarts[revealed]) : parsed.sections;
+  const isWriting = isStreaming || revealed < revealUnits;
+  // Nothing to export from an empty or undrawable board
+  const exportable = board.format === "markdown" ? (parsed.sections.length > 0 ? board.parsed : null) : board.document;
+
+  // Walkthrough: one step in focus at a time, following the teacher until the student takes over
+  const steps = useMemo(() => walkthroughSteps(board), [board]);
+  const stepOfSection = useMemo(
+    () => new Map(steps.flatMap((step, i) => step.sectionIndexes.map((index) => [index, i] as const))),
+    [steps]
   );
-};
+  const [walkthrough, setWalkthrough] = useState(false);
+  const [activeStep, setActiveStep] = useState(0);
+  const [followNarration, setFollowNarration] = useState(true);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) return;
+    setWalkthrough(false);
+    setActiveStep(0);
+    setFollowNarration(true);
+  }, [open]);
 
-const WhiteboardModal = ({ open, onOpenChange, content }: WhiteboardModalProps) => {
-  const parsed: ParsedWhiteboard = parseWhiteboardContent(content);
+  useEffect(() => {
+    if (!walkthrough || !followNarration) return;
+    const narrated = narratedStepIndex(narration, steps);
+    if (narrated !== null) setActiveStep(narrated);
+  }, [walkthrough, followNarration, narration, steps]);
+
+  useEffect(() => {
+    if (!walkthrough) return;
+    contentRef.current
+      ?.querySelector(`[data-walkthrough-step="${activeStep}"]`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [walkthrough, activeStep]);
+
+  const goToStep = (index: number) => {
+    setFollowNarration(false);
+    setActiveStep(Math.max(0, Math.min(steps.length - 1, index)));
+  };
+
+  const handleExplainStep = () => {
+    const step = steps[activeStep];
+    if (!step || !onExplainStep) return;
+    onExplainStep(step.section, parsed.title);
+  };
+
+  // Drawing: over the teacher's board, or on a blank one for the student's own working
+  const isBlank = !content.trim();
+  const title = isBlank ? "My working" : parsed.title;
+  const [drawMode, setDrawMode] = useState(false);
+  const isDrawing = (drawMode || isBlank) && !isWriting;
+  const [tool, setTool] = useState<AnnotationTool>("pen");
+  const [color, setColor] = useState(ANNOTATION_COLORS[0]);
+  const [size, setSize] = useState(ANNOTATION_SIZES[1]);
+  const [isSendingDrawing, setIsSendingDrawing] = useState(false);
+  const annotations = useWhiteboardAnnotations({
+    // Nothing to load or save until the board has finished arriving
+    boardKey: open && !isWriting ? (isBlank ? sketchKey : whiteboardBoardKey(content)) : null,
+    boardTitle: title,
+  });
+  const hasDrawing = Boolean(annotations.layer?.annotations.length);
+
+  useEffect(() => {
+    if (!open) setDrawMode(false);
+  }, [open]);
+
+  const handleSendDrawing = async () => {
+    if (!onSendDrawing) return;
+    if (!annotations.layer || !hasInk(annotations.layer)) {
+      toast({
+        title: "Nothing to send",
+        description: "Draw your working on the board first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // Send the strokes over the board they were drawn on; a blank board is just ink on white
+    const onBoard = !isBlank && exportable !== null;
+    setIsSendingDrawing(true);
+    const png = await annotatedBoardToPng(annotations.layer, onBoard ? exportable : null, exportMeta);
+    setIsSendingDrawing(false);
+    if (!png) {
+      toast({
+        title: "Couldn't send your drawing",
+        description: "The board couldn't be turned into a picture. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    }
+    onSendDrawing(png, checkMyWorkingPrompt(onBoard ? parsed.title : null));
+  };
 
   const handleCopy = async () => {
     try {
@@ -111,124 +299,161 @@ const WhiteboardModal = ({ open, onOpenChange, content }: WhiteboardModalProps)
                 <PenLine className="w-5 h-5 text-primary" />
               </div>
               <DialogTitle className="text-xl font-semibold">
-                <TextWithMath text={parsed.title} />
+                <TextWithMath text={title} />
               </DialogTitle>
             </div>
             <div className="flex items-center gap-2">
-              <Button variant="outline" size="sm" onClick={handleCopy} className="gap-2">
-                <Copy className="w-4 h-4" />
-                Copy
-              </Button>
+              {steps.length > 1 && (
+                <Button
+                  variant={walkthrough ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setWalkthrough((on) => !on)}
+                  disabled={isWriting}
+                  className="gap-2"
+                  aria-pressed={walkthrough}
+                >
+                  <Footprints className="w-4 h-4" />
+                  Walk through
+                </Button>
+              )}
+              {!isBlank && (
+                <Button
+                  variant={drawMode ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setDrawMode((on) => !on)}
+                  disabled={isWriting}
+                  className="gap-2"
+                  aria-pressed={drawMode}
+                >
+                  <Pencil className="w-4 h-4" />
+                  Draw
+                </Button>
+              )}
+              {exportMeta && exportable && <WhiteboardExportMenu board={exportable} meta={exportMeta} disabled={isWriting} />}
+              {!isBlank && (
+                <Button variant="outline" size="sm" onClick={handleCopy} className="gap-2">
+                  <Copy className="w-4 h-4" />
+                  Copy
+                </Button>
+              )}
             </div>
           </div>
         </DialogHeader>
 
         {/* Content */}
         <ScrollArea className="flex-1 px-6">
-          <div className="py-6 space-y-6">
-            {parsed.sections.map((section, index) => {
-              switch (section.type) {
-                case 'problem':
-                  return (
-                    <div key={index} className="p-4 rounded-lg bg-muted/50 border border-border">
-                      <h3 className="text-sm font-medium text-muted-foreground mb-2">Problem</h3>
-                      <div className="text-foreground">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'overview':
-                  return (
-                    <div key={index} className="p-4 rounded-lg bg-blue-500/10 border border-blue-500/20">
-                      <h3 className="text-sm font-semibold text-blue-600 dark:text-blue-400 mb-2">📋 Overview</h3>
-                      <div className="text-foreground">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'keypoints':
-                  return (
-                    <div key={index} className="p-4 rounded-lg bg-amber-500/10 border border-amber-500/20">
-                      <h3 className="text-sm font-semibold text-amber-600 dark:text-amber-400 mb-3">🔑 Key Points</h3>
-                      <div className="text-foreground space-y-2">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'tips':
-                  return (
-                    <div key={index} className="p-4 rounded-lg bg-purple-500/10 border border-purple-500/20">
-                      <h3 className="text-sm font-semibold text-purple-600 dark:text-purple-400 mb-2">💡 Tips & Strategy</h3>
-                      <div className="text-foreground">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'summary':
-                  return (
-                    <div key={index} className="p-4 rounded-lg bg-green-500/10 border border-green-500/20">
-                      <h3 className="text-sm font-semibold text-green-600 dark:text-green-400 mb-2">📝 Summary</h3>
-                      <div className="text-foreground">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'step':
-                  return (
-                    <div key={index} className="flex gap-4">
-                      <div className="flex-shrink-0">
-                        <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
-                          <span className="text-sm font-semibold text-primary">
-                            {section.stepNumber}
-                          </span>
-                        </div>
-                      </div>
-                      <div className="flex-1 pt-1">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'math':
-                  return (
-                    <div key={index} className="py-2 px-4 bg-muted/30 rounded-lg overflow-x-auto">
-                      <MathBlock latex={section.content} />
-                    </div>
-                  );
-
-                case 'answer':
-                  return (
-                    <div key={index} className="p-4 rounded-lg bg-primary/5 border-2 border-primary/20">
-                      <h3 className="text-sm font-semibold text-primary mb-2">✓ Answer</h3>
-                      <div className="text-lg font-medium text-foreground">
-                        <TextWithMath text={section.content} />
-                      </div>
-                    </div>
-                  );
-
-                case 'text':
-                default:
-                  return (
-                    <div key={index} className="text-foreground">
-                      <TextWithMath text={section.content} />
-                    </div>
-                  );
-              }
-            })}
-
-            {/* Show raw content if no sections parsed */}
-            {parsed.sections.length === 0 && content && (
-              <div className="whitespace-pre-wrap text-foreground">
-                {content}
-              </div>
-            )}
+          <div className="relative">
+            {/* Room below the board to work things out */}
+            <div ref={contentRef} className={cn("py-6 space-y-6", isRevealing && REVEAL_CLASS, (isDrawing || hasDrawing) && "pb-64", isBlank && "min-h-[60vh]")}>
+              {board.format === "json" && board.document && (
+                <WhiteboardDocumentView
+                  document={board.document}
+                  revealedSteps={isRevealing ? revealed : undefined}
+                  activeStep={walkthrough ? activeStep : undefined}
+                />
+              )}
+
+              {board.format === "json" && !board.document && (
+                <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/20">
+                  <h3 className="text-sm font-semibold text-destructive mb-2 flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4" />
+                    This whiteboard couldn't be drawn
+                  </h3>
+                  <ul className="text-sm text-foreground space-y-1 list-disc pl-5">
+                    {board.errors.map((error, index) => (
+                      <li key={index}>
+                        {error.path && <code className="text-xs">{error.path}</code>} {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {visibleSections.map((section, index) => {
+                const step = stepOfSection.get(index);
+                return (
+                  <div
+                    key={index}
+                    data-walkthrough-step={step}
+                    className={walkthrough ? cn("rounded-lg transition-all duration-300", step === activeStep ? "ring-2 ring-primary/40 bg-primary/5 p-2 -m-2" : "opacity-40") : undefined}
+                  >
+                    {renderSection(section)}
+                  </div>
+                );
+              })}
+
+              {isWriting && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground animate-pulse">
+                  <PenLine className="w-4 h-4" />
+                  Writing…
+                </div>
+              )}
+
+              {/* Show raw content if no sections parsed */}
+              {parsed.sections.length === 0 && (board.format === "markdown" || !board.document) && !isStreaming && content && (
+                <div className="whitespace-pre-wrap text-foreground">
+                  {content}
+                </div>
+              )}
+            </div>
+            <WhiteboardCanvas
+              layer={annotations.layer}
+              active={isDrawing && !annotations.isLoading}
+              tool={tool}
+              color={color}
+              size={size}
+              onDraw={annotations.addAnnotation}
+            />
           </div>
         </ScrollArea>
+
+        {isDrawing && (
+          <WhiteboardDrawingToolbar
+            tool={tool}
+            onToolChange={setTool}
+            color={color}
+            onColorChange={setColor}
+            size={size}
+            onSizeChange={setSize}
+            canUndo={annotations.canUndo}
+            onUndo={annotations.undo}
+            hasDrawing={hasDrawing}
+            onClear={annotations.clear}
+            onSend={onSendDrawing ? handleSendDrawing : undefined}
+            disabled={annotations.isLoading || isSendingDrawing}
+          />
+        )}
+
+        {/* Walkthrough controls */}
+        {walkthrough && steps.length > 0 && (
+          <div className="px-6 py-3 border-t border-border flex items-center justify-between gap-3 flex-shrink-0">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => goToStep(activeStep - 1)} disabled={activeStep === 0} aria-label="Previous step">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground tabular-nums">
+                Step {activeStep + 1} of {steps.length}
+              </span>
+              <Button variant="outline" size="sm" onClick={() => goToStep(activeStep + 1)} disabled={activeStep === steps.length - 1} aria-label="Next step">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              {!followNarration && narration && (
+                <Button variant="ghost" size="sm" onClick={() => setFollowNarration(true)} className="gap-2">
+                  <Radio className="w-4 h-4" />
+                  Follow teacher
+                </Button>
+              )}
+              {onExplainStep && (
+                <Button size="sm" onClick={handleExplainStep} className="gap-2">
+                  <RotateCcw className="w-4 h-4" />
+                  Explain this step again
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
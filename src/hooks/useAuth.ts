@@ -0,0 +1,24 @@
+import { createContext, useContext } from "react";
+import type { Session, User } from "@supabase/supabase-js";
+import type { Profile, ProfileInput } from "@/lib/profiles";
+
+export interface AuthContextValue {
+  session: Session | null;
+  user: User | null;
+  /** The learner's profile; null until loaded or when not created yet */
+  profile: Profile | null;
+  /** True until the initial session (and its profile) has been resolved */
+  isLoading: boolean;
+  updateProfile: (input: ProfileInput) => Promise<boolean>;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = (): AuthContextValue => {
+  const value = useContext(AuthContext);
+  if (!value) {
+    throw new Error("useAuth must be used inside <AuthProvider>");
+  }
+  return value;
+};
@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ConnectionQualityMonitor,
+  summariseVideoStats,
+  type ConnectionState,
+  type InboundVideoCounters,
+  type VideoStats,
+} from "@/lib/connectionQuality";
+
+interface UseConnectionQualityOptions {
+  isConnected: boolean;
+  /** Between automatic reconnect attempts: the rating carries over to the new socket */
+  isReconnecting?: boolean;
+  /** Round trip to the realtime proxy in ms, or null on timeout */
+  ping: () => Promise<number | null>;
+  /** Bytes waiting in the WebSocket's send buffer */
+  getBufferedAmount: () => number;
+  /** WebRTC stats for the avatar stream, or null without one */
+  getVideoStats?: () => Promise<RTCStatsReport | null>;
+  intervalMs?: number;
+}
+
+const SAMPLE_INTERVAL_MS = 2000;
+
+/**
+ * Samples the lesson connection while it's up and rates it, stepping media
+ * down when it stays poor. Starts again from full media after the student
+ * disconnects; an automatic reconnect keeps the rating, so a flaky link doesn't
+ * bounce back to full media every time it drops.
+ */
+export const useConnectionQuality = ({
+  isConnected,
+  isReconnecting = false,
+  ping,
+  getBufferedAmount,
+  getVideoStats,
+  intervalMs = SAMPLE_INTERVAL_MS,
+}: UseConnectionQualityOptions): ConnectionState => {
+  const monitorRef = useRef(new ConnectionQualityMonitor());
+  const [state, setState] = useState<ConnectionState>(monitorRef.current.state);
+
+  // Sampling restarts whenever these change, so read them through a ref
+  const sourcesRef = useRef({ ping, getBufferedAmount, getVideoStats });
+  sourcesRef.current = { ping, getBufferedAmount, getVideoStats };
+
+  useEffect(() => {
+    const monitor = monitorRef.current;
+    if (!isConnected) {
+      if (!isReconnecting) {
+        monitor.reset();
+        setState(monitor.state);
+      }
+      return;
+    }
+
+    let cancelled = false;
+    let inFlight = false;
+    let counters: InboundVideoCounters | null = null;
+
+    const sample = async () => {
+      // A ping slower than the interval shouldn't stack up behind itself
+      if (inFlight) return;
+      inFlight = true;
+      try {
+        const { ping, getBufferedAmount, getVideoStats } = sourcesRef.current;
+        const [rttMs, report] = await Promise.all([ping(), getVideoStats?.() ?? Promise.resolve(null)]);
+        let video: VideoStats | null = null;
+        const summary = report ? summariseVideoStats(report, counters) : null;
+        if (summary) {
+          video = summary.stats;
+          counters = summary.counters;
+        } else {
+          counters = null;
+        }
+        if (!cancelled) setState(monitor.add({ rttMs, bufferedBytes: getBufferedAmount(), video }));
+      } catch (e) {
+        console.warn("Connection quality sample failed:", e);
+      } finally {
+        inFlight = false;
+      }
+    };
+
+    const interval = window.setInterval(sample, intervalMs);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [isConnected, isReconnecting, intervalMs]);
+
+  return state;
+};
@@ -0,0 +1,143 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { createQuiz, markAnswer, summarizeQuiz, type Quiz, type QuizAnswer } from "@/lib/quiz";
+import {
+  addMissedQuestions,
+  buildReviewQuiz,
+  countDueReviewItems,
+  listDueReviewItems,
+  recordReviewResult,
+  type ReviewItem,
+} from "@/lib/reviewItems";
+import type { QuizSpec } from "@/lib/teacherTools";
+
+interface UseQuizOptions {
+  /** Called once the student finishes a quiz, e.g. to report results to the teacher */
+  onFinish?: (quiz: Quiz, answers: QuizAnswer[]) => void;
+}
+
+interface UseQuizReturn {
+  quiz: Quiz | null;
+  answers: QuizAnswer[];
+  isFinished: boolean;
+  dueReviewCount: number;
+  startQuiz: (spec: QuizSpec) => void;
+  startReview: () => Promise<boolean>;
+  answerQuestion: (questionId: string, response: string) => QuizAnswer | null;
+  finishQuiz: () => void;
+  closeQuiz: () => void;
+  /** Close without reporting to the teacher, e.g. when the lesson ends mid-quiz */
+  abandonQuiz: () => void;
+}
+
+/**
+ * State for the quiz panel: marks answers as they come in and, when a quiz
+ * finishes, queues missed questions for spaced repetition (teacher quizzes)
+ * or reschedules the reviewed items (review quizzes).
+ */
+export const useQuiz = (options: UseQuizOptions = {}): UseQuizReturn => {
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [isFinished, setIsFinished] = useState(false);
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+
+  const quizRef = useRef<Quiz | null>(null);
+  const answersRef = useRef<QuizAnswer[]>([]);
+  const isFinishedRef = useRef(false);
+  const reviewItemsRef = useRef(new Map<string, ReviewItem>());
+  const optionsRef = useRef(options);
+
+  useEffect(() => { optionsRef.current = options; });
+
+  const refreshDueCount = useCallback(async () => {
+    setDueReviewCount(await countDueReviewItems());
+  }, []);
+
+  useEffect(() => {
+    refreshDueCount();
+  }, [refreshDueCount]);
+
+  const begin = useCallback((next: Quiz) => {
+    quizRef.current = next;
+    answersRef.current = [];
+    isFinishedRef.current = false;
+    setQuiz(next);
+    setAnswers([]);
+    setIsFinished(false);
+  }, []);
+
+  const startQuiz = useCallback((spec: QuizSpec) => {
+    reviewItemsRef.current.clear();
+    begin(createQuiz(spec));
+  }, [begin]);
+
+  const startReview = useCallback(async () => {
+    const items = await listDueReviewItems();
+    const review = buildReviewQuiz(items);
+    if (!review) return false;
+    reviewItemsRef.current = new Map(items.map((item) => [item.id, item]));
+    begin(review);
+    return true;
+  }, [begin]);
+
+  const answerQuestion = useCallback((questionId: string, response: string) => {
+    const question = quizRef.current?.questions.find((q) => q.id === questionId);
+    if (!question || isFinishedRef.current) return null;
+    if (answersRef.current.some((a) => a.questionId === questionId)) return null;
+
+    const answer: QuizAnswer = { questionId, response, ...markAnswer(question, response) };
+    answersRef.current = [...answersRef.current, answer];
+    setAnswers(answersRef.current);
+    return answer;
+  }, []);
+
+  const complete = useCallback((report: boolean) => {
+    const current = quizRef.current;
+    if (!current || isFinishedRef.current) return;
+    isFinishedRef.current = true;
+    setIsFinished(true);
+
+    const finalAnswers = answersRef.current;
+    if (current.source === "review") {
+      const byQuestion = new Map(finalAnswers.map((a) => [a.questionId, a]));
+      Promise.all(
+        current.questions.map((question) => {
+          const item = question.reviewItemId ? reviewItemsRef.current.get(question.reviewItemId) : undefined;
+          return item ? recordReviewResult(item, Boolean(byQuestion.get(question.id)?.correct)) : true;
+        })
+      ).then(refreshDueCount);
+    } else {
+      addMissedQuestions(summarizeQuiz(current, finalAnswers).missed).then(refreshDueCount);
+    }
+
+    if (report) optionsRef.current.onFinish?.(current, finalAnswers);
+  }, [refreshDueCount]);
+
+  const finishQuiz = useCallback(() => complete(true), [complete]);
+
+  const close = useCallback((report: boolean) => {
+    // Closing part-way still counts what was answered
+    if (quizRef.current && !isFinishedRef.current) complete(report);
+    quizRef.current = null;
+    answersRef.current = [];
+    setQuiz(null);
+    setAnswers([]);
+    setIsFinished(false);
+  }, [complete]);
+
+  const closeQuiz = useCallback(() => close(true), [close]);
+  // The spaced-repetition queue still learns from the answers; the teacher is gone
+  const abandonQuiz = useCallback(() => close(false), [close]);
+
+  return {
+    quiz,
+    answers,
+    isFinished,
+    dueReviewCount,
+    startQuiz,
+    startReview,
+    answerQuestion,
+    finishQuiz,
+    closeQuiz,
+    abandonQuiz,
+  };
+};
@@ -1,15 +1,62 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import { AudioRecorder, encodeAudioForAPI, AudioQueue } from "@/lib/audioUtils";
+import { AudioRecorder, encodePCM16ForAPI, AudioQueue, CAPTURE_SAMPLE_RATE, PLAYBACK_SAMPLE_RATE } from "@/lib/audioUtils";
 import { toast } from "@/hooks/use-toast";
-import { extractWhiteboardContent, removeWhiteboardMarkers } from "@/lib/whiteboardParser";
-
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  originalContent?: string;
-  rawTranscription?: string;
-  timestamp: Date;
+import { extractWhiteboardContent, removeWhiteboardMarkers, streamingWhiteboardContent } from "@/lib/whiteboardParser";
+import {
+  createLessonSession,
+  saveLessonMessages,
+  saveCompletedObjectives,
+  endLessonSession,
+  loadLessonMessages,
+  reopenLessonSession,
+} from "@/lib/lessonSessions";
+import { extractSessionMemories } from "@/lib/learnerMemory";
+import { buildContextRestoration } from "@/lib/sessionContext";
+import { classifyAssistantText } from "@/lib/thoughtClassifier";
+import {
+  createTeacherToolRegistry,
+  ToolError,
+  whiteboardDocumentFromArgs,
+  type QuizSpec,
+  type ToolRegistry,
+  type WhiteboardToolArgs,
+} from "@/lib/teacherTools";
+import { GeminiLiveTransport } from "@/lib/geminiLiveTransport";
+import { requestRealtimeTicket } from "@/lib/sessionTokens";
+import type { RealtimeTransport, RealtimeTransportEvent, RealtimeTransportFactory } from "@/lib/realtimeTransport";
+import { truncateToHeard, type Message } from "@/lib/chatMessage";
+import { buildLessonPlanContext, type LessonPlan } from "@/lib/lessonPlans";
+import { SpeechGate, type MicMode } from "@/lib/vad";
+import { LessonRecording } from "@/lib/lessonRecording";
+import { setOutputDevice } from "@/lib/audioDevices";
+import {
+  formatWhiteboardErrors,
+  loadWhiteboard,
+  validateWhiteboardDocument,
+  type WhiteboardValidationError,
+} from "@/lib/whiteboardDocument";
+import { OutboundQueue, imageEntryKey, textEntryKey, type OutboundPayload } from "@/lib/outboundQueue";
+
+export type { Message };
+
+export interface UseRealtimeChatOptions {
+  /** Creates the transport for each (re)connection; defaults to Gemini Live */
+  createTransport?: RealtimeTransportFactory;
+  /** Enables the set_bsl_mode tool; the page owns BSL state */
+  onBSLModeRequest?: (enabled: boolean) => void;
+  /** Enables the request_screen_capture tool; resolves to a base64 JPEG, or null when not sharing */
+  captureScreen?: () => Promise<string | null>;
+  /** Enables the start_quiz tool; the page owns the quiz panel */
+  onQuizRequest?: (quiz: QuizSpec) => void;
+  /** Lesson plan the session follows; enables the mark_objective_complete tool */
+  lessonPlan?: LessonPlan | null;
+  /** How the mic decides the student is talking; defaults to voice activity */
+  micMode?: MicMode;
+  /** Microphone and speaker to use; null or unset for the browser default */
+  inputDeviceId?: string | null;
+  outputDeviceId?: string | null;
+  /** Play the teacher's voice straight to the speakers rather than through the avatar, e.g. with avatar video off */
+  playVoiceLocally?: boolean;
 }
 
 interface UseRealtimeChatReturn {
@@ -20,44 +67,91 @@ interface UseRealtimeChatReturn {
   isRecording: boolean;
   isProcessing: boolean;
   isSpeaking: boolean;
+  /** Whether the student's speech is currently being sent */
+  isUserTalking: boolean;
   audioLevel: number;
   status: "idle" | "listening" | "speaking" | "processing";
   connect: () => Promise<void>;
   disconnect: () => void;
   startRecording: () => void;
   stopRecording: () => void;
+  /** Push-to-talk: start and stop sending the student's speech */
+  startTalking: () => void;
+  stopTalking: () => void;
   setSimliAudioHandler: (listenToTrack: (track: MediaStreamTrack) => void, clearBuffer: () => void) => void;
   sendImage: (base64: string, mimeType: string, prompt?: string) => void;
   sendTextContent: (text: string, fileName?: string) => void;
   sendBSLModeChange: (enabled: boolean) => void;
+  sendQuizResults: (report: string, summary: string) => void;
+  /** Drop a message still waiting to be sent after a reconnect */
+  cancelPendingMessage: (messageId: string) => void;
   sendGreeting: () => void;
+  resumeLesson: (sessionId: string, completedObjectives?: string[]) => Promise<boolean>;
+  completedObjectives: string[];
   whiteboardContent: string;
   showWhiteboard: boolean;
+  /** The whiteboard on screen is still arriving; its content grows a few lines at a time */
+  isWhiteboardStreaming: boolean;
   openWhiteboard: (content: string) => void;
   closeWhiteboard: () => void;
+  /** Both sides of the lesson audio so far, for export */
+  getLessonRecording: () => LessonRecording | null;
+  /** Round trip to the realtime proxy in ms, or null if it timed out or isn't connected */
+  pingServer: () => Promise<number | null>;
+  /** Bytes of outgoing messages still waiting to be sent */
+  getOutboundBacklog: () => number;
 }
 
-const WEBSOCKET_URL = "wss://xjdgrrlmwulqvamupvpc.functions.supabase.co/functions/v1/realtime-chat";
-
-const GEMINI_MODEL = "gemini-2.5-flash-native-audio-preview-12-2025";
+// The deployed proxy requires a session ticket; local mock servers (VITE_REALTIME_WS_URL) don't check one
+const createDefaultTransport: RealtimeTransportFactory = () =>
+  new GeminiLiveTransport({ getTicket: import.meta.env.VITE_REALTIME_WS_URL ? undefined : requestRealtimeTicket });
 
 // Reconnect constants
 const MAX_RECONNECT_ATTEMPTS = 5;
 const RECONNECT_BASE_DELAY = 1000;
 
-// Helper to reliably strip internal thoughts and system blocks from being displayed to the user
-const cleanDisplayContent = (text: string) => {
-  if (!text) return "";
+// Build the visible fields of an assistant message from its two streams:
+// the audio transcription (what the student heard) and the text parts, which
+// carry whiteboards but can also contain leaked model thoughts.
+const buildAssistantFields = (text: string, transcript: string): Pick<Message, "content" | "originalContent" | "thoughts"> => {
+  const { spoken, thoughts } = classifyAssistantText(text);
+  const spokenText = removeWhiteboardMarkers(spoken).trim();
+  const heard = transcript.trim();
+  // originalContent keeps whiteboard markers for replay and persistence; when the
+  // text parts hold nothing but a whiteboard, prefix what was said so it isn't lost
+  const original = heard && !spokenText && spoken ? `${heard}\n\n${spoken}` : spoken;
+  return {
+    content: heard || spokenText,
+    originalContent: original || undefined,
+    thoughts: thoughts || undefined,
+  };
+};
 
-  // The gemini-2.5-flash-native-audio-preview model structurally hallucinates debug "internal thoughts"
-  // into the text modality instead of the transcribed text. Because it is an allowlisted preview model, 
-  // it ignores XML/HTML formatting constraints. 
-  // We MUST replace its text output with an incredibly clear Visual Audio Badge so the user knows 
-  // it is functioning perfectly as a Voice Agent, rather than confusing them with raw CoT logs.
-  return "🔊 Audio Response";
+// Context note telling the model how to adapt when BSL mode changes
+const getBSLModeNote = (enabled: boolean) =>
+  enabled
+    ? `[SYSTEM NOTE: BSL (British Sign Language) mode has been ENABLED. The student is deaf or hard-of-hearing and communicates using sign language. \n\nIMPORTANT INSTRUCTIONS FOR BSL MODE:\n1. Keep your responses SHORT and SIMPLE - no more than 2-3 sentences at a time\n2. Use clear, concrete vocabulary that translates well to sign language\n3. Avoid idioms, metaphors, and complex sentence structures\n4. Break down concepts into small, visual steps\n5. When explaining topics, describe them in ways that can be shown with hand gestures\n6. The BSL panel will convert your words to sign animations - shorter responses work better\n7. Ask "Do you understand?" frequently and wait for student response\n8. Focus on one concept at a time\n\nYour text will be displayed alongside BSL hand sign animations. Please adapt your teaching style accordingly.]`
+    : `[SYSTEM NOTE: BSL mode has been DISABLED. The student is now using voice communication. You can return to normal conversational teaching style with longer explanations if needed.]`;
+
+// Pass a queued payload to the transport
+const deliverOutbound = (transport: RealtimeTransport, payload: OutboundPayload) => {
+  if (payload.type === "text") {
+    transport.sendText(payload.text, { turnComplete: payload.turnComplete });
+  } else {
+    transport.sendImage(payload.base64, payload.mimeType, payload.prompt);
+  }
 };
 
-export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: string, elevenLabsVoiceId?: string): UseRealtimeChatReturn => {
+// Snapshot used to detect whether a message changed since it was last persisted
+const messageSnapshot = (m: Message) => `${m.content}\u0000${m.originalContent ?? ""}\u0000${m.thoughts ?? ""}`;
+
+export const useRealtimeChat = (
+  teacherVoice?: string,
+  teacherInstructions?: string,
+  elevenLabsVoiceId?: string,
+  teacherId?: string,
+  options: UseRealtimeChatOptions = {}
+): UseRealtimeChatReturn => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [partialTranscript, setPartialTranscript] = useState("");
   const [isConnected, setIsConnected] = useState(false);
@@ -65,13 +159,18 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [isUserTalking, setIsUserTalking] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
   const [status, setStatus] = useState<"idle" | "listening" | "speaking" | "processing">("idle");
   const [whiteboardContent, setWhiteboardContent] = useState("");
   const [showWhiteboard, setShowWhiteboard] = useState(false);
+  const [isWhiteboardStreaming, setIsWhiteboardStreaming] = useState(false);
 
-  const wsRef = useRef<WebSocket | null>(null);
+  const transportRef = useRef<RealtimeTransport | null>(null);
   const recorderRef = useRef<AudioRecorder | null>(null);
+  const speechGateRef = useRef<SpeechGate | null>(null);
+  // Survives reconnects and the end of the lesson so it can still be exported
+  const lessonRecordingRef = useRef<LessonRecording | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const audioQueueRef = useRef<AudioQueue | null>(null);
   const audioLevelIntervalRef = useRef<number | null>(null);
@@ -86,10 +185,34 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
   const teacherVoiceRef = useRef(teacherVoice);
   const teacherInstructionsRef = useRef(teacherInstructions);
   const elevenLabsVoiceIdRef = useRef(elevenLabsVoiceId);
+  const teacherIdRef = useRef(teacherId);
+  const createTransportRef = useRef(options.createTransport ?? createDefaultTransport);
+  const messagesRef = useRef<Message[]>([]);
+
+  // Lesson persistence
+  const lessonSessionPromiseRef = useRef<Promise<string | null> | null>(null);
+  const savedSnapshotsRef = useRef(new Map<string, string>());
+  const [persistRequest, setPersistRequest] = useState(0);
+
+  // Lesson plan objectives met so far, and the list as last saved
+  const [completedObjectives, setCompletedObjectives] = useState<string[]>([]);
+  const completedObjectivesRef = useRef<string[]>([]);
+  const savedObjectivesRef = useRef("");
+
+  // Set when prior turns were replayed into a fresh (non-reconnect) session
+  const contextRestoredRef = useRef(false);
+  // A past lesson was loaded for the next connection to continue
+  const resumingLessonRef = useRef(false);
 
   // Whiteboard repair
   const pendingWhiteboardRepairRef = useRef(false);
 
+  // Assistant message whose whiteboard is streaming onto the screen, the last board
+  // streamed (so unchanged text doesn't reopen it), and the turn whose board the student closed
+  const streamingWhiteboardIdRef = useRef<string | null>(null);
+  const streamedWhiteboardRef = useRef<{ messageId: string; content: string; isComplete: boolean } | null>(null);
+  const dismissedWhiteboardIdRef = useRef<string | null>(null);
+
   // Auto-reconnect state
   const manualDisconnectRef = useRef(false);
   const isReconnectingRef = useRef(false);
@@ -98,56 +221,159 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
   // Track current assistant message being streamed
   const currentAssistantIdRef = useRef<string | null>(null);
   const currentAssistantTextRef = useRef("");
+  const currentAssistantTranscriptRef = useRef("");
+
+  // Barge-in: where the current spoken turn starts in the playback stream, and
+  // whether the student cut in before the model finished sending it
+  const spokenTurnRef = useRef<{ messageId: string | null; audioStart: number } | null>(null);
+  const turnHasAudioRef = useRef(false);
+  const bargedInRef = useRef(false);
+
+  // Tool calling
+  const optionsRef = useRef(options);
+  const toolRegistryRef = useRef<ToolRegistry | null>(null);
+  const cancelledToolCallsRef = useRef(new Set<string>());
+  const pendingToolImagesRef = useRef<Array<{ base64: string; prompt: string }>>([]);
+
+  // What the student sent while the session was down, kept per teacher
+  const outboundQueueRef = useRef<OutboundQueue | null>(null);
 
   // Keep refs in sync with props
   useEffect(() => { teacherVoiceRef.current = teacherVoice; }, [teacherVoice]);
   useEffect(() => { teacherInstructionsRef.current = teacherInstructions; }, [teacherInstructions]);
   useEffect(() => { elevenLabsVoiceIdRef.current = elevenLabsVoiceId; }, [elevenLabsVoiceId]);
+  useEffect(() => { teacherIdRef.current = teacherId; }, [teacherId]);
+  useEffect(() => { createTransportRef.current = options.createTransport ?? createDefaultTransport; }, [options.createTransport]);
+  useEffect(() => { messagesRef.current = messages; }, [messages]);
+  useEffect(() => { optionsRef.current = options; });
+
+  // Write every message that changed since its last save. The lesson session row
+  // is created lazily on the first write so idle connections leave no trace.
+  const flushLessonMessages = useCallback(async (): Promise<string | null> => {
+    const teacher = teacherIdRef.current;
+    if (!teacher) return null;
+
+    // Messages still waiting to be sent may yet be cancelled
+    const pending = messagesRef.current.filter(
+      (m) => m.content && !m.pending && savedSnapshotsRef.current.get(m.id) !== messageSnapshot(m)
+    );
+    if (pending.length === 0 && !lessonSessionPromiseRef.current) return null;
+
+    pending.forEach((m) => savedSnapshotsRef.current.set(m.id, messageSnapshot(m)));
+    const objectives = completedObjectivesRef.current;
+    const objectivesSnapshot = objectives.join(",");
+    const objectivesChanged = objectivesSnapshot !== savedObjectivesRef.current;
+    if (objectivesChanged) savedObjectivesRef.current = objectivesSnapshot;
+
+    if (!lessonSessionPromiseRef.current) {
+      lessonSessionPromiseRef.current = createLessonSession(teacher, optionsRef.current.lessonPlan);
+    }
+    const sessionPromise = lessonSessionPromiseRef.current;
+    const sessionId = await sessionPromise;
+
+    if (!sessionId) {
+      // Allow a retry on the next turn
+      if (lessonSessionPromiseRef.current === sessionPromise) {
+        lessonSessionPromiseRef.current = null;
+      }
+      pending.forEach((m) => savedSnapshotsRef.current.delete(m.id));
+      if (objectivesChanged) savedObjectivesRef.current = "";
+      return null;
+    }
+
+    const saved = await saveLessonMessages(sessionId, pending);
+    if (!saved) {
+      pending.forEach((m) => savedSnapshotsRef.current.delete(m.id));
+    }
+    if (objectivesChanged && !(await saveCompletedObjectives(sessionId, objectives))) {
+      savedObjectivesRef.current = "";
+    }
+    return sessionId;
+  }, []);
 
-  const countPlaceholderTokens = useCallback((text: string) => {
-    const re = /(^|[\s:])\$([1-9])(?![0-9.])(?=[\s.,;:!?)]|$)/g;
-    return (text.match(re) ?? []).length;
+  // Persist after each finalized turn (runs after messagesRef has been synced)
+  useEffect(() => {
+    if (persistRequest === 0) return;
+    flushLessonMessages();
+  }, [persistRequest, flushLessonMessages]);
+
+  const getOutboundQueue = useCallback(() => {
+    const key = teacherIdRef.current ? `outboundQueue:${teacherIdRef.current}` : null;
+    if (!outboundQueueRef.current || outboundQueueRef.current.storageKey !== key) {
+      outboundQueueRef.current = new OutboundQueue(key);
+    }
+    return outboundQueueRef.current;
   }, []);
 
-  const needsWhiteboardRepair = useCallback(
-    (text: string) => countPlaceholderTokens(text) >= 2,
-    [countPlaceholderTokens]
-  );
+  // Send now if the session is ready, otherwise queue until the next setupComplete.
+  // `label` adds a transcript bubble, shown as pending while queued.
+  const sendOrQueue = useCallback((key: string, payload: OutboundPayload, label: string | null) => {
+    const transport = transportRef.current;
+    if (transport?.isOpen() && sessionReadyRef.current) {
+      deliverOutbound(transport, payload);
+      if (label) {
+        setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "user", content: label, timestamp: new Date() }]);
+      }
+      return;
+    }
+
+    const { entry, isDuplicate } = getOutboundQueue().enqueue(key, payload, label);
+    console.log("Session not ready, queued for later:", { key: entry.key.slice(0, 40), isDuplicate });
+    if (label && !isDuplicate) {
+      setMessages((prev) => [
+        ...prev,
+        { id: entry.id, role: "user", content: label, timestamp: new Date(entry.queuedAt), pending: true },
+      ]);
+    }
+  }, [getOutboundQueue]);
+
+  // Replay everything queued, oldest first, into a session that just became ready
+  const flushOutboundQueue = useCallback((transport: RealtimeTransport) => {
+    const entries = getOutboundQueue().drain();
+    if (entries.length === 0) return;
+
+    console.log("Replaying queued messages:", entries.length);
+    entries.forEach((entry) => deliverOutbound(transport, entry.payload));
+    const sent = new Set(entries.map((entry) => entry.id));
+    setMessages((prev) => prev.map((m) => (sent.has(m.id) ? { ...m, pending: undefined } : m)));
+
+    const shown = entries.filter((entry) => entry.label).length;
+    if (shown > 0) {
+      toast({
+        title: "Messages sent",
+        description: `Sent ${shown} message${shown === 1 ? "" : "s"} that ${shown === 1 ? "was" : "were"} waiting for the connection.`,
+      });
+    }
+  }, [getOutboundQueue]);
 
   const requestWhiteboardRepair = useCallback(
-    (rawWhiteboardBlock: string) => {
-      if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    (rawWhiteboardBlock: string, problems: WhiteboardValidationError[]) => {
+      if (!transportRef.current?.isOpen()) return;
 
       pendingWhiteboardRepairRef.current = true;
       setShowWhiteboard(false);
       setWhiteboardContent("");
 
+      const [first] = problems;
       toast({
         title: "Fixing formatting…",
-        description: "Regenerating the whiteboard without placeholder tokens.",
+        description: `Regenerating the whiteboard: ${first.path || "board"} ${first.message}.`,
       });
 
-      // Send repair request via Gemini clientContent
-      wsRef.current.send(JSON.stringify({
-        clientContent: {
-          turns: [{
-            role: "user",
-            parts: [{
-              text:
-                "The following WHITEBOARD response is malformed because it contains placeholder tokens like $1 instead of real formulas/expressions. " +
-                "Rewrite it properly.\n\n" +
-                "Rules:\n" +
-                "- Output ONLY a corrected [WHITEBOARD_START] ... [WHITEBOARD_END] block (include both markers).\n" +
-                "- Do NOT use $1/$2 placeholders. Always write the actual formulas.\n" +
-                "- Do NOT nest dollar signs. Inside $$...$$ blocks, include only raw LaTeX with no extra $ signs.\n" +
-                "- Put the equation in the Problem section as display math (use $$...$$), not in the Title.\n\n" +
-                "MALFORMED WHITEBOARD:\n" +
-                rawWhiteboardBlock,
-            }],
-          }],
-          turnComplete: true,
-        },
-      }));
+      // Send repair request as a new user turn
+      transportRef.current.sendText(
+        "The following WHITEBOARD response is malformed. Problems found:\n" +
+        formatWhiteboardErrors(problems) +
+        "\n\nRewrite it properly.\n\n" +
+        "Rules:\n" +
+        "- Output ONLY a corrected [WHITEBOARD_START] ... [WHITEBOARD_END] block (include both markers).\n" +
+        "- If the board was JSON, keep it as JSON and fix the fields listed above.\n" +
+        "- Do NOT use $1/$2 placeholder tokens. Always write the actual formulas.\n" +
+        "- Do NOT nest dollar signs. Inside $$...$$ blocks, include only raw LaTeX with no extra $ signs.\n" +
+        "- Put the equation in the Problem section as display math (use $$...$$), not in the Title.\n\n" +
+        "MALFORMED WHITEBOARD:\n" +
+        rawWhiteboardBlock
+      );
     },
     []
   );
@@ -163,12 +389,12 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     const extracted = extractWhiteboardContent(source);
     if (!extracted.hasWhiteboard) return;
 
-    if (!needsWhiteboardRepair(extracted.content)) {
+    if (loadWhiteboard(extracted.content).errors.length === 0) {
       pendingWhiteboardRepairRef.current = false;
       setWhiteboardContent(extracted.content);
       setShowWhiteboard(true);
     }
-  }, [messages, needsWhiteboardRepair]);
+  }, [messages]);
 
   // Set Simli audio handler from AvatarPanel
   const setSimliAudioHandler = useCallback(
@@ -211,6 +437,9 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     reconnectAttemptsRef.current++;
 
     const wasListening = isListeningRef.current;
+    // End any sentence in progress; the new session hears speech through a new gate
+    speechGateRef.current?.close();
+    speechGateRef.current = null;
     if (recorderRef.current) {
       recorderRef.current.stop();
       recorderRef.current = null;
@@ -222,13 +451,14 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
       audioLevelIntervalRef.current = null;
     }
 
-    if (wsRef.current) {
-      wsRef.current.onclose = null;
-      wsRef.current.close();
-      wsRef.current = null;
+    if (transportRef.current) {
+      transportRef.current.disconnect();
+      transportRef.current = null;
     }
 
     await new Promise(resolve => setTimeout(resolve, 500));
+    // The student hung up (and maybe called again) while we waited
+    if (!isReconnectingRef.current) return;
 
     try {
       await connectInternalRef.current?.();
@@ -264,7 +494,6 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
           m.id === lastAssistant.id
             ? {
                 ...m,
-                originalContent: fullText,
                 content: hasWhiteboard && !m.content.trim()
                   ? "I've prepared a detailed explanation. Click 'Whiteboard' to view."
                   : m.content,
@@ -276,309 +505,455 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     });
   }, []);
 
-  // Core connection logic
-  const connectInternal = useCallback(async () => {
-    console.log("Connecting to Gemini Live via proxy...");
+  // Model closed the session or the socket dropped: reconnect unless the user hung up
+  const handleTransportClosed = useCallback((event: Extract<RealtimeTransportEvent, { type: "closed" }>) => {
+    sessionReadyRef.current = false;
+    if (!event.upstream) {
+      isListeningRef.current = false;
+      setIsRecording(false);
+    }
+    if (isReconnectingRef.current) return;
 
-    try {
-      if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
-        audioContextRef.current = new AudioContext({ sampleRate: 24000 });
+    const canReconnect = !manualDisconnectRef.current && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS;
+
+    if (event.upstream) {
+      console.error("Gemini connection closed (via proxy):", event);
+      if (canReconnect) {
+        setIsReconnecting(true);
+        isReconnectingRef.current = true;
+        setIsConnected(false);
+        setIsProcessing(false);
+        setIsSpeaking(false);
+        setStatus("idle");
+        performReconnectRef.current?.();
+      } else {
+        if (!manualDisconnectRef.current) {
+          toast({
+            title: "Voice connection closed",
+            description: event.reason || `Code ${event.code}`,
+          });
+        }
+        setIsConnected(false);
+        setIsProcessing(false);
+        setIsSpeaking(false);
+        setStatus("idle");
       }
-      audioQueueRef.current = new AudioQueue(audioContextRef.current);
+      return;
+    }
 
-      // Give Simli the real-time audio track early if it's already listening
-      if (simliListenToTrackRef.current && audioQueueRef.current.destination.stream.getAudioTracks().length > 0) {
-        simliListenToTrackRef.current(audioQueueRef.current.destination.stream.getAudioTracks()[0]);
-      }
+    if (canReconnect) {
+      isReconnectingRef.current = true;
+      setIsReconnecting(true);
+      setIsConnected(false);
+      setStatus("idle");
+      const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, reconnectAttemptsRef.current), 8000);
+      console.log("WebSocket closed unexpectedly, reconnecting in", delay, "ms");
+      setTimeout(() => performReconnectRef.current?.(), delay);
+    } else {
+      setIsConnected(false);
+      setStatus("idle");
+    }
+  }, []);
 
-      const ws = new WebSocket(WEBSOCKET_URL);
-      wsRef.current = ws;
+  // Open the whiteboard as soon as its start marker arrives and show only the
+  // lines whose maths is complete. Boards the student closes stay closed for the turn.
+  const streamWhiteboard = useCallback(() => {
+    const messageId = currentAssistantIdRef.current;
+    const stream = streamingWhiteboardContent(currentAssistantTextRef.current);
+    if (!stream || !messageId || dismissedWhiteboardIdRef.current === messageId) return;
 
-      return new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error("Connection timeout"));
-          ws.close();
-        }, 15000);
+    const last = streamedWhiteboardRef.current;
+    if (last?.messageId === messageId && last.content === stream.content && last.isComplete === stream.isComplete) return;
+    streamedWhiteboardRef.current = { messageId, content: stream.content, isComplete: stream.isComplete };
 
-        ws.onopen = () => {
-          console.log("WebSocket connected to proxy");
-        };
+    streamingWhiteboardIdRef.current = stream.isComplete ? null : messageId;
+    setWhiteboardContent(stream.content);
+    setIsWhiteboardStreaming(!stream.isComplete);
+    setShowWhiteboard(true);
+  }, []);
 
-        ws.onmessage = async (event) => {
-          try {
-            let textData = event.data;
-            if (event.data instanceof Blob) {
-              textData = await event.data.text();
-            }
-            const data = JSON.parse(textData);
-
-            // Handle proxy-level events
-            if (data.type === "proxy.gemini_connected") {
-              console.log("Proxy connected to Gemini Live API");
-              clearTimeout(timeout);
-
-              // Send setup message to Gemini
-              const setupMessage = {
-                setup: {
-                  model: `models/${GEMINI_MODEL}`,
-                  generationConfig: {
-                    responseModalities: ["AUDIO"],
-                    speechConfig: {
-                      voiceConfig: {
-                        prebuiltVoiceConfig: {
-                          voiceName: teacherVoiceRef.current || "Kore",
-                        },
-                      },
-                    },
-                  },
-                  // Enable transcription so we can display chat text alongside audio
-                  outputAudioTranscription: {},
-                  inputAudioTranscription: {},
-                  systemInstruction: {
-                    parts: [{
-                      text: teacherInstructionsRef.current || "You are EduGuide, a helpful AI teacher. Answer educational questions clearly and concisely.",
-                    }],
-                  },
-                },
-              };
-
-              ws.send(JSON.stringify(setupMessage));
-              console.log("Sent Gemini setup message with voice:", teacherVoiceRef.current);
-              return;
-            }
-
-            if (data.type === "proxy.error") {
-              console.error("Proxy error:", data);
-              toast({
-                title: "Voice connection failed",
-                description: data.message || "Backend proxy error",
-                variant: "destructive",
-              });
-              setIsConnected(false);
-              setIsProcessing(false);
-              setIsSpeaking(false);
-              setStatus("idle");
-              return;
-            }
-
-            if (data.type === "proxy.gemini_closed") {
-              console.error("Gemini connection closed (via proxy):", data);
-
-              if (!isReconnectingRef.current) {
-                if (!manualDisconnectRef.current && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
-                  setIsReconnecting(true);
-                  isReconnectingRef.current = true;
-                  setIsConnected(false);
-                  setIsProcessing(false);
-                  setIsSpeaking(false);
-                  setStatus("idle");
-                  performReconnectRef.current?.();
-                } else {
-                  if (!manualDisconnectRef.current) {
-                    toast({
-                      title: "Voice connection closed",
-                      description: data.reason || `Code ${data.code}`,
-                    });
-                  }
-                  setIsConnected(false);
-                  setIsProcessing(false);
-                  setIsSpeaking(false);
-                  setStatus("idle");
-                }
-              }
-              return;
-            }
-
-            // Handle Gemini Live API events
-            // setupComplete - session is ready
-            if (data.setupComplete !== undefined) {
-              console.log("Gemini session setup complete");
-              sessionReadyRef.current = true;
-              setIsConnected(true);
-              resolve();
-              return;
-            }
-
-            // goAway - Gemini is about to disconnect, reconnect proactively
-            if (data.goAway !== undefined) {
-              console.log("Gemini goAway received, timeLeft:", data.goAway?.timeLeft);
-              toast({
-                title: "Session refreshing soon",
-                description: "Connection will seamlessly refresh.",
-              });
-              isReconnectingRef.current = true;
-              setIsReconnecting(true);
-              // Reconnect proactively
-              setTimeout(() => performReconnectRef.current?.(), 2000);
-              return;
-            }
-
-            // interrupted - user interrupted the model
-            if (data.interrupted !== undefined) {
-              console.log("Model output interrupted by user");
-              setIsSpeaking(false);
-              setIsProcessing(false);
-              setStatus("idle");
-              // Finalize current assistant message
-              if (currentAssistantIdRef.current && currentAssistantTextRef.current) {
-                processWhiteboardFromText(currentAssistantTextRef.current);
-              }
-              currentAssistantIdRef.current = null;
-              currentAssistantTextRef.current = "";
-              return;
-            }
-
-            // turnComplete - model finished its turn
-            if (data.turnComplete !== undefined) {
-              console.log("Gemini turn complete");
-              setIsSpeaking(false);
-              setIsProcessing(false);
-              setStatus("idle");
-              // Process whiteboard from accumulated text
-              if (currentAssistantIdRef.current && currentAssistantTextRef.current) {
-                processWhiteboardFromText(currentAssistantTextRef.current);
-              }
-              currentAssistantIdRef.current = null;
-              currentAssistantTextRef.current = "";
-              return;
-            }
-
-            // serverContent - model output (audio, text, transcription)
-            if (data.serverContent) {
-              const sc = data.serverContent;
-
-              // Input transcription (what the user said)
-              if (sc.inputTranscription) {
-                const transcript = sc.inputTranscription.text;
-                if (transcript && transcript.trim()) {
-                  console.log("User transcription:", transcript);
-                  setMessages((prev) => {
-                    const last = prev[prev.length - 1];
-                    // Append ongoing speech to the last user bubble
-                    if (last && last.role === "user") {
-                      return prev.map((m, i) =>
-                        i === prev.length - 1 
-                          ? { ...m, content: (m.content === "..." || !m.content) ? transcript : m.content + " " + transcript } 
-                          : m
-                      );
-                    }
-                    // Otherwise create a new user message
-                    return [...prev, {
-                      id: crypto.randomUUID(),
-                      role: "user" as const,
-                      content: transcript,
-                      timestamp: new Date(),
-                    }];
-                  });
-                  setPartialTranscript("");
-                }
-                return;
-              }
+  // Append streamed text to the current assistant message, starting one if needed.
+  // Track the turn in refs synchronously: updaters may run after turnComplete arrives.
+  const applyAssistantDelta = useCallback((source: "text" | "transcript", delta: string) => {
+    if (source === "text") {
+      currentAssistantTextRef.current += delta;
+    } else {
+      currentAssistantTranscriptRef.current += delta;
+    }
+    const fields = buildAssistantFields(currentAssistantTextRef.current, currentAssistantTranscriptRef.current);
+
+    const assistantId = currentAssistantIdRef.current;
+    if (assistantId) {
+      setMessages((prev) =>
+        prev.map((m) => (m.id === assistantId ? { ...m, ...fields } : m))
+      );
+    } else {
+      // First chunk of a new assistant turn
+      const newId = crypto.randomUUID();
+      currentAssistantIdRef.current = newId;
+      setMessages((prev) => [...prev, {
+        id: newId,
+        role: "assistant" as const,
+        ...fields,
+        timestamp: new Date(),
+      }]);
+    }
 
-              // Model turn - contains audio and/or text parts
-              if (sc.modelTurn) {
-                const parts = sc.modelTurn.parts || [];
-
-                for (const part of parts) {
-                  // Audio data
-                  if (part.inlineData) {
-                    const audioBase64 = part.inlineData.data;
-                    if (audioBase64) {
-                      setIsSpeaking(true);
-                      setStatus("speaking");
-                      try {
-                        const binaryString = atob(audioBase64);
-                        const bytes = new Uint8Array(binaryString.length);
-                        for (let i = 0; i < binaryString.length; i++) {
-                          bytes[i] = binaryString.charCodeAt(i);
-                        }
-
-                        // ALWAYS play audio locally ensuring voice playback even if Simli WebRTC drops
-                        if (audioQueueRef.current) {
-                          audioQueueRef.current.addToQueue(bytes);
-                        }
-                      } catch (e) {
-                        console.error("Error processing Gemini audio:", e);
-                      }
-                    }
-                  }
-
-                  // Text part (non-audio text response or simultaneous text stream)
-                  if (part.text) {
-                    setMessages((prev) => {
-                      const last = prev[prev.length - 1];
-                      if (last?.role === "assistant" && currentAssistantIdRef.current === last.id) {
-                        const rawContent = last.originalContent || "";
-                        const newOriginalContent = rawContent + part.text;
-                        currentAssistantTextRef.current = newOriginalContent;
-
-                        const displayContent = cleanDisplayContent(newOriginalContent);
-                        return prev.map((m, i) =>
-                          i === prev.length - 1 ? { ...m, content: displayContent, originalContent: newOriginalContent } : m
-                        );
-                      }
-                      
-                      // For a text chunk that starts a new assistant turn
-                      const newId = crypto.randomUUID();
-                      currentAssistantIdRef.current = newId;
-                      currentAssistantTextRef.current = part.text;
-                      const displayContent = cleanDisplayContent(part.text);
-                      return [...prev, {
-                        id: newId,
-                        role: "assistant" as const,
-                        content: displayContent,
-                        originalContent: part.text,
-                        timestamp: new Date(),
-                      }];
-                    });
-                  }
-                }
-                return;
-              }
-            }
+    if (source === "text") streamWhiteboard();
+  }, [streamWhiteboard]);
+
+  // Stop the teacher mid-sentence: drop scheduled audio and the avatar's buffer,
+  // and cut the spoken message back to what the student actually heard
+  const interruptPlayback = useCallback(() => {
+    const queue = audioQueueRef.current;
+    const turn = spokenTurnRef.current;
+    spokenTurnRef.current = null;
+
+    if (queue && turn) {
+      const total = queue.getScheduledDuration() - turn.audioStart;
+      const heard = queue.getPlaybackPosition() - turn.audioStart;
+      const messageId = turn.messageId ?? currentAssistantIdRef.current;
+      if (messageId && total > 0 && heard < total) {
+        const fraction = Math.max(0, heard) / total;
+        console.log(`Barge-in: heard ${Math.max(0, heard).toFixed(2)}s of ${total.toFixed(2)}s`);
+        if (messageId === currentAssistantIdRef.current && currentAssistantTranscriptRef.current) {
+          currentAssistantTranscriptRef.current = truncateToHeard(currentAssistantTranscriptRef.current, fraction);
+        }
+        setMessages((prev) =>
+          prev.map((m) => (m.id === messageId ? { ...m, content: truncateToHeard(m.content, fraction) } : m))
+        );
+        setPersistRequest((n) => n + 1);
+      }
+    }
 
-            // Log unhandled
-            console.log("Unhandled Gemini event:", JSON.stringify(data).substring(0, 200));
+    queue?.clear();
+    simliClearBufferRef.current?.();
+    setIsSpeaking(false);
+    setStatus("listening");
+  }, []);
 
-          } catch (e) {
-            console.error("Error parsing Gemini message:", e);
-          }
-        };
+  // Local VAD heard the student over the teacher: react now rather than after
+  // the server's `interrupted` arrives, and ignore the rest of the turn
+  const handleBargeIn = useCallback(() => {
+    if (!audioQueueRef.current?.isPlaying) return;
+    console.log("Student started speaking over the teacher");
+    if (turnHasAudioRef.current) bargedInRef.current = true;
+    interruptPlayback();
+  }, [interruptPlayback]);
+
+  // Put a tool call's whiteboard on screen as a JSON document and attach it to the current turn
+  const presentWhiteboard = useCallback((board: WhiteboardToolArgs) => {
+    const { document, errors } = validateWhiteboardDocument(whiteboardDocumentFromArgs(board));
+    if (!document) {
+      throw new ToolError(`Whiteboard not shown. Fix these and call show_whiteboard again:\n${formatWhiteboardErrors(errors)}`);
+    }
+    const content = JSON.stringify(document);
+    applyAssistantDelta("text", `\n\n[WHITEBOARD_START]\n${content}\n[WHITEBOARD_END]`);
+    setWhiteboardContent(content);
+    setShowWhiteboard(true);
+  }, [applyAssistantDelta]);
+
+  // Tool handlers read the latest options through refs, so one registry serves every session
+  const getToolRegistry = useCallback((): ToolRegistry => {
+    if (toolRegistryRef.current) return toolRegistryRef.current;
 
-        ws.onerror = (error) => {
-          console.error("WebSocket error:", error);
-          clearTimeout(timeout);
-          reject(error);
+    toolRegistryRef.current = createTeacherToolRegistry({
+      showWhiteboard: (board) => {
+        presentWhiteboard(board);
+        return { status: "shown" };
+      },
+      startQuiz: (quiz: QuizSpec) => {
+        const onQuizRequest = optionsRef.current.onQuizRequest;
+        if (!onQuizRequest) throw new ToolError("Quizzes aren't available in this session");
+        onQuizRequest(quiz);
+        return {
+          status: "started",
+          questionCount: quiz.questions.length,
+          note: "The quiz is in the student's quiz panel. Encourage them while they work; their marked results arrive as their next message.",
         };
+      },
+      setBSLMode: (enabled) => {
+        const onBSLModeRequest = optionsRef.current.onBSLModeRequest;
+        if (!onBSLModeRequest) throw new ToolError("BSL mode isn't available in this session");
+        onBSLModeRequest(enabled);
+        return { enabled, instructions: getBSLModeNote(enabled) };
+      },
+      requestScreenCapture: async (reason) => {
+        const captureScreen = optionsRef.current.captureScreen;
+        if (!captureScreen) throw new ToolError("Screen capture isn't available in this session");
+        const screenshot = await captureScreen();
+        if (!screenshot) {
+          return { error: "The student isn't sharing their screen. Ask them to press the screen share button first." };
+        }
+        pendingToolImagesRef.current.push({
+          base64: screenshot,
+          prompt: reason ? `Here is my screen. (You wanted to see: ${reason})` : "Here is my screen.",
+        });
+        return { status: "captured", note: "The screenshot follows as the student's next message." };
+      },
+      markObjectiveComplete: (objectiveId) => {
+        const plan = optionsRef.current.lessonPlan;
+        if (!plan) throw new ToolError("This lesson has no lesson plan");
+        const objective = plan.objectives.find((o) => o.id === objectiveId);
+        if (!objective) {
+          throw new ToolError(`Unknown objective "${objectiveId}". Use one of: ${plan.objectives.map((o) => o.id).join(", ")}`);
+        }
 
-        ws.onclose = (event) => {
-          console.log("WebSocket closed", { code: event.code, reason: event.reason });
-          clearTimeout(timeout);
-          sessionReadyRef.current = false;
-          isListeningRef.current = false;
-          setIsRecording(false);
+        if (!completedObjectivesRef.current.includes(objectiveId)) {
+          const completed = [...completedObjectivesRef.current, objectiveId];
+          completedObjectivesRef.current = completed;
+          setCompletedObjectives(completed);
+          setPersistRequest((n) => n + 1);
+          toast({ title: "Objective complete", description: objective.text });
+        }
 
+        const remaining = plan.objectives.filter((o) => !completedObjectivesRef.current.includes(o.id));
+        return {
+          status: "complete",
+          completed: plan.objectives.length - remaining.length,
+          total: plan.objectives.length,
+          remaining: remaining.map((o) => ({ id: o.id, text: o.text })),
+          ...(remaining.length === 0 && { note: "Every objective is met. Finish with a short recap and praise." }),
+        };
+      },
+    });
+    return toolRegistryRef.current;
+  }, [presentWhiteboard]);
+
+  const handleTransportEvent = useCallback((transport: RealtimeTransport, event: RealtimeTransportEvent) => {
+    switch (event.type) {
+      case "error":
+        console.error("Proxy error:", event.message);
+        toast({
+          title: "Voice connection failed",
+          description: event.message,
+          variant: "destructive",
+        });
+        setIsConnected(false);
+        setIsProcessing(false);
+        setIsSpeaking(false);
+        setStatus("idle");
+        return;
+
+      case "closed":
+        handleTransportClosed(event);
+        return;
+
+      // setupComplete - session is ready
+      case "ready": {
+        console.log("Gemini session setup complete");
+
+        // Replay the lesson so far after a dropped connection or when continuing a
+        // past lesson, so the model doesn't start from scratch; queued messages
+        // follow as new turns below
+        const shouldRestore = isReconnectingRef.current || resumingLessonRef.current;
+        resumingLessonRef.current = false;
+        const contextTurns = shouldRestore ? buildContextRestoration(messagesRef.current.filter((m) => !m.pending)) : [];
+        if (contextTurns.length > 0) {
+          console.log("Restoring lesson context:", { turns: contextTurns.length });
+          transport.sendTurns(contextTurns, false);
           if (!isReconnectingRef.current) {
-            if (!manualDisconnectRef.current && reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
-              isReconnectingRef.current = true;
-              setIsReconnecting(true);
-              setIsConnected(false);
-              setStatus("idle");
-              const delay = Math.min(RECONNECT_BASE_DELAY * Math.pow(2, reconnectAttemptsRef.current), 8000);
-              console.log("WebSocket closed unexpectedly, reconnecting in", delay, "ms");
-              setTimeout(() => performReconnectRef.current?.(), delay);
-            } else {
-              setIsConnected(false);
-              setStatus("idle");
-            }
+            contextRestoredRef.current = true;
           }
-        };
+        }
+
+        sessionReadyRef.current = true;
+        setIsConnected(true);
+        flushOutboundQueue(transport);
+        return;
+      }
+
+      // goAway - Gemini is about to disconnect, reconnect proactively
+      case "goAway":
+        console.log("Gemini goAway received, timeLeft:", event.timeLeft);
+        toast({
+          title: "Session refreshing soon",
+          description: "Connection will seamlessly refresh.",
+        });
+        isReconnectingRef.current = true;
+        setIsReconnecting(true);
+        // Reconnect proactively
+        setTimeout(() => performReconnectRef.current?.(), 2000);
+        return;
+
+      // interrupted - user interrupted the model
+      // turnComplete - model finished its turn
+      case "interrupted":
+      case "turnComplete":
+        console.log(event.type === "interrupted" ? "Model output interrupted by user" : "Gemini turn complete");
+        if (event.type === "interrupted") {
+          interruptPlayback();
+        } else if (spokenTurnRef.current && !spokenTurnRef.current.messageId) {
+          // Audio can outlast the turn; remember which message it belongs to
+          spokenTurnRef.current.messageId = currentAssistantIdRef.current;
+        }
+        turnHasAudioRef.current = false;
+        bargedInRef.current = false;
+        setIsSpeaking(false);
+        setIsProcessing(false);
+        setStatus("idle");
+        // Finalize current assistant message and process whiteboard from accumulated text,
+        // leaving out any leaked thoughts
+        if (currentAssistantIdRef.current && currentAssistantTextRef.current) {
+          const fullText = classifyAssistantText(currentAssistantTextRef.current).spoken;
+          processWhiteboardFromText(fullText);
+
+          // The turn ended without [WHITEBOARD_END]: show everything that did arrive
+          if (streamingWhiteboardIdRef.current === currentAssistantIdRef.current) {
+            setWhiteboardContent(extractWhiteboardContent(fullText).content);
+          }
+
+          // Ask the model to rewrite marked whiteboards that fail validation, e.g. with $1-style placeholders
+          const { hasWhiteboard, content: wbContent } = extractWhiteboardContent(fullText);
+          if (hasWhiteboard && fullText.includes("[WHITEBOARD_START]") && !pendingWhiteboardRepairRef.current) {
+            const { errors } = loadWhiteboard(wbContent);
+            if (errors.length > 0) requestWhiteboardRepair(`[WHITEBOARD_START]\n${wbContent}\n[WHITEBOARD_END]`, errors);
+          }
+        }
+        currentAssistantIdRef.current = null;
+        currentAssistantTextRef.current = "";
+        currentAssistantTranscriptRef.current = "";
+        streamingWhiteboardIdRef.current = null;
+        setIsWhiteboardStreaming(false);
+        setPersistRequest((n) => n + 1);
+        return;
+
+      // Input transcription (what the user said)
+      case "inputTranscription": {
+        const transcript = event.text;
+        if (!transcript.trim()) return;
+        console.log("User transcription:", transcript);
+        setMessages((prev) => {
+          const last = prev[prev.length - 1];
+          // Append ongoing speech to the last user bubble
+          if (last && last.role === "user") {
+            return prev.map((m, i) =>
+              i === prev.length - 1
+                ? { ...m, content: (m.content === "..." || !m.content) ? transcript : m.content + " " + transcript }
+                : m
+            );
+          }
+          // Otherwise create a new user message
+          return [...prev, {
+            id: crypto.randomUUID(),
+            role: "user" as const,
+            content: transcript,
+            timestamp: new Date(),
+          }];
+        });
+        setPartialTranscript("");
+        return;
+      }
+
+      // Audio data
+      case "audio":
+        // The student already cut in; the server just hasn't noticed yet
+        if (bargedInRef.current) return;
+        setIsSpeaking(true);
+        setStatus("speaking");
+        // ALWAYS play audio locally ensuring voice playback even if Simli WebRTC drops
+        if (audioQueueRef.current) {
+          if (!turnHasAudioRef.current) {
+            turnHasAudioRef.current = true;
+            spokenTurnRef.current = {
+              messageId: currentAssistantIdRef.current,
+              audioStart: audioQueueRef.current.getScheduledDuration(),
+            };
+          }
+          audioQueueRef.current.addToQueue(event.data);
+        }
+        return;
+
+      // Text parts (whiteboards, sometimes leaked thoughts) and the transcription of
+      // the model's speech both feed the current assistant message.
+      case "text":
+        applyAssistantDelta("text", event.text);
+        return;
+
+      case "outputTranscription":
+        if (bargedInRef.current) return;
+        applyAssistantDelta("transcript", event.text);
+        return;
+
+      // Function calls: run them, then answer in one toolResponse
+      case "toolCall": {
+        const registry = getToolRegistry();
+        console.log("Tool call:", event.calls.map((call) => call.name).join(", "));
+        Promise.all(event.calls.map((call) => registry.execute(call))).then((responses) => {
+          if (transportRef.current !== transport || !transport.isOpen()) return;
+          // Drop results the model cancelled while we were working
+          const live = responses.filter((response) => !cancelledToolCallsRef.current.delete(response.id));
+          transport.sendToolResponses(live);
+
+          // Screenshots can't travel inside a tool response, so they follow as a user turn
+          for (const image of pendingToolImagesRef.current.splice(0)) {
+            transport.sendImage(image.base64, "image/jpeg", image.prompt);
+            setMessages((prev) => [...prev, {
+              id: crypto.randomUUID(),
+              role: "user" as const,
+              content: "[Shared screen with teacher]",
+              timestamp: new Date(),
+            }]);
+          }
+        });
+        return;
+      }
+
+      case "toolCallCancellation":
+        console.log("Tool calls cancelled:", event.ids);
+        event.ids.forEach((id) => cancelledToolCallsRef.current.add(id));
+        return;
+
+      default:
+        return;
+    }
+  }, [handleTransportClosed, processWhiteboardFromText, requestWhiteboardRepair, applyAssistantDelta, getToolRegistry, interruptPlayback, flushOutboundQueue]);
+
+  // Core connection logic
+  const connectInternal = useCallback(async () => {
+    try {
+      if (!audioContextRef.current || audioContextRef.current.state === 'closed') {
+        audioContextRef.current = new AudioContext({ sampleRate: PLAYBACK_SAMPLE_RATE });
+        if (optionsRef.current.outputDeviceId) {
+          setOutputDevice(audioContextRef.current, optionsRef.current.outputDeviceId);
+        }
+      }
+      audioQueueRef.current = new AudioQueue(audioContextRef.current, {
+        onScheduled: (samples, startsAt) =>
+          lessonRecordingRef.current?.add("teacher", samples, PLAYBACK_SAMPLE_RATE, startsAt),
+        onCleared: (at) => lessonRecordingRef.current?.truncate("teacher", at),
+      });
+      audioQueueRef.current.setLocalPlayback(optionsRef.current.playVoiceLocally ?? false);
+
+      // Give Simli the real-time audio track early if it's already listening
+      if (simliListenToTrackRef.current && audioQueueRef.current.destination.stream.getAudioTracks().length > 0) {
+        simliListenToTrackRef.current(audioQueueRef.current.destination.stream.getAudioTracks()[0]);
+      }
+
+      const transport = createTransportRef.current();
+      transportRef.current = transport;
+      transport.onEvent((event) => {
+        // Ignore stragglers from a transport we've already replaced
+        if (transportRef.current !== transport) return;
+        handleTransportEvent(transport, event);
+      });
+
+      await transport.connect({
+        voice: teacherVoiceRef.current || "Kore",
+        // Plan progress is rebuilt on every (re)connect so a resumed lesson carries on where it stopped
+        systemInstruction: `${teacherInstructionsRef.current || ""}${buildLessonPlanContext(
+          optionsRef.current.lessonPlan ?? null,
+          completedObjectivesRef.current
+        )}`,
+        tools: getToolRegistry().declarations(),
+        // Speech is detected in the browser (or by push-to-talk) so silence is never sent
+        manualActivityDetection: true,
       });
     } catch (error) {
       console.error("Connection error:", error);
       throw error;
     }
-  }, [processWhiteboardFromText]);
+  }, [handleTransportEvent, getToolRegistry]);
 
   // Keep refs in sync
   useEffect(() => { connectInternalRef.current = connectInternal; }, [connectInternal]);
@@ -588,13 +963,36 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
   const connect = useCallback(async () => {
     manualDisconnectRef.current = false;
     reconnectAttemptsRef.current = 0;
+    lessonRecordingRef.current = new LessonRecording();
+
+    // Bring back anything this teacher's queue still holds, e.g. from before a reload.
+    // Pending bubbles queued for another teacher can't be sent any more.
+    const queued = getOutboundQueue().entries.filter((entry) => entry.label);
+    const queuedIds = new Set(queued.map((entry) => entry.id));
+    setMessages((prev) => {
+      const kept = prev.filter((m) => !m.pending || queuedIds.has(m.id));
+      const shown = new Set(kept.map((m) => m.id));
+      const restored: Message[] = queued
+        .filter((entry) => !shown.has(entry.id))
+        .map((entry) => ({
+          id: entry.id,
+          role: "user",
+          content: entry.label ?? "",
+          timestamp: new Date(entry.queuedAt),
+          pending: true,
+        }));
+      return kept.length === prev.length && restored.length === 0 ? prev : [...kept, ...restored];
+    });
+
     await connectInternal();
-  }, [connectInternal]);
+  }, [connectInternal, getOutboundQueue]);
 
   const disconnect = useCallback(() => {
     manualDisconnectRef.current = true;
     isListeningRef.current = false;
 
+    speechGateRef.current?.close();
+    speechGateRef.current = null;
     if (recorderRef.current) {
       recorderRef.current.stop();
       recorderRef.current = null;
@@ -605,9 +1003,9 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
       audioLevelIntervalRef.current = null;
     }
 
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
+    if (transportRef.current) {
+      transportRef.current.disconnect();
+      transportRef.current = null;
     }
 
     if (audioContextRef.current) {
@@ -616,15 +1014,43 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     }
 
     audioQueueRef.current = null;
+    spokenTurnRef.current = null;
+    turnHasAudioRef.current = false;
+    bargedInRef.current = false;
     sessionReadyRef.current = false;
+    isReconnectingRef.current = false;
+    streamingWhiteboardIdRef.current = null;
+    setIsWhiteboardStreaming(false);
+    pendingToolImagesRef.current = [];
+    cancelledToolCallsRef.current.clear();
+
+    // Leaving on purpose abandons anything still waiting to send; only
+    // automatic reconnects and reloads mid-lesson replay the queue
+    getOutboundQueue().clear();
+    setMessages((prev) => (prev.some((m) => m.pending) ? prev.filter((m) => !m.pending) : prev));
+
+    // Save anything still pending, close the lesson session, then let the
+    // server pick out anything worth remembering for next time
+    const finalFlush = flushLessonMessages();
+    lessonSessionPromiseRef.current = null;
+    completedObjectivesRef.current = [];
+    savedObjectivesRef.current = "";
+    setCompletedObjectives([]);
+    finalFlush.then(async (sessionId) => {
+      if (!sessionId) return;
+      await endLessonSession(sessionId);
+      extractSessionMemories(sessionId);
+    });
+
     reconnectAttemptsRef.current = 0;
     currentAssistantIdRef.current = null;
     currentAssistantTextRef.current = "";
+    currentAssistantTranscriptRef.current = "";
     setIsConnected(false);
     setIsReconnecting(false);
     setIsRecording(false);
     setStatus("idle");
-  }, []);
+  }, [flushLessonMessages, getOutboundQueue]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -646,20 +1072,33 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     setIsRecording(true);
     setStatus("idle");
 
-    const recorder = new AudioRecorder((audioData) => {
-      if (wsRef.current?.readyState === WebSocket.OPEN) {
-        const base64Audio = encodeAudioForAPI(audioData);
-        // Send audio in Gemini realtimeInput format
-        wsRef.current.send(JSON.stringify({
-          realtimeInput: {
-            mediaChunks: [{
-              mimeType: "audio/pcm;rate=16000",
-              data: base64Audio,
-            }],
-          },
-        }));
-      }
-    });
+    // Only speech reaches Gemini, bracketed by activity signals
+    const gate = new SpeechGate(
+      {
+        onSpeechStart: () => {
+          handleBargeIn();
+          setIsUserTalking(true);
+          if (transportRef.current?.isOpen()) transportRef.current.sendActivityStart();
+        },
+        onFrame: (pcm16, capturedAt) => {
+          if (transportRef.current?.isOpen()) {
+            transportRef.current.sendAudio(encodePCM16ForAPI(pcm16), CAPTURE_SAMPLE_RATE);
+          }
+          lessonRecordingRef.current?.add("student", pcm16, CAPTURE_SAMPLE_RATE, capturedAt);
+        },
+        onSpeechEnd: () => {
+          setIsUserTalking(false);
+          if (transportRef.current?.isOpen()) transportRef.current.sendActivityEnd();
+        },
+      },
+      { sampleRate: CAPTURE_SAMPLE_RATE, mode: optionsRef.current.micMode }
+    );
+    speechGateRef.current = gate;
+    // Frames arrive just after they finish, so they started one frame ago
+    const recorder = new AudioRecorder(
+      (pcm16) => gate.push(pcm16, Date.now() - (pcm16.length / CAPTURE_SAMPLE_RATE) * 1000),
+      { sampleRate: CAPTURE_SAMPLE_RATE, deviceId: optionsRef.current.inputDeviceId ?? undefined }
+    );
 
     recorderRef.current = recorder;
 
@@ -678,7 +1117,7 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
       setIsRecording(false);
       setStatus("idle");
     }
-  }, []);
+  }, [handleBargeIn]);
 
   useEffect(() => { startAutoListeningRef.current = startAutoListening; }, [startAutoListening]);
 
@@ -687,7 +1126,7 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
       console.log("Already in auto-listen mode");
       return;
     }
-    if (!wsRef.current || !isConnected) {
+    if (!transportRef.current || !isConnected) {
       console.log("Not connected, cannot start recording");
       return;
     }
@@ -697,6 +1136,8 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
   const stopRecording = useCallback(() => {
     console.log("Stopping recording...");
     isListeningRef.current = false;
+    speechGateRef.current?.close();
+    speechGateRef.current = null;
 
     if (audioLevelIntervalRef.current) {
       clearInterval(audioLevelIntervalRef.current);
@@ -712,144 +1153,168 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     setAudioLevel(0);
   }, []);
 
-  // Send image to AI
-  const sendImage = useCallback((base64: string, mimeType: string, prompt?: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+  const startTalking = useCallback(() => {
+    speechGateRef.current?.press();
+  }, []);
 
-    console.log("Sending image to Gemini...", { mimeType });
+  const stopTalking = useCallback(() => {
+    speechGateRef.current?.release();
+  }, []);
 
-    // Send via clientContent with image and text
-    wsRef.current.send(JSON.stringify({
-      clientContent: {
-        turns: [{
-          role: "user",
-          parts: [
-            {
-              inlineData: {
-                mimeType: mimeType,
-                data: base64,
-              },
-            },
-            {
-              text: prompt || "Please analyze this image and describe what you see. If it's a problem or question, help me solve it.",
-            },
-          ],
-        }],
-        turnComplete: true,
-      },
-    }));
+  // Switching modes mid-sentence ends the sentence
+  useEffect(() => {
+    speechGateRef.current?.setMode(options.micMode ?? "voice-activity");
+  }, [options.micMode]);
 
-    const msgId = crypto.randomUUID();
-    setMessages((prev) => [
-      ...prev,
-      {
-        id: msgId,
-        role: "user",
-        content: prompt || "[Shared image for analysis]",
-        timestamp: new Date(),
-      },
-    ]);
+  // A new microphone takes effect straight away, without dropping the call
+  useEffect(() => {
+    if (!isListeningRef.current) return;
+    stopRecording();
+    startAutoListeningRef.current?.();
+  }, [options.inputDeviceId, stopRecording]);
+
+  useEffect(() => {
+    if (audioContextRef.current && audioContextRef.current.state !== "closed") {
+      setOutputDevice(audioContextRef.current, options.outputDeviceId ?? null);
+    }
+  }, [options.outputDeviceId]);
+
+  useEffect(() => {
+    audioQueueRef.current?.setLocalPlayback(options.playVoiceLocally ?? false);
+  }, [options.playVoiceLocally]);
+
+  const getLessonRecording = useCallback(() => lessonRecordingRef.current, []);
+
+  const pingServer = useCallback(async () => {
+    const transport = transportRef.current;
+    return transport?.isOpen() ? transport.ping() : null;
   }, []);
 
+  const getOutboundBacklog = useCallback(() => transportRef.current?.getBufferedAmount() ?? 0, []);
+
+  // Send image to AI
+  const sendImage = useCallback((base64: string, mimeType: string, prompt?: string) => {
+    console.log("Sending image to Gemini...", { mimeType });
+
+    const fullPrompt =
+      prompt || "Please analyze this image and describe what you see. If it's a problem or question, help me solve it.";
+    sendOrQueue(
+      imageEntryKey(base64, fullPrompt),
+      { type: "image", base64, mimeType, prompt: fullPrompt },
+      prompt || "[Shared image for analysis]"
+    );
+  }, [sendOrQueue]);
+
   // Send text content
   const sendTextContent = useCallback((text: string, fileName?: string) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-
     console.log("Sending text to Gemini...", { fileName, length: text.length });
 
     const prompt = fileName
       ? `I've uploaded a file called "${fileName}". Here's its content:\n\n${text}\n\nPlease analyze this content and help me with any questions I have about it.`
       : text;
 
-    wsRef.current.send(JSON.stringify({
-      clientContent: {
-        turns: [{
-          role: "user",
-          parts: [{ text: prompt }],
-        }],
-        turnComplete: true,
-      },
-    }));
-
-    const msgId = crypto.randomUUID();
-    setMessages((prev) => [
-      ...prev,
-      {
-        id: msgId,
-        role: "user",
-        content: fileName ? `[Uploaded file: ${fileName}]` : text.slice(0, 100) + "...",
-        timestamp: new Date(),
-      },
-    ]);
-  }, []);
+    sendOrQueue(
+      textEntryKey(prompt),
+      { type: "text", text: prompt, turnComplete: true },
+      fileName ? `[Uploaded file: ${fileName}]` : text.slice(0, 100) + "..."
+    );
+  }, [sendOrQueue]);
 
   const openWhiteboard = useCallback((content: string) => {
     const { content: wbContent } = extractWhiteboardContent(content);
+    streamingWhiteboardIdRef.current = null;
+    setIsWhiteboardStreaming(false);
     setWhiteboardContent(wbContent || content);
     setShowWhiteboard(true);
   }, []);
 
   const closeWhiteboard = useCallback(() => {
+    // A board from the turn still arriving stays closed, even once its end marker is in
+    const messageId = currentAssistantIdRef.current;
+    if (messageId && streamedWhiteboardRef.current?.messageId === messageId) {
+      dismissedWhiteboardIdRef.current = messageId;
+    }
+    if (streamingWhiteboardIdRef.current) {
+      streamingWhiteboardIdRef.current = null;
+      setIsWhiteboardStreaming(false);
+    }
     setShowWhiteboard(false);
   }, []);
 
   // Notify AI when BSL mode is toggled
   const sendBSLModeChange = useCallback((enabled: boolean) => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-
     console.log("Notifying Gemini of BSL mode change:", enabled);
 
-    const message = enabled
-      ? `[SYSTEM NOTE: BSL (British Sign Language) mode has been ENABLED. The student is deaf or hard-of-hearing and communicates using sign language. \n\nIMPORTANT INSTRUCTIONS FOR BSL MODE:\n1. Keep your responses SHORT and SIMPLE - no more than 2-3 sentences at a time\n2. Use clear, concrete vocabulary that translates well to sign language\n3. Avoid idioms, metaphors, and complex sentence structures\n4. Break down concepts into small, visual steps\n5. When explaining topics, describe them in ways that can be shown with hand gestures\n6. The BSL panel will convert your words to sign animations - shorter responses work better\n7. Ask "Do you understand?" frequently and wait for student response\n8. Focus on one concept at a time\n\nYour text will be displayed alongside BSL hand sign animations. Please adapt your teaching style accordingly.]`
-      : `[SYSTEM NOTE: BSL mode has been DISABLED. The student is now using voice communication. You can return to normal conversational teaching style with longer explanations if needed.]`;
+    const message = getBSLModeNote(enabled);
 
-    wsRef.current.send(JSON.stringify({
-      clientContent: {
-        turns: [{
-          role: "user",
-          parts: [{ text: message }],
-        }],
-        turnComplete: false, // Don't trigger a response, just context
-      },
-    }));
-  }, []);
+    // Don't trigger a response, just context. Only the latest change needs replaying.
+    sendOrQueue("bsl-mode", { type: "text", text: message, turnComplete: false }, null);
+  }, [sendOrQueue]);
+
+  // Report a finished quiz so the teacher can follow up on what was missed
+  const sendQuizResults = useCallback((report: string, summary: string) => {
+    sendOrQueue(textEntryKey(report), { type: "text", text: report, turnComplete: true }, summary);
+  }, [sendOrQueue]);
+
+  const cancelPendingMessage = useCallback((messageId: string) => {
+    if (!getOutboundQueue().cancel(messageId)) return;
+    setMessages((prev) => prev.filter((m) => m.id !== messageId));
+  }, [getOutboundQueue]);
 
   const hasGreetedRef = useRef(false);
 
   const sendGreeting = useCallback(() => {
-    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    if (!transportRef.current?.isOpen()) return;
     if (hasGreetedRef.current) return;
     if (isReconnectingRef.current) return;
     hasGreetedRef.current = true;
 
     console.log("Sending auto-greeting prompt to teacher (avatar ready)");
-    wsRef.current.send(JSON.stringify({
-      clientContent: {
-        turns: [{
-          role: "user",
-          parts: [{
-            text: "Hi! I just joined the call. I'm ready to start.",
-          }],
-        }],
-        turnComplete: true,
-      },
-    }));
+    const greeting = contextRestoredRef.current
+      ? "Hi, I'm back! Let's carry on from where we left off."
+      : "Hi! I just joined the call. I'm ready to start.";
+    transportRef.current.sendText(greeting);
   }, []);
 
-  // Reset greeting flag on fresh connections
+  // A fresh connection is a new lesson: reset the greeting and, unless a past
+  // lesson was just loaded to continue, forget the previous transcript
   const connectWithGreetingReset = useCallback(async () => {
     if (!isReconnectingRef.current) {
       hasGreetedRef.current = false;
+      contextRestoredRef.current = false;
+      if (!resumingLessonRef.current) {
+        messagesRef.current = [];
+        savedSnapshotsRef.current.clear();
+        setMessages([]);
+        setPartialTranscript("");
+      }
     }
     return connect();
   }, [connect]);
 
+  // Load a past lesson so the next connection continues it
+  const resumeLesson = useCallback(async (sessionId: string, completed: string[] = []) => {
+    const previous = await loadLessonMessages(sessionId);
+    if (previous.length === 0) return false;
+
+    previous.forEach((m) => savedSnapshotsRef.current.set(m.id, messageSnapshot(m)));
+    completedObjectivesRef.current = completed;
+    savedObjectivesRef.current = completed.join(",");
+    setCompletedObjectives(completed);
+    lessonSessionPromiseRef.current = reopenLessonSession(sessionId).then(() => sessionId);
+    messagesRef.current = previous;
+    setMessages(previous);
+    resumingLessonRef.current = true;
+    return true;
+  }, []);
+
   return {
     messages,
     partialTranscript,
     isConnected,
     isReconnecting,
     isRecording,
+    isUserTalking,
     isProcessing,
     isSpeaking,
     audioLevel,
@@ -858,14 +1323,24 @@ export const useRealtimeChat = (teacherVoice?: string, teacherInstructions?: str
     disconnect,
     startRecording,
     stopRecording,
+    startTalking,
+    stopTalking,
     setSimliAudioHandler,
     sendImage,
     sendTextContent,
     sendBSLModeChange,
+    sendQuizResults,
+    cancelPendingMessage,
     sendGreeting,
+    resumeLesson,
+    completedObjectives,
     whiteboardContent,
     showWhiteboard,
+    isWhiteboardStreaming,
     openWhiteboard,
     closeWhiteboard,
+    getLessonRecording,
+    pingServer,
+    getOutboundBacklog,
   };
 };
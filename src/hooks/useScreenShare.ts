@@ -1,11 +1,18 @@
 import { useState, useRef, useCallback } from "react";
 
+export interface ScreenshotOptions {
+  /** Widest the capture may be, in pixels */
+  maxWidth?: number;
+  /** JPEG quality from 0 to 1 */
+  quality?: number;
+}
+
 interface UseScreenShareReturn {
   isSharing: boolean;
   screenStream: MediaStream | null;
   startScreenShare: () => Promise<void>;
   stopScreenShare: () => void;
-  captureScreenshot: () => Promise<string | null>;
+  captureScreenshot: (options?: ScreenshotOptions) => Promise<string | null>;
 }
 
 export const useScreenShare = (): UseScreenShareReturn => {
@@ -63,7 +70,7 @@ export const useScreenShare = (): UseScreenShareReturn => {
     }
   }, [stopScreenShare]);
 
-  const captureScreenshot = useCallback(async (): Promise<string | null> => {
+  const captureScreenshot = useCallback(async (options: ScreenshotOptions = {}): Promise<string | null> => {
     if (!videoRef.current || !isSharing) {
       console.log("Cannot capture: no active screen share");
       return null;
@@ -79,8 +86,8 @@ export const useScreenShare = (): UseScreenShareReturn => {
     }
 
     const canvas = document.createElement("canvas");
-    // Resize for efficiency - max 1280px width
-    const scale = Math.min(1, 1280 / video.videoWidth);
+    // Resize for efficiency - max 1280px width unless the connection needs smaller
+    const scale = Math.min(1, (options.maxWidth ?? 1280) / video.videoWidth);
     canvas.width = video.videoWidth * scale;
     canvas.height = video.videoHeight * scale;
 
@@ -90,7 +97,7 @@ export const useScreenShare = (): UseScreenShareReturn => {
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
     
     // Convert to base64 JPEG (smaller than PNG)
-    const base64 = canvas.toDataURL("image/jpeg", 0.8).split(",")[1];
+    const base64 = canvas.toDataURL("image/jpeg", options.quality ?? 0.8).split(",")[1];
     
     console.log("Screenshot captured:", {
       width: canvas.width,
@@ -0,0 +1,110 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import {
+  emptyAnnotationLayer,
+  loadWhiteboardAnnotations,
+  saveWhiteboardAnnotations,
+  type Annotation,
+  type AnnotationLayer,
+} from "@/lib/whiteboardAnnotations";
+
+interface UseWhiteboardAnnotationsOptions {
+  /** The board being drawn on (see whiteboardBoardKey); null while there is nothing to draw on */
+  boardKey: string | null;
+  boardTitle: string;
+}
+
+interface UseWhiteboardAnnotationsReturn {
+  layer: AnnotationLayer | null;
+  /** The saved drawing is on its way; hold off drawing until it arrives */
+  isLoading: boolean;
+  canUndo: boolean;
+  addAnnotation: (annotation: Annotation, boardWidth: number) => void;
+  undo: () => void;
+  clear: () => void;
+}
+
+// Save once the student pauses rather than after every stroke
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * The student's drawing over a whiteboard: loads what was drawn on the board
+ * before, keeps an undo history, and saves changes shortly after they stop.
+ * Anything unsaved is written when the board changes or closes.
+ */
+export const useWhiteboardAnnotations = ({ boardKey, boardTitle }: UseWhiteboardAnnotationsOptions): UseWhiteboardAnnotationsReturn => {
+  const [layer, setLayer] = useState<AnnotationLayer | null>(null);
+  const [past, setPast] = useState<AnnotationLayer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // What still needs writing, and for which board
+  const pendingRef = useRef<{ boardKey: string; boardTitle: string; layer: AnnotationLayer } | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const boardRef = useRef({ boardKey, boardTitle });
+
+  useEffect(() => { boardRef.current = { boardKey, boardTitle }; });
+
+  const flush = useCallback(() => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    const pending = pendingRef.current;
+    pendingRef.current = null;
+    if (pending) saveWhiteboardAnnotations(pending.boardKey, pending.boardTitle, pending.layer);
+  }, []);
+
+  // Load the board's drawing, saving the previous board's first
+  useEffect(() => {
+    setLayer(null);
+    setPast([]);
+    if (!boardKey) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    loadWhiteboardAnnotations(boardKey).then((saved) => {
+      if (cancelled) return;
+      setIsLoading(false);
+      if (saved) setLayer(saved);
+    });
+
+    return () => {
+      cancelled = true;
+      setIsLoading(false);
+      flush();
+    };
+  }, [boardKey, flush]);
+
+  const scheduleSave = useCallback((next: AnnotationLayer) => {
+    const { boardKey: key, boardTitle: title } = boardRef.current;
+    if (!key) return;
+    pendingRef.current = { boardKey: key, boardTitle: title, layer: next };
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flush, SAVE_DELAY_MS);
+  }, [flush]);
+
+  const change = useCallback((next: AnnotationLayer, previous: AnnotationLayer | null) => {
+    setLayer(next);
+    setPast((history) => [...history, previous ?? emptyAnnotationLayer(next.width)]);
+    scheduleSave(next);
+  }, [scheduleSave]);
+
+  const addAnnotation = useCallback((annotation: Annotation, boardWidth: number) => {
+    const current = layer ?? emptyAnnotationLayer(boardWidth);
+    change({ ...current, annotations: [...current.annotations, annotation] }, layer);
+  }, [layer, change]);
+
+  const clear = useCallback(() => {
+    if (!layer || layer.annotations.length === 0) return;
+    change({ ...layer, annotations: [] }, layer);
+  }, [layer, change]);
+
+  const undo = useCallback(() => {
+    const previous = past[past.length - 1];
+    if (!previous) return;
+    setPast(past.slice(0, -1));
+    setLayer(previous);
+    scheduleSave(previous);
+  }, [past, scheduleSave]);
+
+  return { layer, isLoading, canUndo: past.length > 0, addAnnotation, undo, clear };
+};
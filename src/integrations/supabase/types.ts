@@ -14,13 +14,277 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      learner_memories: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          kind: string
+          source_session_id: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          kind: string
+          source_session_id?: string | null
+          user_id?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          kind?: string
+          source_session_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "learner_memories_source_session_id_fkey"
+            columns: ["source_session_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_messages: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          original_content: string | null
+          role: string
+          session_id: string
+          thoughts: string | null
+          whiteboard_content: string | null
+        }
+        Insert: {
+          content?: string
+          created_at?: string
+          id: string
+          original_content?: string | null
+          role: string
+          session_id: string
+          thoughts?: string | null
+          whiteboard_content?: string | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          original_content?: string | null
+          role?: string
+          session_id?: string
+          thoughts?: string | null
+          whiteboard_content?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lesson_messages_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "lesson_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lesson_sessions: {
+        Row: {
+          completed_objectives: string[]
+          ended_at: string | null
+          id: string
+          lesson_plan_id: string | null
+          memories_extracted_at: string | null
+          started_at: string
+          teacher_id: string
+          title: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_objectives?: string[]
+          ended_at?: string | null
+          id?: string
+          lesson_plan_id?: string | null
+          memories_extracted_at?: string | null
+          started_at?: string
+          teacher_id: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          completed_objectives?: string[]
+          ended_at?: string | null
+          id?: string
+          lesson_plan_id?: string | null
+          memories_extracted_at?: string | null
+          started_at?: string
+          teacher_id?: string
+          title?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          bsl_first: boolean
+          captions: boolean
+          created_at: string
+          display_name: string
+          id: string
+          key_stage: string | null
+          updated_at: string
+          year_group: number | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          bsl_first?: boolean
+          captions?: boolean
+          created_at?: string
+          display_name?: string
+          id: string
+          key_stage?: string | null
+          updated_at?: string
+          year_group?: number | null
+        }
+        Update: {
+          avatar_url?: string | null
+          bsl_first?: boolean
+          captions?: boolean
+          created_at?: string
+          display_name?: string
+          id?: string
+          key_stage?: string | null
+          updated_at?: string
+          year_group?: number | null
+        }
+        Relationships: []
+      }
+      review_items: {
+        Row: {
+          created_at: string
+          due_at: string
+          ease_factor: number
+          id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
+          prompt: string
+          question: Json
+          repetitions: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          prompt: string
+          question: Json
+          repetitions?: number
+          user_id?: string
+        }
+        Update: {
+          created_at?: string
+          due_at?: string
+          ease_factor?: number
+          id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
+          prompt?: string
+          question?: Json
+          repetitions?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      session_ticket_redemptions: {
+        Row: {
+          jti: string
+          redeemed_at: string
+          user_id: string
+        }
+        Insert: {
+          jti: string
+          redeemed_at?: string
+          user_id: string
+        }
+        Update: {
+          jti?: string
+          redeemed_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      session_token_grants: {
+        Row: {
+          created_at: string
+          id: number
+          kind: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: never
+          kind: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: never
+          kind?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      whiteboard_annotations: {
+        Row: {
+          board_key: string
+          board_title: string
+          created_at: string
+          id: string
+          layer: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          board_key: string
+          board_title?: string
+          created_at?: string
+          id?: string
+          layer: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          board_key?: string
+          board_title?: string
+          created_at?: string
+          id?: string
+          layer?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      consume_rate_limit: {
+        Args: { p_kind: string; p_user_id: string; p_windows: Json }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
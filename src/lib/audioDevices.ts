@@ -0,0 +1,240 @@
+/**
+ * Audio Devices
+ *
+ * Microphone and speaker selection, remembered per user in localStorage, and
+ * the checks behind the audio settings panel: a loopback recording the
+ * student can listen back to, and an echo check that plays a chirp through
+ * the chosen speaker and looks for it in the microphone signal after the
+ * browser's echo cancellation.
+ */
+
+import { AudioRecorder, CAPTURE_SAMPLE_RATE, createWavFromPCM } from "./audioUtils";
+import { floatToPCM16, pcm16ToFloat } from "./pcmCapture";
+
+export interface AudioDevicePreferences {
+  /** null means the browser default */
+  inputDeviceId: string | null;
+  outputDeviceId: string | null;
+}
+
+export const DEFAULT_AUDIO_DEVICES: AudioDevicePreferences = { inputDeviceId: null, outputDeviceId: null };
+
+const storageKey = (userId: string | null | undefined) => (userId ? `audioDevices:${userId}` : "audioDevices");
+
+export const loadAudioDevicePreferences = (userId: string | null | undefined): AudioDevicePreferences => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId));
+    if (!stored) return DEFAULT_AUDIO_DEVICES;
+    const parsed = JSON.parse(stored) as Partial<AudioDevicePreferences>;
+    return {
+      inputDeviceId: typeof parsed.inputDeviceId === "string" ? parsed.inputDeviceId : null,
+      outputDeviceId: typeof parsed.outputDeviceId === "string" ? parsed.outputDeviceId : null,
+    };
+  } catch (error) {
+    console.warn("Couldn't read audio device preferences:", error);
+    return DEFAULT_AUDIO_DEVICES;
+  }
+};
+
+export const saveAudioDevicePreferences = (userId: string | null | undefined, preferences: AudioDevicePreferences) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(preferences));
+  } catch (error) {
+    console.warn("Couldn't save audio device preferences:", error);
+  }
+};
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+/**
+ * Microphones and speakers the browser knows about. Labels are empty until
+ * the page has had microphone permission.
+ */
+export const listAudioDevices = async (): Promise<AudioDeviceList> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return { inputs: [], outputs: [] };
+  try {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      inputs: devices.filter((d) => d.kind === "audioinput"),
+      outputs: devices.filter((d) => d.kind === "audiooutput"),
+    };
+  } catch (error) {
+    console.warn("Couldn't list audio devices:", error);
+    return { inputs: [], outputs: [] };
+  }
+};
+
+/** Whether speakers can be chosen at all; Firefox and Safari mostly can't */
+export const canSelectOutputDevice = (): boolean =>
+  typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+
+// AudioContext.setSinkId is newer than the DOM typings
+type SinkTarget = HTMLMediaElement | (AudioContext & { setSinkId?: (sinkId: string) => Promise<void> });
+
+/**
+ * Route an element's or context's audio to a speaker; null picks the default.
+ * Returns false if the browser can't or the device has gone.
+ */
+export const setOutputDevice = async (target: SinkTarget, deviceId: string | null): Promise<boolean> => {
+  if (typeof target.setSinkId !== "function") return false;
+  try {
+    await target.setSinkId(deviceId ?? "");
+    return true;
+  } catch (error) {
+    console.warn("Couldn't switch audio output:", error);
+    return false;
+  }
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Play PCM16 audio through a speaker, resolving when it finishes
+ */
+export const playPCM16 = async (pcm: Int16Array, sampleRate: number, outputDeviceId: string | null) => {
+  const wav = createWavFromPCM(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength), { sampleRate });
+  const url = URL.createObjectURL(new Blob([wav], { type: "audio/wav" }));
+  const audio = new Audio(url);
+  try {
+    if (outputDeviceId) await setOutputDevice(audio, outputDeviceId);
+    await new Promise<void>((resolve, reject) => {
+      audio.onended = () => resolve();
+      audio.onerror = () => reject(new Error("Playback failed"));
+      audio.play().catch(reject);
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * A recorder that keeps everything it hears, for the loopback test
+ */
+export class MicrophoneSample {
+  private frames: Int16Array[] = [];
+  private readonly recorder: AudioRecorder;
+
+  constructor(inputDeviceId: string | null) {
+    this.recorder = new AudioRecorder((pcm16) => this.frames.push(pcm16), {
+      sampleRate: CAPTURE_SAMPLE_RATE,
+      deviceId: inputDeviceId ?? undefined,
+    });
+  }
+
+  start(): Promise<void> {
+    this.frames = [];
+    return this.recorder.start();
+  }
+
+  /** Level for the meter, 0-100 */
+  getAudioLevel(): number {
+    return this.recorder.getAudioLevel();
+  }
+
+  /** Stop and return what was recorded at CAPTURE_SAMPLE_RATE */
+  stop(): Int16Array {
+    this.recorder.stop();
+    const pcm = new Int16Array(this.frames.reduce((n, f) => n + f.length, 0));
+    let offset = 0;
+    for (const frame of this.frames) {
+      pcm.set(frame, offset);
+      offset += frame.length;
+    }
+    this.frames = [];
+    return pcm;
+  }
+}
+
+/**
+ * A rising sine sweep with short fades; sweeps correlate sharply, so the echo
+ * delay is easy to find even in a noisy room
+ */
+export const createChirp = (sampleRate: number, durationMs = 300, fromHz = 500, toHz = 4000, amplitude = 0.5) => {
+  const length = Math.round((sampleRate * durationMs) / 1000);
+  const fade = Math.round(sampleRate * 0.01);
+  const duration = length / sampleRate;
+  return Float32Array.from({ length }, (_, i) => {
+    const t = i / sampleRate;
+    const phase = 2 * Math.PI * (fromHz * t + ((toHz - fromHz) * t * t) / (2 * duration));
+    const envelope = Math.min(1, i / fade, (length - 1 - i) / fade);
+    return amplitude * envelope * Math.sin(phase);
+  });
+};
+
+export interface EchoCheckResult {
+  echoDetected: boolean;
+  /** How much quieter the echo is than what was played; Infinity when none was found */
+  returnLossDb: number;
+  /** Delay from speaker to microphone, when an echo was found */
+  delayMs: number | null;
+}
+
+// Echo quieter than this stays under the voice detector and won't cut the teacher off
+const ECHO_RETURN_LOSS_DB = 30;
+// Correlation needed to call a match an echo rather than noise
+const MIN_ECHO_CORRELATION = 0.3;
+const MAX_ECHO_DELAY_MS = 600;
+
+/**
+ * Look for `reference` in `recorded` (same rate) and measure how loud it came back
+ */
+export const analyseEcho = (reference: Float32Array, recorded: Float32Array, sampleRate: number): EchoCheckResult => {
+  const none: EchoCheckResult = { echoDetected: false, returnLossDb: Infinity, delayMs: null };
+  let referenceEnergy = 0;
+  for (const s of reference) referenceEnergy += s * s;
+  if (referenceEnergy === 0) return none;
+
+  const maxLag = Math.min(recorded.length - reference.length, Math.round((sampleRate * MAX_ECHO_DELAY_MS) / 1000));
+  let best = { lag: -1, correlation: 0, gain: 0 };
+  for (let lag = 0; lag <= maxLag; lag++) {
+    let dot = 0;
+    let energy = 0;
+    for (let i = 0; i < reference.length; i++) {
+      const r = recorded[lag + i];
+      dot += reference[i] * r;
+      energy += r * r;
+    }
+    if (energy === 0) continue;
+    const correlation = Math.abs(dot) / Math.sqrt(referenceEnergy * energy);
+    if (correlation > best.correlation) best = { lag, correlation, gain: Math.abs(dot) / referenceEnergy };
+  }
+
+  if (best.lag < 0 || best.correlation < MIN_ECHO_CORRELATION) return none;
+  const returnLossDb = -20 * Math.log10(best.gain);
+  return {
+    echoDetected: returnLossDb < ECHO_RETURN_LOSS_DB,
+    returnLossDb,
+    delayMs: (best.lag / sampleRate) * 1000,
+  };
+};
+
+/**
+ * Play a chirp through the speaker while recording, and report how much of
+ * it the microphone picked up
+ */
+export const runEchoCheck = async ({ inputDeviceId, outputDeviceId }: AudioDevicePreferences): Promise<EchoCheckResult> => {
+  const chirp = createChirp(CAPTURE_SAMPLE_RATE);
+  const sample = new MicrophoneSample(inputDeviceId);
+  await sample.start();
+
+  let playbackMs = 0;
+  let recorded: Float32Array;
+  try {
+    // Let echo cancellation settle before measuring
+    await sleep(300);
+    const startedAt = performance.now();
+    await playPCM16(floatToPCM16(chirp), CAPTURE_SAMPLE_RATE, outputDeviceId);
+    await sleep(MAX_ECHO_DELAY_MS);
+    playbackMs = performance.now() - startedAt;
+  } finally {
+    recorded = pcm16ToFloat(sample.stop());
+  }
+
+  // Only search from roughly when playback began
+  const recordedMs = (recorded.length / CAPTURE_SAMPLE_RATE) * 1000;
+  const from = Math.max(0, Math.round(((recordedMs - playbackMs - 100) / 1000) * CAPTURE_SAMPLE_RATE));
+  return analyseEcho(chirp, recorded.subarray(from), CAPTURE_SAMPLE_RATE);
+};
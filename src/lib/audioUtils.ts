@@ -1,44 +1,90 @@
-// Audio recording utilities for OpenAI Realtime API
-// Target sample rate for OpenAI Realtime API
-const TARGET_SAMPLE_RATE = 16000;
+// Audio capture and playback utilities for the Gemini Live API
+import captureWorkletUrl from "./captureWorklet.ts?worker&url";
+import { CAPTURE_PROCESSOR_NAME, floatToPCM16 } from "./pcmCapture";
+import type { CaptureProcessorOptions, CaptureWorkletCommand, CaptureWorkletMessage } from "./captureWorklet";
+
+// Gemini Live takes 16 kHz mono PCM16 input and speaks 24 kHz
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const PLAYBACK_SAMPLE_RATE = 24000;
+
+export interface AudioRecorderOptions {
+  /** Output sample rate of the PCM16 frames */
+  sampleRate?: number;
+  /** Duration of each posted frame; smaller is lower latency but more messages */
+  chunkMs?: number;
+  /** Microphone to use; the browser default if unset or unplugged */
+  deviceId?: string;
+}
 
 export class AudioRecorder {
   private stream: MediaStream | null = null;
   private audioContext: AudioContext | null = null;
-  private processor: ScriptProcessorNode | null = null;
+  private worklet: AudioWorkletNode | null = null;
   private source: MediaStreamAudioSourceNode | null = null;
   private analyser: AnalyserNode | null = null;
   private gain: GainNode | null = null;
-  private resampleRatio: number = 1;
-  private resampleBuffer: Float32Array = new Float32Array(0);
-  private resampleOffset: number = 0;
+  readonly sampleRate: number;
+  readonly chunkMs: number;
+  readonly deviceId: string | undefined;
+
+  constructor(
+    private onAudioData: (pcm16: Int16Array) => void,
+    options: AudioRecorderOptions = {}
+  ) {
+    this.sampleRate = options.sampleRate ?? CAPTURE_SAMPLE_RATE;
+    this.chunkMs = options.chunkMs ?? 40;
+    this.deviceId = options.deviceId;
+  }
 
-  constructor(private onAudioData: (audioData: Float32Array) => void) {}
+  private async openMicrophone(): Promise<MediaStream> {
+    const audio: MediaTrackConstraints = {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+    };
+    if (!this.deviceId) return navigator.mediaDevices.getUserMedia({ audio });
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: this.deviceId } } });
+    } catch (error) {
+      // A saved headset that's been unplugged shouldn't stop the lesson
+      if (error instanceof DOMException && (error.name === "OverconstrainedError" || error.name === "NotFoundError")) {
+        console.warn("AudioRecorder: chosen microphone unavailable, using the default");
+        return navigator.mediaDevices.getUserMedia({ audio });
+      }
+      throw error;
+    }
+  }
 
   async start() {
     try {
       // Request audio with preferred settings, but browser may use different sample rate
-      this.stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      this.stream = await this.openMicrophone();
 
-      // Create AudioContext - let browser choose its native sample rate first
+      // Let the browser pick its native rate; the worklet resamples
       this.audioContext = new AudioContext();
-      
+
       // Some browsers keep AudioContext suspended until a user gesture.
       if (this.audioContext.state === "suspended") {
         await this.audioContext.resume();
       }
 
-      const nativeSampleRate = this.audioContext.sampleRate;
-      this.resampleRatio = nativeSampleRate / TARGET_SAMPLE_RATE;
-      
-      console.log(`AudioRecorder: Native sample rate ${nativeSampleRate}Hz, target ${TARGET_SAMPLE_RATE}Hz, ratio ${this.resampleRatio.toFixed(3)}`);
+      await this.audioContext.audioWorklet.addModule(captureWorkletUrl);
+
+      const processorOptions: CaptureProcessorOptions = {
+        targetSampleRate: this.sampleRate,
+        frameSamples: Math.round((this.sampleRate * this.chunkMs) / 1000),
+      };
+      this.worklet = new AudioWorkletNode(this.audioContext, CAPTURE_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: "explicit",
+        processorOptions,
+      });
+      this.worklet.port.onmessage = (event: MessageEvent<CaptureWorkletMessage>) => {
+        if (event.data.type === "frame") this.onAudioData(event.data.pcm);
+      };
 
       this.source = this.audioContext.createMediaStreamSource(this.stream);
       this.analyser = this.audioContext.createAnalyser();
@@ -48,62 +94,33 @@ export class AudioRecorder {
       this.gain = this.audioContext.createGain();
       this.gain.gain.value = 0;
 
-      this.processor = this.audioContext.createScriptProcessor(4096, 1, 1);
-      this.processor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        
-        // Resample to 24kHz if needed
-        if (this.resampleRatio !== 1) {
-          const resampled = this.resampleAudio(inputData);
-          if (resampled.length > 0) {
-            this.onAudioData(resampled);
-          }
-        } else {
-          this.onAudioData(new Float32Array(inputData));
-        }
-      };
-
       this.source.connect(this.analyser);
-      this.analyser.connect(this.processor);
-      this.processor.connect(this.gain);
+      this.analyser.connect(this.worklet);
+      this.worklet.connect(this.gain);
       this.gain.connect(this.audioContext.destination);
 
-      console.log("AudioRecorder started with resampling enabled");
+      console.log(
+        `AudioRecorder: capturing at ${this.audioContext.sampleRate}Hz, sending ${this.sampleRate}Hz in ${this.chunkMs}ms frames`
+      );
     } catch (error) {
       console.error("Error accessing microphone:", error);
+      this.stop();
       throw error;
     }
   }
 
-  // Linear interpolation resampling from native rate to 24kHz
-  private resampleAudio(input: Float32Array): Float32Array {
-    const outputLength = Math.floor(input.length / this.resampleRatio);
-    if (outputLength === 0) return new Float32Array(0);
-    
-    const output = new Float32Array(outputLength);
-    
-    for (let i = 0; i < outputLength; i++) {
-      const srcIndex = i * this.resampleRatio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, input.length - 1);
-      const fraction = srcIndex - srcIndexFloor;
-      
-      // Linear interpolation between samples
-      output[i] = input[srcIndexFloor] * (1 - fraction) + input[srcIndexCeil] * fraction;
-    }
-    
-    return output;
-  }
-
   stop() {
+    if (this.worklet) {
+      // Post whatever is left of the current frame before tearing down
+      const command: CaptureWorkletCommand = { type: "stop" };
+      this.worklet.port.postMessage(command);
+      this.worklet.disconnect();
+      this.worklet = null;
+    }
     if (this.source) {
       this.source.disconnect();
       this.source = null;
     }
-    if (this.processor) {
-      this.processor.disconnect();
-      this.processor = null;
-    }
     if (this.analyser) {
       this.analyser.disconnect();
       this.analyser = null;
@@ -120,7 +137,6 @@ export class AudioRecorder {
       this.audioContext.close();
       this.audioContext = null;
     }
-    this.resampleOffset = 0;
     console.log("AudioRecorder stopped");
   }
 
@@ -133,15 +149,9 @@ export class AudioRecorder {
   }
 }
 
-// Encode Float32 audio to base64 PCM16 for API
-export const encodeAudioForAPI = (float32Array: Float32Array): string => {
-  const int16Array = new Int16Array(float32Array.length);
-  for (let i = 0; i < float32Array.length; i++) {
-    const s = Math.max(-1, Math.min(1, float32Array[i]));
-    int16Array[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-  }
-
-  const uint8Array = new Uint8Array(int16Array.buffer);
+// Encode PCM16 samples to base64 for realtimeInput
+export const encodePCM16ForAPI = (pcm16: Int16Array): string => {
+  const uint8Array = new Uint8Array(pcm16.buffer, pcm16.byteOffset, pcm16.byteLength);
   let binary = "";
   const chunkSize = 0x8000;
 
@@ -153,15 +163,21 @@ export const encodeAudioForAPI = (float32Array: Float32Array): string => {
   return btoa(binary);
 };
 
-// Create WAV from PCM data
-export const createWavFromPCM = (pcmData: Uint8Array): Uint8Array => {
-  // Convert bytes to 16-bit samples
-  const int16Data = new Int16Array(pcmData.length / 2);
-  for (let i = 0; i < pcmData.length; i += 2) {
-    int16Data[i / 2] = (pcmData[i + 1] << 8) | pcmData[i];
-  }
+// Encode Float32 audio to base64 PCM16 for API
+export const encodeAudioForAPI = (float32Array: Float32Array): string =>
+  encodePCM16ForAPI(floatToPCM16(float32Array));
+
+export interface WavOptions {
+  sampleRate?: number;
+  numChannels?: number;
+}
 
-  // Create WAV header
+// The 44-byte header of a PCM16 WAV holding `dataSize` bytes of samples, for
+// writing the samples after it in pieces
+export const createWavHeader = (
+  dataSize: number,
+  { sampleRate = PLAYBACK_SAMPLE_RATE, numChannels = 1 }: WavOptions = {}
+): Uint8Array => {
   const wavHeader = new ArrayBuffer(44);
   const view = new DataView(wavHeader);
 
@@ -172,12 +188,9 @@ export const createWavFromPCM = (pcmData: Uint8Array): Uint8Array => {
   };
 
   // WAV header parameters
-  const sampleRate = 24000;
-  const numChannels = 1;
   const bitsPerSample = 16;
   const blockAlign = (numChannels * bitsPerSample) / 8;
   const byteRate = sampleRate * blockAlign;
-  const dataSize = int16Data.byteLength;
 
   // Write WAV header
   writeString(view, 0, "RIFF");
@@ -194,59 +207,188 @@ export const createWavFromPCM = (pcmData: Uint8Array): Uint8Array => {
   writeString(view, 36, "data");
   view.setUint32(40, dataSize, true);
 
+  return new Uint8Array(wavHeader);
+};
+
+// Create WAV from little-endian PCM16 bytes (interleaved when multichannel)
+export const createWavFromPCM = (pcmData: Uint8Array, options: WavOptions = {}): Uint8Array => {
+  // A trailing odd byte isn't a whole sample
+  const blockAlign = (options.numChannels ?? 1) * 2;
+  const dataSize = pcmData.length - (pcmData.length % blockAlign);
+  const wavHeader = createWavHeader(dataSize, options);
+
   // Combine header and data
-  const wavArray = new Uint8Array(wavHeader.byteLength + int16Data.byteLength);
-  wavArray.set(new Uint8Array(wavHeader), 0);
-  wavArray.set(new Uint8Array(int16Data.buffer), wavHeader.byteLength);
+  const wavArray = new Uint8Array(wavHeader.byteLength + dataSize);
+  wavArray.set(wavHeader, 0);
+  wavArray.set(pcmData.subarray(0, dataSize), wavHeader.byteLength);
 
   return wavArray;
 };
 
-// Audio queue for sequential playback
+export interface AudioQueueOptions {
+  /** Sample rate of the incoming PCM16 */
+  sampleRate?: number;
+  /** Lead time before the first chunk after silence, to absorb network jitter */
+  jitterBufferMs?: number;
+  /** Each chunk as it is scheduled, with the wall-clock time (ms) it will start playing */
+  onScheduled?: (samples: Float32Array, startsAt: number) => void;
+  /** Playback was cut off at this wall-clock time (ms) */
+  onCleared?: (at: number) => void;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  startTime: number;
+  duration: number;
+  // Seconds of stream audio before this chunk
+  offset: number;
+}
+
+/**
+ * Gapless playback of streamed PCM16. Each chunk becomes an AudioBuffer and is
+ * scheduled to start exactly where the previous one ends on the AudioContext
+ * clock. After silence (or an underrun) playback starts a jitter buffer
+ * ahead, so chunks that arrive a little late still join up.
+ */
 export class AudioQueue {
-  private queue: Uint8Array[] = [];
-  private isPlaying = false;
   private audioContext: AudioContext;
+  private readonly sampleRate: number;
+  private readonly jitterBuffer: number;
+  private readonly onScheduled?: AudioQueueOptions["onScheduled"];
+  private readonly onCleared?: AudioQueueOptions["onCleared"];
+  private chunks: ScheduledChunk[] = [];
+  private nextStartTime = 0;
+  private scheduledDuration = 0;
+  // A chunk that ended on an odd byte leaves half a sample for the next one
+  private carry: number | null = null;
+  private playLocally = false;
   public destination: MediaStreamAudioDestinationNode;
 
-  constructor(audioContext: AudioContext) {
+  constructor(audioContext: AudioContext, options: AudioQueueOptions = {}) {
     this.audioContext = audioContext;
+    this.sampleRate = options.sampleRate ?? PLAYBACK_SAMPLE_RATE;
+    this.jitterBuffer = (options.jitterBufferMs ?? 60) / 1000;
+    this.onScheduled = options.onScheduled;
+    this.onCleared = options.onCleared;
     this.destination = audioContext.createMediaStreamDestination();
   }
 
-  async addToQueue(audioData: Uint8Array) {
-    this.queue.push(audioData);
-    if (!this.isPlaying) {
-      await this.playNext();
+  addToQueue(audioData: Uint8Array) {
+    const samples = this.toFloat32(audioData);
+    if (samples.length === 0) return;
+
+    try {
+      const buffer = this.audioContext.createBuffer(1, samples.length, this.sampleRate);
+      buffer.copyToChannel(samples, 0);
+
+      const source = this.audioContext.createBufferSource();
+      source.buffer = buffer;
+      source.connect(this.destination); // Route audio ONLY to Simli to allow WebRTC lip-synced playback and prevent echo
+      if (this.playLocally) source.connect(this.audioContext.destination);
+
+      const now = this.audioContext.currentTime;
+      if (this.nextStartTime <= now) {
+        // Idle or underrun: start a jitter buffer ahead rather than immediately
+        this.nextStartTime = now + this.jitterBuffer;
+      }
+
+      const chunk: ScheduledChunk = {
+        source,
+        startTime: this.nextStartTime,
+        duration: buffer.duration,
+        offset: this.scheduledDuration,
+      };
+      source.onended = () => {
+        this.chunks = this.chunks.filter((c) => c !== chunk);
+      };
+      source.start(chunk.startTime);
+
+      this.chunks.push(chunk);
+      this.nextStartTime += buffer.duration;
+      this.scheduledDuration += buffer.duration;
+      this.onScheduled?.(samples, Date.now() + (chunk.startTime - now) * 1000);
+    } catch (error) {
+      console.error("Error scheduling audio:", error);
     }
   }
 
-  private async playNext() {
-    if (this.queue.length === 0) {
-      this.isPlaying = false;
-      return;
+  /**
+   * Also play straight to the speakers, for when the avatar isn't running to
+   * carry the voice. Applies to audio already scheduled too.
+   */
+  setLocalPlayback(enabled: boolean) {
+    if (enabled === this.playLocally) return;
+    this.playLocally = enabled;
+    for (const { source } of this.chunks) {
+      if (enabled) source.connect(this.audioContext.destination);
+      else source.disconnect(this.audioContext.destination);
     }
+  }
 
-    this.isPlaying = true;
-    const audioData = this.queue.shift()!;
+  // Little-endian PCM16 bytes to floats; works on any byte offset
+  private toFloat32(bytes: Uint8Array): Float32Array {
+    let data = bytes;
+    if (this.carry !== null) {
+      data = new Uint8Array(bytes.length + 1);
+      data[0] = this.carry;
+      data.set(bytes, 1);
+      this.carry = null;
+    }
+    if (data.length % 2 === 1) {
+      this.carry = data[data.length - 1];
+      data = data.subarray(0, data.length - 1);
+    }
 
-    try {
-      const wavData = createWavFromPCM(audioData);
-      const audioBuffer = await this.audioContext.decodeAudioData(wavData.buffer.slice(0) as ArrayBuffer);
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const samples = new Float32Array(data.length / 2);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = view.getInt16(i * 2, true) / 0x8000;
+    }
+    return samples;
+  }
 
-      const source = this.audioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(this.destination); // Route audio ONLY to Simli to allow WebRTC lip-synced playback and prevent echo
+  /** Whether any scheduled audio has yet to finish */
+  get isPlaying(): boolean {
+    return this.nextStartTime > this.audioContext.currentTime;
+  }
 
-      source.onended = () => this.playNext();
-      source.start(0);
-    } catch (error) {
-      console.error("Error playing audio:", error);
-      this.playNext(); // Continue with next segment even if current fails
+  /** Seconds of audio scheduled but not yet played */
+  getBufferedDuration(): number {
+    return Math.max(0, this.nextStartTime - this.audioContext.currentTime);
+  }
+
+  /** Seconds of audio queued since the queue was created or last cleared */
+  getScheduledDuration(): number {
+    return this.scheduledDuration;
+  }
+
+  /**
+   * Seconds of stream audio actually played since the queue was created or
+   * last cleared. Jitter-buffer lead time and underrun gaps don't count.
+   */
+  getPlaybackPosition(): number {
+    const now = this.audioContext.currentTime;
+    for (const chunk of this.chunks) {
+      if (now < chunk.startTime) return chunk.offset;
+      if (now < chunk.startTime + chunk.duration) return chunk.offset + (now - chunk.startTime);
     }
+    return this.scheduledDuration;
   }
 
   clear() {
-    this.queue = [];
+    if (this.isPlaying) this.onCleared?.(Date.now());
+    for (const { source } of this.chunks) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+      source.disconnect();
+    }
+    this.chunks = [];
+    this.nextStartTime = 0;
+    this.scheduledDuration = 0;
+    this.carry = null;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,72 @@
+/**
+ * Microphone capture worklet
+ *
+ * Runs on the audio rendering thread, so capture keeps up however busy the
+ * page is. Each 128-frame block is resampled to the target rate and cut into
+ * PCM16 frames, which are posted to the main thread ready for realtimeInput.
+ * Loaded by AudioRecorder via `?worker&url` so Vite bundles the imports.
+ */
+
+import { CAPTURE_PROCESSOR_NAME, PCM16Chunker } from "./pcmCapture";
+import { Resampler } from "./pcmResampler";
+
+// AudioWorkletGlobalScope isn't part of the DOM lib
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+export interface CaptureProcessorOptions {
+  targetSampleRate: number;
+  frameSamples: number;
+}
+
+/** Messages posted to the main thread */
+export type CaptureWorkletMessage = { type: "frame"; pcm: Int16Array };
+
+/** Messages accepted from the main thread */
+export type CaptureWorkletCommand = { type: "flush" } | { type: "stop" };
+
+class PCMCaptureProcessor extends AudioWorkletProcessor {
+  private readonly resampler: Resampler;
+  private readonly chunker: PCM16Chunker;
+  private active = true;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameSamples } = options.processorOptions as CaptureProcessorOptions;
+    this.resampler = new Resampler(sampleRate, targetSampleRate);
+    this.chunker = new PCM16Chunker(frameSamples);
+
+    this.port.onmessage = (event: MessageEvent<CaptureWorkletCommand>) => {
+      // The resampler holds back a few milliseconds of lookahead; release it at the end
+      if (event.data.type === "stop") {
+        for (const frame of this.chunker.push(this.resampler.flush())) this.post(frame);
+      }
+      const pending = this.chunker.flush();
+      if (pending) this.post(pending);
+      if (event.data.type === "stop") this.active = false;
+    };
+  }
+
+  private post(pcm: Int16Array) {
+    const message: CaptureWorkletMessage = { type: "frame", pcm };
+    this.port.postMessage(message, [pcm.buffer]);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // Only the first channel is used; the stream is requested as mono
+    const channel = inputs[0]?.[0];
+    if (channel && this.active) {
+      for (const frame of this.chunker.push(this.resampler.process(channel))) this.post(frame);
+    }
+    return this.active;
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR_NAME, PCMCaptureProcessor);
@@ -0,0 +1,27 @@
+export interface Message {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  originalContent?: string; // Raw content with whiteboard markers
+  rawTranscription?: string;
+  thoughts?: string; // Model reasoning that leaked into the text stream
+  timestamp: Date;
+  pending?: boolean; // Queued while reconnecting, not yet sent
+}
+
+/** Stands in for a reply the student cut off before hearing any of it */
+export const INTERRUPTED_MARKER = "(interrupted)";
+
+/**
+ * Cut spoken text back to roughly the share of its audio that was played,
+ * ending on a word boundary. Used when the student interrupts the teacher.
+ * Never empty, so the turn still shows and is saved.
+ */
+export const truncateToHeard = (text: string, heardFraction: number): string => {
+  if (heardFraction >= 1) return text;
+  if (heardFraction <= 0) return INTERRUPTED_MARKER;
+  const cut = Math.round(text.length * heardFraction);
+  const boundary = text.lastIndexOf(" ", cut);
+  const heard = text.slice(0, boundary > 0 ? boundary : cut).replace(/[\s,;:.!?-]+$/, "");
+  return heard ? `${heard}…` : INTERRUPTED_MARKER;
+};
@@ -0,0 +1,181 @@
+/**
+ * Connection Quality
+ *
+ * Rates the lesson's connection from periodic samples: round-trip time to
+ * the realtime proxy, how much microphone audio is stuck in the WebSocket's
+ * send buffer, and packet loss on the avatar's WebRTC stream. When the
+ * connection stays poor, media steps down one level at a time (smaller
+ * screenshots, then no avatar video, then text only) and steps back up once
+ * it has been good for a while, so a brief wobble doesn't flap the UI.
+ */
+
+export type ConnectionQuality = "good" | "fair" | "poor";
+
+/** What the lesson is still sending and showing, from everything to the least */
+export const MEDIA_LEVELS = ["full", "reduced-screenshots", "no-avatar-video", "text-only"] as const;
+export type MediaLevel = (typeof MEDIA_LEVELS)[number];
+
+export interface VideoStats {
+  /** Packets lost since the previous sample, as a percentage */
+  packetLossPercent: number;
+  jitterMs: number;
+  framesPerSecond: number | null;
+}
+
+export interface ConnectionSample {
+  /** Null when the ping timed out */
+  rttMs: number | null;
+  /** Bytes queued on the WebSocket but not yet sent */
+  bufferedBytes: number;
+  /** Null when there's no avatar stream to measure */
+  video: VideoStats | null;
+}
+
+export interface ConnectionState {
+  quality: ConnectionQuality;
+  level: MediaLevel;
+  /** Smoothed round-trip time, or null before the first reply */
+  rttMs: number | null;
+  bufferedBytes: number;
+  video: VideoStats | null;
+}
+
+export interface ConnectionQualityMonitorOptions {
+  /** Consecutive poor samples before stepping down a level */
+  degradeAfter?: number;
+  /** Consecutive good samples before stepping back up */
+  recoverAfter?: number;
+  /** Never step below this level, e.g. to keep the avatar */
+  lowestLevel?: MediaLevel;
+}
+
+// Thresholds for fair and poor
+const RTT_MS = { fair: 300, poor: 800 };
+// Microphone audio is about 43 KB/s once base64-encoded, so these are roughly 0.4 s and 1.5 s behind
+const BUFFERED_BYTES = { fair: 16 * 1024, poor: 64 * 1024 };
+const PACKET_LOSS_PERCENT = { fair: 3, poor: 10 };
+const RTT_SMOOTHING = 0.3;
+
+const rate = (value: number, thresholds: { fair: number; poor: number }): ConnectionQuality =>
+  value >= thresholds.poor ? "poor" : value >= thresholds.fair ? "fair" : "good";
+
+const RANK: Record<ConnectionQuality, number> = { good: 0, fair: 1, poor: 2 };
+const worst = (...qualities: ConnectionQuality[]) => qualities.reduce((a, b) => (RANK[b] > RANK[a] ? b : a));
+
+/**
+ * Rate a single sample on its worst measurement
+ */
+export const rateSample = (sample: ConnectionSample, smoothedRttMs: number | null = sample.rttMs): ConnectionQuality =>
+  worst(
+    sample.rttMs === null ? "poor" : rate(smoothedRttMs ?? sample.rttMs, RTT_MS),
+    rate(sample.bufferedBytes, BUFFERED_BYTES),
+    sample.video ? rate(sample.video.packetLossPercent, PACKET_LOSS_PERCENT) : "good"
+  );
+
+export class ConnectionQualityMonitor {
+  private readonly degradeAfter: number;
+  private readonly recoverAfter: number;
+  private readonly lowestLevel: number;
+  private levelIndex = 0;
+  private poorStreak = 0;
+  private goodStreak = 0;
+  private smoothedRtt: number | null = null;
+  private last: ConnectionState = { quality: "good", level: "full", rttMs: null, bufferedBytes: 0, video: null };
+
+  constructor(options: ConnectionQualityMonitorOptions = {}) {
+    this.degradeAfter = options.degradeAfter ?? 3;
+    this.recoverAfter = options.recoverAfter ?? 10;
+    this.lowestLevel = MEDIA_LEVELS.indexOf(options.lowestLevel ?? "text-only");
+  }
+
+  get state(): ConnectionState {
+    return this.last;
+  }
+
+  add(sample: ConnectionSample): ConnectionState {
+    if (sample.rttMs !== null) {
+      this.smoothedRtt =
+        this.smoothedRtt === null ? sample.rttMs : this.smoothedRtt + (sample.rttMs - this.smoothedRtt) * RTT_SMOOTHING;
+    }
+    const quality = rateSample(sample, this.smoothedRtt);
+
+    if (quality === "poor") {
+      this.goodStreak = 0;
+      if (++this.poorStreak >= this.degradeAfter && this.levelIndex < this.lowestLevel) {
+        this.levelIndex++;
+        this.poorStreak = 0;
+      }
+    } else {
+      this.poorStreak = 0;
+      // Fair holds the current level; only good connections earn media back
+      this.goodStreak = quality === "good" ? this.goodStreak + 1 : 0;
+      if (this.goodStreak >= this.recoverAfter && this.levelIndex > 0) {
+        this.levelIndex--;
+        this.goodStreak = 0;
+      }
+    }
+
+    this.last = {
+      quality,
+      level: MEDIA_LEVELS[this.levelIndex],
+      rttMs: this.smoothedRtt,
+      bufferedBytes: sample.bufferedBytes,
+      video: sample.video,
+    };
+    return this.last;
+  }
+
+  reset() {
+    this.levelIndex = 0;
+    this.poorStreak = 0;
+    this.goodStreak = 0;
+    this.smoothedRtt = null;
+    this.last = { quality: "good", level: "full", rttMs: null, bufferedBytes: 0, video: null };
+  }
+}
+
+/** Whether media has stepped down to `threshold` or further */
+export const isMediaLevelAtLeast = (level: MediaLevel, threshold: MediaLevel) =>
+  MEDIA_LEVELS.indexOf(level) >= MEDIA_LEVELS.indexOf(threshold);
+
+export interface InboundVideoCounters {
+  packetsLost: number;
+  packetsReceived: number;
+}
+
+/**
+ * Summarise an RTCStatsReport's inbound video, with loss measured since the
+ * counters from the previous call. Returns null without an inbound video stream.
+ */
+export const summariseVideoStats = (
+  report: RTCStatsReport,
+  previous: InboundVideoCounters | null
+): { stats: VideoStats; counters: InboundVideoCounters } | null => {
+  let inbound: Record<string, unknown> | null = null;
+  report.forEach((value: Record<string, unknown>) => {
+    if (value.type === "inbound-rtp" && (value.kind ?? value.mediaType) === "video") inbound = value;
+  });
+  if (!inbound) return null;
+
+  const stat: Record<string, unknown> = inbound;
+  const counters = {
+    packetsLost: Number(stat.packetsLost ?? 0),
+    packetsReceived: Number(stat.packetsReceived ?? 0),
+  };
+  const lost = counters.packetsLost - (previous?.packetsLost ?? 0);
+  const received = counters.packetsReceived - (previous?.packetsReceived ?? 0);
+  const total = lost + received;
+
+  return {
+    stats: {
+      packetLossPercent: total > 0 ? Math.max(0, (lost / total) * 100) : 0,
+      jitterMs: Number(stat.jitter ?? 0) * 1000,
+      framesPerSecond: typeof stat.framesPerSecond === "number" ? stat.framesPerSecond : null,
+    },
+    counters,
+  };
+};
+
+/** JPEG size and quality for screen captures at each level */
+export const screenshotSettings = (level: MediaLevel): { maxWidth: number; quality: number } =>
+  level === "full" ? { maxWidth: 1280, quality: 0.8 } : { maxWidth: 800, quality: 0.5 };
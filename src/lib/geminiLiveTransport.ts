@@ -0,0 +1,367 @@
+/**
+ * Gemini Live Transport
+ *
+ * Talks to the Gemini Live BidiGenerateContent API through the
+ * `realtime-chat` edge function proxy.
+ */
+
+import {
+  TransportEventEmitter,
+  type RealtimeSessionConfig,
+  type RealtimeToolResponse,
+  type RealtimeTransport,
+  type RealtimeTransportEvent,
+  type RealtimeTransportListener,
+  type RealtimeTurn,
+} from "./realtimeTransport";
+
+export const GEMINI_LIVE_PROXY_URL = "wss://xjdgrrlmwulqvamupvpc.functions.supabase.co/functions/v1/realtime-chat";
+
+export const GEMINI_MODEL = "gemini-2.5-flash-native-audio-preview-12-2025";
+
+// Point at a local mock server (see `npm run mock:gemini`) for offline development
+const configuredUrl = (): string => import.meta.env.VITE_REALTIME_WS_URL || GEMINI_LIVE_PROXY_URL;
+
+const CONNECT_TIMEOUT_MS = 15000;
+const PING_TIMEOUT_MS = 5000;
+
+const DEFAULT_SYSTEM_INSTRUCTION =
+  "You are EduGuide, a helpful AI teacher. Answer educational questions clearly and concisely.";
+
+export interface GeminiLiveTransportOptions {
+  url?: string;
+  model?: string;
+  /** Fetches a fresh access ticket for each connection; omitted for local mock servers */
+  getTicket?: () => Promise<string>;
+  /** How long to wait for the session to be ready before giving up */
+  connectTimeoutMs?: number;
+}
+
+const decodeBase64 = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Loose shape of messages arriving from the proxy (Gemini payloads plus proxy.* events)
+interface GeminiServerMessage {
+  type?: string;
+  message?: string;
+  code?: number;
+  reason?: string;
+  setupComplete?: unknown;
+  goAway?: { timeLeft?: string };
+  toolCall?: { functionCalls?: Array<{ id?: string; name?: string; args?: Record<string, unknown> }> };
+  toolCallCancellation?: { ids?: string[] };
+  interrupted?: unknown;
+  turnComplete?: unknown;
+  id?: number;
+  serverContent?: {
+    inputTranscription?: { text?: string };
+    outputTranscription?: { text?: string };
+    modelTurn?: { parts?: Array<{ text?: string; inlineData?: { mimeType?: string; data?: string } }> };
+    interrupted?: boolean;
+    turnComplete?: boolean;
+  };
+}
+
+/**
+ * Map one raw Gemini (or proxy) message to transport events.
+ * Gemini nests `interrupted`/`turnComplete` inside `serverContent`; older proxy
+ * builds surfaced them at the top level, so both shapes are accepted.
+ */
+export function mapGeminiMessage(data: GeminiServerMessage): RealtimeTransportEvent[] {
+  if (data.type === "proxy.error") {
+    return [{ type: "error", message: data.message || "Backend proxy error" }];
+  }
+  if (data.type === "proxy.gemini_closed") {
+    return [{ type: "closed", code: data.code, reason: data.reason, upstream: true }];
+  }
+  if (data.setupComplete !== undefined) {
+    return [{ type: "ready" }];
+  }
+  if (data.goAway !== undefined) {
+    return [{ type: "goAway", timeLeft: data.goAway?.timeLeft }];
+  }
+
+  if (data.toolCall !== undefined) {
+    const calls = (data.toolCall.functionCalls ?? [])
+      .filter((call) => call.id && call.name)
+      .map((call) => ({ id: call.id!, name: call.name!, args: call.args ?? {} }));
+    return [{ type: "toolCall", calls }];
+  }
+  if (data.toolCallCancellation !== undefined) {
+    return [{ type: "toolCallCancellation", ids: data.toolCallCancellation.ids ?? [] }];
+  }
+
+  const events: RealtimeTransportEvent[] = [];
+  const sc = data.serverContent;
+
+  if (sc?.inputTranscription?.text) {
+    events.push({ type: "inputTranscription", text: sc.inputTranscription.text });
+  }
+  if (sc?.outputTranscription?.text) {
+    events.push({ type: "outputTranscription", text: sc.outputTranscription.text });
+  }
+
+  for (const part of sc?.modelTurn?.parts ?? []) {
+    if (part.inlineData?.data) {
+      try {
+        events.push({ type: "audio", data: decodeBase64(part.inlineData.data) });
+      } catch (e) {
+        console.error("Error decoding Gemini audio:", e);
+      }
+    }
+    if (part.text) {
+      events.push({ type: "text", text: part.text });
+    }
+  }
+
+  if (data.interrupted !== undefined || sc?.interrupted) {
+    events.push({ type: "interrupted" });
+  }
+  if (data.turnComplete !== undefined || sc?.turnComplete) {
+    events.push({ type: "turnComplete" });
+  }
+
+  if (events.length === 0 && !sc) {
+    events.push({ type: "unhandled", data });
+  }
+  return events;
+}
+
+export class GeminiLiveTransport implements RealtimeTransport {
+  private ws: WebSocket | null = null;
+  private emitter = new TransportEventEmitter();
+  private readonly url: string;
+  private readonly model: string;
+  private readonly getTicket?: () => Promise<string>;
+  private readonly connectTimeoutMs: number;
+  private connectAttempt = 0;
+  private nextPingId = 1;
+  // Pings awaiting a proxy.pong, by id
+  private pendingPings = new Map<number, { sentAt: number; resolve: (rttMs: number | null) => void }>();
+
+  constructor(options: GeminiLiveTransportOptions = {}) {
+    this.url = options.url ?? configuredUrl();
+    this.model = options.model ?? GEMINI_MODEL;
+    this.getTicket = options.getTicket;
+    this.connectTimeoutMs = options.connectTimeoutMs ?? CONNECT_TIMEOUT_MS;
+  }
+
+  onEvent(listener: RealtimeTransportListener): () => void {
+    return this.emitter.on(listener);
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  async connect(config: RealtimeSessionConfig): Promise<void> {
+    const attempt = ++this.connectAttempt;
+    let url = this.url;
+    if (this.getTicket) {
+      const ticket = await this.getTicket();
+      // disconnect() was called while the ticket was being minted
+      if (attempt !== this.connectAttempt) throw new Error("Connection cancelled");
+      url = `${url}${url.includes("?") ? "&" : "?"}ticket=${encodeURIComponent(ticket)}`;
+    }
+    return this.openSocket(url, config);
+  }
+
+  private openSocket(url: string, config: RealtimeSessionConfig): Promise<void> {
+    console.log("Connecting to Gemini Live via proxy...");
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    return new Promise<void>((resolve, reject) => {
+      // Runs until setupComplete: reaching Gemini isn't enough if the session never gets set up
+      const timeout = setTimeout(() => {
+        reject(new Error("Connection timeout"));
+        ws.close();
+      }, this.connectTimeoutMs);
+
+      ws.onopen = () => {
+        console.log("WebSocket connected to proxy");
+      };
+
+      ws.onmessage = async (event) => {
+        try {
+          let textData = event.data;
+          if (event.data instanceof Blob) {
+            textData = await event.data.text();
+          }
+          const data: GeminiServerMessage = JSON.parse(textData);
+
+          // Answered by the proxy itself, so it measures the browser-to-proxy leg
+          if (data.type === "proxy.pong") {
+            const ping = data.id !== undefined ? this.pendingPings.get(data.id) : undefined;
+            if (ping) {
+              this.pendingPings.delete(data.id!);
+              ping.resolve(performance.now() - ping.sentAt);
+            }
+            return;
+          }
+
+          // Proxy reached Gemini: configure the session
+          if (data.type === "proxy.gemini_connected") {
+            console.log("Proxy connected to Gemini Live API");
+            this.send(this.buildSetupMessage(config));
+            console.log("Sent Gemini setup message with voice:", config.voice);
+            return;
+          }
+
+          for (const mapped of mapGeminiMessage(data)) {
+            if (mapped.type === "unhandled") {
+              console.log("Unhandled Gemini event:", JSON.stringify(data).substring(0, 200));
+            }
+            this.emitter.emit(mapped);
+            if (mapped.type === "ready") {
+              clearTimeout(timeout);
+              resolve();
+            }
+          }
+        } catch (e) {
+          console.error("Error parsing Gemini message:", e);
+        }
+      };
+
+      ws.onerror = (error) => {
+        console.error("WebSocket error:", error);
+        clearTimeout(timeout);
+        reject(error);
+      };
+
+      ws.onclose = (event) => {
+        console.log("WebSocket closed", { code: event.code, reason: event.reason });
+        clearTimeout(timeout);
+        if (this.ws === ws) {
+          this.ws = null;
+          this.cancelPings();
+        }
+        this.emitter.emit({ type: "closed", code: event.code, reason: event.reason, upstream: false });
+      };
+    });
+  }
+
+  disconnect() {
+    this.connectAttempt++;
+    if (this.ws) {
+      // Intentional close: detach handlers so no `closed` event fires
+      this.ws.onclose = null;
+      this.ws.onmessage = null;
+      this.ws.onerror = null;
+      this.ws.close();
+      this.ws = null;
+    }
+    this.cancelPings();
+  }
+
+  ping(timeoutMs = PING_TIMEOUT_MS): Promise<number | null> {
+    if (!this.isOpen()) return Promise.resolve(null);
+    const id = this.nextPingId++;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.pendingPings.delete(id);
+        resolve(null);
+      }, timeoutMs);
+      this.pendingPings.set(id, {
+        sentAt: performance.now(),
+        resolve: (rttMs) => {
+          clearTimeout(timer);
+          resolve(rttMs);
+        },
+      });
+      this.send({ type: "proxy.ping", id });
+    });
+  }
+
+  getBufferedAmount(): number {
+    return this.ws?.bufferedAmount ?? 0;
+  }
+
+  private cancelPings() {
+    this.pendingPings.forEach((ping) => ping.resolve(null));
+    this.pendingPings.clear();
+  }
+
+  sendAudio(base64Pcm16: string, sampleRate: number) {
+    this.send({
+      realtimeInput: {
+        mediaChunks: [{
+          mimeType: `audio/pcm;rate=${sampleRate}`,
+          data: base64Pcm16,
+        }],
+      },
+    });
+  }
+
+  sendActivityStart() {
+    this.send({ realtimeInput: { activityStart: {} } });
+  }
+
+  sendActivityEnd() {
+    this.send({ realtimeInput: { activityEnd: {} } });
+  }
+
+  sendText(text: string, options: { turnComplete?: boolean } = {}) {
+    this.sendTurns([{ role: "user", parts: [{ text }] }], options.turnComplete ?? true);
+  }
+
+  sendImage(base64: string, mimeType: string, prompt: string) {
+    this.sendTurns([{
+      role: "user",
+      parts: [
+        { inlineData: { mimeType, data: base64 } },
+        { text: prompt },
+      ],
+    }], true);
+  }
+
+  sendToolResponses(responses: RealtimeToolResponse[]) {
+    if (responses.length === 0) return;
+    this.send({ toolResponse: { functionResponses: responses } });
+  }
+
+  sendTurns(turns: RealtimeTurn[], turnComplete: boolean) {
+    this.send({ clientContent: { turns, turnComplete } });
+  }
+
+  private send(message: unknown) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(JSON.stringify(message));
+  }
+
+  private buildSetupMessage(config: RealtimeSessionConfig) {
+    return {
+      setup: {
+        model: `models/${this.model}`,
+        generationConfig: {
+          responseModalities: ["AUDIO"],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: {
+                voiceName: config.voice || "Kore",
+              },
+            },
+          },
+        },
+        // Enable transcription so we can display chat text alongside audio
+        outputAudioTranscription: {},
+        inputAudioTranscription: {},
+        systemInstruction: {
+          parts: [{
+            text: config.systemInstruction || DEFAULT_SYSTEM_INSTRUCTION,
+          }],
+        },
+        ...(config.tools?.length ? { tools: [{ functionDeclarations: config.tools }] } : {}),
+        ...(config.manualActivityDetection
+          ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }
+          : {}),
+      },
+    };
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Learner Auth
+ *
+ * Every learner signs in with Supabase Auth: lesson rows are scoped to the
+ * user by RLS and session tokens are minted for it.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Id of the signed-in learner, or null when nobody is signed in
+ */
+export const getLearnerUserId = async (): Promise<string | null> => {
+  const { data } = await supabase.auth.getSession();
+  const userId = data.session?.user.id ?? null;
+  if (!userId) {
+    console.warn("Learner auth: no signed-in user");
+  }
+  return userId;
+};
+
+export const signInWithPassword = async (email: string, password: string): Promise<string | null> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  return error ? error.message : null;
+};
+
+/**
+ * Returns an error message, or null on success. `needsConfirmation` is true when
+ * the project requires email confirmation before the first sign-in.
+ */
+export const signUpWithPassword = async (
+  email: string,
+  password: string
+): Promise<{ error: string | null; needsConfirmation: boolean }> => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: `${window.location.origin}/profile` },
+  });
+  if (error) return { error: error.message, needsConfirmation: false };
+  return { error: null, needsConfirmation: !data.session };
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) console.warn("Learner auth: sign out failed", error);
+};
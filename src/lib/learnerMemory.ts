@@ -0,0 +1,112 @@
+/**
+ * Learner Memory
+ *
+ * Short facts about the student (strengths, misconceptions, goals,
+ * preferences) extracted from finished lessons by the `extract-memories`
+ * edge function. A compact block of them is added to the teacher's system
+ * instruction so the next lesson picks up where the last one left off.
+ * Students can see and delete everything that is remembered.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { getLearnerUserId } from "./learnerAuth";
+
+export type LearnerMemory = Tables<"learner_memories">;
+
+export type LearnerMemoryKind = "strength" | "misconception" | "goal" | "preference" | "fact";
+
+export const MEMORY_KINDS: Array<{ value: LearnerMemoryKind; label: string }> = [
+  { value: "goal", label: "Goals" },
+  { value: "misconception", label: "Things to work on" },
+  { value: "strength", label: "Strengths" },
+  { value: "preference", label: "How you like to learn" },
+  { value: "fact", label: "Other things" },
+];
+
+/**
+ * List the current learner's memories, most recent first
+ */
+export const listLearnerMemories = async (): Promise<LearnerMemory[]> => {
+  const { data, error } = await supabase
+    .from("learner_memories")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    console.warn("Learner memory: failed to list memories", error);
+    return [];
+  }
+  return data ?? [];
+};
+
+/**
+ * Forget a single memory
+ */
+export const deleteLearnerMemory = async (id: string): Promise<boolean> => {
+  const { error } = await supabase.from("learner_memories").delete().eq("id", id);
+  if (error) {
+    console.warn("Learner memory: failed to delete memory", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Forget everything remembered about the current learner
+ */
+export const clearLearnerMemories = async (): Promise<boolean> => {
+  const userId = await getLearnerUserId();
+  if (!userId) return false;
+
+  const { error } = await supabase.from("learner_memories").delete().eq("user_id", userId);
+  if (error) {
+    console.warn("Learner memory: failed to clear memories", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Ask the server to mine a finished lesson for new memories. Best-effort:
+ * the lesson is already saved, so a failure here is only logged.
+ */
+export const extractSessionMemories = async (sessionId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke("extract-memories", { body: { sessionId } });
+  if (error) {
+    console.warn("Learner memory: extraction failed", error);
+  }
+};
+
+/**
+ * Memory block appended to the teacher's system prompt. Grouped by kind and
+ * trimmed to `maxChars`, newest memories first, so the prompt stays small.
+ */
+export const buildMemoryBlock = (memories: LearnerMemory[], maxChars = 1200): string => {
+  if (memories.length === 0) return "";
+
+  const newestFirst = [...memories].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const kept: LearnerMemory[] = [];
+  let used = 0;
+  for (const memory of newestFirst) {
+    const content = memory.content.trim();
+    if (!content) continue;
+    // Each line costs its content plus the "- " prefix and newline
+    if (used + content.length + 3 > maxChars) break;
+    kept.push(memory);
+    used += content.length + 3;
+  }
+  if (kept.length === 0) return "";
+
+  const sections = MEMORY_KINDS.map(({ value }) => {
+    const lines = kept.filter((m) => m.kind === value).map((m) => `- ${m.content.trim()}`);
+    return lines.length ? `  <${value}>\n${lines.join("\n")}\n  </${value}>` : "";
+  }).filter(Boolean);
+
+  return `
+<learner_memory>
+${sections.join("\n")}
+  <guidance>Notes from earlier lessons. Build on them naturally; don't read them out or mention that you keep notes.</guidance>
+</learner_memory>
+`;
+};
@@ -0,0 +1,325 @@
+/**
+ * Lesson Plans
+ *
+ * Structured, curriculum-aligned lessons each teacher can run instead of an
+ * open chat. A plan names its UK national curriculum key stage and topic, the
+ * objectives the student should reach, and a sequence of activities. The
+ * chosen plan is added to the system prompt, and the teacher ticks objectives
+ * off with the mark_objective_complete tool.
+ */
+
+import type { KeyStage } from "./profiles";
+
+export type LessonActivityKind = "starter" | "explain" | "worked_example" | "practice" | "quiz" | "discussion" | "plenary";
+
+export interface LessonObjective {
+  id: string;
+  text: string;
+}
+
+export interface LessonActivity {
+  kind: LessonActivityKind;
+  title: string;
+  minutes: number;
+  description: string;
+}
+
+export interface LessonPlan {
+  id: string;
+  teacherId: string;
+  subject: string;
+  keyStage: KeyStage;
+  topic: string;
+  summary: string;
+  objectives: LessonObjective[];
+  activities: LessonActivity[];
+}
+
+export const LESSON_PLANS: LessonPlan[] = [
+  {
+    id: "lina-ks1-number-bonds",
+    teacherId: "lina",
+    subject: "Mathematics",
+    keyStage: "KS1",
+    topic: "Number bonds to 10 and 20",
+    summary: "Find pairs that make 10, then use them to make 20.",
+    objectives: [
+      { id: "bonds-10", text: "Recall all the number bonds to 10" },
+      { id: "bonds-20", text: "Use bonds to 10 to find bonds to 20" },
+      { id: "missing-number", text: "Solve missing number problems like 7 + _ = 10" },
+    ],
+    activities: [
+      { kind: "starter", title: "Ten fingers", minutes: 3, description: "Hold up some fingers; how many are down?" },
+      { kind: "explain", title: "Pairs that make 10", minutes: 5, description: "Show the pairs on a ten frame on the whiteboard." },
+      { kind: "practice", title: "Double the ten", minutes: 6, description: "Turn 3 + 7 into 13 + 7 and 3 + 17." },
+      { kind: "quiz", title: "Missing numbers", minutes: 5, description: "Four quick missing number questions." },
+      { kind: "plenary", title: "Favourite pair", minutes: 2, description: "Student picks a bond and explains how they know it." },
+    ],
+  },
+  {
+    id: "lina-ks2-fractions",
+    teacherId: "lina",
+    subject: "Mathematics",
+    keyStage: "KS2",
+    topic: "Equivalent fractions",
+    summary: "See why 1/2, 2/4 and 3/6 are the same amount.",
+    objectives: [
+      { id: "fraction-parts", text: "Name the numerator and denominator" },
+      { id: "equivalent-diagrams", text: "Show equivalent fractions with diagrams" },
+      { id: "equivalent-multiply", text: "Find equivalent fractions by multiplying top and bottom" },
+    ],
+    activities: [
+      { kind: "starter", title: "Pizza slices", minutes: 3, description: "Half a pizza cut into 2, 4 or 8 slices." },
+      { kind: "explain", title: "Fraction walls", minutes: 6, description: "Draw a fraction wall and find matching lengths." },
+      { kind: "worked_example", title: "Times top and bottom", minutes: 5, description: "Show 2/3 = 4/6 = 8/12 step by step." },
+      { kind: "quiz", title: "Spot the match", minutes: 5, description: "Pick the equivalent fraction from three options." },
+      { kind: "plenary", title: "Explain it", minutes: 3, description: "Student explains why 3/6 is a half." },
+    ],
+  },
+  {
+    id: "lina-ks2-plants",
+    teacherId: "lina",
+    subject: "Science",
+    keyStage: "KS2",
+    topic: "What plants need to grow",
+    summary: "Light, water, warmth and the job of each part of a plant.",
+    objectives: [
+      { id: "plant-parts", text: "Name the roots, stem, leaves and flower and say what each does" },
+      { id: "plant-needs", text: "Explain what plants need to grow well" },
+      { id: "fair-test", text: "Plan a simple fair test" },
+    ],
+    activities: [
+      { kind: "starter", title: "Sad plant", minutes: 3, description: "Why might a plant on a dark windowsill droop?" },
+      { kind: "explain", title: "Parts of a plant", minutes: 6, description: "Label a plant on the whiteboard." },
+      { kind: "discussion", title: "Design a test", minutes: 6, description: "Change one thing only: light or no light." },
+      { kind: "quiz", title: "Plant check", minutes: 4, description: "Three quick questions." },
+    ],
+  },
+  {
+    id: "zahra-ks3-persuasive-writing",
+    teacherId: "zahra",
+    subject: "English Language",
+    keyStage: "KS3",
+    topic: "Persuasive writing techniques",
+    summary: "Use rhetorical questions, facts and emotive language to persuade.",
+    objectives: [
+      { id: "identify-techniques", text: "Identify persuasive techniques in a short text" },
+      { id: "explain-effect", text: "Explain the effect of a technique on the reader" },
+      { id: "write-paragraph", text: "Write a persuasive paragraph using three techniques" },
+    ],
+    activities: [
+      { kind: "starter", title: "Convince me", minutes: 3, description: "Persuade me school should start at 10am." },
+      { kind: "explain", title: "The toolkit", minutes: 6, description: "Rhetorical questions, facts, emotive language, rule of three." },
+      { kind: "practice", title: "Spot them", minutes: 6, description: "Find the techniques in an advert." },
+      { kind: "practice", title: "Your turn", minutes: 8, description: "Student writes a paragraph; give feedback." },
+      { kind: "plenary", title: "Best line", minutes: 2, description: "Which sentence is most persuasive, and why?" },
+    ],
+  },
+  {
+    id: "zahra-ks4-macbeth-ambition",
+    teacherId: "zahra",
+    subject: "English Literature",
+    keyStage: "KS4",
+    topic: "Macbeth: the theme of ambition",
+    summary: "Track Macbeth's ambition with key quotations for GCSE answers.",
+    objectives: [
+      { id: "key-quotes", text: "Recall three key quotations about ambition" },
+      { id: "analyse-language", text: "Analyse the language of one quotation" },
+      { id: "context-link", text: "Link ambition to the Jacobean context" },
+    ],
+    activities: [
+      { kind: "starter", title: "Ambition: good or bad?", minutes: 4, description: "Quick discussion with a modern example." },
+      { kind: "explain", title: "Vaulting ambition", minutes: 7, description: "Unpick \"I have no spur...\" on the whiteboard." },
+      { kind: "practice", title: "Zoom in", minutes: 8, description: "Student analyses \"Stars, hide your fires\"." },
+      { kind: "discussion", title: "Context", minutes: 5, description: "The Divine Right of Kings and the Gunpowder Plot." },
+      { kind: "plenary", title: "Thesis statement", minutes: 3, description: "One-sentence argument about ambition." },
+    ],
+  },
+  {
+    id: "hank-ks3-linear-equations",
+    teacherId: "hank",
+    subject: "Mathematics",
+    keyStage: "KS3",
+    topic: "Solving linear equations",
+    summary: "Balance method for one- and two-step equations, including negatives.",
+    objectives: [
+      { id: "inverse-operations", text: "Use inverse operations to solve one-step equations" },
+      { id: "two-step", text: "Solve two-step equations like 3x + 5 = 20" },
+      { id: "unknown-both-sides", text: "Solve equations with the unknown on both sides" },
+    ],
+    activities: [
+      { kind: "starter", title: "Think of a number", minutes: 3, description: "I think of a number, double it and add 3 to get 11." },
+      { kind: "worked_example", title: "The balance", minutes: 6, description: "Solve 2x + 3 = 11 on the whiteboard." },
+      { kind: "practice", title: "Two-steps", minutes: 6, description: "Student solves three equations aloud." },
+      { kind: "worked_example", title: "Both sides", minutes: 5, description: "Solve 5x - 2 = 3x + 8." },
+      { kind: "quiz", title: "Check", minutes: 5, description: "Four numeric questions." },
+    ],
+  },
+  {
+    id: "hank-ks4-pythagoras",
+    teacherId: "hank",
+    subject: "Mathematics",
+    keyStage: "KS4",
+    topic: "Pythagoras' theorem",
+    summary: "Find missing sides in right-angled triangles and use it in context.",
+    objectives: [
+      { id: "identify-hypotenuse", text: "Identify the hypotenuse" },
+      { id: "find-hypotenuse", text: "Calculate the hypotenuse" },
+      { id: "find-shorter-side", text: "Calculate a shorter side" },
+      { id: "problem-solving", text: "Apply Pythagoras to a worded problem" },
+    ],
+    activities: [
+      { kind: "starter", title: "Squares", minutes: 3, description: "Quick recall of square numbers and square roots." },
+      { kind: "explain", title: "a² + b² = c²", minutes: 5, description: "Show the squares on each side." },
+      { kind: "worked_example", title: "Both directions", minutes: 7, description: "Find c, then find a shorter side." },
+      { kind: "practice", title: "Ladder problem", minutes: 6, description: "A ladder against a wall." },
+      { kind: "quiz", title: "Exam-style", minutes: 5, description: "Three numeric questions to 1 d.p." },
+    ],
+  },
+  {
+    id: "hank-ks4-rates-of-reaction",
+    teacherId: "hank",
+    subject: "Chemistry",
+    keyStage: "KS4",
+    topic: "Rates of reaction",
+    summary: "Collision theory and the factors that change how fast a reaction goes.",
+    objectives: [
+      { id: "collision-theory", text: "Describe collision theory" },
+      { id: "rate-factors", text: "Explain how temperature, concentration and surface area affect rate" },
+      { id: "read-rate-graph", text: "Interpret a rate of reaction graph" },
+    ],
+    activities: [
+      { kind: "starter", title: "Fast or slow?", minutes: 3, description: "Rusting versus fireworks." },
+      { kind: "explain", title: "Collisions", minutes: 6, description: "Particles need to collide with enough energy." },
+      { kind: "discussion", title: "Change one thing", minutes: 6, description: "Predict the effect of each factor." },
+      { kind: "worked_example", title: "Reading the graph", minutes: 5, description: "Gradient, steepness and the plateau." },
+      { kind: "quiz", title: "Check", minutes: 5, description: "Mixed multiple choice and short answer." },
+    ],
+  },
+  {
+    id: "mark-ks4-supply-demand",
+    teacherId: "mark",
+    subject: "Economics",
+    keyStage: "KS4",
+    topic: "Supply and demand",
+    summary: "How prices are set, with real examples from games and trainers.",
+    objectives: [
+      { id: "demand-curve", text: "Explain why demand falls as price rises" },
+      { id: "supply-curve", text: "Explain why supply rises as price rises" },
+      { id: "equilibrium", text: "Find the equilibrium price on a diagram" },
+      { id: "shifts", text: "Explain what shifts demand or supply" },
+    ],
+    activities: [
+      { kind: "starter", title: "Limited drop", minutes: 3, description: "Why do limited trainers resell for more?" },
+      { kind: "explain", title: "The two curves", minutes: 7, description: "Draw supply and demand on the whiteboard." },
+      { kind: "worked_example", title: "Equilibrium", minutes: 5, description: "Where the curves cross." },
+      { kind: "discussion", title: "What if...", minutes: 6, description: "A new console launches; what happens to old game prices?" },
+      { kind: "quiz", title: "Check", minutes: 4, description: "Three questions." },
+    ],
+  },
+  {
+    id: "mark-ks4-spreadsheets",
+    teacherId: "mark",
+    subject: "ICT",
+    keyStage: "KS4",
+    topic: "Spreadsheet formulas and functions",
+    summary: "Build a small business budget with SUM, AVERAGE and IF.",
+    objectives: [
+      { id: "cell-references", text: "Write formulas using cell references" },
+      { id: "functions", text: "Use SUM, AVERAGE and MAX" },
+      { id: "if-function", text: "Use IF to flag a loss" },
+      { id: "absolute-references", text: "Explain when to use an absolute reference like $B$1" },
+    ],
+    activities: [
+      { kind: "starter", title: "Pocket money", minutes: 3, description: "Why not just type the total in?" },
+      { kind: "explain", title: "Formulas", minutes: 5, description: "=B2-C2 and what happens when a value changes." },
+      { kind: "worked_example", title: "A café budget", minutes: 7, description: "Weekly income, costs and profit." },
+      { kind: "practice", title: "Profit or loss", minutes: 6, description: "Student writes an IF formula." },
+      { kind: "quiz", title: "Check", minutes: 4, description: "Three questions." },
+    ],
+  },
+  {
+    id: "kate-ks3-industrial-revolution",
+    teacherId: "kate",
+    subject: "History",
+    keyStage: "KS3",
+    topic: "The Industrial Revolution",
+    summary: "How factories, steam and railways changed life in Britain.",
+    objectives: [
+      { id: "key-inventions", text: "Name key inventions and what they changed" },
+      { id: "working-conditions", text: "Describe working conditions in factories" },
+      { id: "change-continuity", text: "Explain one change and one continuity in everyday life" },
+    ],
+    activities: [
+      { kind: "starter", title: "Then and now", minutes: 3, description: "How did people travel in 1750 compared with 1850?" },
+      { kind: "explain", title: "Steam changes everything", minutes: 6, description: "Spinning jenny, steam engine, railways." },
+      { kind: "discussion", title: "A child in the mill", minutes: 7, description: "Use a source about child workers." },
+      { kind: "plenary", title: "Biggest change", minutes: 4, description: "Student argues which change mattered most." },
+    ],
+  },
+  {
+    id: "kate-ks2-rivers",
+    teacherId: "kate",
+    subject: "Geography",
+    keyStage: "KS2",
+    topic: "Rivers and the water cycle",
+    summary: "Follow a raindrop from the mountains to the sea.",
+    objectives: [
+      { id: "water-cycle", text: "Describe evaporation, condensation and precipitation" },
+      { id: "river-course", text: "Name the source, course and mouth of a river" },
+      { id: "river-features", text: "Recognise a meander and a waterfall" },
+    ],
+    activities: [
+      { kind: "starter", title: "Where do puddles go?", minutes: 3, description: "Quick discussion." },
+      { kind: "explain", title: "The water cycle", minutes: 6, description: "Draw the cycle on the whiteboard." },
+      { kind: "explain", title: "A river's journey", minutes: 6, description: "Source to mouth with a UK example." },
+      { kind: "quiz", title: "Check", minutes: 4, description: "Three quick questions." },
+    ],
+  },
+];
+
+export const getLessonPlan = (id: string | null | undefined): LessonPlan | null =>
+  LESSON_PLANS.find((plan) => plan.id === id) ?? null;
+
+/**
+ * Plans a teacher can run, with the learner's own key stage first
+ */
+export const getLessonPlansForTeacher = (teacherId: string, keyStage?: KeyStage | null): LessonPlan[] => {
+  const plans = LESSON_PLANS.filter((plan) => plan.teacherId === teacherId);
+  if (!keyStage) return plans;
+  return [...plans.filter((plan) => plan.keyStage === keyStage), ...plans.filter((plan) => plan.keyStage !== keyStage)];
+};
+
+export const getLessonMinutes = (plan: LessonPlan) =>
+  plan.activities.reduce((total, activity) => total + activity.minutes, 0);
+
+/**
+ * Lesson plan context appended to the teacher's system prompt. Objectives
+ * already met (e.g. before a reconnect) are marked so the lesson carries on
+ * from where it was.
+ */
+export const buildLessonPlanContext = (plan: LessonPlan | null, completedObjectiveIds: string[] = []): string => {
+  if (!plan) return "";
+
+  const objectives = plan.objectives
+    .map((o) => `    <objective id="${o.id}"${completedObjectiveIds.includes(o.id) ? ' status="complete"' : ""}>${o.text}</objective>`)
+    .join("\n");
+  const activities = plan.activities
+    .map((a, i) => `    <activity order="${i + 1}" kind="${a.kind}" minutes="${a.minutes}">${a.title}: ${a.description}</activity>`)
+    .join("\n");
+
+  return `
+<lesson_plan>
+  <subject>${plan.subject}</subject>
+  <key_stage>${plan.keyStage}</key_stage>
+  <topic>${plan.topic}</topic>
+  <objectives>
+${objectives}
+  </objectives>
+  <activities>
+${activities}
+  </activities>
+  <guidance>Run this lesson in order, one activity at a time, and keep it conversational. When the student shows they have met an objective, call mark_objective_complete with its id. Follow the student's questions, then steer back to the plan.</guidance>
+</lesson_plan>
+`;
+};
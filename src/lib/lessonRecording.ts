@@ -0,0 +1,205 @@
+/**
+ * Lesson Recording
+ *
+ * Keeps both sides of the conversation for replay: the student's speech as
+ * it was sent to Gemini and the teacher's audio as it was scheduled for
+ * playback. Audio is stamped with wall-clock time, the same clock as message
+ * timestamps, so the mixdown lines up with the transcript.
+ */
+
+import { floatToPCM16, pcm16ToFloat } from "./pcmCapture";
+import { Resampler } from "./pcmResampler";
+import { createWavHeader, PLAYBACK_SAMPLE_RATE } from "./audioUtils";
+import { encodeOggOpus } from "./oggOpus";
+
+export type RecordingTrack = "student" | "teacher";
+
+// A stretch of continuous audio on one track
+interface RecordedRun {
+  startMs: number;
+  sampleRate: number;
+  chunks: Int16Array[];
+  samples: number;
+}
+
+// Chunks starting this close to the end of the previous one continue it, so
+// timestamp jitter doesn't leave clicks or tiny overlaps
+const CONTINUITY_MS = 60;
+// Raw PCM is kept in memory until export: an hour is about 300 MB at most
+const DEFAULT_MAX_MINUTES = 60;
+// Exports mix and encode this much at a time rather than the whole lesson at once
+const MIX_BLOCK_SECONDS = 10;
+
+const runEndMs = (run: RecordedRun) => run.startMs + (run.samples / run.sampleRate) * 1000;
+
+// One run resampled to the output rate, read in timeline order a block at a time
+class RunReader {
+  private readonly resampler: Resampler;
+  // Resampled samples not yet mixed, starting at output index `next`
+  private pending = new Float32Array(0);
+  private next: number;
+  private chunkIndex = 0;
+  private flushed = false;
+
+  constructor(private readonly run: RecordedRun, readonly start: number, sampleRate: number) {
+    this.resampler = new Resampler(run.sampleRate, sampleRate);
+    this.next = start;
+  }
+
+  get isDone(): boolean {
+    return this.flushed && this.pending.length === 0;
+  }
+
+  /** Add this run's samples that fall in the block starting at output index `from` */
+  mixInto(block: Float32Array, from: number) {
+    const to = from + block.length;
+    while (this.next < to) {
+      if (this.pending.length === 0) {
+        if (!this.pull()) return;
+        continue;
+      }
+      const count = Math.min(this.pending.length, to - this.next);
+      for (let i = Math.max(0, from - this.next); i < count; i++) block[this.next + i - from] += this.pending[i];
+      this.pending = this.pending.subarray(count);
+      this.next += count;
+    }
+  }
+
+  private pull(): boolean {
+    if (this.chunkIndex < this.run.chunks.length) {
+      this.pending = this.resampler.process(pcm16ToFloat(this.run.chunks[this.chunkIndex++]));
+      return true;
+    }
+    if (this.flushed) return false;
+    this.flushed = true;
+    this.pending = this.resampler.flush();
+    return this.pending.length > 0;
+  }
+}
+
+export class LessonRecording {
+  readonly startedAt: number;
+  private runs: Record<RecordingTrack, RecordedRun[]> = { student: [], teacher: [] };
+  private readonly maxMs: number;
+  private isFull = false;
+
+  constructor(startedAt: number = Date.now(), maxMinutes = DEFAULT_MAX_MINUTES) {
+    this.startedAt = startedAt;
+    this.maxMs = maxMinutes * 60 * 1000;
+  }
+
+  /**
+   * Add audio to a track; `startMs` is the wall-clock time it starts
+   */
+  add(track: RecordingTrack, samples: Int16Array | Float32Array, sampleRate: number, startMs: number) {
+    if (samples.length === 0 || this.isFull) return;
+    if (startMs - this.startedAt > this.maxMs) {
+      this.isFull = true;
+      console.warn("Lesson recording: reached the length limit, recording stopped");
+      return;
+    }
+
+    const pcm = samples instanceof Int16Array ? samples.slice() : floatToPCM16(samples);
+    const runs = this.runs[track];
+    const last = runs[runs.length - 1];
+    if (last && last.sampleRate === sampleRate && Math.abs(startMs - runEndMs(last)) <= CONTINUITY_MS) {
+      last.chunks.push(pcm);
+      last.samples += pcm.length;
+      return;
+    }
+    runs.push({ startMs: Math.max(startMs, this.startedAt), sampleRate, chunks: [pcm], samples: pcm.length });
+  }
+
+  /**
+   * Drop audio from `atMs` on, e.g. teacher audio that was scheduled but cut
+   * off by a barge-in
+   */
+  truncate(track: RecordingTrack, atMs: number) {
+    const kept: RecordedRun[] = [];
+    for (const run of this.runs[track]) {
+      if (run.startMs >= atMs) continue;
+      if (runEndMs(run) > atMs) {
+        let keep = Math.floor(((atMs - run.startMs) / 1000) * run.sampleRate);
+        run.samples = keep;
+        run.chunks = run.chunks.flatMap((chunk) => {
+          const part = chunk.subarray(0, Math.max(0, keep));
+          keep -= chunk.length;
+          return part.length > 0 ? [part] : [];
+        });
+      }
+      kept.push(run);
+    }
+    this.runs[track] = kept;
+  }
+
+  get isEmpty(): boolean {
+    return this.runs.student.length === 0 && this.runs.teacher.length === 0;
+  }
+
+  /** Milliseconds from the start of the recording to the end of the last audio */
+  get durationMs(): number {
+    const ends = [...this.runs.student, ...this.runs.teacher].map(runEndMs);
+    return ends.length > 0 ? Math.max(...ends) - this.startedAt : 0;
+  }
+
+  /** Samples in the mixdown at `sampleRate` */
+  mixdownLength(sampleRate: number = PLAYBACK_SAMPLE_RATE): number {
+    return Math.round((this.durationMs / 1000) * sampleRate);
+  }
+
+  /**
+   * Both tracks mixed to mono on one timeline starting at `startedAt`, a block
+   * at a time, so long lessons never need the whole timeline in memory
+   */
+  *mixdownBlocks(
+    sampleRate: number = PLAYBACK_SAMPLE_RATE,
+    blockSamples: number = sampleRate * MIX_BLOCK_SECONDS
+  ): Generator<Float32Array> {
+    const length = this.mixdownLength(sampleRate);
+    const queued = [...this.runs.student, ...this.runs.teacher]
+      .map((run) => new RunReader(run, Math.round(((run.startMs - this.startedAt) / 1000) * sampleRate), sampleRate))
+      .sort((a, b) => a.start - b.start);
+    let active: RunReader[] = [];
+
+    for (let from = 0; from < length; from += blockSamples) {
+      const block = new Float32Array(Math.min(blockSamples, length - from));
+      while (queued.length > 0 && queued[0].start < from + block.length) active.push(queued.shift()!);
+      for (const reader of active) reader.mixInto(block, from);
+      active = active.filter((reader) => !reader.isDone);
+
+      for (let i = 0; i < block.length; i++) block[i] = Math.max(-1, Math.min(1, block[i]));
+      yield block;
+    }
+  }
+
+  /**
+   * The whole mixdown in one array; exports use `mixdownBlocks`
+   */
+  mixdown(sampleRate: number = PLAYBACK_SAMPLE_RATE): Float32Array {
+    const output = new Float32Array(this.mixdownLength(sampleRate));
+    let offset = 0;
+    for (const block of this.mixdownBlocks(sampleRate)) {
+      output.set(block, offset);
+      offset += block.length;
+    }
+    return output;
+  }
+}
+
+/**
+ * The mixed lesson as a 16-bit WAV file, encoded a block at a time
+ */
+export const recordingToWav = (recording: LessonRecording, sampleRate: number = PLAYBACK_SAMPLE_RATE): Blob => {
+  const parts: BlobPart[] = [createWavHeader(recording.mixdownLength(sampleRate) * 2, { sampleRate })];
+  for (const block of recording.mixdownBlocks(sampleRate)) parts.push(floatToPCM16(block));
+  return new Blob(parts, { type: "audio/wav" });
+};
+
+/**
+ * The mixed lesson as Ogg Opus, or null if the browser can't encode Opus
+ */
+export const recordingToOpus = async (recording: LessonRecording): Promise<Blob | null> => {
+  const sampleRate = PLAYBACK_SAMPLE_RATE;
+  const ogg = await encodeOggOpus(recording.mixdownBlocks(sampleRate), sampleRate);
+  return ogg ? new Blob([ogg], { type: "audio/ogg; codecs=opus" }) : null;
+};
@@ -0,0 +1,184 @@
+/**
+ * Lesson Sessions
+ *
+ * Persists lesson sessions and their transcripts to Supabase so past
+ * lessons can be reopened. Writes are best-effort: a failed write is logged
+ * and never interrupts the live conversation.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Message } from "./chatMessage";
+import { getLearnerUserId } from "./learnerAuth";
+import type { LessonPlan } from "./lessonPlans";
+import { extractWhiteboardContent } from "./whiteboardParser";
+
+export type LessonSession = Tables<"lesson_sessions">;
+
+const WHITEBOARD_START_MARKER = "[WHITEBOARD_START]";
+
+/**
+ * Extract only explicit whiteboard blocks so plain chat isn't stored twice
+ */
+const getWhiteboardBlock = (message: Message): string | null => {
+  const raw = message.originalContent;
+  if (!raw || !raw.includes(WHITEBOARD_START_MARKER)) return null;
+  const { hasWhiteboard, content } = extractWhiteboardContent(raw);
+  return hasWhiteboard && content ? content : null;
+};
+
+/**
+ * Start a new lesson session for the given teacher, optionally following a
+ * lesson plan (its topic becomes the session title)
+ */
+export const createLessonSession = async (teacherId: string, lessonPlan?: LessonPlan | null): Promise<string | null> => {
+  const userId = await getLearnerUserId();
+  if (!userId) return null;
+
+  const { data, error } = await supabase
+    .from("lesson_sessions")
+    .insert({
+      teacher_id: teacherId,
+      user_id: userId,
+      lesson_plan_id: lessonPlan?.id ?? null,
+      title: lessonPlan?.topic ?? null,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.warn("Lesson persistence: failed to create session", error);
+    return null;
+  }
+  return data.id;
+};
+
+/**
+ * Insert or update finalized messages. Message ids are client-generated UUIDs,
+ * so re-saving an edited message simply overwrites the previous row.
+ */
+export const saveLessonMessages = async (sessionId: string, messages: Message[]): Promise<boolean> => {
+  if (messages.length === 0) return true;
+
+  const rows = messages.map((m) => ({
+    id: m.id,
+    session_id: sessionId,
+    role: m.role,
+    content: m.content,
+    original_content: m.originalContent ?? null,
+    whiteboard_content: getWhiteboardBlock(m),
+    thoughts: m.thoughts || null,
+    created_at: m.timestamp.toISOString(),
+  }));
+
+  const { error } = await supabase.from("lesson_messages").upsert(rows);
+  if (error) {
+    console.warn("Lesson persistence: failed to save messages", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Mark a lesson session as finished
+ */
+export const endLessonSession = async (sessionId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("lesson_sessions")
+    .update({ ended_at: new Date().toISOString() })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.warn("Lesson persistence: failed to end session", error);
+  }
+};
+
+/**
+ * Record which lesson plan objectives have been met
+ */
+export const saveCompletedObjectives = async (sessionId: string, objectiveIds: string[]): Promise<boolean> => {
+  const { error } = await supabase
+    .from("lesson_sessions")
+    .update({ completed_objectives: objectiveIds })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.warn("Lesson persistence: failed to save objectives", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * List the current learner's lessons, most recent first
+ */
+export const listLessonSessions = async (limit = 50): Promise<LessonSession[]> => {
+  const { data, error } = await supabase
+    .from("lesson_sessions")
+    .select("*")
+    .order("started_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.warn("Lesson persistence: failed to list sessions", error);
+    return [];
+  }
+  return data ?? [];
+};
+
+/**
+ * Load a lesson's transcript in chronological order
+ */
+export const loadLessonMessages = async (sessionId: string): Promise<Message[]> => {
+  const { data, error } = await supabase
+    .from("lesson_messages")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.warn("Lesson persistence: failed to load messages", error);
+    return [];
+  }
+
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    role: row.role === "assistant" ? "assistant" : "user",
+    content: row.content,
+    originalContent: row.original_content ?? undefined,
+    thoughts: row.thoughts ?? undefined,
+    timestamp: new Date(row.created_at),
+  }));
+};
+
+/**
+ * Fetch a single lesson session
+ */
+export const getLessonSession = async (sessionId: string): Promise<LessonSession | null> => {
+  const { data, error } = await supabase
+    .from("lesson_sessions")
+    .select("*")
+    .eq("id", sessionId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Lesson persistence: failed to load session", error);
+    return null;
+  }
+  return data;
+};
+
+/**
+ * Re-open a finished lesson so new messages continue the same transcript.
+ * Clearing memories_extracted_at lets the continued lesson be mined again.
+ */
+export const reopenLessonSession = async (sessionId: string): Promise<void> => {
+  const { error } = await supabase
+    .from("lesson_sessions")
+    .update({ ended_at: null, memories_extracted_at: null })
+    .eq("id", sessionId);
+
+  if (error) {
+    console.warn("Lesson persistence: failed to reopen session", error);
+  }
+};
@@ -0,0 +1,428 @@
+/**
+ * Math Expressions
+ *
+ * A small parser and evaluator for the maths students type or the teacher
+ * writes in quiz answers: plain text ("2x^2 + 3", "sqrt(2)/2") or LaTeX
+ * ("\frac{1}{2}x", "\sqrt[3]{8}"). Two expressions are treated as equivalent
+ * when they agree at a set of random points, which is enough to accept
+ * "2(x + 1)" for "2x + 2" without a computer algebra system.
+ */
+
+export type MathNode =
+  | { type: "number"; value: number }
+  | { type: "variable"; name: string }
+  | { type: "unary"; op: "-"; arg: MathNode }
+  | { type: "binary"; op: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode }
+  | { type: "call"; fn: MathFunction; args: MathNode[] };
+
+export type MathFunction = "sin" | "cos" | "tan" | "ln" | "log" | "exp" | "sqrt" | "root" | "abs";
+
+export class MathParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MathParseError";
+  }
+}
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "command"; value: string }
+  | { kind: "op"; value: string };
+
+const FUNCTION_NAMES = ["sqrt", "sin", "cos", "tan", "ln", "log", "exp", "abs"] as const;
+const GREEK_LETTERS = new Set(["alpha", "beta", "gamma", "delta", "theta", "lambda", "mu", "phi", "omega"]);
+
+// LaTeX spacing and sizing commands that carry no meaning here
+const IGNORED_COMMANDS = new Set(["left", "right", "displaystyle", "mathrm", "text", "operatorname", "big", "Big"]);
+const COMMAND_OPERATORS: Record<string, string> = { cdot: "*", times: "*", div: "/" };
+
+const tokenize = (input: string): Token[] => {
+  const source = input
+    .replace(/\$/g, "")
+    .replace(/\\[,;:! ]/g, " ")
+    .replace(/[−–]/g, "-")
+    .replace(/[×·]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/π/g, "\\pi ")
+    .replace(/√/g, "\\sqrt ");
+
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9.]/.test(ch)) {
+      const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(i));
+      if (!match) throw new MathParseError(`Unexpected "${ch}"`);
+      tokens.push({ kind: "number", value: Number(match[1]) });
+      i += match[1].length;
+    } else if (ch === "\\") {
+      const match = /^\\([a-zA-Z]+|[{}|])/.exec(source.slice(i));
+      if (!match) throw new MathParseError("Unexpected \\");
+      i += match[0].length;
+      const name = match[1];
+      if (name === "{" || name === "}") continue; // \{ \} are grouping braces in display only
+      if (name === "|") tokens.push({ kind: "op", value: "|" });
+      else if (IGNORED_COMMANDS.has(name)) continue;
+      else if (COMMAND_OPERATORS[name]) tokens.push({ kind: "op", value: COMMAND_OPERATORS[name] });
+      else tokens.push({ kind: "command", value: name });
+    } else if (/[a-zA-Z]/.test(ch)) {
+      // Known function names may be typed without a backslash; other letter runs are products of variables
+      const word = /^[a-zA-Z]+/.exec(source.slice(i))![0];
+      let offset = 0;
+      while (offset < word.length) {
+        const rest = word.slice(offset);
+        const known = [...FUNCTION_NAMES, "pi"].find((name) => rest.startsWith(name));
+        if (known) {
+          tokens.push({ kind: "command", value: known });
+          offset += known.length;
+        } else {
+          tokens.push({ kind: "name", value: rest[0] });
+          offset += 1;
+        }
+      }
+      i += word.length;
+    } else if ("+-*/^(){}[]|_,=".includes(ch)) {
+      tokens.push({ kind: "op", value: ch });
+      i++;
+    } else {
+      throw new MathParseError(`Unexpected "${ch}"`);
+    }
+  }
+  return tokens;
+};
+
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): MathNode {
+    if (this.tokens.length === 0) throw new MathParseError("Empty expression");
+    const node = this.expression();
+    if (this.pos < this.tokens.length) {
+      throw new MathParseError(`Unexpected "${this.tokens[this.pos].value}"`);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isOp(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === "op" && token.value === value;
+  }
+
+  private expect(value: string) {
+    if (!this.isOp(value)) throw new MathParseError(`Expected "${value}"`);
+    this.pos++;
+  }
+
+  private expression(): MathNode {
+    let node = this.term();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.tokens[this.pos++].value as "+" | "-";
+      node = { type: "binary", op, left: node, right: this.term() };
+    }
+    return node;
+  }
+
+  // Starts a factor that can follow another with no sign between them: 2x, 3(x + 1), x\sqrt{2}
+  private startsImplicitFactor(): boolean {
+    const token = this.peek();
+    if (!token) return false;
+    if (token.kind !== "op") return true;
+    return token.value === "(" || token.value === "{" || token.value === "[";
+  }
+
+  private term(): MathNode {
+    let node = this.unary();
+    for (;;) {
+      if (this.isOp("*") || this.isOp("/")) {
+        const op = this.tokens[this.pos++].value as "*" | "/";
+        node = { type: "binary", op, left: node, right: this.unary() };
+      } else if (this.startsImplicitFactor()) {
+        node = { type: "binary", op: "*", left: node, right: this.power() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private unary(): MathNode {
+    if (this.isOp("-")) {
+      this.pos++;
+      return { type: "unary", op: "-", arg: this.unary() };
+    }
+    if (this.isOp("+")) {
+      this.pos++;
+      return this.unary();
+    }
+    return this.power();
+  }
+
+  private power(): MathNode {
+    const base = this.primary();
+    if (!this.isOp("^")) return base;
+    this.pos++;
+    // Right-associative, and allows a sign: x^-1, 2^{3^2}
+    const exponent = this.isOp("-") || this.isOp("+") ? this.unary() : this.power();
+    return { type: "binary", op: "^", left: base, right: exponent };
+  }
+
+  private group(open: string, close: string): MathNode {
+    this.expect(open);
+    const node = this.expression();
+    this.expect(close);
+    return node;
+  }
+
+  private primary(): MathNode {
+    const token = this.peek();
+    if (!token) throw new MathParseError("Unexpected end of expression");
+
+    if (token.kind === "number") {
+      this.pos++;
+      return { type: "number", value: token.value };
+    }
+
+    if (token.kind === "name") {
+      this.pos++;
+      let name = token.value;
+      if (this.isOp("_")) {
+        this.pos++;
+        const sub = this.peek();
+        if (sub?.kind === "op" && sub.value === "{") {
+          this.pos++;
+          const parts: string[] = [];
+          while (this.peek() && !this.isOp("}")) parts.push(String(this.tokens[this.pos++].value));
+          this.expect("}");
+          name = `${name}_${parts.join("")}`;
+        } else if (sub && sub.kind !== "op") {
+          this.pos++;
+          name = `${name}_${sub.value}`;
+        }
+      }
+      return name === "e" ? { type: "number", value: Math.E } : { type: "variable", name };
+    }
+
+    if (token.kind === "op") {
+      if (token.value === "(") return this.group("(", ")");
+      if (token.value === "{") return this.group("{", "}");
+      if (token.value === "[") return this.group("[", "]");
+      if (token.value === "|") {
+        return { type: "call", fn: "abs", args: [this.group("|", "|")] };
+      }
+      throw new MathParseError(`Unexpected "${token.value}"`);
+    }
+
+    this.pos++;
+    if (GREEK_LETTERS.has(token.value)) return { type: "variable", name: token.value };
+    switch (token.value) {
+      case "pi":
+        return { type: "number", value: Math.PI };
+      case "frac":
+      case "dfrac":
+      case "tfrac": {
+        const numerator = this.argument();
+        const denominator = this.argument();
+        return { type: "binary", op: "/", left: numerator, right: denominator };
+      }
+      case "sqrt": {
+        if (this.isOp("[")) {
+          const degree = this.group("[", "]");
+          return { type: "call", fn: "root", args: [this.argument(), degree] };
+        }
+        return { type: "call", fn: "sqrt", args: [this.argument()] };
+      }
+      case "sin":
+      case "cos":
+      case "tan":
+      case "ln":
+      case "log":
+      case "exp":
+      case "abs": {
+        // sin^2 x means (sin x)^2
+        let exponent: MathNode | null = null;
+        if (this.isOp("^")) {
+          this.pos++;
+          exponent = this.primary();
+        }
+        const call: MathNode = { type: "call", fn: token.value, args: [this.power()] };
+        return exponent ? { type: "binary", op: "^", left: call, right: exponent } : call;
+      }
+      default:
+        throw new MathParseError(`Unsupported command "\\${token.value}"`);
+    }
+  }
+
+  // Command argument: \sqrt{x}, \sqrt x, sqrt(x), \frac{1}{2}
+  private argument(): MathNode {
+    return this.isOp("{") ? this.group("{", "}") : this.primary();
+  }
+}
+
+/**
+ * Parse an expression; throws MathParseError when it can't be read
+ */
+export const parseMathExpression = (input: string): MathNode => new Parser(tokenize(input)).parse();
+
+export const collectVariables = (node: MathNode, into = new Set<string>()): Set<string> => {
+  switch (node.type) {
+    case "variable":
+      into.add(node.name);
+      break;
+    case "unary":
+      collectVariables(node.arg, into);
+      break;
+    case "binary":
+      collectVariables(node.left, into);
+      collectVariables(node.right, into);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectVariables(arg, into));
+      break;
+  }
+  return into;
+};
+
+/**
+ * Evaluate with the given variable values; returns NaN outside the domain
+ */
+export const evaluateMath = (node: MathNode, scope: Record<string, number> = {}): number => {
+  switch (node.type) {
+    case "number":
+      return node.value;
+    case "variable":
+      return node.name in scope ? scope[node.name] : NaN;
+    case "unary":
+      return -evaluateMath(node.arg, scope);
+    case "binary": {
+      const a = evaluateMath(node.left, scope);
+      const b = evaluateMath(node.right, scope);
+      switch (node.op) {
+        case "+": return a + b;
+        case "-": return a - b;
+        case "*": return a * b;
+        case "/": return a / b;
+        case "^": return Math.pow(a, b);
+      }
+      break;
+    }
+    case "call": {
+      const [x, n] = node.args.map((arg) => evaluateMath(arg, scope));
+      switch (node.fn) {
+        case "sin": return Math.sin(x);
+        case "cos": return Math.cos(x);
+        case "tan": return Math.tan(x);
+        case "ln": return Math.log(x);
+        case "log": return Math.log10(x);
+        case "exp": return Math.exp(x);
+        case "sqrt": return Math.sqrt(x);
+        case "abs": return Math.abs(x);
+        // Odd roots of negatives are real
+        case "root": return x < 0 && n % 2 === 1 ? -Math.pow(-x, 1 / n) : Math.pow(x, 1 / n);
+      }
+    }
+  }
+  return NaN;
+};
+
+/**
+ * Evaluate an expression with no variables, e.g. "\frac{3}{4}" or "2\sqrt{2}"
+ */
+export const evaluateConstant = (input: string): number | null => {
+  try {
+    const node = parseMathExpression(input);
+    if (collectVariables(node).size > 0) return null;
+    const value = evaluateMath(node);
+    return Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+export const valuesClose = (a: number, b: number, relative = 1e-6) =>
+  Math.abs(a - b) <= relative * Math.max(1, Math.abs(a), Math.abs(b));
+
+interface EquivalenceOptions {
+  /** Number of points that must evaluate on both sides */
+  samples?: number;
+  /** Seeded generator for repeatable tests; defaults to Math.random */
+  random?: () => number;
+}
+
+// Splits "y = 2x + 1" into its sides
+const splitEquation = (input: string): string[] => input.split("=").map((side) => side.trim());
+
+const sampleAgreement = (
+  a: MathNode,
+  b: MathNode,
+  compare: (x: number, y: number) => boolean,
+  { samples = 8, random = Math.random }: EquivalenceOptions
+): boolean => {
+  const variables = [...collectVariables(a), ...collectVariables(b)].filter((v, i, all) => all.indexOf(v) === i);
+  let valid = 0;
+  // Try more points than needed: some land outside the domain (sqrt of a negative, division by zero)
+  for (let attempt = 0; attempt < samples * 4 && valid < samples; attempt++) {
+    const scope: Record<string, number> = {};
+    variables.forEach((name) => {
+      // Mostly positive, away from 0 and 1 where different expressions often coincide
+      const magnitude = 0.3 + random() * 2.7;
+      scope[name] = attempt % 3 === 2 ? -magnitude : magnitude;
+    });
+    const x = evaluateMath(a, scope);
+    const y = evaluateMath(b, scope);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue;
+    if (!compare(x, y)) return false;
+    valid++;
+    if (variables.length === 0) return true;
+  }
+  return valid > 0;
+};
+
+/**
+ * Whether two expressions (or equations) are algebraically equivalent.
+ * An equation matches another with the sides swapped or scaled, and the
+ * answer "x = 4" also accepts a bare "4".
+ */
+export const areEquivalent = (expected: string, actual: string, options: EquivalenceOptions = {}): boolean => {
+  try {
+    const expectedSides = splitEquation(expected);
+    const actualSides = splitEquation(actual);
+    if (expectedSides.length > 2 || actualSides.length > 2) return false;
+
+    if (expectedSides.length === actualSides.length && expectedSides.length === 1) {
+      return sampleAgreement(parseMathExpression(expected), parseMathExpression(actual), (x, y) => valuesClose(x, y), options);
+    }
+
+    if (expectedSides.length !== actualSides.length) {
+      // "x = 4" against "4": compare the value side when the other side is a lone variable
+      const [equation, bare] = expectedSides.length === 2 ? [expectedSides, actual] : [actualSides, expected];
+      const lhs = parseMathExpression(equation[0]);
+      if (lhs.type !== "variable") return false;
+      return sampleAgreement(parseMathExpression(equation[1]), parseMathExpression(bare), (x, y) => valuesClose(x, y), options);
+    }
+
+    // Both equations: L1 - R1 must be a constant non-zero multiple of L2 - R2
+    const difference = (sides: string[]): MathNode => ({
+      type: "binary",
+      op: "-",
+      left: parseMathExpression(sides[0]),
+      right: parseMathExpression(sides[1]),
+    });
+    let ratio: number | null = null;
+    return sampleAgreement(difference(expectedSides), difference(actualSides), (x, y) => {
+      if (valuesClose(x, 0) || valuesClose(y, 0)) return valuesClose(x, 0) && valuesClose(y, 0);
+      const r = x / y;
+      if (ratio === null) ratio = r;
+      return valuesClose(r, ratio);
+    }, options);
+  } catch {
+    return false;
+  }
+};
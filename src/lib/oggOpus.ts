@@ -0,0 +1,218 @@
+/**
+ * Ogg Opus
+ *
+ * Compresses lesson audio to Opus with the browser's WebCodecs encoder and
+ * wraps the packets in an Ogg container (RFC 7845) so the file plays in
+ * ordinary media players. Returns null where WebCodecs or its Opus encoder
+ * isn't available; callers fall back to WAV.
+ */
+
+export interface OpusPacket {
+  data: Uint8Array;
+  /** Samples in the packet, at 48 kHz as Ogg Opus always counts them */
+  samples: number;
+}
+
+export interface OggOpusOptions {
+  /** Sample rate of the original audio, recorded in the header */
+  inputSampleRate: number;
+  channels?: number;
+  /** Encoder lookahead to trim from the start, at 48 kHz */
+  preSkip?: number;
+  /** Total samples of real audio at 48 kHz, so the tail padding is trimmed */
+  totalSamples?: number;
+  vendor?: string;
+}
+
+// libopus lookahead at 48 kHz
+const DEFAULT_PRE_SKIP = 312;
+// Keep pages small enough that a seek never reads much
+const MAX_PACKETS_PER_PAGE = 50;
+// Seconds of input waiting in the encoder before we stop feeding it more
+const MAX_QUEUED_SECONDS = 10;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let r = i << 24;
+    for (let j = 0; j < 8; j++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+    table[i] = r >>> 0;
+  }
+  return table;
+})();
+
+/** The CRC Ogg pages use: polynomial 0x04c11db7, no reflection, zero init */
+export const oggCrc32 = (bytes: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+const buildPage = (
+  packets: Uint8Array[],
+  { granule, serial, sequence, flags }: { granule: number; serial: number; sequence: number; flags: number }
+): Uint8Array => {
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let n = packet.length; ; n -= 255) {
+      lacing.push(Math.min(n, 255));
+      if (n < 255) break;
+    }
+  }
+
+  const bodySize = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+  page.set(ascii("OggS"), 0);
+  view.setUint8(4, 0); // version
+  view.setUint8(5, flags);
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc32(page), true);
+  return page;
+};
+
+const buildOpusHead = (channels: number, preSkip: number, inputSampleRate: number) => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii("OpusHead"), 0);
+  view.setUint8(8, 1); // version
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  view.setUint8(18, 0); // mono/stereo mapping
+  return head;
+};
+
+const buildOpusTags = (vendor: string) => {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii("OpusTags"), 0);
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  view.setUint32(12 + vendorBytes.length, 0, true); // no user comments
+  return tags;
+};
+
+/**
+ * Wrap raw Opus packets in an Ogg Opus file
+ */
+export const muxOggOpus = (packets: OpusPacket[], options: OggOpusOptions): Uint8Array => {
+  const channels = options.channels ?? 1;
+  const preSkip = options.preSkip ?? DEFAULT_PRE_SKIP;
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages: Uint8Array[] = [];
+  let sequence = 0;
+
+  pages.push(buildPage([buildOpusHead(channels, preSkip, options.inputSampleRate)], { granule: 0, serial, sequence: sequence++, flags: 0x02 }));
+  pages.push(buildPage([buildOpusTags(options.vendor ?? "lesson-recorder")], { granule: 0, serial, sequence: sequence++, flags: 0 }));
+
+  const end = options.totalSamples !== undefined ? preSkip + options.totalSamples : Infinity;
+  let granule = preSkip;
+  for (let i = 0; i < packets.length; i += MAX_PACKETS_PER_PAGE) {
+    const batch = packets.slice(i, i + MAX_PACKETS_PER_PAGE);
+    granule += batch.reduce((sum, p) => sum + p.samples, 0);
+    const isLast = i + MAX_PACKETS_PER_PAGE >= packets.length;
+    pages.push(
+      buildPage(
+        batch.map((p) => p.data),
+        { granule: isLast ? Math.min(granule, end) : granule, serial, sequence: sequence++, flags: isLast ? 0x04 : 0 }
+      )
+    );
+  }
+
+  const file = new Uint8Array(pages.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    file.set(page, offset);
+    offset += page.length;
+  }
+  return file;
+};
+
+/**
+ * Encode mono float samples to an Ogg Opus file, or null if the browser can't.
+ * Long audio can be passed as a sequence of blocks so it never has to be held whole.
+ */
+export const encodeOggOpus = async (
+  samples: Float32Array | Iterable<Float32Array>,
+  sampleRate: number,
+  bitrate = 32000
+): Promise<Uint8Array | null> => {
+  if (typeof AudioEncoder === "undefined" || typeof AudioData === "undefined") return null;
+
+  const config: AudioEncoderConfig = { codec: "opus", sampleRate, numberOfChannels: 1, bitrate };
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (!supported) return null;
+  } catch {
+    return null;
+  }
+
+  const packets: OpusPacket[] = [];
+  let failure: DOMException | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Opus frames default to 20 ms
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * 48000) / 1e6) });
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+
+  let total = 0;
+  try {
+    encoder.configure(config);
+    for (const block of samples instanceof Float32Array ? [samples] : samples) {
+      // Feed a second at a time so the encoder queue stays small
+      for (let offset = 0; offset < block.length; offset += sampleRate) {
+        const slice = block.slice(offset, offset + sampleRate);
+        const data = new AudioData({
+          format: "f32",
+          sampleRate,
+          numberOfChannels: 1,
+          numberOfFrames: slice.length,
+          timestamp: Math.round((total / sampleRate) * 1e6),
+          data: slice,
+        });
+        encoder.encode(data);
+        data.close();
+        total += slice.length;
+      }
+      // Let the encoder catch up before the next block is produced
+      while (encoder.encodeQueueSize > MAX_QUEUED_SECONDS) await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    await encoder.flush();
+  } catch (error) {
+    console.warn("Opus encoding failed:", error);
+    return null;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+
+  if (failure) {
+    console.warn("Opus encoding failed:", failure);
+    return null;
+  }
+
+  return muxOggOpus(packets, {
+    inputSampleRate: sampleRate,
+    totalSamples: Math.round((total * 48000) / sampleRate),
+  });
+};
@@ -0,0 +1,135 @@
+/**
+ * Outbound Queue
+ *
+ * Holds what the student sends while the realtime session is down (typed
+ * messages, uploads, BSL mode changes) so it can be replayed in order once a
+ * new session is ready. Entries are kept in sessionStorage, so reloading the
+ * page mid-reconnect doesn't lose them either.
+ */
+
+export type OutboundPayload =
+  | { type: "text"; text: string; turnComplete: boolean }
+  | { type: "image"; base64: string; mimeType: string; prompt: string };
+
+export interface OutboundEntry {
+  id: string;
+  /** Entries with the same key replace each other rather than queueing twice */
+  key: string;
+  payload: OutboundPayload;
+  /** Shown in the transcript while waiting; null for context that has no bubble */
+  label: string | null;
+  queuedAt: number;
+}
+
+const isPayload = (value: unknown): value is OutboundPayload => {
+  const p = value as Record<string, unknown> | null;
+  if (!p || typeof p !== "object") return false;
+  if (p.type === "text") return typeof p.text === "string" && typeof p.turnComplete === "boolean";
+  if (p.type === "image") {
+    return typeof p.base64 === "string" && typeof p.mimeType === "string" && typeof p.prompt === "string";
+  }
+  return false;
+};
+
+const isEntry = (value: unknown): value is OutboundEntry => {
+  const e = value as Record<string, unknown> | null;
+  return (
+    !!e &&
+    typeof e.id === "string" &&
+    typeof e.key === "string" &&
+    (e.label === null || typeof e.label === "string") &&
+    typeof e.queuedAt === "number" &&
+    isPayload(e.payload)
+  );
+};
+
+/** Key for a typed or uploaded text turn; sending the same text twice while offline only queues it once */
+export const textEntryKey = (text: string) => `text:${text}`;
+
+/** Key for an image; the tail of the data tells apart different images with the same prompt */
+export const imageEntryKey = (base64: string, prompt: string) => `image:${prompt}:${base64.length}:${base64.slice(-32)}`;
+
+export class OutboundQueue {
+  private items: OutboundEntry[] = [];
+
+  /**
+   * @param storageKey Where entries are kept between page loads; null keeps them in memory only
+   */
+  constructor(
+    readonly storageKey: string | null,
+    private readonly storage: Storage | null = typeof sessionStorage === "undefined" ? null : sessionStorage
+  ) {
+    this.items = this.load();
+  }
+
+  get entries(): readonly OutboundEntry[] {
+    return this.items;
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  /**
+   * Queue a payload. An entry already waiting with the same key takes the new
+   * payload and keeps its place, and `isDuplicate` is true.
+   */
+  enqueue(key: string, payload: OutboundPayload, label: string | null): { entry: OutboundEntry; isDuplicate: boolean } {
+    const existing = this.items.find((e) => e.key === key);
+    if (existing) {
+      existing.payload = payload;
+      this.save();
+      return { entry: existing, isDuplicate: true };
+    }
+    const entry: OutboundEntry = { id: crypto.randomUUID(), key, payload, label, queuedAt: Date.now() };
+    this.items.push(entry);
+    this.save();
+    return { entry, isDuplicate: false };
+  }
+
+  /** Drop a waiting entry; returns it, or null if it was already sent or cancelled */
+  cancel(id: string): OutboundEntry | null {
+    const index = this.items.findIndex((e) => e.id === id);
+    if (index === -1) return null;
+    const [entry] = this.items.splice(index, 1);
+    this.save();
+    return entry;
+  }
+
+  /** Take every entry, oldest first, for sending */
+  drain(): OutboundEntry[] {
+    const drained = this.items;
+    this.items = [];
+    this.save();
+    return drained;
+  }
+
+  clear() {
+    this.items = [];
+    this.save();
+  }
+
+  private load(): OutboundEntry[] {
+    if (!this.storageKey || !this.storage) return [];
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      if (!raw) return [];
+      const parsed: unknown = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed.filter(isEntry) : [];
+    } catch (error) {
+      console.warn("Failed to read the outbound queue:", error);
+      return [];
+    }
+  }
+
+  private save() {
+    if (!this.storageKey || !this.storage) return;
+    try {
+      if (this.items.length === 0) this.storage.removeItem(this.storageKey);
+      else this.storage.setItem(this.storageKey, JSON.stringify(this.items));
+    } catch (error) {
+      // Usually a large image over the storage quota; the entries still wait in memory
+      console.warn("Failed to save the outbound queue:", error);
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * PCM Capture
+ *
+ * The sample handling behind the microphone capture worklet: conversion
+ * between float and PCM16 samples, and a chunker that cuts resampled audio
+ * into the fixed-size PCM16 frames Gemini expects. Resampling itself lives
+ * in pcmResampler. Kept free of worklet globals so it can run (and be tested)
+ * on the main thread too.
+ */
+
+/** Name the capture worklet registers its processor under */
+export const CAPTURE_PROCESSOR_NAME = "pcm-capture";
+
+/**
+ * Float samples in [-1, 1] to signed 16-bit PCM
+ */
+export const floatToPCM16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+/**
+ * Signed 16-bit PCM to float samples in [-1, 1)
+ */
+export const pcm16ToFloat = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) samples[i] = pcm[i] / 0x8000;
+  return samples;
+};
+
+/**
+ * Collects samples into fixed-size PCM16 frames
+ */
+export class PCM16Chunker {
+  private frame: Int16Array;
+  private filled = 0;
+
+  constructor(readonly frameSamples: number) {
+    this.frame = new Int16Array(frameSamples);
+  }
+
+  push(samples: Float32Array): Int16Array[] {
+    const frames: Int16Array[] = [];
+    const pcm = floatToPCM16(samples);
+    let offset = 0;
+    while (offset < pcm.length) {
+      const take = Math.min(this.frameSamples - this.filled, pcm.length - offset);
+      this.frame.set(pcm.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.frameSamples) {
+        frames.push(this.frame);
+        this.frame = new Int16Array(this.frameSamples);
+        this.filled = 0;
+      }
+    }
+    return frames;
+  }
+
+  /** Whatever is buffered as a short final frame, or null if empty */
+  flush(): Int16Array | null {
+    if (this.filled === 0) return null;
+    const frame = this.frame.slice(0, this.filled);
+    this.filled = 0;
+    return frame;
+  }
+}
@@ -1,88 +1,234 @@
 /**
- * PCM16 Resampler - Converts 24kHz PCM16 to 16kHz PCM16
- * Used to fix pitch issues when sending OpenAI Realtime audio to Simli
+ * PCM Resampler
+ *
+ * One sample-rate converter for every rate pair the app meets: microphone
+ * capture (44.1/48 kHz down to 16 kHz for Gemini), Gemini's 24 kHz output,
+ * and lesson recordings mixed from both. It is a polyphase windowed-sinc
+ * filter: the kernel is tabulated at a fixed number of phases between input
+ * samples and read at the fractional position of each output sample, with
+ * linear interpolation between neighbouring phases.
+ *
+ * Resamplers are streaming. State carries across `process` calls, so
+ * 128-frame worklet blocks join up without clicks, and output is aligned with
+ * the input: output sample n sits at input time n * inputRate / outputRate.
+ * The filter needs a little lookahead, so the last few milliseconds only come
+ * out of `flush()`.
  */
 
-export class PCM16Resampler {
-  private readonly inputRate: number;
-  private readonly outputRate: number;
-  private readonly ratio: number;
-  private fractionalPosition: number = 0;
-  private lastSample: number = 0;
-
-  constructor(inputRate: number = 24000, outputRate: number = 16000) {
-    this.inputRate = inputRate;
-    this.outputRate = outputRate;
-    this.ratio = outputRate / inputRate; // 16000/24000 = 0.6667
+import { floatToPCM16, pcm16ToFloat } from "./pcmCapture";
+
+export interface ResamplerOptions {
+  /** Sinc zero crossings on each side of the kernel; more gives a sharper cutoff but costs more */
+  zeroCrossings?: number;
+  /** Kernel phases tabulated between two input samples */
+  phases?: number;
+  /** Cutoff as a fraction of the lower Nyquist rate */
+  rolloff?: number;
+}
+
+const DEFAULT_ZERO_CROSSINGS = 16;
+const DEFAULT_PHASES = 128;
+const DEFAULT_ROLLOFF = 0.9;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const blackman = (x: number) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+/**
+ * Streaming resampler for float samples
+ */
+export class Resampler {
+  private readonly halfTaps: number;
+  private readonly phases: number;
+  // (phases + 1) rows of 2 * halfTaps taps; row p is the kernel offset by p / phases
+  private readonly bank: Float32Array;
+  // Unconsumed input, starting with the history the next output needs
+  private buffer: Float32Array;
+  private filled = 0;
+  // Buffer index of the input sample the output count is measured from, and
+  // outputs produced since. Positions are computed from these rather than
+  // accumulated, so rounding never drifts and block size doesn't matter.
+  private origin = 0;
+  private produced = 0;
+  // Outputs and inputs in one whole cycle of the rate ratio, for rebasing `origin`
+  private readonly cycle: { outputs: number; inputs: number };
+
+  constructor(
+    readonly inputRate: number,
+    readonly outputRate: number,
+    options: ResamplerOptions = {}
+  ) {
+    if (!(inputRate > 0) || !(outputRate > 0)) throw new RangeError("Sample rates must be positive");
+
+    const divisor = Number.isInteger(inputRate) && Number.isInteger(outputRate) ? gcd(inputRate, outputRate) : 0;
+    this.cycle = divisor
+      ? { outputs: outputRate / divisor, inputs: inputRate / divisor }
+      : { outputs: Infinity, inputs: 0 };
+    this.phases = options.phases ?? DEFAULT_PHASES;
+
+    // When downsampling the kernel widens so the cutoff sits below the output Nyquist
+    const scale = Math.min(1, outputRate / inputRate) * (options.rolloff ?? DEFAULT_ROLLOFF);
+    this.halfTaps = Math.ceil((options.zeroCrossings ?? DEFAULT_ZERO_CROSSINGS) / scale);
+    const taps = 2 * this.halfTaps;
+
+    this.bank = new Float32Array((this.phases + 1) * taps);
+    for (let p = 0; p <= this.phases; p++) {
+      const row = this.bank.subarray(p * taps, (p + 1) * taps);
+      let sum = 0;
+      for (let j = 0; j < taps; j++) {
+        const x = j - this.halfTaps + 1 - p / this.phases;
+        const sinc = x === 0 ? 1 : Math.sin(Math.PI * scale * x) / (Math.PI * scale * x);
+        row[j] = sinc * blackman(x / this.halfTaps);
+        sum += row[j];
+      }
+      // Unity gain at DC for every phase, so a constant stays constant
+      for (let j = 0; j < taps; j++) row[j] /= sum;
+    }
+
+    this.buffer = new Float32Array(taps + 256);
+    this.reset();
   }
 
-  /**
-   * Reset state (call on interruption/buffer clear)
-   */
-  reset(): void {
-    this.fractionalPosition = 0;
-    this.lastSample = 0;
+  /** Input samples of lookahead the filter waits for before producing output */
+  get latency(): number {
+    return this.inputRate === this.outputRate ? 0 : this.halfTaps;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.inputRate === this.outputRate) return input.slice();
+    this.append(input);
+    // Each output needs halfTaps samples after its own position
+    return this.drain(this.filled - this.halfTaps);
   }
 
   /**
-   * Convert PCM16 bytes from inputRate to outputRate using linear interpolation
+   * Output for the input still held back as lookahead; call at the end of a
+   * stream. The resampler is reset afterwards.
    */
-  process(inputBytes: Uint8Array): Uint8Array {
-    // Convert bytes to Int16 samples (little-endian)
-    const inputSamples = new Int16Array(inputBytes.buffer, inputBytes.byteOffset, inputBytes.length / 2);
-    
-    if (inputSamples.length === 0) {
-      return new Uint8Array(0);
+  flush(): Float32Array {
+    if (this.inputRate === this.outputRate) return new Float32Array(0);
+    const end = this.filled;
+    this.append(new Float32Array(this.halfTaps));
+    const output = this.drain(end);
+    this.reset();
+    return output;
+  }
+
+  reset() {
+    // Silence before the stream starts, so the first outputs have history
+    this.buffer.fill(0);
+    this.filled = this.halfTaps - 1;
+    this.origin = this.halfTaps - 1;
+    this.produced = 0;
+  }
+
+  private append(input: Float32Array) {
+    const needed = this.filled + input.length;
+    if (this.buffer.length < needed) {
+      const grown = new Float32Array(Math.max(needed, this.buffer.length * 2));
+      grown.set(this.buffer.subarray(0, this.filled));
+      this.buffer = grown;
     }
+    this.buffer.set(input, this.filled);
+    this.filled = needed;
+  }
 
-    // Calculate output length
-    const outputLength = Math.floor((inputSamples.length + this.fractionalPosition) * this.ratio);
-    const outputSamples = new Int16Array(outputLength);
-    
-    let outputIndex = 0;
-    let position = this.fractionalPosition;
-    
-    for (let i = 0; i < outputLength && outputIndex < outputLength; i++) {
-      const inputIndex = Math.floor(position / this.ratio);
-      const fraction = (position / this.ratio) - inputIndex;
-      
-      // Get current and next sample for interpolation
-      let currentSample: number;
-      let nextSample: number;
-      
-      if (inputIndex < 0) {
-        currentSample = this.lastSample;
-        nextSample = inputSamples[0] ?? this.lastSample;
-      } else if (inputIndex >= inputSamples.length - 1) {
-        currentSample = inputSamples[inputSamples.length - 1] ?? 0;
-        nextSample = currentSample;
-      } else {
-        currentSample = inputSamples[inputIndex] ?? 0;
-        nextSample = inputSamples[inputIndex + 1] ?? currentSample;
+  // Produce every output positioned before `limit`, then drop consumed input
+  private drain(limit: number): Float32Array {
+    const { bank, buffer, halfTaps, phases, inputRate, outputRate } = this;
+    const taps = 2 * halfTaps;
+    const total = Math.ceil(((limit - this.origin) * outputRate) / inputRate);
+    const output = new Float32Array(Math.max(0, total - this.produced));
+
+    for (let n = 0; n < output.length; n++) {
+      const position = this.origin + ((this.produced + n) * inputRate) / outputRate;
+      const index = Math.floor(position);
+      const phase = (position - index) * phases;
+      const row = Math.floor(phase);
+      const weight = phase - row;
+      const first = index - halfTaps + 1;
+
+      let a = 0;
+      let b = 0;
+      const rowA = row * taps;
+      const rowB = rowA + taps;
+      for (let j = 0; j < taps; j++) {
+        const sample = buffer[first + j];
+        a += bank[rowA + j] * sample;
+        b += bank[rowB + j] * sample;
       }
-      
-      // Linear interpolation
-      const interpolatedSample = currentSample + (nextSample - currentSample) * fraction;
-      outputSamples[outputIndex++] = Math.round(interpolatedSample);
-      
-      position += 1;
+      output[n] = a + (b - a) * weight;
+    }
+    this.produced += output.length;
+
+    // Whole cycles of the ratio land on an input sample exactly
+    if (this.produced >= this.cycle.outputs) {
+      const cycles = Math.floor(this.produced / this.cycle.outputs);
+      this.produced -= cycles * this.cycle.outputs;
+      this.origin += cycles * this.cycle.inputs;
     }
-    
-    // Update state for next chunk
-    const consumedInputSamples = inputSamples.length;
-    const expectedPosition = consumedInputSamples * this.ratio;
-    this.fractionalPosition = (position - outputLength) * this.ratio;
-    
-    // Clamp fractional position
-    if (this.fractionalPosition < 0) {
-      this.fractionalPosition = 0;
+
+    // Keep only the history the next output needs
+    const next = Math.floor(this.origin + (this.produced * inputRate) / outputRate);
+    const drop = Math.max(0, Math.min(this.filled, next - halfTaps + 1));
+    if (drop > 0) {
+      buffer.copyWithin(0, drop, this.filled);
+      this.filled -= drop;
+      this.origin -= drop;
     }
-    
-    // Store last sample for next chunk continuity
-    this.lastSample = inputSamples[inputSamples.length - 1] ?? 0;
-    
-    // Convert back to bytes (little-endian)
-    const outputBytes = new Uint8Array(outputSamples.buffer);
-    return outputBytes;
+    return output;
+  }
+}
+
+/**
+ * Streaming resampler for signed 16-bit PCM
+ */
+export class PCM16Resampler {
+  private readonly resampler: Resampler;
+
+  constructor(inputRate: number, outputRate: number, options?: ResamplerOptions) {
+    this.resampler = new Resampler(inputRate, outputRate, options);
+  }
+
+  get latency(): number {
+    return this.resampler.latency;
+  }
+
+  process(input: Int16Array): Int16Array {
+    return floatToPCM16(this.resampler.process(pcm16ToFloat(input)));
+  }
+
+  flush(): Int16Array {
+    return floatToPCM16(this.resampler.flush());
+  }
+
+  reset() {
+    this.resampler.reset();
   }
 }
+
+/**
+ * Resample a whole signal at once
+ */
+export const resample = (
+  samples: Float32Array,
+  inputRate: number,
+  outputRate: number,
+  options?: ResamplerOptions
+): Float32Array => {
+  if (inputRate === outputRate) return samples.slice();
+  const resampler = new Resampler(inputRate, outputRate, options);
+  const body = resampler.process(samples);
+  const tail = resampler.flush();
+  const output = new Float32Array(body.length + tail.length);
+  output.set(body);
+  output.set(tail, body.length);
+  return output;
+};
+
+export const resamplePCM16 = (
+  samples: Int16Array,
+  inputRate: number,
+  outputRate: number,
+  options?: ResamplerOptions
+): Int16Array => floatToPCM16(resample(pcm16ToFloat(samples), inputRate, outputRate, options));
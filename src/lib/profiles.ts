@@ -0,0 +1,121 @@
+/**
+ * Learner Profiles
+ *
+ * Loads and saves the signed-in learner's profile, and turns it into a short
+ * context block appended to the teacher's system prompt.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<"profiles">;
+
+export type KeyStage = "EYFS" | "KS1" | "KS2" | "KS3" | "KS4" | "KS5";
+
+export const KEY_STAGES: Array<{ value: KeyStage; label: string; years: number[] }> = [
+  { value: "EYFS", label: "Early Years (Reception)", years: [0] },
+  { value: "KS1", label: "Key Stage 1", years: [1, 2] },
+  { value: "KS2", label: "Key Stage 2", years: [3, 4, 5, 6] },
+  { value: "KS3", label: "Key Stage 3", years: [7, 8, 9] },
+  { value: "KS4", label: "Key Stage 4 (GCSE)", years: [10, 11] },
+  { value: "KS5", label: "Key Stage 5 (A level)", years: [12, 13] },
+];
+
+export interface ProfileInput {
+  displayName: string;
+  keyStage: KeyStage | null;
+  yearGroup: number | null;
+  bslFirst: boolean;
+  captions: boolean;
+}
+
+/**
+ * A profile is complete once the learner has told us their name and stage
+ */
+export const isProfileComplete = (profile: Profile | null): profile is Profile =>
+  Boolean(profile?.display_name.trim() && profile.key_stage);
+
+export const formatYearGroup = (year: number) => (year === 0 ? "Reception" : `Year ${year}`);
+
+/**
+ * Fetch a profile; null when it doesn't exist yet or the read failed
+ */
+export const loadProfile = async (userId: string): Promise<Profile | null> => {
+  const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).maybeSingle();
+
+  if (error) {
+    console.warn("Profiles: failed to load profile", error);
+    return null;
+  }
+  return data;
+};
+
+/**
+ * Create or update the learner's profile
+ */
+export const saveProfile = async (userId: string, input: ProfileInput): Promise<Profile | null> => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .upsert({
+      id: userId,
+      display_name: input.displayName.trim(),
+      key_stage: input.keyStage,
+      year_group: input.yearGroup,
+      bsl_first: input.bslFirst,
+      captions: input.captions,
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    console.warn("Profiles: failed to save profile", error);
+    return null;
+  }
+  return data;
+};
+
+// Longest display name quoted into the system prompt
+const MAX_PROMPT_NAME_LENGTH = 40;
+
+/**
+ * The display name as it may appear in the system prompt: one short line with
+ * no brackets or quote marks, so a name can't close the tag or pose as instructions
+ */
+export const promptSafeName = (name: string): string =>
+  name
+    .replace(/[\p{Cc}<>[\]{}()«»"`]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_PROMPT_NAME_LENGTH)
+    .trim();
+
+/**
+ * Learner context appended to the teacher's system prompt
+ */
+export const buildLearnerContext = (profile: Profile | null): string => {
+  if (!profile) return "";
+
+  const lines: string[] = [];
+  const name = promptSafeName(profile.display_name);
+  // Quoted as data: it's whatever the student typed into their profile
+  if (name) lines.push(`<name>The student's name is: «${name}»</name>`);
+
+  const stage = KEY_STAGES.find((s) => s.value === profile.key_stage);
+  if (stage) lines.push(`<key_stage>${stage.label} (${stage.value})</key_stage>`);
+  if (profile.year_group !== null) lines.push(`<year_group>${formatYearGroup(profile.year_group)}</year_group>`);
+
+  if (profile.bsl_first) {
+    lines.push("<accessibility>BSL is the student's first language. Keep sentences short, concrete and literal so they sign well.</accessibility>");
+  }
+  if (profile.captions) {
+    lines.push("<accessibility>The student follows along with captions. Speak in complete, clearly punctuated sentences.</accessibility>");
+  }
+
+  if (lines.length === 0) return "";
+  return `
+<learner>
+  ${lines.join("\n  ")}
+  <guidance>Address the student by name and pitch explanations at their key stage and year group.</guidance>
+</learner>
+`;
+};
@@ -0,0 +1,177 @@
+/**
+ * Quizzes
+ *
+ * Quizzes set by the teacher through the start_quiz tool, or built from
+ * review items that are due. Answers are marked in the browser: numeric
+ * answers within a tolerance, maths by algebraic equivalence, and short
+ * answers after normalising case, punctuation and small spelling slips.
+ */
+
+import type { QuizQuestionSpec, QuizSpec } from "./teacherTools";
+import { areEquivalent, evaluateConstant, valuesClose } from "./mathExpression";
+
+export interface QuizQuestion extends QuizQuestionSpec {
+  id: string;
+  /** Set when the question came from the spaced-repetition queue */
+  reviewItemId?: string;
+}
+
+export interface Quiz {
+  id: string;
+  title: string;
+  source: "teacher" | "review";
+  questions: QuizQuestion[];
+}
+
+export interface QuizMark {
+  correct: boolean;
+  feedback?: string;
+}
+
+export interface QuizAnswer extends QuizMark {
+  questionId: string;
+  response: string;
+}
+
+export interface QuizSummary {
+  correct: number;
+  total: number;
+  missed: QuizQuestion[];
+}
+
+export const createQuiz = (spec: QuizSpec, source: Quiz["source"] = "teacher"): Quiz => ({
+  id: crypto.randomUUID(),
+  title: spec.title,
+  source,
+  questions: spec.questions.map((question) => ({ ...question, id: crypto.randomUUID() })),
+});
+
+// Case, accents, punctuation and a leading article don't change a short answer
+export const normalizeAnswer = (text: string) =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s.-]/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^(the|a|an) /, "")
+    .replace(/\.$/, "");
+
+const editDistance = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+// Longer words can absorb a slip or two; short ones must match exactly
+const allowedTypos = (length: number) => (length >= 10 ? 2 : length >= 5 ? 1 : 0);
+
+/**
+ * Read a number the way students write it: "1,250", "3/4", "2.5 cm", "\frac{1}{2}"
+ */
+export const parseNumericAnswer = (text: string): number | null => {
+  const cleaned = text.trim().replace(/(\d),(?=\d{3}\b)/g, "$1");
+  const exact = evaluateConstant(cleaned);
+  if (exact !== null) return exact;
+  // Drop trailing units
+  const leading = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i.exec(cleaned);
+  return leading ? Number(leading[0]) : null;
+};
+
+// "7.2" implies an answer to 1 d.p., so anything that rounds to it is accepted
+const defaultTolerance = (answer: string) => {
+  const decimals = /\.(\d+)\s*$/.exec(answer.trim())?.[1].length ?? 0;
+  return decimals > 0 ? 0.5 * 10 ** -decimals : 0;
+};
+
+const markNumeric = (question: QuizQuestion, response: string): QuizMark => {
+  const expected = parseNumericAnswer(question.answer);
+  const actual = parseNumericAnswer(response);
+  if (actual === null) return { correct: false, feedback: "That doesn't look like a number." };
+  if (expected === null) return { correct: false };
+
+  const tolerance = question.tolerance ?? defaultTolerance(question.answer);
+  const correct = tolerance > 0 ? Math.abs(actual - expected) <= tolerance + 1e-12 : valuesClose(actual, expected, 1e-9);
+  return { correct };
+};
+
+const markMultipleChoice = (question: QuizQuestion, response: string): QuizMark => {
+  const options = question.options ?? [];
+  const answer = normalizeAnswer(question.answer);
+  // The model sometimes gives the letter of the option rather than its text
+  const letterIndex = /^[a-z]$/.test(answer) ? answer.charCodeAt(0) - 97 : -1;
+  const expected = letterIndex >= 0 && letterIndex < options.length ? normalizeAnswer(options[letterIndex]) : answer;
+  return { correct: normalizeAnswer(response) === expected };
+};
+
+const markShortAnswer = (question: QuizQuestion, response: string): QuizMark => {
+  const actual = normalizeAnswer(response);
+  if (!actual) return { correct: false };
+  const accepted = [question.answer, ...(question.accept ?? [])].map(normalizeAnswer);
+  if (accepted.includes(actual)) return { correct: true };
+
+  // A numeric short answer ("12", "12.0") is still a number, and digits aren't spelling slips
+  if (/^[-+\d.,/\s]+$/.test(question.answer)) {
+    const expectedNumber = parseNumericAnswer(question.answer);
+    const actualNumber = parseNumericAnswer(response);
+    return { correct: expectedNumber !== null && actualNumber !== null && valuesClose(expectedNumber, actualNumber, 1e-9) };
+  }
+
+  const close = accepted.find((answer) => editDistance(answer, actual) <= allowedTypos(answer.length));
+  if (close) return { correct: true, feedback: `Check your spelling: "${close}".` };
+  return { correct: false };
+};
+
+const markMath = (question: QuizQuestion, response: string): QuizMark => {
+  if (!response.trim()) return { correct: false };
+  return { correct: areEquivalent(question.answer, response) };
+};
+
+/**
+ * Mark one answer
+ */
+export const markAnswer = (question: QuizQuestion, response: string): QuizMark => {
+  switch (question.type) {
+    case "numeric":
+      return markNumeric(question, response);
+    case "multiple_choice":
+      return markMultipleChoice(question, response);
+    case "math":
+      return markMath(question, response);
+    default:
+      return markShortAnswer(question, response);
+  }
+};
+
+export const summarizeQuiz = (quiz: Quiz, answers: QuizAnswer[]): QuizSummary => {
+  const byQuestion = new Map(answers.map((a) => [a.questionId, a]));
+  const missed = quiz.questions.filter((q) => !byQuestion.get(q.id)?.correct);
+  return { correct: quiz.questions.length - missed.length, total: quiz.questions.length, missed };
+};
+
+/**
+ * Results sent back to the teacher so they can follow up on what was missed
+ */
+export const formatQuizResults = (quiz: Quiz, answers: QuizAnswer[]): string => {
+  const byQuestion = new Map(answers.map((a) => [a.questionId, a]));
+  const { correct, total } = summarizeQuiz(quiz, answers);
+  const lines = quiz.questions.map((question, i) => {
+    const answer = byQuestion.get(question.id);
+    if (!answer) return `${i + 1}. ${question.prompt} (skipped; answer: ${question.answer})`;
+    return answer.correct
+      ? `${i + 1}. ${question.prompt} (correct: ${answer.response})`
+      : `${i + 1}. ${question.prompt} (wrong: answered ${answer.response}; answer: ${question.answer})`;
+  });
+  const kind = quiz.source === "review" ? "review quiz" : "quiz";
+  return `[QUIZ RESULTS] I finished the ${kind} "${quiz.title}" and got ${correct}/${total}.\n${lines.join("\n")}\n` +
+    (correct < total ? "Please go over the ones I got wrong." : "");
+};
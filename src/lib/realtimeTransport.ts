@@ -0,0 +1,146 @@
+/**
+ * Realtime Transport
+ *
+ * Provider-neutral contract between `useRealtimeChat` and a realtime voice
+ * backend. Implementations translate their wire protocol into the events
+ * below, so the hook and UI never touch provider message shapes.
+ */
+
+/** JSON-schema style parameter description understood by the model */
+export interface RealtimeToolSchema {
+  type: "OBJECT" | "ARRAY" | "STRING" | "NUMBER" | "INTEGER" | "BOOLEAN";
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, RealtimeToolSchema>;
+  required?: string[];
+  items?: RealtimeToolSchema;
+}
+
+/** A function the model may call during the session */
+export interface RealtimeToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: RealtimeToolSchema;
+}
+
+export interface RealtimeToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface RealtimeToolResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface RealtimeSessionConfig {
+  voice: string;
+  systemInstruction: string;
+  tools?: RealtimeToolDeclaration[];
+  /**
+   * Turn off server-side voice detection; the client marks speech with
+   * `sendActivityStart`/`sendActivityEnd` instead
+   */
+  manualActivityDetection?: boolean;
+}
+
+export type RealtimePart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface RealtimeTurn {
+  role: "user" | "model";
+  parts: RealtimePart[];
+}
+
+export type RealtimeTransportEvent =
+  /** Session is configured and ready for input */
+  | { type: "ready" }
+  /** PCM16 audio from the model */
+  | { type: "audio"; data: Uint8Array }
+  /** Text part from the model */
+  | { type: "text"; text: string }
+  /** Transcription of what the student said */
+  | { type: "inputTranscription"; text: string }
+  /** Transcription of what the model said aloud */
+  | { type: "outputTranscription"; text: string }
+  /** Model wants the client to run one or more tools */
+  | { type: "toolCall"; calls: RealtimeToolCall[] }
+  /** Model no longer needs the results of these tool calls */
+  | { type: "toolCallCancellation"; ids: string[] }
+  /** Student interrupted the model's output */
+  | { type: "interrupted" }
+  /** Model finished its turn */
+  | { type: "turnComplete" }
+  /** Backend will end the session soon */
+  | { type: "goAway"; timeLeft?: string }
+  /** Non-fatal backend error */
+  | { type: "error"; message: string }
+  /**
+   * Session ended without `disconnect()` being called.
+   * `upstream` is true when the model session closed but the socket was still healthy.
+   */
+  | { type: "closed"; code?: number; reason?: string; upstream: boolean }
+  /** Anything the transport couldn't map, kept for debugging */
+  | { type: "unhandled"; data: unknown };
+
+export type RealtimeTransportListener = (event: RealtimeTransportEvent) => void;
+
+export interface RealtimeTransport {
+  /** Open the session; resolves once it is ready for input */
+  connect(config: RealtimeSessionConfig): Promise<void>;
+  /** Close the session without emitting a `closed` event */
+  disconnect(): void;
+  isOpen(): boolean;
+  /** Stream base64 PCM16 microphone audio */
+  sendAudio(base64Pcm16: string, sampleRate: number): void;
+  /** The student started talking (manual activity detection only) */
+  sendActivityStart(): void;
+  /** The student stopped talking (manual activity detection only) */
+  sendActivityEnd(): void;
+  /** Send a user text turn; `turnComplete: false` adds context without asking for a reply */
+  sendText(text: string, options?: { turnComplete?: boolean }): void;
+  sendImage(base64: string, mimeType: string, prompt: string): void;
+  /** Return tool results for earlier `toolCall` events */
+  sendToolResponses(responses: RealtimeToolResponse[]): void;
+  /** Send several turns at once, e.g. to restore earlier context */
+  sendTurns(turns: RealtimeTurn[], turnComplete: boolean): void;
+  /** Round trip to the backend in ms, or null if no reply came in time */
+  ping(timeoutMs?: number): Promise<number | null>;
+  /** Bytes queued to send but not yet on the wire */
+  getBufferedAmount(): number;
+  /** Subscribe to events; returns an unsubscribe function */
+  onEvent(listener: RealtimeTransportListener): () => void;
+}
+
+export type RealtimeTransportFactory = () => RealtimeTransport;
+
+/**
+ * Small listener set shared by transport implementations
+ */
+export class TransportEventEmitter {
+  private listeners = new Set<RealtimeTransportListener>();
+
+  on(listener: RealtimeTransportListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: RealtimeTransportEvent) {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (e) {
+        console.error("Realtime transport listener error:", e);
+      }
+    });
+  }
+
+  clear() {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Review Items
+ *
+ * Persists missed quiz questions to the spaced-repetition queue and turns the
+ * ones that are due into a review quiz. Like lesson persistence, failures are
+ * logged and never interrupt the lesson.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { ToolError, parseQuizArgs, type QuizQuestionSpec } from "./teacherTools";
+import { qualityFromResult, scheduleMissedQuestion, scheduleReview } from "./spacedRepetition";
+import type { Quiz, QuizQuestion } from "./quiz";
+
+export type ReviewItem = Tables<"review_items">;
+
+const REVIEW_QUIZ_SIZE = 5;
+
+/**
+ * Review items that are due now, oldest first
+ */
+export const listDueReviewItems = async (limit = REVIEW_QUIZ_SIZE): Promise<ReviewItem[]> => {
+  const { data, error } = await supabase
+    .from("review_items")
+    .select("*")
+    .lte("due_at", new Date().toISOString())
+    .order("due_at", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.warn("Review items: failed to list due items", error);
+    return [];
+  }
+  return data ?? [];
+};
+
+export const countDueReviewItems = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from("review_items")
+    .select("id", { count: "exact", head: true })
+    .lte("due_at", new Date().toISOString());
+
+  if (error) {
+    console.warn("Review items: failed to count due items", error);
+    return 0;
+  }
+  return count ?? 0;
+};
+
+/**
+ * Queue missed questions for review tomorrow. A question already in the
+ * queue keeps its existing schedule.
+ */
+export const addMissedQuestions = async (questions: QuizQuestionSpec[]): Promise<boolean> => {
+  if (questions.length === 0) return true;
+
+  const schedule = scheduleMissedQuestion();
+  const rows = questions.map(({ prompt, type, options, answer, tolerance, accept }) => ({
+    prompt,
+    question: { prompt, type, options, answer, tolerance, accept } as Json,
+    ease_factor: schedule.easeFactor,
+    interval_days: schedule.intervalDays,
+    repetitions: schedule.repetitions,
+    due_at: schedule.dueAt.toISOString(),
+  }));
+
+  const { error } = await supabase
+    .from("review_items")
+    .upsert(rows, { onConflict: "user_id,prompt", ignoreDuplicates: true });
+  if (error) {
+    console.warn("Review items: failed to add missed questions", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Reschedule an item after it was answered in a review quiz
+ */
+export const recordReviewResult = async (item: ReviewItem, correct: boolean): Promise<boolean> => {
+  const next = scheduleReview(
+    { easeFactor: item.ease_factor, intervalDays: item.interval_days, repetitions: item.repetitions },
+    qualityFromResult(correct)
+  );
+
+  const { error } = await supabase
+    .from("review_items")
+    .update({
+      ease_factor: next.easeFactor,
+      interval_days: next.intervalDays,
+      repetitions: next.repetitions,
+      lapses: correct ? item.lapses : item.lapses + 1,
+      due_at: next.dueAt.toISOString(),
+      last_reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", item.id);
+
+  if (error) {
+    console.warn("Review items: failed to record result", error);
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Build a quiz from due items; items whose stored question no longer
+ * validates are skipped
+ */
+export const buildReviewQuiz = (items: ReviewItem[]): Quiz | null => {
+  const questions: QuizQuestion[] = [];
+  for (const item of items) {
+    try {
+      const [question] = parseQuizArgs({ title: "Review", questions: [item.question] }).questions;
+      questions.push({ ...question, id: crypto.randomUUID(), reviewItemId: item.id });
+    } catch (error) {
+      if (!(error instanceof ToolError)) throw error;
+      console.warn("Review items: skipping invalid item", item.id, error.message);
+    }
+  }
+  if (questions.length === 0) return null;
+  return { id: crypto.randomUUID(), title: "Review", source: "review", questions };
+};
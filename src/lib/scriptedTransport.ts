@@ -0,0 +1,170 @@
+/**
+ * Scripted Transport
+ *
+ * In-memory `RealtimeTransport` that plays back a scripted conversation.
+ * Used by unit tests and for exercising the UI without a backend.
+ */
+
+import {
+  TransportEventEmitter,
+  type RealtimeSessionConfig,
+  type RealtimeToolResponse,
+  type RealtimeTransport,
+  type RealtimeTransportEvent,
+  type RealtimeTransportListener,
+  type RealtimeTurn,
+} from "./realtimeTransport";
+
+export interface ScriptStep {
+  event: RealtimeTransportEvent;
+  /** Delay before this step, relative to the previous one */
+  delayMs?: number;
+}
+
+export type SentMessage =
+  | { kind: "audio"; data: string; sampleRate: number }
+  | { kind: "activity"; activity: "start" | "end" }
+  | { kind: "turns"; turns: RealtimeTurn[]; turnComplete: boolean }
+  | { kind: "toolResponses"; responses: RealtimeToolResponse[] };
+
+export interface ScriptedReply {
+  /** Only reply to messages that match; defaults to any completed user turn */
+  match?: (message: SentMessage) => boolean;
+  steps: ScriptStep[];
+}
+
+export interface ScriptedTransportOptions {
+  /** Steps played on connect; defaults to a single `ready` event */
+  onConnect?: ScriptStep[];
+  /** Replies consumed in order as matching messages are sent */
+  replies?: ScriptedReply[];
+  /** Make `connect()` fail with this error */
+  connectError?: Error;
+  /** Round trip reported by `ping()`; null simulates a timeout */
+  rttMs?: number | null;
+  /** Reported by `getBufferedAmount()` */
+  bufferedAmount?: number;
+}
+
+const isCompletedTurn = (message: SentMessage) => message.kind === "turns" && message.turnComplete;
+
+export class ScriptedTransport implements RealtimeTransport {
+  /** Everything the client sent, for assertions */
+  readonly sent: SentMessage[] = [];
+  /** Config passed to the last `connect()` call */
+  config: RealtimeSessionConfig | null = null;
+
+  private emitter = new TransportEventEmitter();
+  private open = false;
+  private replies: ScriptedReply[];
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(private options: ScriptedTransportOptions = {}) {
+    this.replies = [...(options.replies ?? [])];
+  }
+
+  onEvent(listener: RealtimeTransportListener): () => void {
+    return this.emitter.on(listener);
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  connect(config: RealtimeSessionConfig): Promise<void> {
+    this.config = config;
+    if (this.options.connectError) {
+      return Promise.reject(this.options.connectError);
+    }
+
+    this.open = true;
+    const steps = this.options.onConnect ?? [{ event: { type: "ready" } }];
+
+    return new Promise<void>((resolve) => {
+      const unsubscribe = this.emitter.on((event) => {
+        if (event.type === "ready") {
+          unsubscribe();
+          resolve();
+        }
+      });
+      this.play(steps);
+    });
+  }
+
+  disconnect() {
+    this.open = false;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /** Push an event as if it came from the backend */
+  emit(event: RealtimeTransportEvent) {
+    if (event.type === "closed") {
+      this.open = false;
+    }
+    this.emitter.emit(event);
+  }
+
+  sendAudio(base64Pcm16: string, sampleRate: number) {
+    this.record({ kind: "audio", data: base64Pcm16, sampleRate });
+  }
+
+  sendActivityStart() {
+    this.record({ kind: "activity", activity: "start" });
+  }
+
+  sendActivityEnd() {
+    this.record({ kind: "activity", activity: "end" });
+  }
+
+  sendText(text: string, options: { turnComplete?: boolean } = {}) {
+    this.sendTurns([{ role: "user", parts: [{ text }] }], options.turnComplete ?? true);
+  }
+
+  sendImage(base64: string, mimeType: string, prompt: string) {
+    this.sendTurns([{
+      role: "user",
+      parts: [{ inlineData: { mimeType, data: base64 } }, { text: prompt }],
+    }], true);
+  }
+
+  sendToolResponses(responses: RealtimeToolResponse[]) {
+    this.record({ kind: "toolResponses", responses });
+  }
+
+  sendTurns(turns: RealtimeTurn[], turnComplete: boolean) {
+    this.record({ kind: "turns", turns, turnComplete });
+  }
+
+  ping(): Promise<number | null> {
+    return Promise.resolve(this.open ? (this.options.rttMs === undefined ? 0 : this.options.rttMs) : null);
+  }
+
+  getBufferedAmount(): number {
+    return this.options.bufferedAmount ?? 0;
+  }
+
+  private record(message: SentMessage) {
+    if (!this.open) return;
+    this.sent.push(message);
+
+    const index = this.replies.findIndex((reply) => (reply.match ?? isCompletedTurn)(message));
+    if (index === -1) return;
+    const [reply] = this.replies.splice(index, 1);
+    this.play(reply.steps);
+  }
+
+  private play(steps: ScriptStep[]) {
+    let elapsed = 0;
+    for (const step of steps) {
+      elapsed += step.delayMs ?? 0;
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        if (this.open || step.event.type === "ready") {
+          this.emit(step.event);
+        }
+      }, elapsed);
+      this.timers.add(timer);
+    }
+  }
+}
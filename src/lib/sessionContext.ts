@@ -0,0 +1,125 @@
+/**
+ * Session Context Restoration
+ *
+ * A new Gemini Live socket starts with no memory of the lesson. These helpers
+ * turn the existing transcript into `clientContent` turns that are replayed
+ * right after `setupComplete`: recent turns verbatim, older turns as a compact
+ * summary, all within a token budget.
+ */
+
+import type { Message } from "./chatMessage";
+import { extractWhiteboardContent, removeWhiteboardMarkers } from "./whiteboardParser";
+
+export interface ContextTurn {
+  role: "user" | "model";
+  parts: Array<{ text: string }>;
+}
+
+export interface ContextRestorationOptions {
+  /** Total token budget for the replayed context */
+  tokenBudget?: number;
+  /** Share of the budget reserved for verbatim recent turns (0-1) */
+  recentShare?: number;
+  /** Maximum characters kept per summarised turn */
+  summaryLineLength?: number;
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6000;
+
+// Rough heuristic: ~4 characters per token for English text
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const truncate = (text: string, maxLength: number): string =>
+  text.length <= maxLength ? text : `${text.slice(0, maxLength - 1).trimEnd()}…`;
+
+/**
+ * Plain text for a message as the model should remember it.
+ * Whiteboard blocks are collapsed to their first line to save tokens.
+ */
+export const getContextText = (message: Message): string => {
+  const raw = message.role === "assistant" ? message.originalContent || message.content : message.content;
+  if (!raw) return "";
+
+  const spoken = removeWhiteboardMarkers(raw);
+  const { hasWhiteboard, content } = raw.includes("[WHITEBOARD_START]")
+    ? extractWhiteboardContent(raw)
+    : { hasWhiteboard: false, content: "" };
+
+  if (!hasWhiteboard) return spoken.trim();
+
+  const heading = content.split("\n").find((line) => line.trim())?.replace(/^#+\s*/, "").trim() ?? "";
+  const note = `[Whiteboard shown: ${truncate(heading, 80)}]`;
+  return spoken ? `${spoken.trim()}\n${note}` : note;
+};
+
+/**
+ * Build the turns that restore a lesson's context in a fresh session.
+ * Returns an empty array when there is nothing worth replaying.
+ */
+export function buildContextRestoration(
+  messages: Message[],
+  options: ContextRestorationOptions = {}
+): ContextTurn[] {
+  const {
+    tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
+    recentShare = 0.7,
+    summaryLineLength = 160,
+  } = options;
+
+  const entries = messages
+    .map((m) => ({ role: m.role === "assistant" ? ("model" as const) : ("user" as const), text: getContextText(m) }))
+    .filter((e) => e.text);
+
+  if (entries.length === 0) return [];
+
+  // Walk backwards, keeping recent turns verbatim while they fit
+  const recentBudget = Math.floor(tokenBudget * recentShare);
+  let used = 0;
+  let splitIndex = entries.length;
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(entries[i].text);
+    if (used + cost > recentBudget) break;
+    used += cost;
+    splitIndex = i;
+  }
+
+  // Summarise older turns, newest first, until the remaining budget runs out
+  const summaryLines: string[] = [];
+  let summaryTokens = 0;
+  const summaryBudget = tokenBudget - used;
+  for (let i = splitIndex - 1; i >= 0; i--) {
+    const speaker = entries[i].role === "user" ? "Student" : "Teacher";
+    const line = `- ${speaker}: ${truncate(entries[i].text.replace(/\s+/g, " "), summaryLineLength)}`;
+    const cost = estimateTokens(line);
+    if (summaryTokens + cost > summaryBudget) break;
+    summaryTokens += cost;
+    summaryLines.unshift(line);
+  }
+  const omitted = splitIndex - summaryLines.length;
+
+  const preamble = [
+    "[SYSTEM NOTE: This is a continuation of an earlier lesson with this student. The connection was refreshed, so the conversation so far is replayed below. Do not greet the student again or repeat yourself; carry on naturally from the last turn.]",
+  ];
+  if (summaryLines.length > 0) {
+    preamble.push(
+      `Summary of earlier parts of the lesson${omitted > 0 ? ` (${omitted} older turns omitted)` : ""}:`,
+      ...summaryLines
+    );
+  }
+
+  const turns: ContextTurn[] = [{ role: "user", parts: [{ text: preamble.join("\n") }] }];
+
+  // Replay recent turns, merging consecutive turns from the same speaker
+  for (const entry of entries.slice(splitIndex)) {
+    const last = turns[turns.length - 1];
+    if (last.role === entry.role) {
+      last.parts.push({ text: entry.text });
+    } else {
+      turns.push({ role: entry.role, parts: [{ text: entry.text }] });
+    }
+  }
+
+  return turns;
+}
@@ -0,0 +1,56 @@
+/**
+ * Session Tokens
+ *
+ * Short-lived credentials minted by the `session-token` edge function, so
+ * provider API keys never reach the browser: a ticket for the realtime-chat
+ * WebSocket proxy and a Simli session token for the avatar.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import { getLearnerUserId } from "./learnerAuth";
+
+type SessionTokenRequest = { kind: "realtime" } | { kind: "simli"; faceId: string };
+
+// Non-2xx responses surface as errors whose `context` is the raw Response
+const readErrorMessage = async (error: { message: string; context?: unknown }): Promise<string> => {
+  if (error.context instanceof Response) {
+    try {
+      const body = await error.context.json();
+      if (typeof body?.error === "string") return body.error;
+    } catch {
+      // Fall through to the generic message
+    }
+  }
+  return error.message || "Could not start a secure session";
+};
+
+const requestSessionToken = async <T>(request: SessionTokenRequest): Promise<T> => {
+  const userId = await getLearnerUserId();
+  if (!userId) {
+    throw new Error("Sign in to start a lesson");
+  }
+
+  const { data, error } = await supabase.functions.invoke("session-token", { body: request });
+  if (error) {
+    throw new Error(await readErrorMessage(error));
+  }
+  return data as T;
+};
+
+/**
+ * Ticket for opening the realtime-chat WebSocket; valid for about a minute
+ */
+export const requestRealtimeTicket = async (): Promise<string> => {
+  const { ticket } = await requestSessionToken<{ ticket?: string }>({ kind: "realtime" });
+  if (!ticket) throw new Error("No ticket returned from session-token function");
+  return ticket;
+};
+
+/**
+ * Simli session token for one avatar session with the given face
+ */
+export const requestSimliSessionToken = async (faceId: string): Promise<string> => {
+  const { sessionToken } = await requestSessionToken<{ sessionToken?: string }>({ kind: "simli", faceId });
+  if (!sessionToken) throw new Error("No session token returned from session-token function");
+  return sessionToken;
+};
@@ -0,0 +1,55 @@
+/**
+ * Spaced Repetition
+ *
+ * SM-2 scheduling for quiz questions the student got wrong. Each review is
+ * graded 0-5; good answers push the next review further out, and a miss
+ * starts the item again from tomorrow.
+ */
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: Date;
+}
+
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** SM-2 quality for an auto-marked answer: no partial credit, so 4 or 1 */
+export const qualityFromResult = (correct: boolean) => (correct ? 4 : 1);
+
+/**
+ * Next schedule after a review of the given quality (0 = blank, 5 = perfect)
+ */
+export const scheduleReview = (
+  previous: Pick<ReviewSchedule, "easeFactor" | "intervalDays" | "repetitions">,
+  quality: number,
+  now: Date = new Date()
+): ReviewSchedule => {
+  const q = Math.max(0, Math.min(5, Math.round(quality)));
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    previous.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02))
+  );
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (q < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = previous.repetitions + 1;
+    intervalDays =
+      repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous.intervalDays * previous.easeFactor);
+  }
+
+  return { easeFactor, intervalDays, repetitions, dueAt: new Date(now.getTime() + intervalDays * DAY_MS) };
+};
+
+/**
+ * Schedule for a question missed in a quiz: review it tomorrow
+ */
+export const scheduleMissedQuestion = (now: Date = new Date()): ReviewSchedule =>
+  scheduleReview({ easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0 }, qualityFromResult(false), now);
@@ -0,0 +1,322 @@
+/**
+ * Teacher Tools
+ *
+ * Client-side functions the teacher can call through Gemini Live function
+ * calling. Declarations are sent in the setup message; when a `toolCall`
+ * arrives the registry validates the arguments, runs the matching handler and
+ * builds the `toolResponse` payload.
+ */
+
+import type { RealtimeToolCall, RealtimeToolDeclaration, RealtimeToolResponse } from "./realtimeTransport";
+import type { WhiteboardSection } from "./whiteboardParser";
+import { whiteboardDocumentFromParsed, type WhiteboardDocument } from "./whiteboardDocument";
+
+export type ToolArgs = Record<string, unknown>;
+export type ToolResult = Record<string, unknown>;
+
+export interface TeacherTool {
+  declaration: RealtimeToolDeclaration;
+  execute: (args: ToolArgs) => ToolResult | Promise<ToolResult>;
+}
+
+/** Thrown by handlers and argument checks; the message is returned to the model */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ToolError";
+  }
+}
+
+/**
+ * Holds the tools available in a session
+ */
+export class ToolRegistry {
+  private tools = new Map<string, TeacherTool>();
+
+  register(tool: TeacherTool): this {
+    this.tools.set(tool.declaration.name, tool);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /** Declarations for the setup message */
+  declarations(): RealtimeToolDeclaration[] {
+    return [...this.tools.values()].map((tool) => tool.declaration);
+  }
+
+  /** Run a call; failures become `{ error }` responses rather than exceptions */
+  async execute(call: RealtimeToolCall): Promise<RealtimeToolResponse> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { id: call.id, name: call.name, response: { error: `Unknown tool "${call.name}"` } };
+    }
+
+    try {
+      const result = await tool.execute(call.args ?? {});
+      return { id: call.id, name: call.name, response: result };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Tool ${call.name} failed:`, message);
+      return { id: call.id, name: call.name, response: { error: message } };
+    }
+  }
+}
+
+// Argument helpers: the model occasionally omits or mistypes fields
+
+const requireString = (args: ToolArgs, key: string): string => {
+  const value = args[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new ToolError(`"${key}" must be a non-empty string`);
+  }
+  return value;
+};
+
+const requireArray = (args: ToolArgs, key: string): unknown[] => {
+  const value = args[key];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new ToolError(`"${key}" must be a non-empty array`);
+  }
+  return value;
+};
+
+const asRecord = (value: unknown, path: string): ToolArgs => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new ToolError(`${path} must be an object`);
+  }
+  return value as ToolArgs;
+};
+
+// show_whiteboard
+
+export const WHITEBOARD_SECTION_TYPES = [
+  "problem", "overview", "keypoints", "step", "math", "answer", "tips", "summary", "text",
+] as const;
+
+export interface WhiteboardToolArgs {
+  title: string;
+  sections: WhiteboardSection[];
+}
+
+export const parseWhiteboardArgs = (args: ToolArgs): WhiteboardToolArgs => {
+  const title = requireString(args, "title");
+  const sections = requireArray(args, "sections").map((raw, i) => {
+    const section = asRecord(raw, `sections[${i}]`);
+    const type = section.type;
+    if (typeof type !== "string" || !(WHITEBOARD_SECTION_TYPES as readonly string[]).includes(type)) {
+      throw new ToolError(`sections[${i}].type must be one of ${WHITEBOARD_SECTION_TYPES.join(", ")}`);
+    }
+    if (typeof section.content !== "string") {
+      throw new ToolError(`sections[${i}].content must be a string`);
+    }
+    return { type: type as WhiteboardSection["type"], content: section.content };
+  });
+  return { title, sections };
+};
+
+/**
+ * The board a show_whiteboard call describes, as a whiteboard document. Maths
+ * and text join the section before them; the result is not validated.
+ */
+export const whiteboardDocumentFromArgs = (board: WhiteboardToolArgs): WhiteboardDocument =>
+  whiteboardDocumentFromParsed({ title: board.title, sections: board.sections, rawContent: "" });
+
+const SHOW_WHITEBOARD: RealtimeToolDeclaration = {
+  name: "show_whiteboard",
+  description:
+    "Show a worked example, explanation or summary on the student's whiteboard. Use this instead of writing long explanations in chat. Write maths as LaTeX without $ delimiters in math sections, and with $...$ inline elsewhere. The title is plain text: put formulas in a problem section.",
+  parameters: {
+    type: "OBJECT",
+    properties: {
+      title: { type: "STRING", description: "Short plain-text title without maths, e.g. \"Solving a linear equation\"" },
+      sections: {
+        type: "ARRAY",
+        description: "Sections in display order. Steps are numbered automatically.",
+        items: {
+          type: "OBJECT",
+          properties: {
+            type: { type: "STRING", enum: [...WHITEBOARD_SECTION_TYPES] },
+            content: { type: "STRING", description: "Section text; for math sections a single LaTeX expression" },
+          },
+          required: ["type", "content"],
+        },
+      },
+    },
+    required: ["title", "sections"],
+  },
+};
+
+// start_quiz
+
+export const QUIZ_QUESTION_TYPES = ["multiple_choice", "numeric", "short_answer", "math"] as const;
+
+export interface QuizQuestionSpec {
+  prompt: string;
+  type: (typeof QUIZ_QUESTION_TYPES)[number];
+  options?: string[];
+  answer: string;
+  /** Numeric questions: largest accepted difference from the answer */
+  tolerance?: number;
+  /** Short answer questions: other accepted wordings */
+  accept?: string[];
+}
+
+export interface QuizSpec {
+  title: string;
+  questions: QuizQuestionSpec[];
+}
+
+export const parseQuizArgs = (args: ToolArgs): QuizSpec => {
+  const title = requireString(args, "title");
+  const questions = requireArray(args, "questions").map((raw, i) => {
+    const question = asRecord(raw, `questions[${i}]`);
+    const prompt = requireString(question, "prompt");
+    const answer = question.answer;
+    if (typeof answer !== "string" && typeof answer !== "number") {
+      throw new ToolError(`questions[${i}].answer must be a string or number`);
+    }
+    const type = typeof question.type === "string" ? question.type : "short_answer";
+    if (!(QUIZ_QUESTION_TYPES as readonly string[]).includes(type)) {
+      throw new ToolError(`questions[${i}].type must be one of ${QUIZ_QUESTION_TYPES.join(", ")}`);
+    }
+    const options = Array.isArray(question.options) ? question.options.map(String) : undefined;
+    if (type === "multiple_choice" && (!options || options.length < 2)) {
+      throw new ToolError(`questions[${i}] is multiple_choice but has fewer than two options`);
+    }
+    const tolerance = typeof question.tolerance === "number" && question.tolerance >= 0 ? question.tolerance : undefined;
+    const accept = Array.isArray(question.accept) ? question.accept.map(String).filter(Boolean) : undefined;
+    return {
+      prompt,
+      type: type as QuizQuestionSpec["type"],
+      options,
+      answer: String(answer),
+      ...(tolerance !== undefined && { tolerance }),
+      ...(accept?.length && { accept }),
+    };
+  });
+  return { title, questions };
+};
+
+const START_QUIZ: RealtimeToolDeclaration = {
+  name: "start_quiz",
+  description:
+    "Give the student a short quiz in their quiz panel to check understanding. Keep it to 3-5 questions. Answers are marked automatically and the results come back as the student's next message; don't read the answers aloud.",
+  parameters: {
+    type: "OBJECT",
+    properties: {
+      title: { type: "STRING" },
+      questions: {
+        type: "ARRAY",
+        items: {
+          type: "OBJECT",
+          properties: {
+            prompt: { type: "STRING", description: "The question; inline maths as $...$" },
+            type: { type: "STRING", enum: [...QUIZ_QUESTION_TYPES] },
+            options: { type: "ARRAY", items: { type: "STRING" }, description: "Choices for multiple_choice questions" },
+            answer: {
+              type: "STRING",
+              description: "Correct answer; for multiple_choice the exact option text, for math a LaTeX expression or equation",
+            },
+            tolerance: { type: "NUMBER", description: "numeric only: accepted difference, e.g. 0.05 for answers to 1 d.p." },
+            accept: { type: "ARRAY", items: { type: "STRING" }, description: "short_answer only: other accepted answers" },
+          },
+          required: ["prompt", "type", "answer"],
+        },
+      },
+    },
+    required: ["title", "questions"],
+  },
+};
+
+// set_bsl_mode
+
+const SET_BSL_MODE: RealtimeToolDeclaration = {
+  name: "set_bsl_mode",
+  description:
+    "Turn British Sign Language mode on or off, e.g. when the student says they are deaf, asks for signing, or asks to go back to voice.",
+  parameters: {
+    type: "OBJECT",
+    properties: {
+      enabled: { type: "BOOLEAN" },
+    },
+    required: ["enabled"],
+  },
+};
+
+// request_screen_capture
+
+const REQUEST_SCREEN_CAPTURE: RealtimeToolDeclaration = {
+  name: "request_screen_capture",
+  description:
+    "Take a screenshot of the screen the student is sharing, e.g. when they say \"look at this\". The image arrives as the student's next message.",
+  parameters: {
+    type: "OBJECT",
+    properties: {
+      reason: { type: "STRING", description: "What you want to look at" },
+    },
+  },
+};
+
+// mark_objective_complete
+
+const MARK_OBJECTIVE_COMPLETE: RealtimeToolDeclaration = {
+  name: "mark_objective_complete",
+  description:
+    "Record that the student has met one of the lesson plan's objectives. Only call this once they have shown it, e.g. by answering correctly or explaining it back.",
+  parameters: {
+    type: "OBJECT",
+    properties: {
+      objective_id: { type: "STRING", description: "The id of the objective in the lesson plan" },
+    },
+    required: ["objective_id"],
+  },
+};
+
+export interface TeacherToolHandlers {
+  showWhiteboard: (board: WhiteboardToolArgs) => ToolResult | Promise<ToolResult>;
+  startQuiz: (quiz: QuizSpec) => ToolResult | Promise<ToolResult>;
+  setBSLMode?: (enabled: boolean) => ToolResult | Promise<ToolResult>;
+  requestScreenCapture?: (reason?: string) => ToolResult | Promise<ToolResult>;
+  markObjectiveComplete?: (objectiveId: string) => ToolResult | Promise<ToolResult>;
+}
+
+/**
+ * Build the registry of teacher tools. Optional handlers that aren't provided
+ * still declare their tool, but report that the feature is unavailable.
+ */
+export const createTeacherToolRegistry = (handlers: TeacherToolHandlers): ToolRegistry =>
+  new ToolRegistry()
+    .register({
+      declaration: SHOW_WHITEBOARD,
+      execute: (args) => handlers.showWhiteboard(parseWhiteboardArgs(args)),
+    })
+    .register({
+      declaration: START_QUIZ,
+      execute: (args) => handlers.startQuiz(parseQuizArgs(args)),
+    })
+    .register({
+      declaration: SET_BSL_MODE,
+      execute: (args) => {
+        if (typeof args.enabled !== "boolean") throw new ToolError(`"enabled" must be a boolean`);
+        if (!handlers.setBSLMode) throw new ToolError("BSL mode isn't available in this session");
+        return handlers.setBSLMode(args.enabled);
+      },
+    })
+    .register({
+      declaration: REQUEST_SCREEN_CAPTURE,
+      execute: (args) => {
+        if (!handlers.requestScreenCapture) throw new ToolError("Screen capture isn't available in this session");
+        return handlers.requestScreenCapture(typeof args.reason === "string" ? args.reason : undefined);
+      },
+    })
+    .register({
+      declaration: MARK_OBJECTIVE_COMPLETE,
+      execute: (args) => {
+        const objectiveId = requireString(args, "objective_id");
+        if (!handlers.markObjectiveComplete) throw new ToolError("This lesson has no lesson plan");
+        return handlers.markObjectiveComplete(objectiveId);
+      },
+    });
@@ -0,0 +1,113 @@
+/**
+ * Thought Classifier
+ *
+ * The native-audio Gemini models sometimes leak their planning ("thoughts")
+ * into the text stream alongside real content such as whiteboard blocks.
+ * These helpers split an assistant text stream into what is meant for the
+ * student and what is the model talking to itself, so thoughts can be kept
+ * out of the transcript without being thrown away.
+ */
+
+const WHITEBOARD_START = "[WHITEBOARD_START]";
+const WHITEBOARD_END = "[WHITEBOARD_END]";
+
+export interface ClassifiedAssistantText {
+  /** Text meant for the student, whiteboard blocks included */
+  spoken: string;
+  /** Leaked model reasoning, paragraphs joined by blank lines */
+  thoughts: string;
+}
+
+// Score needed before a paragraph counts as a thought
+const THOUGHT_THRESHOLD = 2;
+
+interface ThoughtSignal {
+  pattern: RegExp;
+  weight: number;
+}
+
+const THOUGHT_SIGNALS: ThoughtSignal[] = [
+  // Gemini thought summaries open with a bold title, e.g. "**Initiating the Greeting**"
+  { pattern: /^\s*\*\*[^*\n]{3,80}\*\*\s*(\n|$)/, weight: 2 },
+  // Talking about the student in the third person
+  { pattern: /\bthe (user|student|learner)('s)?\b/i, weight: 2 },
+  // Narrating its own process
+  {
+    pattern: /\bI(?:'m| am|'ve| have|'ll| will)\s+(?:now\s+)?(?:been\s+)?(?:ready to|planning|focusing|considering|determined|decided|prompting|aiming|crafting|formulating|analy[sz]ing|processing|thinking about|working on)\b/i,
+    weight: 1,
+  },
+  { pattern: /\bmy (plan|goal|focus|approach|intention|response|next step|strategy)\b/i, weight: 1 },
+  { pattern: /\bI (need|should|must|want) to (respond|reply|acknowledge|greet|address|explain to|make sure)\b/i, weight: 1 },
+  { pattern: /\b(internal|system) (note|instruction|prompt)s?\b/i, weight: 1 },
+];
+
+/**
+ * Score a single paragraph; higher means more likely to be model reasoning
+ */
+export function scoreThought(paragraph: string): number {
+  return THOUGHT_SIGNALS.reduce(
+    (score, signal) => (signal.pattern.test(paragraph) ? score + signal.weight : score),
+    0
+  );
+}
+
+/**
+ * Whether a paragraph reads like leaked model reasoning
+ */
+export function isThoughtParagraph(paragraph: string): boolean {
+  if (!paragraph.trim()) return false;
+  return scoreThought(paragraph) >= THOUGHT_THRESHOLD;
+}
+
+/**
+ * Split text into whiteboard blocks (kept whole) and the prose around them.
+ * An unterminated block runs to the end so a streaming whiteboard isn't split.
+ */
+const splitAroundWhiteboards = (text: string): Array<{ text: string; isWhiteboard: boolean }> => {
+  const segments: Array<{ text: string; isWhiteboard: boolean }> = [];
+  let rest = text;
+
+  while (rest) {
+    const start = rest.indexOf(WHITEBOARD_START);
+    if (start === -1) {
+      segments.push({ text: rest, isWhiteboard: false });
+      break;
+    }
+    if (start > 0) segments.push({ text: rest.slice(0, start), isWhiteboard: false });
+
+    const end = rest.indexOf(WHITEBOARD_END, start);
+    const blockEnd = end === -1 ? rest.length : end + WHITEBOARD_END.length;
+    segments.push({ text: rest.slice(start, blockEnd), isWhiteboard: true });
+    rest = rest.slice(blockEnd);
+  }
+
+  return segments;
+};
+
+/**
+ * Separate an assistant text stream into student-facing text and thoughts.
+ * Safe to call on partial text: callers re-run it as chunks arrive.
+ */
+export function classifyAssistantText(text: string): ClassifiedAssistantText {
+  if (!text) return { spoken: "", thoughts: "" };
+
+  const spoken: string[] = [];
+  const thoughts: string[] = [];
+
+  for (const segment of splitAroundWhiteboards(text)) {
+    if (segment.isWhiteboard) {
+      spoken.push(segment.text);
+      continue;
+    }
+    for (const paragraph of segment.text.split(/\n\s*\n/)) {
+      const trimmed = paragraph.trim();
+      if (!trimmed) continue;
+      (isThoughtParagraph(trimmed) ? thoughts : spoken).push(trimmed);
+    }
+  }
+
+  return {
+    spoken: spoken.join("\n\n"),
+    thoughts: thoughts.join("\n\n"),
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Transcript Export
+ *
+ * Turns lesson messages into files: Markdown to read, WebVTT captions to play
+ * alongside the lesson recording, and JSON for anything else. Times are
+ * offsets from `startedAt`, the same origin as the recording.
+ */
+
+import type { Message } from "./chatMessage";
+
+export interface TranscriptMeta {
+  teacherName: string;
+  studentName: string;
+  /** Lesson topic, if there was a plan */
+  title?: string;
+  /** Start of the lesson; defaults to the first message */
+  startedAt?: Date;
+}
+
+// Roughly how long a caption stays up when nothing follows it
+const WORDS_PER_SECOND = 2.5;
+const MIN_CUE_MS = 1500;
+
+const speaker = (message: Message, meta: TranscriptMeta) =>
+  message.role === "assistant" ? meta.teacherName : meta.studentName;
+
+const lessonStart = (messages: Message[], meta: TranscriptMeta) =>
+  (meta.startedAt ?? messages[0]?.timestamp ?? new Date()).getTime();
+
+const spokenMessages = (messages: Message[]) => messages.filter((m) => m.content.trim() && m.content !== "...");
+
+export const transcriptToMarkdown = (messages: Message[], meta: TranscriptMeta): string => {
+  const start = new Date(lessonStart(messages, meta));
+  const lines = [
+    `# ${meta.title ?? `Lesson with ${meta.teacherName}`}`,
+    "",
+    `${meta.studentName} with ${meta.teacherName}, ${start.toLocaleString([], { dateStyle: "long", timeStyle: "short" })}`,
+    "",
+  ];
+  for (const message of spokenMessages(messages)) {
+    const time = message.timestamp.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+    lines.push(`**${speaker(message, meta)}** (${time}): ${message.content.trim()}`, "");
+  }
+  return lines.join("\n");
+};
+
+const formatVttTime = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor((total % 3_600_000) / 60_000);
+  const seconds = Math.floor((total % 60_000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(millis, 3)}`;
+};
+
+// Cue text can't contain "-->" or blank lines
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/-->/g, "->").replace(/\n\s*\n/g, "\n").trim();
+
+export const transcriptToWebVTT = (messages: Message[], meta: TranscriptMeta): string => {
+  const start = lessonStart(messages, meta);
+  const spoken = spokenMessages(messages);
+  const cues = spoken.map((message, i) => {
+    const from = message.timestamp.getTime() - start;
+    const words = message.content.trim().split(/\s+/).length;
+    const natural = from + Math.max(MIN_CUE_MS, (words / WORDS_PER_SECOND) * 1000);
+    const next = spoken[i + 1] ? spoken[i + 1].timestamp.getTime() - start : Infinity;
+    const to = Math.max(from + 1, Math.min(natural, next));
+    return `${i + 1}\n${formatVttTime(from)} --> ${formatVttTime(to)}\n<v ${speaker(message, meta)}>${escapeVtt(message.content)}`;
+  });
+  return ["WEBVTT", "", ...cues.flatMap((cue) => [cue, ""])].join("\n");
+};
+
+export const transcriptToJSON = (messages: Message[], meta: TranscriptMeta): string => {
+  const start = lessonStart(messages, meta);
+  return JSON.stringify(
+    {
+      title: meta.title ?? null,
+      teacher: meta.teacherName,
+      student: meta.studentName,
+      startedAt: new Date(start).toISOString(),
+      messages: spokenMessages(messages).map((message) => ({
+        role: message.role,
+        speaker: speaker(message, meta),
+        text: message.content.trim(),
+        timestamp: message.timestamp.toISOString(),
+        offsetSeconds: Math.max(0, (message.timestamp.getTime() - start) / 1000),
+      })),
+    },
+    null,
+    2
+  );
+};
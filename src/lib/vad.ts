@@ -0,0 +1,220 @@
+/**
+ * Voice Activity Detection
+ *
+ * A small energy-based detector run on the PCM16 frames from the capture
+ * worklet. It decides when the student is talking, so only speech is sent
+ * to Gemini (bracketed by activityStart/activityEnd), and a barge-in can
+ * silence the teacher without waiting a round trip for `interrupted`.
+ */
+
+export type VadEvent = "speechStart" | "speechEnd";
+
+export interface VoiceActivityDetectorOptions {
+  sampleRate?: number;
+  /** How far above the noise floor a frame must be to count as speech */
+  marginDb?: number;
+  /** Frames quieter than this never count as speech, however quiet the room */
+  minLevelDb?: number;
+  /** Continuous speech needed before `speechStart`, to ignore clicks and coughs */
+  minSpeechMs?: number;
+  /** Silence needed before `speechEnd`, so pauses between words don't end speech */
+  hangoverMs?: number;
+}
+
+const SILENCE_DB = -100;
+
+/** RMS level of a PCM16 frame in dBFS */
+export const frameLevelDb = (pcm16: Int16Array): number => {
+  if (pcm16.length === 0) return SILENCE_DB;
+  let sum = 0;
+  for (let i = 0; i < pcm16.length; i++) {
+    const s = pcm16[i] / 0x8000;
+    sum += s * s;
+  }
+  const rms = Math.sqrt(sum / pcm16.length);
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+};
+
+export class VoiceActivityDetector {
+  private readonly sampleRate: number;
+  private readonly marginDb: number;
+  private readonly minLevelDb: number;
+  private readonly minSpeechMs: number;
+  private readonly hangoverMs: number;
+  private noiseFloorDb = -60;
+  private speechMs = 0;
+  private silenceMs = 0;
+  private speaking = false;
+
+  constructor(options: VoiceActivityDetectorOptions = {}) {
+    this.sampleRate = options.sampleRate ?? 16000;
+    this.marginDb = options.marginDb ?? 15;
+    this.minLevelDb = options.minLevelDb ?? -45;
+    this.minSpeechMs = options.minSpeechMs ?? 160;
+    this.hangoverMs = options.hangoverMs ?? 600;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  get noiseFloor(): number {
+    return this.noiseFloorDb;
+  }
+
+  /**
+   * Feed one frame; returns an event when speech starts or ends
+   */
+  process(pcm16: Int16Array): VadEvent | null {
+    const frameMs = (pcm16.length / this.sampleRate) * 1000;
+    const level = frameLevelDb(pcm16);
+    const isSpeech = level >= Math.max(this.minLevelDb, this.noiseFloorDb + this.marginDb);
+
+    // Track the room: fall to quiet frames quickly, rise slowly so speech
+    // barely moves it but a fan or traffic stops counting as speech
+    const rate = level < this.noiseFloorDb ? 0.3 : isSpeech ? 0.005 : 0.05;
+    this.noiseFloorDb += (level - this.noiseFloorDb) * rate;
+
+    if (isSpeech) {
+      this.speechMs += frameMs;
+      this.silenceMs = 0;
+      if (!this.speaking && this.speechMs >= this.minSpeechMs) {
+        this.speaking = true;
+        return "speechStart";
+      }
+    } else {
+      this.silenceMs += frameMs;
+      if (!this.speaking) this.speechMs = 0;
+      if (this.speaking && this.silenceMs >= this.hangoverMs) {
+        this.speaking = false;
+        this.speechMs = 0;
+        return "speechEnd";
+      }
+    }
+    return null;
+  }
+
+  reset() {
+    this.speechMs = 0;
+    this.silenceMs = 0;
+    this.speaking = false;
+  }
+}
+
+/**
+ * How the microphone decides when the student is talking: the detector above
+ * ("voice-activity"), or a held button or key ("push-to-talk")
+ */
+export type MicMode = "voice-activity" | "push-to-talk";
+
+export interface SpeechGateHandlers {
+  onSpeechStart: () => void;
+  /** `capturedAt` is the wall-clock time (ms) the frame started */
+  onFrame: (pcm16: Int16Array, capturedAt: number) => void;
+  onSpeechEnd: () => void;
+}
+
+export interface SpeechGateOptions extends VoiceActivityDetectorOptions {
+  mode?: MicMode;
+  /** Audio kept from before speech was detected, so the first word isn't clipped */
+  preRollMs?: number;
+}
+
+/**
+ * Only lets microphone frames through while the student is talking, bracketed
+ * by start and end callbacks. Silence never leaves the browser, which matters
+ * in noisy classrooms and on slow connections.
+ */
+export class SpeechGate {
+  private readonly detector: VoiceActivityDetector;
+  private readonly sampleRate: number;
+  private readonly preRollMs: number;
+  private preRoll: Array<{ pcm16: Int16Array; capturedAt: number }> = [];
+  private preRollSamples = 0;
+  private open = false;
+  private mode: MicMode;
+
+  constructor(private handlers: SpeechGateHandlers, options: SpeechGateOptions = {}) {
+    this.detector = new VoiceActivityDetector(options);
+    this.sampleRate = options.sampleRate ?? 16000;
+    this.preRollMs = options.preRollMs ?? 400;
+    this.mode = options.mode ?? "voice-activity";
+  }
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  get currentMode(): MicMode {
+    return this.mode;
+  }
+
+  setMode(mode: MicMode) {
+    if (mode === this.mode) return;
+    this.close();
+    this.mode = mode;
+    this.detector.reset();
+  }
+
+  push(pcm16: Int16Array, capturedAt: number = Date.now()) {
+    const event = this.detector.process(pcm16);
+
+    if (this.mode === "push-to-talk") {
+      if (this.open) this.handlers.onFrame(pcm16, capturedAt);
+      return;
+    }
+
+    if (event === "speechStart") {
+      this.start();
+      // The detector needs a few frames to be sure; send those too
+      for (const frame of this.preRoll) this.handlers.onFrame(frame.pcm16, frame.capturedAt);
+      this.clearPreRoll();
+    }
+
+    if (this.open) {
+      this.handlers.onFrame(pcm16, capturedAt);
+      if (event === "speechEnd") this.close();
+      return;
+    }
+    this.remember(pcm16, capturedAt);
+  }
+
+  /** Start talking regardless of the detector, e.g. while a key is held */
+  press() {
+    if (this.mode !== "push-to-talk") return;
+    this.start();
+  }
+
+  release() {
+    if (this.mode !== "push-to-talk") return;
+    this.close();
+  }
+
+  /** End any speech in progress */
+  close() {
+    this.clearPreRoll();
+    if (!this.open) return;
+    this.open = false;
+    this.handlers.onSpeechEnd();
+  }
+
+  private start() {
+    if (this.open) return;
+    this.open = true;
+    this.handlers.onSpeechStart();
+  }
+
+  private remember(pcm16: Int16Array, capturedAt: number) {
+    this.preRoll.push({ pcm16, capturedAt });
+    this.preRollSamples += pcm16.length;
+    const limit = (this.preRollMs / 1000) * this.sampleRate;
+    while (this.preRoll.length > 1 && this.preRollSamples - this.preRoll[0].pcm16.length >= limit) {
+      this.preRollSamples -= this.preRoll.shift()!.pcm16.length;
+    }
+  }
+
+  private clearPreRoll() {
+    this.preRoll = [];
+    this.preRollSamples = 0;
+  }
+}
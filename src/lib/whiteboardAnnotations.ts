@@ -0,0 +1,375 @@
+/**
+ * Whiteboard Annotations
+ *
+ * What the student draws over a whiteboard: pen strokes, eraser strokes,
+ * shapes and text. Drawings are kept per board, so they are there again when
+ * the board is reopened, and can be flattened to a PNG to send to the
+ * teacher. Like lesson persistence, failures are logged and never interrupt
+ * the lesson.
+ */
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { whiteboardToPng, type ExportableWhiteboard, type WhiteboardExportMeta } from "./whiteboardExport";
+
+export type AnnotationShape = "line" | "arrow" | "rectangle" | "ellipse";
+export type AnnotationTool = "pen" | "eraser" | AnnotationShape | "text";
+
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type Annotation =
+  | { kind: "stroke"; points: AnnotationPoint[]; color: string; width: number }
+  | { kind: "erase"; points: AnnotationPoint[]; width: number }
+  | { kind: "shape"; shape: AnnotationShape; from: AnnotationPoint; to: AnnotationPoint; color: string; width: number }
+  | { kind: "text"; at: AnnotationPoint; text: string; color: string; size: number };
+
+export interface AnnotationLayer {
+  version: 1;
+  /** Width of the board when the drawing was started; the drawing scales with the board */
+  width: number;
+  annotations: Annotation[];
+}
+
+const SHAPES: AnnotationShape[] = ["line", "arrow", "rectangle", "ellipse"];
+
+/** Ink colours offered to the student; all read on light and dark boards */
+export const ANNOTATION_COLORS = ["#ef4444", "#3b82f6", "#22c55e", "#f59e0b"];
+/** Pen widths; the eraser and text grow with them */
+export const ANNOTATION_SIZES = [2, 4, 8];
+
+export const eraserWidth = (size: number) => size * 5;
+export const textSize = (size: number) => 14 + size * 2;
+
+export const emptyAnnotationLayer = (width: number): AnnotationLayer => ({ version: 1, width, annotations: [] });
+
+/**
+ * Key a board by its content, so the same board finds its drawing again
+ * wherever it is reopened from. FNV-1a, with the length to make collisions
+ * between boards even less likely.
+ */
+export const whiteboardBoardKey = (content: string): string => {
+  const text = content.trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, "0")}-${text.length}`;
+};
+
+/**
+ * Key for a new blank sketch. Blank boards all have the same (empty) content,
+ * so each sketch gets its own key rather than sharing one drawing.
+ */
+export const newSketchKey = (): string => `sketch-${crypto.randomUUID()}`;
+
+// ---------------------------------------------------------------------------
+// Reading stored layers
+// ---------------------------------------------------------------------------
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+const toPoint = (value: unknown): AnnotationPoint | null =>
+  isRecord(value) && isNumber(value.x) && isNumber(value.y) ? { x: value.x, y: value.y } : null;
+
+const toPoints = (value: unknown): AnnotationPoint[] | null => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const points = value.map(toPoint).filter((p): p is AnnotationPoint => p !== null);
+  return points.length === value.length ? points : null;
+};
+
+const toAnnotation = (value: unknown): Annotation | null => {
+  if (!isRecord(value)) return null;
+  const color = typeof value.color === "string" ? value.color : null;
+
+  switch (value.kind) {
+    case "stroke": {
+      const points = toPoints(value.points);
+      return points && color && isNumber(value.width) ? { kind: "stroke", points, color, width: value.width } : null;
+    }
+    case "erase": {
+      const points = toPoints(value.points);
+      return points && isNumber(value.width) ? { kind: "erase", points, width: value.width } : null;
+    }
+    case "shape": {
+      const from = toPoint(value.from);
+      const to = toPoint(value.to);
+      const shape = SHAPES.find((s) => s === value.shape);
+      return shape && from && to && color && isNumber(value.width)
+        ? { kind: "shape", shape, from, to, color, width: value.width }
+        : null;
+    }
+    case "text": {
+      const at = toPoint(value.at);
+      return at && color && typeof value.text === "string" && value.text && isNumber(value.size)
+        ? { kind: "text", at, text: value.text, color, size: value.size }
+        : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Read a stored layer, dropping any annotation that no longer makes sense
+ * rather than losing the whole drawing. Null if it isn't a layer at all.
+ */
+export const parseAnnotationLayer = (value: unknown): AnnotationLayer | null => {
+  if (!isRecord(value) || value.version !== 1 || !isNumber(value.width) || value.width <= 0 || !Array.isArray(value.annotations)) {
+    return null;
+  }
+  const annotations = value.annotations.map(toAnnotation).filter((a): a is Annotation => a !== null);
+  return { version: 1, width: value.width, annotations };
+};
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+const ARROW_HEAD = 12;
+
+const tracePath = (context: CanvasRenderingContext2D, points: AnnotationPoint[]) => {
+  context.beginPath();
+  context.moveTo(points[0].x, points[0].y);
+  // A single tap still leaves a dot
+  if (points.length === 1) context.lineTo(points[0].x + 0.01, points[0].y);
+  for (const point of points.slice(1)) context.lineTo(point.x, point.y);
+  context.stroke();
+};
+
+const drawShape = (context: CanvasRenderingContext2D, shape: AnnotationShape, from: AnnotationPoint, to: AnnotationPoint) => {
+  context.beginPath();
+  switch (shape) {
+    case "rectangle":
+      context.rect(Math.min(from.x, to.x), Math.min(from.y, to.y), Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+      break;
+    case "ellipse":
+      context.ellipse(
+        (from.x + to.x) / 2,
+        (from.y + to.y) / 2,
+        Math.abs(to.x - from.x) / 2,
+        Math.abs(to.y - from.y) / 2,
+        0,
+        0,
+        Math.PI * 2
+      );
+      break;
+    case "arrow": {
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      context.moveTo(from.x, from.y);
+      context.lineTo(to.x, to.y);
+      context.moveTo(to.x - ARROW_HEAD * Math.cos(angle - Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle - Math.PI / 6));
+      context.lineTo(to.x, to.y);
+      context.lineTo(to.x - ARROW_HEAD * Math.cos(angle + Math.PI / 6), to.y - ARROW_HEAD * Math.sin(angle + Math.PI / 6));
+      break;
+    }
+    case "line":
+    default:
+      context.moveTo(from.x, from.y);
+      context.lineTo(to.x, to.y);
+  }
+  context.stroke();
+};
+
+/**
+ * Draw annotations in layer coordinates; the caller scales the context to
+ * the board. Eraser strokes cut through what was drawn before them, so draw
+ * onto a transparent canvas above the board.
+ */
+export const drawAnnotations = (context: CanvasRenderingContext2D, annotations: Annotation[]) => {
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.textBaseline = "top";
+
+  for (const annotation of annotations) {
+    context.save();
+    switch (annotation.kind) {
+      case "stroke":
+        context.strokeStyle = annotation.color;
+        context.lineWidth = annotation.width;
+        tracePath(context, annotation.points);
+        break;
+      case "erase":
+        context.globalCompositeOperation = "destination-out";
+        context.strokeStyle = "#000";
+        context.lineWidth = annotation.width;
+        tracePath(context, annotation.points);
+        break;
+      case "shape":
+        context.strokeStyle = annotation.color;
+        context.lineWidth = annotation.width;
+        drawShape(context, annotation.shape, annotation.from, annotation.to);
+        break;
+      case "text":
+        context.fillStyle = annotation.color;
+        context.font = `${annotation.size}px sans-serif`;
+        annotation.text.split("\n").forEach((line, i) => {
+          context.fillText(line, annotation.at.x, annotation.at.y + i * annotation.size * 1.2);
+        });
+        break;
+    }
+    context.restore();
+  }
+};
+
+/**
+ * The lowest point anything was drawn at, in layer coordinates, so a
+ * snapshot can stop where the drawing does. Text is measured roughly.
+ */
+export const annotationsBottom = (annotations: Annotation[]): number =>
+  annotations.reduce((bottom, annotation) => {
+    switch (annotation.kind) {
+      case "stroke":
+      case "erase":
+        return Math.max(bottom, ...annotation.points.map((p) => p.y + annotation.width / 2));
+      case "shape":
+        return Math.max(bottom, Math.max(annotation.from.y, annotation.to.y) + annotation.width / 2);
+      case "text":
+        return Math.max(bottom, annotation.at.y + annotation.text.split("\n").length * annotation.size * 1.2);
+      default:
+        return bottom;
+    }
+  }, 0);
+
+// Breathing room around the drawing in a snapshot
+const SNAPSHOT_MARGIN = 24;
+
+/** Whether the drawing has anything on it besides rubbing out */
+export const hasInk = (layer: AnnotationLayer): boolean => layer.annotations.some((a) => a.kind !== "erase");
+
+/**
+ * Flatten the drawing to a base64 PNG (no data URL prefix), as wide as it was
+ * drawn and as tall as it goes: over the board image when there is one,
+ * otherwise onto white. Null if there is nothing to send or the browser
+ * can't draw it.
+ */
+export const annotationsToPng = (
+  layer: AnnotationLayer,
+  { scale = 2, background = null }: { scale?: number; background?: HTMLImageElement | null } = {}
+): string | null => {
+  if (!hasInk(layer)) return null;
+
+  const width = Math.ceil(layer.width);
+  const inkHeight = Math.ceil(annotationsBottom(layer.annotations) + SNAPSHOT_MARGIN);
+  // The board image is drawn at the drawing's width, so scale its height to match
+  const boardHeight = background && background.width > 0 ? Math.ceil((background.height * width) / background.width) : 0;
+  const height = Math.max(inkHeight, boardHeight);
+  try {
+    const ink = document.createElement("canvas");
+    ink.width = width * scale;
+    ink.height = height * scale;
+    const inkContext = ink.getContext("2d");
+    const page = document.createElement("canvas");
+    page.width = ink.width;
+    page.height = ink.height;
+    const pageContext = page.getContext("2d");
+    if (!inkContext || !pageContext) return null;
+
+    inkContext.scale(scale, scale);
+    drawAnnotations(inkContext, layer.annotations);
+    // Erasing on the page itself would cut holes in the board
+    pageContext.fillStyle = "#fff";
+    pageContext.fillRect(0, 0, page.width, page.height);
+    if (background) pageContext.drawImage(background, 0, 0, page.width, boardHeight * scale);
+    pageContext.drawImage(ink, 0, 0);
+    return page.toDataURL("image/png").split(",")[1] || null;
+  } catch (error) {
+    console.warn("Whiteboard annotations: snapshot failed", error);
+    return null;
+  }
+};
+
+const blobToImage = (blob: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Couldn't load the whiteboard snapshot"));
+    };
+    image.src = url;
+  });
+
+/**
+ * The drawing over the board it was drawn on, as a base64 PNG. Without a
+ * board (a blank whiteboard) the ink goes on white. Null if there is nothing
+ * to send or the board can't be drawn.
+ */
+export const annotatedBoardToPng = async (
+  layer: AnnotationLayer,
+  board: ExportableWhiteboard | null,
+  meta: WhiteboardExportMeta = { teacherName: "" }
+): Promise<string | null> => {
+  if (!hasInk(layer)) return null;
+  if (!board) return annotationsToPng(layer);
+
+  const snapshot = await whiteboardToPng(board, meta, { width: Math.ceil(layer.width) });
+  if (!snapshot) return null;
+  try {
+    return annotationsToPng(layer, { background: await blobToImage(snapshot) });
+  } catch (error) {
+    console.warn("Whiteboard annotations: snapshot failed", error);
+    return null;
+  }
+};
+
+/** What the student sends with their drawing */
+export const checkMyWorkingPrompt = (boardTitle: string | null): string =>
+  boardTitle
+    ? `Please check my working. This picture is the "${boardTitle}" whiteboard with my working drawn over it. ` +
+      "Tell me what I got right, and explain anything I got wrong."
+    : "Please check my working. This picture is what I worked out on a blank whiteboard. " +
+      "Tell me what I got right, and explain anything I got wrong.";
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/**
+ * The drawing saved for a board, or null if there isn't one
+ */
+export const loadWhiteboardAnnotations = async (boardKey: string): Promise<AnnotationLayer | null> => {
+  const { data, error } = await supabase
+    .from("whiteboard_annotations")
+    .select("layer")
+    .eq("board_key", boardKey)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Whiteboard annotations: failed to load drawing", error);
+    return null;
+  }
+  return data ? parseAnnotationLayer(data.layer) : null;
+};
+
+/**
+ * Save the drawing for a board, replacing what was there
+ */
+export const saveWhiteboardAnnotations = async (
+  boardKey: string,
+  boardTitle: string,
+  layer: AnnotationLayer
+): Promise<boolean> => {
+  const { error } = await supabase
+    .from("whiteboard_annotations")
+    .upsert(
+      { board_key: boardKey, board_title: boardTitle, layer: layer as unknown as Json },
+      { onConflict: "user_id,board_key" }
+    );
+
+  if (error) {
+    console.warn("Whiteboard annotations: failed to save drawing", error);
+    return false;
+  }
+  return true;
+};
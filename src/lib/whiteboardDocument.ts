@@ -0,0 +1,489 @@
+/**
+ * Whiteboard Documents
+ *
+ * A versioned JSON model of a whiteboard: title, problem, numbered steps
+ * with their maths, tables, diagrams, an answer, and note boxes. Boards can
+ * arrive as JSON between the whiteboard markers or as the older Markdown,
+ * which is read with `parseWhiteboardContent` and converted. Either way the
+ * board is validated here, and every problem is reported with the path to
+ * the offending field so the teacher can be asked for exactly that fix.
+ */
+
+import { parseWhiteboardContent, type ParsedWhiteboard } from "./whiteboardParser";
+import { MathParseError, collectVariables, evaluateMath, parseMathExpression } from "./mathExpression";
+
+export const WHITEBOARD_SCHEMA_VERSION = 1;
+
+/** Graph of y = expression in x, drawn by the whiteboard */
+export interface WhiteboardPlot {
+  expression: string;
+  xMin: number;
+  xMax: number;
+}
+
+export type WhiteboardBlock =
+  /** Prose with inline $...$ maths */
+  | { type: "text"; text: string }
+  /** Display maths as raw LaTeX, without $ delimiters */
+  | { type: "math"; latex: string }
+  | { type: "table"; caption?: string; header: string[]; rows: string[][] }
+  /** `alt` describes the diagram for screen readers and when there's no plot */
+  | { type: "diagram"; alt: string; caption?: string; plot?: WhiteboardPlot };
+
+export interface WhiteboardStep {
+  explanation: string;
+  blocks?: WhiteboardBlock[];
+}
+
+export const WHITEBOARD_NOTE_KINDS = ["overview", "keypoints", "tips", "summary"] as const;
+export type WhiteboardNoteKind = (typeof WHITEBOARD_NOTE_KINDS)[number];
+
+export interface WhiteboardNote {
+  kind: WhiteboardNoteKind;
+  blocks: WhiteboardBlock[];
+}
+
+export interface WhiteboardDocument {
+  version: typeof WHITEBOARD_SCHEMA_VERSION;
+  /** Plain text; formulas belong in the problem */
+  title: string;
+  problem?: WhiteboardBlock[];
+  /** Numbered in order from 1 */
+  steps: WhiteboardStep[];
+  answer?: WhiteboardBlock[];
+  notes?: WhiteboardNote[];
+}
+
+export interface WhiteboardValidationError {
+  /** Where the problem is, e.g. "steps[1].blocks[0].latex"; empty for the whole board */
+  path: string;
+  message: string;
+}
+
+/** The document when valid, otherwise null with every problem found */
+export interface WhiteboardValidationResult {
+  document: WhiteboardDocument | null;
+  errors: WhiteboardValidationError[];
+}
+
+// $1-style tokens the model sometimes leaves where a formula should be
+const PLACEHOLDER = /(^|[\s:(])\$([1-9])(?![0-9.])(?=[\s.,;:!?)]|$)/g;
+// Paired $$...$$ and $...$ spans, as parseInlineLatex reads them
+const MATH_SPANS = /\$\$[\s\S]*?\$\$|\$[^$\n]+?\$/g;
+const TITLE_MATH = /\$|\\\(|\\\[/;
+const TITLE_MATH_MESSAGE = "must be plain text; put formulas in the problem";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const kindOf = (value: unknown) => (Array.isArray(value) ? "an array" : value === null ? "null" : `a ${typeof value}`);
+
+class Validator {
+  readonly errors: WhiteboardValidationError[] = [];
+
+  fail(path: string, message: string) {
+    this.errors.push({ path, message });
+  }
+
+  /** A non-empty string, or null after recording why not */
+  string(value: unknown, path: string): string | null {
+    if (typeof value !== "string") {
+      this.fail(path, `must be a string, not ${kindOf(value)}`);
+      return null;
+    }
+    if (!value.trim()) {
+      this.fail(path, "must not be empty");
+      return null;
+    }
+    return value;
+  }
+
+  /** Prose that may hold inline maths */
+  text(value: unknown, path: string, { allowEmpty = false } = {}): string | null {
+    if (allowEmpty && value === "") return value;
+    const text = this.string(value, path);
+    if (text === null) return null;
+
+    const placeholders = [...text.matchAll(PLACEHOLDER)].map((m) => `$${m[2]}`);
+    if (placeholders.length > 0) {
+      this.fail(path, `contains the placeholder ${[...new Set(placeholders)].join(", ")} instead of real maths`);
+    } else if (text.replace(/\\\$/g, "").replace(MATH_SPANS, "").includes("$")) {
+      this.fail(path, "has a $ with no matching $ to close the maths");
+    }
+    return text;
+  }
+
+  latex(value: unknown, path: string): string | null {
+    const latex = this.string(value, path);
+    if (latex === null) return null;
+
+    if (latex.includes("$")) {
+      this.fail(path, "must be raw LaTeX without $ delimiters");
+    }
+    let depth = 0;
+    for (const brace of latex.replace(/\\[{}]/g, "").replace(/[^{}]/g, "")) {
+      depth += brace === "{" ? 1 : -1;
+      if (depth < 0) break;
+    }
+    if (depth !== 0) {
+      this.fail(path, depth < 0 ? "has a } with no matching {" : "has a { that is never closed");
+    }
+    return latex;
+  }
+
+  array(value: unknown, path: string): unknown[] | null {
+    if (!Array.isArray(value)) {
+      this.fail(path, `must be an array, not ${kindOf(value)}`);
+      return null;
+    }
+    return value;
+  }
+
+  blocks(value: unknown, path: string): WhiteboardBlock[] {
+    const items = this.array(value, path);
+    if (!items) return [];
+    return items.flatMap((item, i) => {
+      const block = this.block(item, `${path}[${i}]`);
+      return block ? [block] : [];
+    });
+  }
+
+  block(value: unknown, path: string): WhiteboardBlock | null {
+    if (!isRecord(value)) {
+      this.fail(path, `must be an object, not ${kindOf(value)}`);
+      return null;
+    }
+    const before = this.errors.length;
+    switch (value.type) {
+      case "text": {
+        const text = this.text(value.text, `${path}.text`);
+        return text === null ? null : { type: "text", text };
+      }
+      case "math": {
+        const latex = this.latex(value.latex, `${path}.latex`);
+        return latex === null ? null : { type: "math", latex };
+      }
+      case "table":
+        return this.table(value, path);
+      case "diagram": {
+        const alt = this.string(value.alt, `${path}.alt`);
+        const caption = value.caption === undefined ? undefined : this.text(value.caption, `${path}.caption`);
+        const plot = value.plot === undefined ? undefined : this.plot(value.plot, `${path}.plot`);
+        if (alt === null || this.errors.length > before) return null;
+        return { type: "diagram", alt, ...(caption ? { caption } : {}), ...(plot ? { plot } : {}) };
+      }
+      default:
+        this.fail(`${path}.type`, `must be one of text, math, table, diagram, not ${JSON.stringify(value.type)}`);
+        return null;
+    }
+  }
+
+  table(value: Record<string, unknown>, path: string): WhiteboardBlock | null {
+    const before = this.errors.length;
+    const caption = value.caption === undefined ? undefined : this.text(value.caption, `${path}.caption`);
+    const header = (this.array(value.header, `${path}.header`) ?? []).map(
+      (cell, i) => this.text(cell, `${path}.header[${i}]`) ?? ""
+    );
+    if (Array.isArray(value.header) && header.length === 0) this.fail(`${path}.header`, "must have at least one column");
+
+    const rows = (this.array(value.rows, `${path}.rows`) ?? []).map((row, r) => {
+      const cells = this.array(row, `${path}.rows[${r}]`) ?? [];
+      if (Array.isArray(row) && header.length > 0 && cells.length !== header.length) {
+        this.fail(`${path}.rows[${r}]`, `has ${cells.length} cells but the header has ${header.length}`);
+      }
+      return cells.map((cell, c) => this.text(cell, `${path}.rows[${r}][${c}]`, { allowEmpty: true }) ?? "");
+    });
+
+    if (this.errors.length > before) return null;
+    return { type: "table", header, rows, ...(caption ? { caption } : {}) };
+  }
+
+  plot(value: unknown, path: string): WhiteboardPlot | null {
+    if (!isRecord(value)) {
+      this.fail(path, `must be an object, not ${kindOf(value)}`);
+      return null;
+    }
+    const before = this.errors.length;
+    const expression = this.string(value.expression, `${path}.expression`);
+    if (expression !== null) {
+      try {
+        const extra = [...collectVariables(parseMathExpression(expression))].filter((name) => name !== "x");
+        if (extra.length > 0) this.fail(`${path}.expression`, `may only use x, not ${extra.join(", ")}`);
+      } catch (error) {
+        if (!(error instanceof MathParseError)) throw error;
+        this.fail(`${path}.expression`, `can't be read: ${error.message}`);
+      }
+    }
+    const { xMin, xMax } = value;
+    if (typeof xMin !== "number" || !Number.isFinite(xMin)) this.fail(`${path}.xMin`, "must be a finite number");
+    if (typeof xMax !== "number" || !Number.isFinite(xMax)) this.fail(`${path}.xMax`, "must be a finite number");
+    else if (typeof xMin === "number" && xMax <= xMin) this.fail(`${path}.xMax`, "must be greater than xMin");
+
+    if (this.errors.length > before || expression === null) return null;
+    return { expression, xMin: xMin as number, xMax: xMax as number };
+  }
+}
+
+/**
+ * Check that a value is a whiteboard document this version can show.
+ * Unknown extra fields are ignored.
+ */
+export const validateWhiteboardDocument = (value: unknown): WhiteboardValidationResult => {
+  const v = new Validator();
+  if (!isRecord(value)) {
+    v.fail("", `board must be an object, not ${kindOf(value)}`);
+    return { document: null, errors: v.errors };
+  }
+
+  if (value.version !== WHITEBOARD_SCHEMA_VERSION) {
+    v.fail("version", `must be ${WHITEBOARD_SCHEMA_VERSION}, not ${JSON.stringify(value.version ?? null)}`);
+  }
+
+  const title = v.text(value.title, "title");
+  if (title !== null && TITLE_MATH.test(title)) {
+    v.fail("title", TITLE_MATH_MESSAGE);
+  }
+
+  const problem = value.problem === undefined ? undefined : v.blocks(value.problem, "problem");
+  const steps = (v.array(value.steps, "steps") ?? []).flatMap((raw, i): WhiteboardStep[] => {
+    const path = `steps[${i}]`;
+    if (!isRecord(raw)) {
+      v.fail(path, `must be an object, not ${kindOf(raw)}`);
+      return [];
+    }
+    const blocks = raw.blocks === undefined ? undefined : v.blocks(raw.blocks, `${path}.blocks`);
+    // A step may be nothing but its maths
+    const explanation = v.text(raw.explanation, `${path}.explanation`, { allowEmpty: Array.isArray(raw.blocks) && raw.blocks.length > 0 });
+    return explanation === null ? [] : [{ explanation, ...(blocks ? { blocks } : {}) }];
+  });
+  const answer = value.answer === undefined ? undefined : v.blocks(value.answer, "answer");
+  const notes = value.notes === undefined
+    ? undefined
+    : (v.array(value.notes, "notes") ?? []).flatMap((raw, i): WhiteboardNote[] => {
+        const path = `notes[${i}]`;
+        if (!isRecord(raw)) {
+          v.fail(path, `must be an object, not ${kindOf(raw)}`);
+          return [];
+        }
+        if (!(WHITEBOARD_NOTE_KINDS as readonly unknown[]).includes(raw.kind)) {
+          v.fail(`${path}.kind`, `must be one of ${WHITEBOARD_NOTE_KINDS.join(", ")}, not ${JSON.stringify(raw.kind)}`);
+        }
+        const blocks = v.blocks(raw.blocks, `${path}.blocks`);
+        return [{ kind: raw.kind as WhiteboardNoteKind, blocks }];
+      });
+
+  if (v.errors.length === 0 && !problem?.length && steps.length === 0 && !answer?.length && !notes?.length) {
+    v.fail("", "board is empty; give it a problem, steps, an answer or notes");
+  }
+
+  if (v.errors.length > 0 || title === null) return { document: null, errors: v.errors };
+  return {
+    errors: [],
+    document: {
+      version: WHITEBOARD_SCHEMA_VERSION,
+      title,
+      ...(problem ? { problem } : {}),
+      steps,
+      ...(answer ? { answer } : {}),
+      ...(notes ? { notes } : {}),
+    },
+  };
+};
+
+/** One line per error, for toasts and repair requests */
+export const formatWhiteboardErrors = (errors: WhiteboardValidationError[]): string =>
+  errors.map((e) => `- ${e.path || "board"}: ${e.message}`).join("\n");
+
+/** Blocks in the Markdown whiteboard format, e.g. to quote part of a JSON board back to the teacher */
+export const whiteboardBlocksToMarkdown = (blocks: WhiteboardBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case "text":
+          return block.text;
+        case "math":
+          return `$$${block.latex}$$`;
+        case "table":
+          return [
+            `| ${block.header.join(" | ")} |`,
+            `|${block.header.map(() => " --- |").join("")}`,
+            ...block.rows.map((row) => `| ${row.join(" | ")} |`),
+            ...(block.caption ? [block.caption] : []),
+          ].join("\n");
+        case "diagram":
+          return [`[Diagram: ${block.alt}]`, block.plot && `y = ${block.plot.expression} for ${block.plot.xMin} ≤ x ≤ ${block.plot.xMax}`, block.caption]
+            .filter(Boolean)
+            .join("\n");
+      }
+    })
+    .join("\n\n");
+
+const TABLE_ROW = /^\|(.*)\|$/;
+const TABLE_SEPARATOR = /^\|(\s*:?-{3,}:?\s*\|)+$/;
+
+const splitRow = (line: string) => (line.match(TABLE_ROW)?.[1] ?? "").split("|").map((cell) => cell.trim());
+
+// Prose from the Markdown parser, with any pipe tables pulled out into table blocks
+const textToBlocks = (content: string): WhiteboardBlock[] => {
+  const blocks: WhiteboardBlock[] = [];
+  const prose: string[] = [];
+  const flushProse = () => {
+    const text = prose.splice(0).join("\n").trim();
+    if (text) blocks.push({ type: "text", text });
+  };
+
+  const lines = content.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (TABLE_ROW.test(line) && TABLE_SEPARATOR.test(lines[i + 1]?.trim() ?? "")) {
+      flushProse();
+      const header = splitRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i].trim())) {
+        rows.push(splitRow(lines[i].trim()));
+        i++;
+      }
+      i--;
+      blocks.push({ type: "table", header, rows });
+    } else {
+      prose.push(lines[i]);
+    }
+  }
+  flushProse();
+  return blocks;
+};
+
+/**
+ * Convert the Markdown parser's sections to a document. Maths and loose text
+ * join the section before them: the problem until the first step, then that
+ * step, answer or note. The result is not validated.
+ */
+export const whiteboardDocumentFromParsed = (parsed: ParsedWhiteboard): WhiteboardDocument => {
+  const document: WhiteboardDocument = { version: WHITEBOARD_SCHEMA_VERSION, title: parsed.title, steps: [] };
+  let current: WhiteboardBlock[] | null = null;
+  const intoProblem = () => (document.problem ??= []);
+
+  for (const section of parsed.sections) {
+    switch (section.type) {
+      case "title":
+        break;
+      case "problem":
+        current = intoProblem();
+        current.push(...textToBlocks(section.content));
+        break;
+      case "step": {
+        // A table under the step line belongs to the step, not its explanation
+        const [first, ...rest] = textToBlocks(section.content);
+        const step: WhiteboardStep = first?.type === "text"
+          ? { explanation: first.text, blocks: rest }
+          : { explanation: "", blocks: first ? [first, ...rest] : [] };
+        document.steps.push(step);
+        current = step.blocks!;
+        break;
+      }
+      case "answer":
+        current = document.answer ??= [];
+        current.push(...textToBlocks(section.content));
+        break;
+      case "math":
+        (current ?? intoProblem()).push({ type: "math", latex: section.content });
+        break;
+      case "text":
+        (current ?? intoProblem()).push(...textToBlocks(section.content));
+        break;
+      default: {
+        const note: WhiteboardNote = { kind: section.type, blocks: textToBlocks(section.content) };
+        (document.notes ??= []).push(note);
+        current = note.blocks;
+      }
+    }
+  }
+  return document;
+};
+
+export type LoadedWhiteboard =
+  | { format: "json"; document: WhiteboardDocument | null; errors: WhiteboardValidationError[] }
+  | { format: "markdown"; parsed: ParsedWhiteboard; document: WhiteboardDocument; errors: WhiteboardValidationError[] };
+
+/**
+ * Read the content between whiteboard markers in either format and validate it.
+ * JSON boards that fail validation have no document; Markdown ones always
+ * render, so their errors are only used to ask for a repair.
+ */
+export const loadWhiteboard = (content: string): LoadedWhiteboard => {
+  const trimmed = content.trim();
+  if (trimmed.startsWith("{")) {
+    let value: unknown;
+    try {
+      value = JSON.parse(trimmed);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { format: "json", document: null, errors: [{ path: "", message: `board is not valid JSON: ${reason}` }] };
+    }
+    return { format: "json", ...validateWhiteboardDocument(value) };
+  }
+
+  const parsed = parseWhiteboardContent(content);
+  const document = whiteboardDocumentFromParsed(parsed);
+  // The Markdown renderer draws maths in headings, so only JSON titles must be plain
+  const errors = validateWhiteboardDocument(document).errors.filter((e) => e.message !== TITLE_MATH_MESSAGE);
+  return { format: "markdown", parsed, document, errors };
+};
+
+/**
+ * Points along a plot, split wherever the function is undefined or shoots
+ * off to infinity so the renderer doesn't join across asymptotes
+ */
+export const samplePlot = (plot: WhiteboardPlot, samples = 200): Array<Array<{ x: number; y: number }>> => {
+  let node;
+  try {
+    node = parseMathExpression(plot.expression);
+  } catch {
+    return [];
+  }
+  const segments: Array<Array<{ x: number; y: number }>> = [];
+  let segment: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i <= samples; i++) {
+    const x = plot.xMin + ((plot.xMax - plot.xMin) * i) / samples;
+    const y = evaluateMath(node, { x });
+    if (Number.isFinite(y) && Math.abs(y) < 1e6) {
+      segment.push({ x, y });
+    } else if (segment.length > 0) {
+      segments.push(segment);
+      segment = [];
+    }
+  }
+  if (segment.length > 0) segments.push(segment);
+  return segments;
+};
+
+/**
+ * A plot scaled into a width × height box (y pointing down, as in SVG):
+ * polyline point lists plus where the axes cross, if they fall inside.
+ * Null when there is nothing to draw.
+ */
+export const plotGeometry = (
+  plot: WhiteboardPlot,
+  width: number,
+  height: number
+): { lines: string[]; xAxisY: number | null; yAxisX: number | null } | null => {
+  const segments = samplePlot(plot);
+  const ys = segments.flat().map((p) => p.y);
+  if (ys.length === 0) return null;
+
+  let yMin = Math.min(...ys);
+  let yMax = Math.max(...ys);
+  if (yMax - yMin < 1e-9) {
+    yMin -= 1;
+    yMax += 1;
+  }
+  const sx = (x: number) => ((x - plot.xMin) / (plot.xMax - plot.xMin)) * width;
+  const sy = (y: number) => height - ((y - yMin) / (yMax - yMin)) * height;
+
+  return {
+    lines: segments.map((segment) => segment.map((p) => `${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(" ")),
+    xAxisY: yMin < 0 && yMax > 0 ? sy(0) : null,
+    yAxisX: plot.xMin < 0 && plot.xMax > 0 ? sx(0) : null,
+  };
+};
@@ -0,0 +1,369 @@
+/**
+ * Whiteboard Export
+ *
+ * Turns a whiteboard into files a student can keep: a printable page (saved
+ * as PDF from the browser's print dialog), a PNG snapshot, a standalone
+ * LaTeX document and Markdown. Maths in the page and the snapshot is KaTeX's
+ * MathML output, which browsers lay out themselves, so neither needs the
+ * app's stylesheets or fonts.
+ */
+
+import katex from "katex";
+import { parseInlineLatex, sanitizeLatex, type ParsedWhiteboard } from "./whiteboardParser";
+import { slug } from "./download";
+import {
+  plotGeometry,
+  whiteboardBlocksToMarkdown,
+  whiteboardDocumentFromParsed,
+  type WhiteboardBlock,
+  type WhiteboardDocument,
+  type WhiteboardNoteKind,
+  type WhiteboardPlot,
+} from "./whiteboardDocument";
+
+export interface WhiteboardExportMeta {
+  teacherName: string;
+  /** Lesson topic; the board's title is used when there was no plan */
+  topic?: string;
+  /** Defaults to today */
+  date?: Date;
+}
+
+/** Markdown boards export as parsed; JSON boards as their validated document */
+export type ExportableWhiteboard = ParsedWhiteboard | WhiteboardDocument;
+
+const NOTE_HEADINGS: Record<WhiteboardNoteKind, string> = {
+  overview: "Overview",
+  keypoints: "Key Points",
+  tips: "Tips & Strategy",
+  summary: "Summary",
+};
+
+// One headed part of the board, in the order the whiteboard shows them
+interface BoardPart {
+  kind: "problem" | "step" | "answer" | WhiteboardNoteKind;
+  heading: string;
+  blocks: WhiteboardBlock[];
+}
+
+const toDocument = (board: ExportableWhiteboard): WhiteboardDocument =>
+  "sections" in board ? whiteboardDocumentFromParsed(board) : board;
+
+const outline = (document: WhiteboardDocument): BoardPart[] => {
+  const notes = document.notes ?? [];
+  const noteParts = (overview: boolean) =>
+    notes
+      .filter((note) => (note.kind === "overview") === overview)
+      .map((note): BoardPart => ({ kind: note.kind, heading: NOTE_HEADINGS[note.kind], blocks: note.blocks }));
+
+  return [
+    ...(document.problem?.length ? [{ kind: "problem" as const, heading: "Problem", blocks: document.problem }] : []),
+    ...noteParts(true),
+    ...document.steps.map((step, i): BoardPart => ({
+      kind: "step",
+      heading: `Step ${i + 1}`,
+      blocks: [...(step.explanation ? [{ type: "text" as const, text: step.explanation }] : []), ...(step.blocks ?? [])],
+    })),
+    ...(document.answer?.length ? [{ kind: "answer" as const, heading: "Answer", blocks: document.answer }] : []),
+    ...noteParts(false),
+  ];
+};
+
+const headerFields = (document: WhiteboardDocument, meta: WhiteboardExportMeta) => ({
+  topic: meta.topic || document.title,
+  teacher: meta.teacherName,
+  date: (meta.date ?? new Date()).toLocaleDateString([], { dateStyle: "long" }),
+});
+
+/** File name without extension, e.g. whiteboard-solving-a-quadratic-2026-10-19 */
+export const whiteboardFileName = (board: ExportableWhiteboard, meta: WhiteboardExportMeta): string =>
+  `whiteboard-${slug(toDocument(board).title) || "solution"}-${(meta.date ?? new Date()).toISOString().slice(0, 10)}`;
+
+// --- Markdown ---
+
+export const whiteboardToMarkdown = (board: ExportableWhiteboard, meta: WhiteboardExportMeta): string => {
+  const document = toDocument(board);
+  const header = headerFields(document, meta);
+  const lines = [
+    `# ${document.title}`,
+    "",
+    `**Topic:** ${header.topic} · **Teacher:** ${header.teacher} · **Date:** ${header.date}`,
+  ];
+  for (const part of outline(document)) {
+    lines.push("", `## ${part.heading}`, "", whiteboardBlocksToMarkdown(part.blocks));
+  }
+  return `${lines.join("\n").trim()}\n`;
+};
+
+// --- LaTeX ---
+
+const LATEX_SPECIALS: Record<string, string> = {
+  "\\": "\\textbackslash{}",
+  "&": "\\&",
+  "%": "\\%",
+  $: "\\$",
+  "#": "\\#",
+  _: "\\_",
+  "{": "\\{",
+  "}": "\\}",
+  "~": "\\textasciitilde{}",
+  "^": "\\textasciicircum{}",
+};
+
+const escapeLatex = (text: string) => text.replace(/[\\&%$#_{}~^]/g, (c) => LATEX_SPECIALS[c]);
+
+// Prose with inline maths and **bold**; line breaks become paragraph breaks
+const textToLatex = (text: string) =>
+  parseInlineLatex(text)
+    .map((segment) =>
+      segment.isLatex
+        ? `$${segment.text}$`
+        : segment.text
+            .split(/(\*\*[^*]+\*\*)/g)
+            .map((part) => (part.startsWith("**") && part.endsWith("**") && part.length > 4
+              ? `\\textbf{${escapeLatex(part.slice(2, -2))}}`
+              : escapeLatex(part)))
+            .join("")
+    )
+    .join("")
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n\n");
+
+const blockToLatex = (block: WhiteboardBlock): string => {
+  switch (block.type) {
+    case "text":
+      return textToLatex(block.text);
+    case "math":
+      return `\\[\n${sanitizeLatex(block.latex)}\n\\]`;
+    case "table": {
+      const row = (cells: string[]) => `${cells.map(textToLatex).join(" & ")} \\\\`;
+      return [
+        "\\begin{center}",
+        `\\begin{tabular}{${"l".repeat(block.header.length)}}`,
+        "\\hline",
+        row(block.header),
+        "\\hline",
+        ...block.rows.map(row),
+        "\\hline",
+        "\\end{tabular}",
+        ...(block.caption ? [`\\\\[4pt] \\emph{${textToLatex(block.caption)}}`] : []),
+        "\\end{center}",
+      ].join("\n");
+    }
+    case "diagram":
+      return [
+        "\\begin{center}",
+        `\\emph{Diagram: ${escapeLatex(block.alt)}}`,
+        ...(block.plot
+          ? [`\\\\ \\texttt{y = ${escapeLatex(block.plot.expression)}} for $${block.plot.xMin} \\le x \\le ${block.plot.xMax}$`]
+          : []),
+        ...(block.caption ? [`\\\\ ${textToLatex(block.caption)}`] : []),
+        "\\end{center}",
+      ].join("\n");
+  }
+};
+
+/** A complete .tex file that builds with pdflatex and no extra packages beyond amsmath */
+export const whiteboardToLatex = (board: ExportableWhiteboard, meta: WhiteboardExportMeta): string => {
+  const document = toDocument(board);
+  const header = headerFields(document, meta);
+  const body = outline(document).map((part) =>
+    [`\\section*{${escapeLatex(part.heading)}}`, ...part.blocks.map(blockToLatex)].join("\n\n")
+  );
+
+  return [
+    "\\documentclass[11pt]{article}",
+    "\\usepackage[utf8]{inputenc}",
+    "\\usepackage[T1]{fontenc}",
+    "\\usepackage{amsmath,amssymb}",
+    "\\usepackage[margin=2.5cm]{geometry}",
+    "",
+    `\\title{${textToLatex(document.title)}}`,
+    `\\author{${escapeLatex(header.teacher)}}`,
+    `\\date{${escapeLatex(header.date)}}`,
+    "",
+    "\\begin{document}",
+    "\\maketitle",
+    `\\noindent\\textbf{Topic:} ${textToLatex(header.topic)}`,
+    "",
+    ...body.flatMap((part) => [part, ""]),
+    "\\end{document}",
+    "",
+  ].join("\n");
+};
+
+// --- HTML (print and snapshot) ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const mathToHtml = (latex: string, displayMode: boolean) =>
+  katex.renderToString(sanitizeLatex(latex), { output: "mathml", displayMode, throwOnError: false, strict: false });
+
+const textToHtml = (text: string) =>
+  parseInlineLatex(text)
+    .map((segment) =>
+      segment.isLatex
+        ? mathToHtml(segment.text, false)
+        : escapeHtml(segment.text).replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>").replace(/\n/g, "<br/>")
+    )
+    .join("");
+
+const PLOT_WIDTH = 320;
+const PLOT_HEIGHT = 200;
+
+const plotToSvg = (plot: WhiteboardPlot, label: string) => {
+  const geometry = plotGeometry(plot, PLOT_WIDTH, PLOT_HEIGHT);
+  if (!geometry) return "";
+  const { lines, xAxisY, yAxisX } = geometry;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${PLOT_WIDTH} ${PLOT_HEIGHT}" width="${PLOT_WIDTH}" height="${PLOT_HEIGHT}" role="img" aria-label="${escapeHtml(label)}">`,
+    yAxisX !== null ? `<line x1="${yAxisX}" x2="${yAxisX}" y1="0" y2="${PLOT_HEIGHT}" stroke="#bbb"/>` : "",
+    xAxisY !== null ? `<line x1="0" x2="${PLOT_WIDTH}" y1="${xAxisY}" y2="${xAxisY}" stroke="#bbb"/>` : "",
+    ...lines.map((points) => `<polyline fill="none" stroke="#2563eb" stroke-width="2" points="${points}"/>`),
+    "</svg>",
+  ].join("");
+};
+
+const blockToHtml = (block: WhiteboardBlock): string => {
+  switch (block.type) {
+    case "text":
+      return `<p>${textToHtml(block.text)}</p>`;
+    case "math":
+      return `<div class="wb-math">${mathToHtml(block.latex, true)}</div>`;
+    case "table":
+      return [
+        "<table>",
+        ...(block.caption ? [`<caption>${textToHtml(block.caption)}</caption>`] : []),
+        `<thead><tr>${block.header.map((cell) => `<th>${textToHtml(cell)}</th>`).join("")}</tr></thead>`,
+        `<tbody>${block.rows.map((row) => `<tr>${row.map((cell) => `<td>${textToHtml(cell)}</td>`).join("")}</tr>`).join("")}</tbody>`,
+        "</table>",
+      ].join("");
+    case "diagram": {
+      const drawing = block.plot ? plotToSvg(block.plot, block.alt) : "";
+      return `<figure>${drawing || `<p><em>${escapeHtml(block.alt)}</em></p>`}${block.caption ? `<figcaption>${textToHtml(block.caption)}</figcaption>` : ""}</figure>`;
+    }
+  }
+};
+
+// Scoped under .wb so the snapshot's probe doesn't restyle the page while it is measured
+const STYLES = `
+.wb { font-family: Georgia, "Times New Roman", serif; color: #111; background: #fff; padding: 32px; line-height: 1.5; font-size: 16px; box-sizing: border-box; }
+.wb h1 { font-size: 26px; margin: 0 0 4px; }
+.wb .wb-meta { color: #555; font-size: 13px; margin: 0 0 24px; padding-bottom: 12px; border-bottom: 1px solid #ddd; }
+.wb .wb-meta span + span::before { content: " · "; }
+.wb section { margin: 0 0 18px; break-inside: avoid; }
+.wb h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.04em; color: #444; margin: 0 0 6px; }
+.wb .wb-problem, .wb .wb-note { background: #f6f6f6; border: 1px solid #e2e2e2; border-radius: 8px; padding: 12px 16px; }
+.wb .wb-answer { border: 2px solid #2563eb; border-radius: 8px; padding: 12px 16px; font-size: 18px; }
+.wb p { margin: 0 0 8px; }
+.wb .wb-math { text-align: center; margin: 8px 0; font-size: 18px; overflow-x: auto; }
+.wb table { border-collapse: collapse; margin: 8px auto; }
+.wb th, .wb td { border: 1px solid #ccc; padding: 4px 10px; text-align: left; }
+.wb caption { caption-side: bottom; font-size: 13px; color: #555; padding-top: 4px; }
+.wb figure { margin: 8px 0; text-align: center; }
+.wb figcaption { font-size: 13px; color: #555; }
+`;
+
+const PART_CLASS: Partial<Record<BoardPart["kind"], string>> = {
+  problem: "wb-problem",
+  answer: "wb-answer",
+  overview: "wb-note",
+  keypoints: "wb-note",
+  tips: "wb-note",
+  summary: "wb-note",
+};
+
+// XHTML-safe markup (self-closed void tags) so the snapshot can embed it in SVG
+const boardMarkup = (board: ExportableWhiteboard, meta: WhiteboardExportMeta) => {
+  const document = toDocument(board);
+  const header = headerFields(document, meta);
+  const parts = outline(document).map((part) =>
+    `<section class="${PART_CLASS[part.kind] ?? "wb-step"}"><h2>${escapeHtml(part.heading)}</h2>${part.blocks.map(blockToHtml).join("")}</section>`
+  );
+  return [
+    `<h1>${textToHtml(document.title)}</h1>`,
+    `<p class="wb-meta"><span>Topic: ${textToHtml(header.topic)}</span><span>Teacher: ${escapeHtml(header.teacher)}</span><span>${escapeHtml(header.date)}</span></p>`,
+    ...parts,
+  ].join("");
+};
+
+/** A standalone page for printing or saving as PDF */
+export const whiteboardToHtml = (board: ExportableWhiteboard, meta: WhiteboardExportMeta): string =>
+  [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8"/>',
+    `<title>${escapeHtml(toDocument(board).title)}</title>`,
+    `<style>${STYLES}@page { margin: 1.5cm; } @media print { .wb { padding: 0; } }</style>`,
+    "</head>",
+    `<body style="margin:0"><div class="wb">${boardMarkup(board, meta)}</div></body>`,
+    "</html>",
+  ].join("\n");
+
+/**
+ * Open the board in a new window and bring up the print dialog, where it can
+ * be saved as a PDF. Returns false when the window was blocked.
+ */
+export const printWhiteboard = (board: ExportableWhiteboard, meta: WhiteboardExportMeta): boolean => {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return false;
+  printWindow.document.open();
+  printWindow.document.write(whiteboardToHtml(board, meta));
+  printWindow.document.close();
+  // Let the page lay out before the dialog snapshots it
+  setTimeout(() => {
+    printWindow.focus();
+    printWindow.print();
+  }, 250);
+  return true;
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Couldn't draw the whiteboard snapshot"));
+    image.src = src;
+  });
+
+/**
+ * Draw the board to a PNG by laying it out in an SVG foreignObject.
+ * Returns null if the browser can't render it.
+ */
+export const whiteboardToPng = async (
+  board: ExportableWhiteboard,
+  meta: WhiteboardExportMeta,
+  { width = 800, scale = 2 } = {}
+): Promise<Blob | null> => {
+  const markup = `<div xmlns="http://www.w3.org/1999/xhtml" class="wb" style="width:${width}px"><style>${STYLES}</style>${boardMarkup(board, meta)}</div>`;
+
+  // Lay it out off screen first to find its height
+  const probe = document.createElement("div");
+  probe.style.cssText = "position:fixed;left:-100000px;top:0;";
+  probe.innerHTML = markup;
+  document.body.appendChild(probe);
+  const height = Math.max(1, Math.ceil((probe.firstElementChild as HTMLElement | null)?.scrollHeight ?? 0));
+  probe.remove();
+
+  try {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><foreignObject x="0" y="0" width="100%" height="100%">${markup}</foreignObject></svg>`;
+    const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+    const canvas = document.createElement("canvas");
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.scale(scale, scale);
+    context.fillStyle = "#fff";
+    context.fillRect(0, 0, width, height);
+    context.drawImage(image, 0, 0);
+    return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  } catch (error) {
+    console.warn("Whiteboard snapshot failed:", error);
+    return null;
+  }
+};
@@ -104,6 +104,54 @@ export function extractWhiteboardContent(text: string): { content: string; hasWh
   return { content: '', hasWhiteboard: false };
 }
 
+// Math delimiters in the order they are matched; \$ is an escaped dollar, not maths
+const MATH_DELIMITER = /\\\$|\$\$|\$|\\\[|\\\]|\\\(|\\\)/g;
+const CLOSING_DELIMITER: Record<string, string> = { '$$': '$$', '$': '$', '\\[': '\\]', '\\(': '\\)' };
+
+/**
+ * Cuts a whiteboard that is still streaming back to what can be drawn
+ * without flicker: whole lines only, ending where every math delimiter is
+ * closed. JSON boards can't be drawn in part, so they stay empty until done.
+ */
+export function stableWhiteboardPrefix(content: string): string {
+  if (content.trimStart().startsWith('{')) return '';
+
+  const lines = content.split('\n');
+  lines.pop(); // The last line is still being written
+  let open: string | null = null;
+  let stableLines = 0;
+
+  lines.forEach((line, i) => {
+    for (const [token] of line.matchAll(MATH_DELIMITER)) {
+      if (token === '\\$') continue;
+      if (open) {
+        if (token === CLOSING_DELIMITER[open]) open = null;
+      } else if (token in CLOSING_DELIMITER) {
+        open = token;
+      }
+    }
+    if (!open) stableLines = i + 1;
+  });
+
+  return lines.slice(0, stableLines).join('\n').trim();
+}
+
+/**
+ * The whiteboard in a partly received reply, trimmed with
+ * stableWhiteboardPrefix until [WHITEBOARD_END] arrives.
+ * Returns null when the reply has no whiteboard markers.
+ */
+export function streamingWhiteboardContent(text: string): { content: string; isComplete: boolean } | null {
+  const startMarker = '[WHITEBOARD_START]';
+  const startIndex = text.indexOf(startMarker);
+  if (startIndex === -1) return null;
+
+  const body = text.slice(startIndex + startMarker.length);
+  const endIndex = body.indexOf('[WHITEBOARD_END]');
+  if (endIndex !== -1) return { content: body.slice(0, endIndex).trim(), isComplete: true };
+  return { content: stableWhiteboardPrefix(body), isComplete: false };
+}
+
 /**
  * Removes whiteboard markers from text for display in chat
  */
@@ -326,3 +374,48 @@ export function parseInlineLatex(text: string): Array<{ text: string; isLatex: b
   
   return segments.length > 0 ? segments : [{ text: normalizedText, isLatex: false }];
 }
+
+const SECTION_HEADINGS: Partial<Record<WhiteboardSection['type'], string>> = {
+  problem: 'Problem',
+  overview: 'Overview',
+  keypoints: 'Key Points',
+  tips: 'Tips',
+  summary: 'Summary',
+  answer: 'Answer',
+};
+
+/**
+ * Serializes structured sections (e.g. from the show_whiteboard tool) into the
+ * marker-free text format understood by parseWhiteboardContent.
+ * Step numbers are assigned in order when missing.
+ */
+export function formatWhiteboardContent(board: { title: string; sections: WhiteboardSection[] }): string {
+  // Blank lines end a section in the parser, so keep each section's lines together
+  const compact = (text: string) => text.replace(/\n\s*\n/g, '\n').trim();
+  const blocks: string[] = [`## Title: ${board.title.trim() || 'Solution'}`];
+  let stepCounter = 0;
+
+  for (const section of board.sections) {
+    const content = compact(section.content ?? '');
+    switch (section.type) {
+      case 'title':
+        break;
+      case 'step':
+        stepCounter = section.stepNumber ?? stepCounter + 1;
+        blocks.push(`**Step ${stepCounter}:** ${content}`);
+        break;
+      case 'math': {
+        const latex = sanitizeLatex(content);
+        if (latex) blocks.push(latex.includes('\n') ? `$$\n${latex}\n$$` : `$$${latex}$$`);
+        break;
+      }
+      case 'text':
+        if (content) blocks.push(content);
+        break;
+      default:
+        blocks.push(content ? `### ${SECTION_HEADINGS[section.type]}\n${content}` : `### ${SECTION_HEADINGS[section.type]}`);
+    }
+  }
+
+  return blocks.join('\n\n');
+}
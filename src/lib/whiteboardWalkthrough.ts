@@ -0,0 +1,112 @@
+/**
+ * Whiteboard Walkthrough
+ *
+ * Splits a whiteboard into the steps a student walks through one at a time,
+ * works out which step the teacher is talking about from the live transcript,
+ * and words the request when the student wants a step explained again.
+ */
+
+import type { WhiteboardSection } from "./whiteboardParser";
+import { whiteboardBlocksToMarkdown, type LoadedWhiteboard } from "./whiteboardDocument";
+
+export interface WalkthroughStep {
+  /** Markdown sections drawn for this step; empty for JSON boards, whose steps render whole */
+  sectionIndexes: number[];
+  /** The step as one section, with its maths, for sending back to the teacher */
+  section: WhiteboardSection;
+}
+
+/**
+ * Where each group of Markdown sections starts. A heading or step starts a
+ * group and the maths and loose text after it belong to it.
+ */
+export const sectionGroupStarts = (sections: WhiteboardSection[]): number[] =>
+  sections.flatMap((section, i) => (i === 0 || (section.type !== "math" && section.type !== "text") ? [i] : []));
+
+const sectionText = (section: WhiteboardSection) =>
+  section.type === "math" ? `$$${section.content}$$` : section.content;
+
+export const walkthroughSteps = (board: LoadedWhiteboard): WalkthroughStep[] => {
+  if (board.format === "json") {
+    return (board.document?.steps ?? []).map((step, i) => ({
+      sectionIndexes: [],
+      section: {
+        type: "step",
+        stepNumber: i + 1,
+        content: [step.explanation, whiteboardBlocksToMarkdown(step.blocks ?? [])].filter(Boolean).join("\n\n"),
+      },
+    }));
+  }
+
+  const { sections } = board.parsed;
+  const starts = sectionGroupStarts(sections);
+  return starts.flatMap((start, g) => {
+    if (sections[start].type !== "step") return [];
+    const end = starts[g + 1] ?? sections.length;
+    const indexes = Array.from({ length: end - start }, (_, k) => start + k);
+    return [{
+      sectionIndexes: indexes,
+      section: {
+        type: "step" as const,
+        stepNumber: sections[start].stepNumber,
+        content: indexes.map((i) => sectionText(sections[i])).filter(Boolean).join("\n\n"),
+      },
+    }];
+  });
+};
+
+/** What the student sends when they ask for a step again */
+export const explainStepPrompt = (boardTitle: string, section: WhiteboardSection): string =>
+  `Can you explain step ${section.stepNumber ?? ""} of the "${boardTitle}" whiteboard again, more slowly and in a different way? ` +
+  `Here is the step:\n\n${section.content}`;
+
+const NUMBER_WORDS = ["one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten"];
+const STEP_MENTION = new RegExp(`\\bstep\\s+(\\d+|${NUMBER_WORDS.join("|")})\\b`, "gi");
+const STOP_WORDS = new Set(["this", "that", "then", "than", "with", "from", "have", "here", "there", "what", "when", "which", "will", "your", "into", "each", "both", "they", "them", "just", "also", "next", "step"]);
+
+// Only the last few sentences say where the teacher is now
+const NARRATION_WINDOW = 200;
+// Shared words needed before a step counts as the one being talked about
+const MIN_OVERLAP = 3;
+
+const contentWords = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .replace(/\\[a-z]+/g, " ")
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length >= 4 && !STOP_WORDS.has(word))
+  );
+
+/**
+ * The step the teacher is talking about, judged from the end of what they
+ * have said so far: "step two" wins outright, otherwise the step sharing the
+ * most words with the narration. Null when nothing matches well enough.
+ */
+export const narratedStepIndex = (narration: string, steps: WalkthroughStep[]): number | null => {
+  if (!narration || steps.length === 0) return null;
+  const recent = narration.slice(-NARRATION_WINDOW);
+
+  const mentions = [...recent.matchAll(STEP_MENTION)];
+  if (mentions.length > 0) {
+    const spoken = mentions[mentions.length - 1][1].toLowerCase();
+    const number = NUMBER_WORDS.includes(spoken) ? NUMBER_WORDS.indexOf(spoken) + 1 : Number(spoken);
+    const index = steps.findIndex((step, i) => (step.section.stepNumber ?? i + 1) === number);
+    if (index !== -1) return index;
+  }
+
+  const heard = contentWords(recent);
+  let best: number | null = null;
+  let bestScore = MIN_OVERLAP - 1;
+  steps.forEach((step, i) => {
+    let score = 0;
+    contentWords(step.section.content).forEach((word) => {
+      if (heard.has(word)) score++;
+    });
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { GraduationCap } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import { signInWithPassword, signUpWithPassword } from "@/lib/learnerAuth";
+import { toast } from "@/hooks/use-toast";
+
+const Auth = () => {
+  const { user, isLoading } = useAuth();
+  const location = useLocation();
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const from = (location.state as { from?: string } | null)?.from || "/";
+
+  // Already signed in: carry on to where they were going
+  if (!isLoading && user) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim() || !password) return;
+    setIsSubmitting(true);
+
+    if (mode === "sign-in") {
+      const error = await signInWithPassword(email.trim(), password);
+      if (error) {
+        toast({ title: "Sign in failed", description: error, variant: "destructive" });
+      }
+    } else {
+      const { error, needsConfirmation } = await signUpWithPassword(email.trim(), password);
+      if (error) {
+        toast({ title: "Sign up failed", description: error, variant: "destructive" });
+      } else if (needsConfirmation) {
+        toast({ title: "Check your email", description: "Click the link we sent you to finish creating your account." });
+      }
+    }
+
+    setIsSubmitting(false);
+  };
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input id="email" type="email" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+          minLength={6}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isSubmitting}>
+        {mode === "sign-in" ? "Sign in" : "Create account"}
+      </Button>
+    </form>
+  );
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4">
+      <div className="panel-card w-full max-w-sm p-6 border border-border/50">
+        <div className="flex flex-col items-center gap-2 mb-6">
+          <GraduationCap className="w-10 h-10 text-primary" />
+          <h1 className="text-2xl font-display font-bold text-foreground">Welcome</h1>
+          <p className="text-sm text-muted-foreground text-center">Sign in so your teachers remember you and your lessons.</p>
+        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "sign-in" | "sign-up")}>
+          <TabsList className="grid grid-cols-2 w-full mb-4">
+            <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+            <TabsTrigger value="sign-up">Create account</TabsTrigger>
+          </TabsList>
+          <TabsContent value="sign-in">{form}</TabsContent>
+          <TabsContent value="sign-up">{form}</TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
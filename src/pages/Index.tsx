@@ -1,4 +1,6 @@
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import { RotateCcw } from "lucide-react";
 import AvatarPanel from "@/components/AvatarPanel";
 import VideoPanel from "@/components/VideoPanel";
 import TranscriptPanel from "@/components/TranscriptPanel";
@@ -6,15 +8,147 @@ import ControlBar from "@/components/ControlBar";
 import FileUpload from "@/components/FileUpload";
 import WhiteboardModal from "@/components/WhiteboardModal";
 import TeacherSelect from "@/components/TeacherSelect";
+import LessonPlanSelect from "@/components/LessonPlanSelect";
+import LessonProgress from "@/components/LessonProgress";
+import QuizPanel from "@/components/QuizPanel";
+import LessonExportMenu from "@/components/LessonExportMenu";
+import AudioDeviceSettings from "@/components/AudioDeviceSettings";
 import { type BSLSettingsState } from "@/components/BSLSettings";
-import { type Teacher } from "@/lib/teachers";
+import { TEACHERS, type Teacher } from "@/lib/teachers";
+import { getLessonSession } from "@/lib/lessonSessions";
+import { getLessonPlan, type LessonPlan } from "@/lib/lessonPlans";
+import { buildLearnerContext, type KeyStage } from "@/lib/profiles";
+import { formatQuizResults, summarizeQuiz } from "@/lib/quiz";
+import { buildMemoryBlock, listLearnerMemories, type LearnerMemory } from "@/lib/learnerMemory";
+import type { MicMode } from "@/lib/vad";
+import { loadAudioDevicePreferences, saveAudioDevicePreferences, type AudioDevicePreferences } from "@/lib/audioDevices";
+import { explainStepPrompt } from "@/lib/whiteboardWalkthrough";
+import { newSketchKey } from "@/lib/whiteboardAnnotations";
+import type { WhiteboardSection } from "@/lib/whiteboardParser";
+import { MEDIA_LEVELS, isMediaLevelAtLeast, screenshotSettings, type ConnectionQuality, type MediaLevel } from "@/lib/connectionQuality";
 
 import { useRealtimeChat } from "@/hooks/useRealtimeChat";
 import { useScreenShare } from "@/hooks/useScreenShare";
+import { useQuiz } from "@/hooks/useQuiz";
+import { useAuth } from "@/hooks/useAuth";
+import { useConnectionQuality } from "@/hooks/useConnectionQuality";
 import { toast } from "@/hooks/use-toast";
 
+const MIC_MODE_STORAGE_KEY = "micMode";
+
+const QUALITY_LABELS: Record<ConnectionQuality, { label: string; dot: string }> = {
+  good: { label: "Good", dot: "bg-green-500" },
+  fair: { label: "Fair", dot: "bg-yellow-500" },
+  poor: { label: "Poor", dot: "bg-destructive" },
+};
+
+// What changes when media steps down to each level
+const MEDIA_LEVEL_NOTICES: Record<Exclude<MediaLevel, "full">, string> = {
+  "reduced-screenshots": "Screenshots are being sent at lower quality.",
+  "no-avatar-video": "The teacher's video is paused. You'll still hear them.",
+  "text-only": "Your microphone is paused. Type your messages for now.",
+};
+
+// Keys typed into a field shouldn't trigger push-to-talk
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
 const Index = () => {
   const [selectedTeacher, setSelectedTeacher] = useState<Teacher | null>(null);
+  // Lesson plan picked after the teacher; null with isTopicChosen means open chat
+  const [lessonPlan, setLessonPlan] = useState<LessonPlan | null>(null);
+  const [isTopicChosen, setIsTopicChosen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user, profile } = useAuth();
+  const learnerName = profile?.display_name || "You";
+  // BSL-first learners start with sign language mode on
+  const [isBSLEnabled, setIsBSLEnabled] = useState(() => profile?.bsl_first ?? false);
+  // Hands-free voice detection or push-to-talk, remembered on this device
+  const [micMode, setMicMode] = useState<MicMode>(() =>
+    localStorage.getItem(MIC_MODE_STORAGE_KEY) === "push-to-talk" ? "push-to-talk" : "voice-activity"
+  );
+  // Microphone and speakers, remembered for each user on this device
+  const [audioDevices, setAudioDevices] = useState<AudioDevicePreferences>(() => loadAudioDevicePreferences(user?.id));
+  const [isAudioSettingsOpen, setIsAudioSettingsOpen] = useState(false);
+  useEffect(() => {
+    setAudioDevices(loadAudioDevicePreferences(user?.id));
+  }, [user?.id]);
+
+  // Stepped down from full media when the connection stays poor
+  const [mediaLevel, setMediaLevel] = useState<MediaLevel>("full");
+  const isAvatarVideoOff = isMediaLevelAtLeast(mediaLevel, "no-avatar-video");
+  const previousMediaLevelRef = useRef<MediaLevel>("full");
+  const micPausedForConnectionRef = useRef(false);
+  const avatarStatsRef = useRef<(() => Promise<RTCStatsReport | null>) | null>(null);
+
+  const [learnerMemories, setLearnerMemories] = useState<LearnerMemory[]>([]);
+
+  // Refresh what's remembered while the teacher picker is showing, so it's
+  // ready before the next lesson connects
+  const isPickingTeacher = !selectedTeacher;
+  useEffect(() => {
+    if (!isPickingTeacher) return;
+    let cancelled = false;
+    listLearnerMemories().then((memories) => {
+      if (!cancelled) setLearnerMemories(memories);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isPickingTeacher]);
+
+  // Teacher persona plus who they're talking to and what we remember about them
+  const systemPrompt = useMemo(
+    () =>
+      selectedTeacher
+        ? `${selectedTeacher.systemPrompt}${buildLearnerContext(profile)}${buildMemoryBlock(learnerMemories)}`
+        : undefined,
+    [selectedTeacher, profile, learnerMemories]
+  );
+
+  const {
+    isSharing,
+    startScreenShare,
+    stopScreenShare,
+    captureScreenshot,
+  } = useScreenShare();
+
+  // Smaller, lower quality screenshots once the connection has struggled
+  const captureScreen = useCallback(
+    () => captureScreenshot(screenshotSettings(mediaLevel)),
+    [captureScreenshot, mediaLevel]
+  );
+
+  // Quizzes set by the teacher or started from the review queue; results go back to the teacher
+  const {
+    quiz,
+    answers: quizAnswers,
+    isFinished: isQuizFinished,
+    dueReviewCount,
+    startQuiz,
+    startReview,
+    answerQuestion,
+    finishQuiz,
+    closeQuiz,
+    abandonQuiz,
+  } = useQuiz({
+    onFinish: (finished, answers) => {
+      const { correct, total } = summarizeQuiz(finished, answers);
+      sendQuizResults(formatQuizResults(finished, answers), `[Finished quiz: ${finished.title}, ${correct}/${total} correct]`);
+    },
+  });
+
+  // Teacher tool calls: BSL mode switched by the teacher, screenshots on request
+  const handleBSLModeRequest = useCallback((enabled: boolean) => {
+    setIsBSLEnabled(enabled);
+    toast({
+      title: enabled ? "BSL Mode Enabled" : "BSL Mode Disabled",
+      description: enabled
+        ? "Your teacher switched on sign language mode."
+        : "Your teacher switched back to voice-only mode.",
+    });
+  }, []);
 
   const {
     messages,
@@ -24,36 +158,59 @@ const Index = () => {
     isRecording,
     isProcessing,
     isSpeaking,
+    isUserTalking,
     audioLevel,
     status,
     connect,
     disconnect,
     startRecording,
     stopRecording,
+    startTalking,
+    stopTalking,
     setSimliAudioHandler,
     sendImage,
     sendTextContent,
     sendBSLModeChange,
+    sendQuizResults,
+    cancelPendingMessage,
     sendGreeting,
+    resumeLesson,
+    completedObjectives,
     whiteboardContent,
     showWhiteboard,
+    isWhiteboardStreaming,
     openWhiteboard,
     closeWhiteboard,
-  } = useRealtimeChat(selectedTeacher?.geminiVoice, selectedTeacher?.systemPrompt, selectedTeacher?.elevenLabsVoiceId);
+    getLessonRecording,
+    pingServer,
+    getOutboundBacklog,
+  } = useRealtimeChat(selectedTeacher?.geminiVoice, systemPrompt, selectedTeacher?.elevenLabsVoiceId, selectedTeacher?.id, {
+    onBSLModeRequest: handleBSLModeRequest,
+    captureScreen,
+    onQuizRequest: startQuiz,
+    lessonPlan,
+    micMode,
+    inputDeviceId: audioDevices.inputDeviceId,
+    outputDeviceId: audioDevices.outputDeviceId,
+    playVoiceLocally: isAvatarVideoOff,
+  });
 
-  const {
-    isSharing,
-    startScreenShare,
-    stopScreenShare,
-    captureScreenshot,
-  } = useScreenShare();
+  const getAvatarStats = useCallback(async () => (avatarStatsRef.current ? avatarStatsRef.current() : null), []);
+  const connectionQuality = useConnectionQuality({
+    isConnected,
+    isReconnecting,
+    ping: pingServer,
+    getBufferedAmount: getOutboundBacklog,
+    getVideoStats: getAvatarStats,
+  });
 
   const [isCameraOn, setIsCameraOn] = useState(true);
   const [isMicOn, setIsMicOn] = useState(true);
   const [recordingTime, setRecordingTime] = useState(0);
   const [showFileUpload, setShowFileUpload] = useState(false);
   const [isAvatarReady, setIsAvatarReady] = useState(false);
-  const [isBSLEnabled, setIsBSLEnabled] = useState(false);
+  // The blank board opened last, so its drawing is kept apart from every other sketch
+  const [sketchKey, setSketchKey] = useState<string | null>(null);
   const [isBSLLoading, setIsBSLLoading] = useState(false);
   const [bslResponseText, setBslResponseText] = useState('');
   const [bslSettings, setBslSettings] = useState<BSLSettingsState>({
@@ -78,13 +235,40 @@ const Index = () => {
     [closeWhiteboard]
   );
 
-  // Auto-connect after teacher is selected
+  // "Continue lesson" from the history page: load the transcript, then pick its teacher
   useEffect(() => {
-    if (!selectedTeacher) return;
+    const resumeId = searchParams.get("resume");
+    if (!resumeId) return;
+    setSearchParams({}, { replace: true });
+
+    (async () => {
+      const session = await getLessonSession(resumeId);
+      const teacher = TEACHERS.find((t) => t.id === session?.teacher_id);
+      if (!session || !teacher || !(await resumeLesson(resumeId, session.completed_objectives))) {
+        toast({
+          title: "Lesson not found",
+          description: "That lesson could not be loaded. Please choose a teacher to start a new one.",
+          variant: "destructive",
+        });
+        return;
+      }
+      setLessonPlan(getLessonPlan(session.lesson_plan_id));
+      setIsTopicChosen(true);
+      setSelectedTeacher(teacher);
+      toast({
+        title: "Resuming lesson",
+        description: `Continuing your lesson with ${teacher.name}.`,
+      });
+    })();
+  }, [searchParams, setSearchParams, resumeLesson]);
+
+  // Auto-connect once the teacher and topic are chosen
+  useEffect(() => {
+    if (!selectedTeacher || !isTopicChosen) return;
     hasGreetedRef.current = false; // Reset greeting tracker for new teacher
     connect();
     return () => disconnect();
-  }, [selectedTeacher, connect, disconnect]);
+  }, [selectedTeacher, isTopicChosen, connect, disconnect]);
 
   // Prompt user to click microphone after connection is established
   useEffect(() => {
@@ -110,8 +294,13 @@ const Index = () => {
   }, [isConnected]);
 
   const handleSimliReady = useCallback(
-    (listenToTrack: (track: MediaStreamTrack) => void, clearBuffer: () => void) => {
+    (
+      listenToTrack: (track: MediaStreamTrack) => void,
+      clearBuffer: () => void,
+      getStats: () => Promise<RTCStatsReport | null>
+    ) => {
       setSimliAudioHandler(listenToTrack, clearBuffer);
+      avatarStatsRef.current = getStats;
       setIsAvatarReady(true);
       
       // Trigger greeting ONLY once per teacher session
@@ -128,14 +317,91 @@ const Index = () => {
     [setSimliAudioHandler, sendGreeting]
   );
 
+  // Without avatar video the voice plays locally, so there is no Simli to wait
+  // for; it may have been stopped before it ever signalled ready
+  useEffect(() => {
+    if (!isConnected || !isAvatarVideoOff) return;
+    setIsAvatarReady(true);
+    if (!hasGreetedRef.current) {
+      hasGreetedRef.current = true;
+      sendGreeting();
+    }
+  }, [isConnected, isAvatarVideoOff, sendGreeting]);
+
+  // Push-to-talk: the avatar mic button or Space held down. In voice-activity
+  // mode the mic is always listening and these do nothing.
   const handleMicPress = useCallback(() => {
-    // Auto-listen mode is now always active after connection
-    // This button no longer needed for push-to-talk
-  }, []);
+    if (micMode !== "push-to-talk") return;
+    if (!isRecording) {
+      toast({
+        title: "Microphone is off",
+        description: "Turn the mic on to talk to your teacher.",
+      });
+      return;
+    }
+    startTalking();
+  }, [micMode, isRecording, startTalking]);
 
   const handleMicRelease = useCallback(() => {
-    // Auto-listen mode handles this automatically
-  }, []);
+    stopTalking();
+  }, [stopTalking]);
+
+  const handleAudioDevicesChange = (preferences: AudioDevicePreferences) => {
+    setAudioDevices(preferences);
+    saveAudioDevicePreferences(user?.id, preferences);
+  };
+
+  const handleToggleMicMode = () => {
+    const next: MicMode = micMode === "push-to-talk" ? "voice-activity" : "push-to-talk";
+    setMicMode(next);
+    localStorage.setItem(MIC_MODE_STORAGE_KEY, next);
+    toast({
+      title: next === "push-to-talk" ? "Push-to-talk" : "Hands-free",
+      description:
+        next === "push-to-talk"
+          ? "Hold the mic button or Space while you talk."
+          : "Just talk; your teacher hears you when you speak.",
+    });
+  };
+
+  // Step media down (or back up) as the connection quality monitor decides
+  useEffect(() => {
+    const level = connectionQuality.level;
+    const previous = previousMediaLevelRef.current;
+    if (level === previous) return;
+    previousMediaLevelRef.current = level;
+    setMediaLevel(level);
+
+    const isStepDown = MEDIA_LEVELS.indexOf(level) > MEDIA_LEVELS.indexOf(previous);
+    if (level === "text-only" && isRecording) {
+      micPausedForConnectionRef.current = true;
+      stopRecording();
+      setIsMicOn(false);
+    }
+
+    // Disconnecting resets to full media without a notice
+    if (!isConnected) return;
+    toast({
+      title: isStepDown ? "Weak connection" : "Connection improved",
+      description: level === "full" ? "Everything is back to normal." : MEDIA_LEVEL_NOTICES[level],
+    });
+    // Only level changes should act; the mic state is read as it is at that moment
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [connectionQuality.level]);
+
+  // The mic paused for a text-only connection comes back once the level has
+  // recovered and there is a connection to record into; a disconnect forgets it
+  useEffect(() => {
+    if (!micPausedForConnectionRef.current) return;
+    if (!isConnected) {
+      if (!isReconnecting) micPausedForConnectionRef.current = false;
+      return;
+    }
+    if (mediaLevel === "text-only") return;
+    micPausedForConnectionRef.current = false;
+    setIsMicOn(true);
+    startRecording();
+  }, [isConnected, isReconnecting, mediaLevel, startRecording]);
 
   const handleToggleCamera = () => {
     setIsCameraOn((prev) => !prev);
@@ -234,7 +500,7 @@ const Index = () => {
       return;
     }
 
-    const screenshot = await captureScreenshot();
+    const screenshot = await captureScreen();
     if (screenshot) {
       sendImage(screenshot, "image/jpeg", "Look at my screen and help me with what you see. If there's a problem or question visible, help me solve it.");
       toast({
@@ -242,7 +508,7 @@ const Index = () => {
         description: `${selectedTeacher?.name || 'Your teacher'} is analyzing your screen...`,
       });
     }
-  }, [isSharing, captureScreenshot, sendImage]);
+  }, [isSharing, captureScreen, sendImage]);
 
   // Handle file upload
   const handleFileProcessed = useCallback((file: { name: string; type: string; content?: string; base64?: string }) => {
@@ -271,6 +537,8 @@ const Index = () => {
 
   const handleToggleCall = () => {
     if (isConnected) {
+      // Before disconnecting, so the results aren't queued for the next lesson
+      abandonQuiz();
       disconnect();
       setIsAvatarReady(false);
       setRecordingTime(0);
@@ -288,14 +556,28 @@ const Index = () => {
   };
 
   const handleGoBack = () => {
+    abandonQuiz();
     if (isConnected) disconnect();
     setIsAvatarReady(false);
     setRecordingTime(0);
     setSelectedTeacher(null);
+    setLessonPlan(null);
+    setIsTopicChosen(false);
+  };
+
+  const handleStartReview = async () => {
+    if (!(await startReview())) {
+      toast({ title: "Nothing to review", description: "You're all caught up." });
+    }
+  };
+
+  const handleTopicSelect = (plan: LessonPlan | null) => {
+    setLessonPlan(plan);
+    setIsTopicChosen(true);
   };
 
   const handleToggleBSL = useCallback(() => {
-    if (!isConnected) {
+    if (!isConnected && !isReconnecting) {
       toast({
         title: "Not connected",
         description: "Please wait for the connection to be established.",
@@ -308,7 +590,7 @@ const Index = () => {
     bslTogglePendingRef.current = true;
     setIsBSLLoading(true);
     setIsBSLEnabled((prev) => !prev);
-  }, [isConnected]);
+  }, [isConnected, isReconnecting]);
 
   // Perform BSL toggle side-effects after state update
   useEffect(() => {
@@ -355,6 +637,30 @@ const Index = () => {
     return () => window.removeEventListener('keydown', handler);
   }, [isSharing, handleCaptureScreen]);
 
+  // Hold Space to talk in push-to-talk mode
+  useEffect(() => {
+    if (micMode !== "push-to-talk") return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) handleMicPress();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== "Space" || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      handleMicRelease();
+    };
+    // Releasing the key in another window never fires keyup here
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", handleMicRelease);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", handleMicRelease);
+    };
+  }, [micMode, handleMicPress, handleMicRelease]);
+
   // Update BSL response text continuously during streaming.
   // - When a NEW message ID appears, reset and start signing from beginning.
   // - When the same message grows (streaming), update text so BSLPanel can extend signs.
@@ -383,14 +689,15 @@ const Index = () => {
 
   // Handle BSL input from camera (sign language to text)
   const handleBSLInput = useCallback((text: string) => {
-    if (!isConnected || !text.trim()) return;
+    // While reconnecting the hook queues it until the session is back
+    if ((!isConnected && !isReconnecting) || !text.trim()) return;
     
     sendTextContent(text, "BSL Input");
     toast({
-      title: "BSL Input Sent",
-      description: `Sent: "${text}"`,
+      title: isConnected ? "BSL Input Sent" : "BSL Input Queued",
+      description: isConnected ? `Sent: "${text}"` : "It will be sent when the connection is back.",
     });
-  }, [isConnected, sendTextContent]);
+  }, [isConnected, isReconnecting, sendTextContent]);
 
   // Handle BSL close from overlay
   const handleBSLClose = useCallback(() => {
@@ -404,19 +711,68 @@ const Index = () => {
 
   // Handle text message from TranscriptPanel
   const handleSendText = useCallback((text: string) => {
-    if (!isConnected || !text.trim()) return;
+    if ((!isConnected && !isReconnecting) || !text.trim()) return;
     sendTextContent(text);
     toast({
-      title: "Message sent",
-      description: `Sent: "${text}"`,
+      title: isConnected ? "Message sent" : "Message queued",
+      description: isConnected ? `Sent: "${text}"` : "It will be sent when the connection is back.",
     });
-  }, [isConnected, sendTextContent]);
+  }, [isConnected, isReconnecting, sendTextContent]);
+
+  // "Explain this step again" from the whiteboard walkthrough
+  const handleExplainStep = useCallback((section: WhiteboardSection, boardTitle: string) => {
+    if (!isConnected && !isReconnecting) return;
+    sendTextContent(explainStepPrompt(boardTitle, section));
+    toast({
+      title: isConnected ? "Asked to explain again" : "Question queued",
+      description: isConnected
+        ? `${selectedTeacher?.name ?? "Your teacher"} will go over step ${section.stepNumber ?? ""} again.`
+        : "It will be sent when the connection is back.",
+    });
+  }, [isConnected, isReconnecting, sendTextContent, selectedTeacher]);
+
+  const handleSketchClick = useCallback(() => {
+    setSketchKey(newSketchKey());
+    openWhiteboard("");
+  }, [openWhiteboard]);
+
+  const handleSendDrawing = useCallback((pngBase64: string, prompt: string) => {
+    if (!isConnected && !isReconnecting) return;
+    sendImage(pngBase64, "image/png", prompt);
+    toast({
+      title: isConnected ? "Working sent" : "Working queued",
+      description: isConnected
+        ? `${selectedTeacher?.name ?? "Your teacher"} will check your working.`
+        : "It will be sent when the connection is back.",
+    });
+  }, [isConnected, isReconnecting, sendImage, selectedTeacher]);
+
+  // What the teacher is saying right now, for the walkthrough to follow
+  const narration = useMemo(() => {
+    if (!isSpeaking) return "";
+    const lastAssistant = [...messages].reverse().find((m) => m.role === "assistant");
+    return lastAssistant?.content ?? "";
+  }, [isSpeaking, messages]);
 
   // Show teacher selection if no teacher chosen yet
   if (!selectedTeacher) {
     return <TeacherSelect onSelect={setSelectedTeacher} />;
   }
 
+  // Four columns while a quiz is open, three otherwise
+  const sideColumnSpan = quiz ? "lg:col-span-3" : "lg:col-span-4";
+
+  if (!isTopicChosen) {
+    return (
+      <LessonPlanSelect
+        teacher={selectedTeacher}
+        keyStage={profile?.key_stage as KeyStage | null | undefined}
+        onSelect={handleTopicSelect}
+        onBack={handleGoBack}
+      />
+    );
+  }
+
   return (
     <div className="h-screen bg-background flex flex-col overflow-hidden">
       {/* Go Back button */}
@@ -431,25 +787,29 @@ const Index = () => {
       <div className="flex-1 p-4 lg:p-6 overflow-hidden">
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 lg:gap-6 h-full max-w-[1800px] mx-auto overflow-hidden">
           {/* Avatar Panel - Left */}
-          <div className="h-full min-h-0 overflow-hidden lg:col-span-4">
+          <div className={`h-full min-h-0 overflow-hidden ${sideColumnSpan}`}>
             <AvatarPanel
               faceId={selectedTeacher.faceId}
               teacherName={selectedTeacher.name}
               status={status}
               isRecording={isRecording}
+              isPushToTalk={micMode === "push-to-talk"}
+              isUserTalking={isUserTalking}
               onMicPress={handleMicPress}
               onMicRelease={handleMicRelease}
               audioLevel={audioLevel}
               isConnected={isConnected}
               isReconnecting={isReconnecting}
+              outputDeviceId={audioDevices.outputDeviceId}
+              isVideoEnabled={!isAvatarVideoOff}
               onSimliReady={handleSimliReady}
             />
           </div>
 
           {/* Video Panel - Center */}
-          <div className="h-full min-h-0 overflow-hidden lg:col-span-4">
+          <div className={`h-full min-h-0 overflow-hidden ${sideColumnSpan}`}>
             <VideoPanel
-              userName="Jack Jackson"
+              userName={learnerName}
               isSpeaking={isRecording}
               isMuted={!isMicOn}
               isCameraOn={isCameraOn}
@@ -463,17 +823,60 @@ const Index = () => {
             />
           </div>
 
-          {/* Transcript Panel */}
-          <div className="h-full min-h-0 overflow-hidden lg:col-span-4">
-            <TranscriptPanel
-              messages={messages}
-              partialTranscript={partialTranscript}
-              isProcessing={isProcessing}
-              teacherName={selectedTeacher?.name}
-              onUploadClick={() => setShowFileUpload(true)}
-              onShowWhiteboard={openWhiteboard}
-              onSendText={handleSendText}
-            />
+          {/* Quiz Panel - next to the transcript while a quiz is open */}
+          {quiz && (
+            <div className={`h-full min-h-0 overflow-hidden ${sideColumnSpan}`}>
+              <QuizPanel
+                quiz={quiz}
+                answers={quizAnswers}
+                isFinished={isQuizFinished}
+                teacherName={selectedTeacher.name}
+                onAnswer={answerQuestion}
+                onFinish={finishQuiz}
+                onClose={closeQuiz}
+              />
+            </div>
+          )}
+
+          {/* Lesson progress + Transcript Panel */}
+          <div className={`h-full min-h-0 overflow-hidden ${sideColumnSpan} flex flex-col gap-4`}>
+            {lessonPlan && <LessonProgress plan={lessonPlan} completedObjectives={completedObjectives} />}
+            {!quiz && isConnected && dueReviewCount > 0 && (
+              <button
+                onClick={handleStartReview}
+                className="panel-card px-4 py-3 border border-border/50 flex items-center justify-between gap-2 text-sm hover:border-primary/40 transition-colors"
+              >
+                <span className="flex items-center gap-2 text-foreground">
+                  <RotateCcw className="w-4 h-4 text-primary" />
+                  {dueReviewCount} {dueReviewCount === 1 ? "question" : "questions"} to review
+                </span>
+                <span className="text-primary font-medium">Start review</span>
+              </button>
+            )}
+            <div className="flex-1 min-h-0">
+              <TranscriptPanel
+                messages={messages}
+                partialTranscript={partialTranscript}
+                isProcessing={isProcessing}
+                teacherName={selectedTeacher?.name}
+                onUploadClick={() => setShowFileUpload(true)}
+                onShowWhiteboard={openWhiteboard}
+                onSketchClick={handleSketchClick}
+                onSendText={handleSendText}
+                onCancelPending={cancelPendingMessage}
+                userName={learnerName}
+                userAvatarUrl={profile?.avatar_url}
+                headerActions={
+                  <LessonExportMenu
+                    messages={messages}
+                    teacherName={selectedTeacher.name}
+                    studentName={learnerName}
+                    title={lessonPlan?.topic}
+                    getRecording={getLessonRecording}
+                  />
+                }
+              />
+            </div>
           </div>
         </div>
       </div>
@@ -486,7 +889,7 @@ const Index = () => {
             <p className="text-sm text-muted-foreground mb-4">
               Upload images, PDFs, or text files for {selectedTeacher?.name || 'your teacher'} to analyze.
             </p>
-            <FileUpload onFileProcessed={handleFileProcessed} disabled={!isConnected} />
+            <FileUpload onFileProcessed={handleFileProcessed} disabled={!isConnected && !isReconnecting} />
             <button
               onClick={() => setShowFileUpload(false)}
               className="mt-4 w-full py-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
@@ -502,6 +905,19 @@ const Index = () => {
         open={showWhiteboard}
         onOpenChange={handleWhiteboardOpenChange}
         content={whiteboardContent}
+        isStreaming={isWhiteboardStreaming}
+        onExplainStep={isConnected || isReconnecting ? handleExplainStep : undefined}
+        narration={narration}
+        exportMeta={selectedTeacher ? { teacherName: selectedTeacher.name, topic: lessonPlan?.topic } : undefined}
+        onSendDrawing={isConnected || isReconnecting ? handleSendDrawing : undefined}
+        sketchKey={sketchKey}
+      />
+
+      <AudioDeviceSettings
+        open={isAudioSettingsOpen}
+        onOpenChange={setIsAudioSettingsOpen}
+        preferences={audioDevices}
+        onPreferencesChange={handleAudioDevicesChange}
       />
 
       {/* Control Bar */}
@@ -516,6 +932,9 @@ const Index = () => {
         recordingTime={recordingTime}
         onToggleCamera={handleToggleCamera}
         onToggleMic={handleToggleMic}
+        isPushToTalk={micMode === "push-to-talk"}
+        onToggleMicMode={handleToggleMicMode}
+        onOpenAudioSettings={() => setIsAudioSettingsOpen(true)}
         onShare={handleShare}
         onCaptureScreen={handleCaptureScreen}
         onToggleCall={handleToggleCall}
@@ -549,6 +968,19 @@ const Index = () => {
                 : "bg-muted-foreground"
           }`} />
           {isReconnecting ? "Reconnecting..." : isConnected ? "Connected" : "Connecting..."}
+          {isConnected && !isReconnecting && (
+            <span
+              className="flex items-center gap-1 pl-2 border-l border-current/20 text-foreground/70"
+              title={
+                connectionQuality.rttMs === null
+                  ? "Measuring connection..."
+                  : `Round trip ${Math.round(connectionQuality.rttMs)} ms`
+              }
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${QUALITY_LABELS[connectionQuality.quality].dot}`} />
+              {QUALITY_LABELS[connectionQuality.quality].label}
+            </span>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,144 @@
+import { useEffect, useState, useCallback } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { History, PlayCircle } from "lucide-react";
+import TranscriptPanel from "@/components/TranscriptPanel";
+import WhiteboardModal from "@/components/WhiteboardModal";
+import { TEACHERS } from "@/lib/teachers";
+import { extractWhiteboardContent } from "@/lib/whiteboardParser";
+import { listLessonSessions, loadLessonMessages, type LessonSession } from "@/lib/lessonSessions";
+import type { Message } from "@/lib/chatMessage";
+import { useAuth } from "@/hooks/useAuth";
+
+const formatLessonDate = (iso: string) =>
+  new Date(iso).toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+
+const Lessons = () => {
+  const [sessions, setSessions] = useState<LessonSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [whiteboardContent, setWhiteboardContent] = useState("");
+  const [showWhiteboard, setShowWhiteboard] = useState(false);
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+
+  useEffect(() => {
+    listLessonSessions().then((rows) => {
+      setSessions(rows);
+      setIsLoading(false);
+      if (rows.length > 0) setSelectedId(rows[0].id);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    loadLessonMessages(selectedId).then((rows) => {
+      if (!cancelled) setMessages(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId]);
+
+  const handleShowWhiteboard = useCallback((content: string) => {
+    const { content: wbContent } = extractWhiteboardContent(content);
+    setWhiteboardContent(wbContent || content);
+    setShowWhiteboard(true);
+  }, []);
+
+  const selectedSession = sessions.find((s) => s.id === selectedId);
+  const selectedTeacher = TEACHERS.find((t) => t.id === selectedSession?.teacher_id);
+
+  return (
+    <div className="h-screen bg-background flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-6 py-4">
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          <h1 className="text-2xl font-display font-bold text-foreground">Past Lessons</h1>
+        </div>
+        <Link
+          to="/"
+          className="px-3 py-1.5 rounded-full bg-card text-muted-foreground hover:text-foreground text-sm font-medium shadow-md hover:shadow-lg transition-all"
+        >
+          Back to teachers
+        </Link>
+      </div>
+
+      <div className="flex-1 px-6 pb-6 overflow-hidden">
+        <div className="grid grid-cols-1 lg:grid-cols-12 gap-4 lg:gap-6 h-full max-w-[1400px] mx-auto overflow-hidden">
+          {/* Session list */}
+          <div className="panel-card lg:col-span-4 h-full min-h-0 overflow-y-auto p-2 border border-border/50">
+            {isLoading && <p className="p-4 text-sm text-muted-foreground">Loading lessons...</p>}
+            {!isLoading && sessions.length === 0 && (
+              <p className="p-4 text-sm text-muted-foreground">
+                No saved lessons yet. Start a call with a teacher and your transcript will appear here.
+              </p>
+            )}
+            {sessions.map((session) => {
+              const teacher = TEACHERS.find((t) => t.id === session.teacher_id);
+              const isSelected = session.id === selectedId;
+              return (
+                <button
+                  key={session.id}
+                  onClick={() => setSelectedId(session.id)}
+                  className={`w-full text-left rounded-xl px-4 py-3 transition-colors ${
+                    isSelected ? "bg-primary/10 text-foreground" : "hover:bg-muted text-muted-foreground"
+                  }`}
+                >
+                  <p className="font-medium text-foreground">
+                    {teacher ? `${teacher.emoji} ${teacher.name}` : session.teacher_id}
+                  </p>
+                  <p className="text-xs">{session.title || formatLessonDate(session.started_at)}</p>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Transcript */}
+          <div className="lg:col-span-8 h-full min-h-0 overflow-hidden flex flex-col gap-3">
+            {selectedSession && selectedTeacher && messages.length > 0 && (
+              <button
+                onClick={() => navigate(`/?resume=${selectedSession.id}`)}
+                className="self-end flex items-center gap-1.5 px-4 py-2 rounded-full bg-primary text-primary-foreground text-sm font-medium shadow-md hover:bg-primary/90 transition-colors"
+              >
+                <PlayCircle className="w-4 h-4" />
+                Continue this lesson
+              </button>
+            )}
+            {selectedSession && (
+              <div className="flex-1 min-h-0">
+                <TranscriptPanel
+                  messages={messages}
+                  partialTranscript=""
+                  isProcessing={false}
+                  teacherName={selectedTeacher?.name ?? selectedSession.teacher_id}
+                  subtitle={formatLessonDate(selectedSession.started_at)}
+                  onShowWhiteboard={handleShowWhiteboard}
+                  userName={profile?.display_name || "You"}
+                  userAvatarUrl={profile?.avatar_url}
+                  readOnly
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <WhiteboardModal
+        open={showWhiteboard}
+        onOpenChange={(open) => {
+          if (!open) setShowWhiteboard(false);
+        }}
+        content={whiteboardContent}
+        exportMeta={selectedSession ? {
+          teacherName: selectedTeacher?.name ?? selectedSession.teacher_id,
+          topic: selectedSession.title ?? undefined,
+          date: new Date(selectedSession.started_at),
+        } : undefined}
+      />
+    </div>
+  );
+};
+
+export default Lessons;
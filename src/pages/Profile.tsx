@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { LogOut, UserRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import LearnerMemoryPanel from "@/components/LearnerMemoryPanel";
+import { useAuth } from "@/hooks/useAuth";
+import { KEY_STAGES, formatYearGroup, isProfileComplete, type KeyStage } from "@/lib/profiles";
+import { toast } from "@/hooks/use-toast";
+
+const Profile = () => {
+  const { user, profile, updateProfile, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const isFirstSetup = !isProfileComplete(profile);
+  const from = (location.state as { from?: string } | null)?.from || "/";
+
+  const [displayName, setDisplayName] = useState("");
+  const [keyStage, setKeyStage] = useState<KeyStage | null>(null);
+  const [yearGroup, setYearGroup] = useState<number | null>(null);
+  const [bslFirst, setBslFirst] = useState(false);
+  const [captions, setCaptions] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profile) return;
+    setDisplayName(profile.display_name);
+    setKeyStage(profile.key_stage as KeyStage | null);
+    setYearGroup(profile.year_group);
+    setBslFirst(profile.bsl_first);
+    setCaptions(profile.captions);
+  }, [profile]);
+
+  const stage = KEY_STAGES.find((s) => s.value === keyStage);
+
+  const handleKeyStageChange = (value: string) => {
+    const next = KEY_STAGES.find((s) => s.value === value);
+    setKeyStage(next?.value ?? null);
+    // Keep the year group only if it belongs to the new key stage
+    if (next && (yearGroup === null || !next.years.includes(yearGroup))) {
+      setYearGroup(next.years.length === 1 ? next.years[0] : null);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!displayName.trim() || !keyStage) {
+      toast({ title: "Almost there", description: "Please add your name and key stage.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    const ok = await updateProfile({ displayName, keyStage, yearGroup, bslFirst, captions });
+    setIsSaving(false);
+
+    if (!ok) {
+      toast({ title: "Couldn't save your profile", description: "Please try again.", variant: "destructive" });
+      return;
+    }
+    toast({ title: "Profile saved" });
+    if (isFirstSetup) navigate(from, { replace: true });
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/auth", { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <div className="flex items-center justify-between px-6 py-4">
+        <div className="flex items-center gap-2">
+          <UserRound className="w-5 h-5 text-primary" />
+          <h1 className="text-2xl font-display font-bold text-foreground">
+            {isFirstSetup ? "Tell us about you" : "Your profile"}
+          </h1>
+        </div>
+        <div className="flex items-center gap-2">
+          {!isFirstSetup && (
+            <Link
+              to="/"
+              className="px-3 py-1.5 rounded-full bg-card text-muted-foreground hover:text-foreground text-sm font-medium shadow-md hover:shadow-lg transition-all"
+            >
+              Back to teachers
+            </Link>
+          )}
+          <button
+            onClick={handleSignOut}
+            className="px-3 py-1.5 rounded-full bg-card text-muted-foreground hover:text-foreground text-sm font-medium shadow-md hover:shadow-lg transition-all flex items-center gap-1.5"
+          >
+            <LogOut className="w-4 h-4" />
+            Sign out
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 px-6 pb-6 space-y-6">
+        <form onSubmit={handleSave} className="panel-card max-w-lg mx-auto p-6 border border-border/50 space-y-5">
+          <p className="text-sm text-muted-foreground">
+            Your teachers use this to pitch lessons at the right level. Signed in as {user?.email}.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="display-name">What should your teachers call you?</Label>
+            <Input id="display-name" value={displayName} onChange={(e) => setDisplayName(e.target.value)} maxLength={60} required />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Key stage</Label>
+              <Select value={keyStage ?? undefined} onValueChange={handleKeyStageChange}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {KEY_STAGES.map((s) => (
+                    <SelectItem key={s.value} value={s.value}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Year group</Label>
+              <Select
+                value={yearGroup !== null ? String(yearGroup) : undefined}
+                onValueChange={(value) => setYearGroup(Number(value))}
+                disabled={!stage}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {stage?.years.map((year) => (
+                    <SelectItem key={year} value={String(year)}>{formatYearGroup(year)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Accessibility</p>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="bsl-first" className="font-normal">British Sign Language is my first language</Label>
+              <Switch id="bsl-first" checked={bslFirst} onCheckedChange={setBslFirst} />
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="captions" className="font-normal">I rely on captions</Label>
+              <Switch id="captions" checked={captions} onCheckedChange={setCaptions} />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isFirstSetup ? "Start learning" : "Save profile"}
+          </Button>
+        </form>
+
+        {!isFirstSetup && <LearnerMemoryPanel />}
+      </div>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DEFAULT_AUDIO_DEVICES,
+  analyseEcho,
+  createChirp,
+  loadAudioDevicePreferences,
+  saveAudioDevicePreferences,
+  setOutputDevice,
+} from '@/lib/audioDevices';
+
+const RATE = 16000;
+
+// Deterministic noise so failures reproduce
+const noise = (length: number, amplitude: number, seed = 1) => {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return amplitude * (state / 2 ** 30 - 1);
+  });
+};
+
+// The chirp as the microphone would hear it: delayed, quieter, over room noise
+const withEcho = (reference: Float32Array, delayMs: number, gain: number, noiseLevel: number) => {
+  const recorded = noise(RATE, noiseLevel);
+  const offset = Math.round((delayMs / 1000) * RATE);
+  reference.forEach((s, i) => (recorded[offset + i] += gain * s));
+  return recorded;
+};
+
+describe('audio device preferences', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('remembers devices separately for each user', () => {
+    saveAudioDevicePreferences('user-a', { inputDeviceId: 'headset-mic', outputDeviceId: 'headset' });
+    saveAudioDevicePreferences('user-b', { inputDeviceId: null, outputDeviceId: 'speakers' });
+
+    expect(loadAudioDevicePreferences('user-a')).toEqual({ inputDeviceId: 'headset-mic', outputDeviceId: 'headset' });
+    expect(loadAudioDevicePreferences('user-b')).toEqual({ inputDeviceId: null, outputDeviceId: 'speakers' });
+    expect(loadAudioDevicePreferences('user-c')).toEqual(DEFAULT_AUDIO_DEVICES);
+  });
+
+  it('falls back to the defaults when the stored value is unreadable', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem('audioDevices:user-a', '{not json');
+    expect(loadAudioDevicePreferences('user-a')).toEqual(DEFAULT_AUDIO_DEVICES);
+    localStorage.setItem('audioDevices:user-a', JSON.stringify({ inputDeviceId: 42 }));
+    expect(loadAudioDevicePreferences('user-a')).toEqual(DEFAULT_AUDIO_DEVICES);
+  });
+});
+
+describe('setOutputDevice', () => {
+  it('reports false where speakers cannot be chosen', async () => {
+    expect(await setOutputDevice({} as AudioContext, 'headset')).toBe(false);
+  });
+
+  it('passes the default as an empty sink id', async () => {
+    const setSinkId = vi.fn().mockResolvedValue(undefined);
+    expect(await setOutputDevice({ setSinkId } as unknown as HTMLAudioElement, null)).toBe(true);
+    expect(setSinkId).toHaveBeenCalledWith('');
+  });
+});
+
+describe('analyseEcho', () => {
+  const chirp = createChirp(RATE);
+
+  it('finds a loud echo and its delay', () => {
+    const result = analyseEcho(chirp, withEcho(chirp, 180, 0.2, 0.01), RATE);
+    expect(result.echoDetected).toBe(true);
+    expect(result.delayMs).toBeCloseTo(180, 0);
+    expect(result.returnLossDb).toBeCloseTo(14, 0);
+  });
+
+  it('measures a faint echo without flagging it', () => {
+    const result = analyseEcho(chirp, withEcho(chirp, 250, 0.01, 0.001), RATE);
+    expect(result.echoDetected).toBe(false);
+    expect(result.returnLossDb).toBeCloseTo(40, 0);
+  });
+
+  it('finds nothing in room noise or silence', () => {
+    expect(analyseEcho(chirp, noise(RATE, 0.05), RATE)).toEqual({
+      echoDetected: false,
+      returnLossDb: Infinity,
+      delayMs: null,
+    });
+    expect(analyseEcho(chirp, new Float32Array(RATE), RATE).echoDetected).toBe(false);
+  });
+});
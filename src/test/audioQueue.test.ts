@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { AudioQueue } from '@/lib/audioUtils';
+import { FakeAudioContext } from './fakeAudioContext';
+
+// 100 ms of PCM16 at 24 kHz
+const chunk = (samples = 2400) => new Uint8Array(samples * 2);
+
+const createQueue = () => {
+  const context = new FakeAudioContext({ sampleRate: 24000 });
+  const queue = new AudioQueue(context as unknown as AudioContext, { jitterBufferMs: 50 });
+  return { context, queue };
+};
+
+describe('AudioQueue', () => {
+  it('schedules chunks back to back after a jitter buffer', () => {
+    const { context, queue } = createQueue();
+    context.currentTime = 1;
+    queue.addToQueue(chunk());
+    queue.addToQueue(chunk());
+    queue.addToQueue(chunk());
+
+    expect(context.sources.map((s) => s.startedAt)).toEqual([1.05, expect.closeTo(1.15, 6), expect.closeTo(1.25, 6)]);
+    expect(queue.getBufferedDuration()).toBeCloseTo(0.35, 6);
+    expect(queue.isPlaying).toBe(true);
+  });
+
+  it('reports how much of the stream has been played', () => {
+    const { context, queue } = createQueue();
+    queue.addToQueue(chunk());
+    queue.addToQueue(chunk());
+
+    expect(queue.getPlaybackPosition()).toBe(0);
+    context.currentTime = 0.2;
+    expect(queue.getPlaybackPosition()).toBeCloseTo(0.15, 6);
+    context.currentTime = 1;
+    expect(queue.getPlaybackPosition()).toBeCloseTo(0.2, 6);
+    expect(queue.getBufferedDuration()).toBe(0);
+  });
+
+  it('restarts with a jitter buffer after an underrun', () => {
+    const { context, queue } = createQueue();
+    queue.addToQueue(chunk());
+    context.currentTime = 0.5;
+    queue.addToQueue(chunk());
+    expect(context.sources[1].startedAt).toBeCloseTo(0.55, 6);
+  });
+
+  it('joins a sample split across chunks', () => {
+    const { context, queue } = createQueue();
+    queue.addToQueue(new Uint8Array([0x00, 0x40, 0xff]));
+    queue.addToQueue(new Uint8Array([0x7f]));
+    const [first, second] = context.sources.map((s) => s.buffer as AudioBuffer);
+    expect(first.getChannelData(0)[0]).toBeCloseTo(0.5, 6);
+    expect(second.getChannelData(0)[0]).toBeCloseTo(32767 / 32768, 6);
+  });
+
+  it('stops everything that is scheduled on clear', () => {
+    const { context, queue } = createQueue();
+    queue.addToQueue(chunk());
+    queue.addToQueue(chunk());
+    queue.clear();
+    expect(context.sources.every((s) => s.stopped)).toBe(true);
+    expect(queue.getBufferedDuration()).toBe(0);
+    expect(queue.getPlaybackPosition()).toBe(0);
+  });
+});
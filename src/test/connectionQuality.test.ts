@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useConnectionQuality } from '@/hooks/useConnectionQuality';
+import {
+  ConnectionQualityMonitor,
+  isMediaLevelAtLeast,
+  rateSample,
+  screenshotSettings,
+  summariseVideoStats,
+  type ConnectionSample,
+} from '@/lib/connectionQuality';
+
+const good: ConnectionSample = { rttMs: 80, bufferedBytes: 0, video: null };
+const fair: ConnectionSample = { rttMs: 80, bufferedBytes: 20 * 1024, video: null };
+const poor: ConnectionSample = { rttMs: null, bufferedBytes: 0, video: null };
+
+const feed = (monitor: ConnectionQualityMonitor, sample: ConnectionSample, times: number) => {
+  for (let i = 0; i < times; i++) monitor.add(sample);
+  return monitor.state;
+};
+
+// RTCStatsReport is a read-only Map of stats objects
+const statsReport = (...stats: Array<Record<string, unknown>>) =>
+  new Map(stats.map((s, i) => [`stat-${i}`, s])) as unknown as RTCStatsReport;
+
+describe('rateSample', () => {
+  it('rates on the worst measurement', () => {
+    expect(rateSample(good)).toBe('good');
+    expect(rateSample(fair)).toBe('fair');
+    expect(rateSample({ ...good, rttMs: 900 })).toBe('poor');
+    expect(rateSample({ ...good, bufferedBytes: 20 * 1024 })).toBe('fair');
+    expect(rateSample({ ...good, bufferedBytes: 100 * 1024 })).toBe('poor');
+    expect(rateSample({ ...good, video: { packetLossPercent: 12, jitterMs: 5, framesPerSecond: 25 } })).toBe('poor');
+  });
+
+  it('treats a lost ping as poor', () => {
+    expect(rateSample(poor)).toBe('poor');
+  });
+});
+
+describe('ConnectionQualityMonitor', () => {
+  it('steps media down one level per run of poor samples', () => {
+    const monitor = new ConnectionQualityMonitor({ degradeAfter: 3 });
+    expect(feed(monitor, poor, 2).level).toBe('full');
+    expect(feed(monitor, poor, 1).level).toBe('reduced-screenshots');
+    expect(feed(monitor, poor, 3).level).toBe('no-avatar-video');
+    expect(feed(monitor, poor, 3).level).toBe('text-only');
+    expect(feed(monitor, poor, 6).level).toBe('text-only');
+  });
+
+  it('needs a longer run of good samples to step back up', () => {
+    const monitor = new ConnectionQualityMonitor({ degradeAfter: 2, recoverAfter: 5 });
+    feed(monitor, poor, 4);
+    expect(monitor.state.level).toBe('no-avatar-video');
+
+    expect(feed(monitor, good, 4).level).toBe('no-avatar-video');
+    // A fair sample holds the level and restarts the good run
+    monitor.add(fair);
+    expect(feed(monitor, good, 4).level).toBe('no-avatar-video');
+    expect(feed(monitor, good, 1).level).toBe('reduced-screenshots');
+    expect(feed(monitor, good, 5).level).toBe('full');
+  });
+
+  it('ignores a single bad sample between good ones', () => {
+    const monitor = new ConnectionQualityMonitor({ degradeAfter: 3 });
+    for (let i = 0; i < 10; i++) {
+      monitor.add(good);
+      monitor.add(poor);
+    }
+    expect(monitor.state.level).toBe('full');
+  });
+
+  it('stops at the lowest level allowed', () => {
+    const monitor = new ConnectionQualityMonitor({ degradeAfter: 1, lowestLevel: 'reduced-screenshots' });
+    expect(feed(monitor, poor, 5).level).toBe('reduced-screenshots');
+  });
+
+  it('smooths the round trip time and starts again on reset', () => {
+    const monitor = new ConnectionQualityMonitor();
+    monitor.add({ ...good, rttMs: 100 });
+    monitor.add({ ...good, rttMs: 200 });
+    expect(monitor.state.rttMs).toBeCloseTo(130);
+    // A lost ping leaves the smoothed value alone
+    monitor.add(poor);
+    expect(monitor.state.rttMs).toBeCloseTo(130);
+
+    monitor.reset();
+    expect(monitor.state).toEqual({ quality: 'good', level: 'full', rttMs: null, bufferedBytes: 0, video: null });
+  });
+});
+
+describe('summariseVideoStats', () => {
+  it('measures loss since the previous counters', () => {
+    const first = summariseVideoStats(
+      statsReport(
+        { type: 'inbound-rtp', kind: 'audio', packetsLost: 50, packetsReceived: 50 },
+        { type: 'inbound-rtp', kind: 'video', packetsLost: 10, packetsReceived: 990, jitter: 0.02, framesPerSecond: 24 }
+      ),
+      null
+    );
+    expect(first!.stats).toEqual({ packetLossPercent: 1, jitterMs: 20, framesPerSecond: 24 });
+
+    const second = summariseVideoStats(
+      statsReport({ type: 'inbound-rtp', kind: 'video', packetsLost: 20, packetsReceived: 1080 }),
+      first!.counters
+    );
+    expect(second!.stats.packetLossPercent).toBeCloseTo(10);
+    expect(second!.stats.framesPerSecond).toBeNull();
+  });
+
+  it('returns null without inbound video', () => {
+    expect(summariseVideoStats(statsReport({ type: 'candidate-pair', currentRoundTripTime: 0.1 }), null)).toBeNull();
+  });
+});
+
+describe('media levels', () => {
+  it('orders levels from full to text only', () => {
+    expect(isMediaLevelAtLeast('text-only', 'no-avatar-video')).toBe(true);
+    expect(isMediaLevelAtLeast('reduced-screenshots', 'no-avatar-video')).toBe(false);
+    expect(isMediaLevelAtLeast('full', 'full')).toBe(true);
+  });
+
+  it('shrinks screenshots once the connection has struggled', () => {
+    expect(screenshotSettings('full')).toEqual({ maxWidth: 1280, quality: 0.8 });
+    expect(screenshotSettings('no-avatar-video').quality).toBeLessThan(0.8);
+  });
+});
+
+describe('useConnectionQuality', () => {
+  it('keeps the stepped-down level across an automatic reconnect and resets after a disconnect', async () => {
+    const { result, rerender } = renderHook(
+      ({ isConnected, isReconnecting }) =>
+        useConnectionQuality({ isConnected, isReconnecting, ping: async () => null, getBufferedAmount: () => 0, intervalMs: 5 }),
+      { initialProps: { isConnected: true, isReconnecting: false } }
+    );
+
+    await waitFor(() => expect(result.current.level).not.toBe('full'));
+    const degraded = result.current.level;
+
+    rerender({ isConnected: false, isReconnecting: true });
+    expect(result.current.level).toBe(degraded);
+
+    rerender({ isConnected: false, isReconnecting: false });
+    expect(result.current.level).toBe('full');
+  });
+});
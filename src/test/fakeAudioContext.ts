@@ -0,0 +1,80 @@
+/**
+ * Minimal Web Audio stand-in for jsdom, enough for the realtime chat hook
+ * to create its output queue and "play" audio instantly.
+ */
+export interface FakeBufferSource {
+  buffer: unknown;
+  onended: null | (() => void);
+  startedAt: number | null;
+  stopped: boolean;
+  connect: () => void;
+  disconnect: () => void;
+  start: (when?: number) => void;
+  stop: () => void;
+}
+
+export class FakeAudioContext {
+  state = 'running';
+  currentTime = 0;
+  sampleRate: number;
+  sources: FakeBufferSource[] = [];
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+  }
+
+  createMediaStreamDestination() {
+    return { stream: { getAudioTracks: () => [] } };
+  }
+
+  createGain() {
+    return { gain: { value: 1 }, connect: () => {}, disconnect: () => {} };
+  }
+
+  createBuffer(channels: number, length: number, sampleRate: number) {
+    const data = new Float32Array(length);
+    return {
+      numberOfChannels: channels,
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      getChannelData: () => data,
+      copyToChannel: (source: Float32Array) => data.set(source),
+    };
+  }
+
+  decodeAudioData(buffer: ArrayBuffer) {
+    // 44-byte WAV header, PCM16 mono at 24 kHz
+    const samples = Math.max(0, (buffer.byteLength - 44) / 2);
+    return Promise.resolve(this.createBuffer(1, samples, 24000));
+  }
+
+  createBufferSource() {
+    const source: FakeBufferSource = {
+      buffer: null,
+      onended: null,
+      startedAt: null,
+      stopped: false,
+      connect: () => {},
+      disconnect: () => {},
+      start: (when = 0) => {
+        source.startedAt = when;
+        setTimeout(() => source.onended?.(), 0);
+      },
+      stop: () => {
+        source.stopped = true;
+      },
+    };
+    this.sources.push(source);
+    return source;
+  }
+
+  resume() {
+    return Promise.resolve();
+  }
+
+  close() {
+    this.state = 'closed';
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { buildMemoryBlock, type LearnerMemory } from '@/lib/learnerMemory';
+
+let nextId = 0;
+const memory = (kind: string, content: string, createdAt: string): LearnerMemory => ({
+  id: `memory-${nextId++}`,
+  user_id: 'user-1',
+  kind,
+  content,
+  source_session_id: null,
+  created_at: createdAt,
+});
+
+describe('buildMemoryBlock', () => {
+  it('is empty when nothing is remembered', () => {
+    expect(buildMemoryBlock([])).toBe('');
+  });
+
+  it('groups memories by kind', () => {
+    const block = buildMemoryBlock([
+      memory('strength', 'Confident with times tables', '2026-10-18T10:00:00Z'),
+      memory('misconception', 'Adds denominators when adding fractions', '2026-10-18T10:01:00Z'),
+      memory('goal', 'Maths exam in June', '2026-10-17T10:00:00Z'),
+    ]);
+
+    expect(block).toContain('<learner_memory>');
+    expect(block).toMatch(/<goal>\n- Maths exam in June\n {2}<\/goal>/);
+    expect(block).toMatch(/<misconception>\n- Adds denominators when adding fractions\n {2}<\/misconception>/);
+    expect(block).toMatch(/<strength>\n- Confident with times tables\n {2}<\/strength>/);
+    expect(block).not.toContain('<preference>');
+  });
+
+  it('keeps the newest memories when over the character budget', () => {
+    const block = buildMemoryBlock(
+      [
+        memory('fact', 'Oldest note about the student', '2026-10-01T10:00:00Z'),
+        memory('fact', 'Newest note about the student', '2026-10-18T10:00:00Z'),
+      ],
+      40
+    );
+
+    expect(block).toContain('Newest note');
+    expect(block).not.toContain('Oldest note');
+  });
+});
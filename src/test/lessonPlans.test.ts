@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { LESSON_PLANS, buildLessonPlanContext, getLessonPlan, getLessonPlansForTeacher } from '@/lib/lessonPlans';
+import { TEACHERS } from '@/lib/teachers';
+
+describe('LESSON_PLANS', () => {
+  it('belong to a teacher who teaches the subject', () => {
+    for (const plan of LESSON_PLANS) {
+      const teacher = TEACHERS.find((t) => t.id === plan.teacherId);
+      expect(teacher, plan.id).toBeDefined();
+      expect(teacher!.subjects, plan.id).toContain(plan.subject);
+    }
+  });
+
+  it('have unique ids and objective ids', () => {
+    const ids = LESSON_PLANS.map((p) => p.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const plan of LESSON_PLANS) {
+      const objectiveIds = plan.objectives.map((o) => o.id);
+      expect(new Set(objectiveIds).size, plan.id).toBe(objectiveIds.length);
+      expect(plan.activities.length, plan.id).toBeGreaterThan(0);
+    }
+  });
+
+  it('gives every teacher at least one plan', () => {
+    for (const teacher of TEACHERS) {
+      expect(getLessonPlansForTeacher(teacher.id).length, teacher.id).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('getLessonPlansForTeacher', () => {
+  it("lists the learner's key stage first", () => {
+    const plans = getLessonPlansForTeacher('hank', 'KS4');
+    expect(plans[0].keyStage).toBe('KS4');
+    expect(plans[plans.length - 1].keyStage).toBe('KS3');
+  });
+});
+
+describe('buildLessonPlanContext', () => {
+  it('is empty for open chat', () => {
+    expect(buildLessonPlanContext(null)).toBe('');
+  });
+
+  it('lists objectives with ids and marks completed ones', () => {
+    const context = buildLessonPlanContext(getLessonPlan('hank-ks3-linear-equations'), ['two-step']);
+    expect(context).toContain('<topic>Solving linear equations</topic>');
+    expect(context).toContain('<objective id="inverse-operations">');
+    expect(context).toContain('<objective id="two-step" status="complete">');
+    expect(context).toContain('<activity order="1" kind="starter" minutes="3">');
+    expect(context).toContain('mark_objective_complete');
+  });
+});
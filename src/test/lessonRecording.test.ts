@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { LessonRecording, recordingToWav } from '@/lib/lessonRecording';
+import { createWavFromPCM } from '@/lib/audioUtils';
+
+const readBlob = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+
+const constant = (value: number, length: number) => new Float32Array(length).fill(value);
+
+describe('LessonRecording', () => {
+  it('places both tracks on one timeline from the start of the lesson', () => {
+    const recording = new LessonRecording(1000);
+    // 100 ms of teacher at 24 kHz starting 0.5 s in, 100 ms of student at 16 kHz at 1 s
+    recording.add('teacher', constant(0.5, 2400), 24000, 1500);
+    recording.add('student', new Int16Array(1600).fill(8192), 16000, 2000);
+
+    expect(recording.durationMs).toBeCloseTo(1100, 6);
+    const mix = recording.mixdown(24000);
+    expect(mix.length).toBe(26400);
+    expect(mix[11000]).toBe(0);
+    expect(mix[12000 + 1200]).toBeCloseTo(0.5, 3);
+    // The student track is resampled to 24 kHz
+    expect(mix[24000 + 1200]).toBeCloseTo(0.25, 2);
+  });
+
+  it('mixes the same a block at a time as all at once', () => {
+    const recording = new LessonRecording(0);
+    recording.add('teacher', constant(0.5, 2400), 24000, 0);
+    recording.add('teacher', constant(-0.25, 2400), 24000, 100);
+    recording.add('student', new Int16Array(3200).fill(8192), 16000, 50);
+
+    const whole = recording.mixdown(24000);
+    const blocks = [...recording.mixdownBlocks(24000, 1100)];
+    expect(blocks.map((b) => b.length)).toEqual([1100, 1100, 1100, 1100, 1100, 500]);
+    expect(blocks.flatMap((block) => Array.from(block))).toEqual(Array.from(whole));
+    expect(whole[3600]).toBeCloseTo(0, 2);
+  });
+
+  it('joins chunks that arrive with a little timestamp jitter', () => {
+    const recording = new LessonRecording(0);
+    recording.add('teacher', constant(0.1, 2400), 24000, 0);
+    recording.add('teacher', constant(0.1, 2400), 24000, 130);
+    expect(recording.durationMs).toBeCloseTo(200, 6);
+  });
+
+  it('drops audio cut off by a barge-in', () => {
+    const recording = new LessonRecording(0);
+    recording.add('teacher', constant(0.1, 24000), 24000, 0);
+    recording.add('teacher', constant(0.1, 2400), 24000, 3000);
+    recording.truncate('teacher', 400);
+    expect(recording.durationMs).toBeCloseTo(400, 6);
+  });
+
+  it('exports a WAV at the requested rate', async () => {
+    const recording = new LessonRecording(0);
+    recording.add('teacher', constant(0.1, 2400), 24000, 0);
+    const wav = await readBlob(recordingToWav(recording, 16000));
+    const view = new DataView(wav.buffer);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(40, true)).toBe(1600 * 2);
+  });
+});
+
+describe('createWavFromPCM', () => {
+  it('writes the sample rate and channel count it is given', () => {
+    const wav = createWavFromPCM(new Uint8Array(8), { sampleRate: 48000, numChannels: 2 });
+    const view = new DataView(wav.buffer);
+    expect(String.fromCharCode(...wav.subarray(0, 4))).toBe('RIFF');
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(48000);
+    expect(view.getUint32(28, true)).toBe(48000 * 4);
+    expect(view.getUint32(40, true)).toBe(8);
+  });
+
+  it('defaults to 24 kHz mono', () => {
+    const view = new DataView(createWavFromPCM(new Uint8Array(4)).buffer);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { areEquivalent, evaluateConstant, parseMathExpression, MathParseError } from '@/lib/mathExpression';
+
+describe('evaluateConstant', () => {
+  it('reads plain and LaTeX arithmetic', () => {
+    expect(evaluateConstant('3/4')).toBe(0.75);
+    expect(evaluateConstant('\\frac{3}{4}')).toBe(0.75);
+    expect(evaluateConstant('2^{3}')).toBe(8);
+    expect(evaluateConstant('-2^2')).toBe(-4);
+    expect(evaluateConstant('\\sqrt[3]{-8}')).toBeCloseTo(-2);
+    expect(evaluateConstant('2\\sqrt{2}')).toBeCloseTo(2 * Math.SQRT2);
+    expect(evaluateConstant('\\left(1 + 2\\right) \\times 3')).toBe(9);
+    expect(evaluateConstant('$2\\pi$')).toBeCloseTo(2 * Math.PI);
+  });
+
+  it('returns null for expressions with variables or nonsense', () => {
+    expect(evaluateConstant('2x')).toBeNull();
+    expect(evaluateConstant('3 +')).toBeNull();
+  });
+});
+
+describe('parseMathExpression', () => {
+  it('rejects unbalanced brackets', () => {
+    expect(() => parseMathExpression('(x + 1')).toThrow(MathParseError);
+  });
+});
+
+describe('areEquivalent', () => {
+  it('accepts rearranged and factorised forms', () => {
+    expect(areEquivalent('2x + 2', '2(x + 1)')).toBe(true);
+    expect(areEquivalent('x^2 - 1', '(x - 1)(x + 1)')).toBe(true);
+    expect(areEquivalent('\\frac{x}{2}', '0.5x')).toBe(true);
+    expect(areEquivalent('\\sin^2 x + \\cos^2 x', '1')).toBe(true);
+    expect(areEquivalent('a b', 'ba')).toBe(true);
+  });
+
+  it('rejects different expressions', () => {
+    expect(areEquivalent('2x + 2', '2x + 1')).toBe(false);
+    expect(areEquivalent('x^2', '2x')).toBe(false);
+    expect(areEquivalent('2x', '2y')).toBe(false);
+    expect(areEquivalent('x', 'not maths (')).toBe(false);
+  });
+
+  it('compares equations up to swapped sides and scaling', () => {
+    expect(areEquivalent('y = 2x + 1', '2x + 1 = y')).toBe(true);
+    expect(areEquivalent('y = 2x + 1', '2y = 4x + 2')).toBe(true);
+    expect(areEquivalent('y = 2x + 1', 'y = 2x - 1')).toBe(false);
+  });
+
+  it('accepts a bare value for "x = value"', () => {
+    expect(areEquivalent('x = 4', '4')).toBe(true);
+    expect(areEquivalent('x = 4', '8/2')).toBe(true);
+    expect(areEquivalent('4', 'x = 4')).toBe(true);
+    expect(areEquivalent('x = 4', '5')).toBe(false);
+  });
+});
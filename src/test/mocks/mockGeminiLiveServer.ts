@@ -0,0 +1,198 @@
+/**
+ * Mock Gemini Live Server
+ *
+ * Local WebSocket stand-in for the `realtime-chat` edge function. Speaks the
+ * same contract: `proxy.gemini_connected` on connect, `setupComplete` after the
+ * setup message, then scripted `serverContent` replies to each user turn.
+ * Used by integration tests and `npm run mock:gemini` for offline development.
+ */
+
+import { WebSocketServer, type WebSocket } from "ws";
+import type { AddressInfo } from "net";
+
+/** A raw message sent to the client, optionally after a delay */
+export interface MockServerStep {
+  message: Record<string, unknown>;
+  delayMs?: number;
+  /** Close the client socket after sending (simulates a dropped connection) */
+  closeAfter?: boolean;
+}
+
+export interface MockClientMessage {
+  type?: string;
+  id?: number;
+  setup?: Record<string, unknown>;
+  clientContent?: {
+    turns: Array<{ role: string; parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> }>;
+    turnComplete?: boolean;
+  };
+  realtimeInput?: Record<string, unknown>;
+  toolResponse?: { functionResponses: Array<{ id: string; name: string; response: Record<string, unknown> }> };
+}
+
+export interface MockTurnScript {
+  /** Defaults to any `clientContent` turn with `turnComplete: true` */
+  match?: (message: MockClientMessage) => boolean;
+  steps: MockServerStep[];
+}
+
+export interface MockGeminiLiveScript {
+  /** Steps sent right after `setupComplete` on every connection */
+  afterSetup?: MockServerStep[];
+  /** Replies consumed in order across all connections */
+  turns?: MockTurnScript[];
+  /** Delay before answering `proxy.ping`; null never answers */
+  pongDelayMs?: number | null;
+  /** Set to false to take the setup message but never send `setupComplete` */
+  completeSetup?: boolean;
+}
+
+export interface MockConnectionLog {
+  setup: Record<string, unknown> | null;
+  received: MockClientMessage[];
+}
+
+export interface MockGeminiLiveServer {
+  url: string;
+  /** One entry per client connection, in order */
+  connections: MockConnectionLog[];
+  /** Send a message to every connected client */
+  broadcast: (message: Record<string, unknown>) => void;
+  close: () => Promise<void>;
+}
+
+const SAMPLE_RATE = 24000;
+
+// ---- Message builders matching the Gemini Live wire format ----
+
+export const geminiText = (text: string): Record<string, unknown> => ({
+  serverContent: { modelTurn: { parts: [{ text }] } },
+});
+
+export const geminiInputTranscription = (text: string): Record<string, unknown> => ({
+  serverContent: { inputTranscription: { text } },
+});
+
+export const geminiOutputTranscription = (text: string): Record<string, unknown> => ({
+  serverContent: { outputTranscription: { text } },
+});
+
+/** A sine tone as base64 PCM16 at 24 kHz, standing in for model speech */
+export const geminiAudio = (durationMs: number, frequency = 220): Record<string, unknown> => {
+  const samples = Math.round((SAMPLE_RATE * durationMs) / 1000);
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * 8000), i * 2);
+  }
+  return {
+    serverContent: {
+      modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${SAMPLE_RATE}`, data: pcm.toString("base64") } }] },
+    },
+  };
+};
+
+export const geminiInterrupted = (): Record<string, unknown> => ({ serverContent: { interrupted: true } });
+
+export const geminiTurnComplete = (): Record<string, unknown> => ({ serverContent: { turnComplete: true } });
+
+export const geminiToolCall = (
+  calls: Array<{ id: string; name: string; args?: Record<string, unknown> }>
+): Record<string, unknown> => ({
+  toolCall: { functionCalls: calls.map((call) => ({ args: {}, ...call })) },
+});
+
+export const geminiGoAway = (timeLeft = "10s"): Record<string, unknown> => ({ goAway: { timeLeft } });
+
+const isCompletedUserTurn = (message: MockClientMessage) => message.clientContent?.turnComplete === true;
+
+/**
+ * Start the mock server. Pass `port: 0` (the default) for a random free port.
+ */
+export function startMockGeminiLiveServer(
+  script: MockGeminiLiveScript = {},
+  port = 0
+): Promise<MockGeminiLiveServer> {
+  const pendingTurns = [...(script.turns ?? [])];
+  const connections: MockConnectionLog[] = [];
+  const sockets = new Set<WebSocket>();
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+
+  const play = (socket: WebSocket, steps: MockServerStep[]) => {
+    let elapsed = 0;
+    for (const step of steps) {
+      elapsed += step.delayMs ?? 0;
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        if (socket.readyState !== socket.OPEN) return;
+        socket.send(JSON.stringify(step.message));
+        if (step.closeAfter) socket.close(1011, "Mock connection dropped");
+      }, elapsed);
+      timers.add(timer);
+    }
+  };
+
+  return new Promise((resolve) => {
+    const wss = new WebSocketServer({ port }, () => {
+      const address = wss.address() as AddressInfo;
+      resolve({
+        url: `ws://127.0.0.1:${address.port}`,
+        connections,
+        broadcast: (message) => {
+          sockets.forEach((socket) => socket.send(JSON.stringify(message)));
+        },
+        close: () =>
+          new Promise<void>((done) => {
+            timers.forEach((timer) => clearTimeout(timer));
+            sockets.forEach((socket) => socket.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+
+    wss.on("connection", (socket) => {
+      const log: MockConnectionLog = { setup: null, received: [] };
+      connections.push(log);
+      sockets.add(socket);
+      socket.on("close", () => sockets.delete(socket));
+
+      // Mirror the edge function: tell the client the upstream is ready
+      socket.send(JSON.stringify({ type: "proxy.gemini_connected" }));
+
+      socket.on("message", (raw) => {
+        let message: MockClientMessage;
+        try {
+          message = JSON.parse(raw.toString());
+        } catch {
+          return;
+        }
+
+        // Like the edge function, answer pings without involving the model
+        if (message.type === "proxy.ping") {
+          if (script.pongDelayMs !== null) {
+            const timer = setTimeout(() => {
+              timers.delete(timer);
+              if (socket.readyState === socket.OPEN) socket.send(JSON.stringify({ type: "proxy.pong", id: message.id }));
+            }, script.pongDelayMs ?? 0);
+            timers.add(timer);
+          }
+          return;
+        }
+
+        if (message.setup) {
+          log.setup = message.setup;
+          if (script.completeSetup === false) return;
+          socket.send(JSON.stringify({ setupComplete: {} }));
+          play(socket, script.afterSetup ?? []);
+          return;
+        }
+
+        log.received.push(message);
+
+        const index = pendingTurns.findIndex((turn) => (turn.match ?? isCompletedUserTurn)(message));
+        if (index === -1) return;
+        const [turn] = pendingTurns.splice(index, 1);
+        play(socket, turn.steps);
+      });
+    });
+  });
+}
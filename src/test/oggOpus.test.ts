@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { muxOggOpus, oggCrc32 } from '@/lib/oggOpus';
+
+const readPages = (file: Uint8Array) => {
+  const pages: Array<{ flags: number; granule: number; sequence: number; segments: number[]; crcOk: boolean }> = [];
+  let offset = 0;
+  while (offset < file.length) {
+    const view = new DataView(file.buffer, file.byteOffset + offset);
+    expect(String.fromCharCode(...file.subarray(offset, offset + 4))).toBe('OggS');
+    const count = view.getUint8(26);
+    const segments = Array.from(file.subarray(offset + 27, offset + 27 + count));
+    const length = 27 + count + segments.reduce((a, b) => a + b, 0);
+    const page = file.slice(offset, offset + length);
+    const stored = new DataView(page.buffer).getUint32(22, true);
+    page.fill(0, 22, 26);
+    pages.push({
+      flags: view.getUint8(5),
+      granule: view.getUint32(6, true),
+      sequence: view.getUint32(18, true),
+      segments,
+      crcOk: oggCrc32(page) === stored,
+    });
+    offset += length;
+  }
+  return pages;
+};
+
+describe('oggCrc32', () => {
+  it('matches the Ogg CRC check value', () => {
+    expect(oggCrc32(new TextEncoder().encode('123456789'))).toBe(0x89a1897f);
+  });
+});
+
+describe('muxOggOpus', () => {
+  it('writes header pages then audio pages with granule positions', () => {
+    const packets = [
+      { data: new Uint8Array(300), samples: 960 },
+      { data: new Uint8Array(40), samples: 960 },
+    ];
+    const file = muxOggOpus(packets, { inputSampleRate: 24000, preSkip: 312, totalSamples: 1500 });
+    const pages = readPages(file);
+
+    expect(pages).toHaveLength(3);
+    expect(pages.every((p) => p.crcOk)).toBe(true);
+    expect(pages.map((p) => p.sequence)).toEqual([0, 1, 2]);
+    expect(pages[0].flags).toBe(0x02);
+    expect(String.fromCharCode(...file.subarray(28, 36))).toBe('OpusHead');
+    // A 300-byte packet laces as 255 + 45
+    expect(pages[2].segments).toEqual([255, 45, 40]);
+    expect(pages[2].flags).toBe(0x04);
+    // The end is trimmed to the real audio, not the padded last frame
+    expect(pages[2].granule).toBe(312 + 1500);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { OutboundQueue, imageEntryKey, textEntryKey, type OutboundPayload } from '@/lib/outboundQueue';
+
+const text = (value: string, turnComplete = true): OutboundPayload => ({ type: 'text', text: value, turnComplete });
+
+describe('OutboundQueue', () => {
+  beforeEach(() => sessionStorage.clear());
+
+  it('drains entries oldest first', () => {
+    const queue = new OutboundQueue(null);
+    queue.enqueue(textEntryKey('one'), text('one'), 'one');
+    queue.enqueue(textEntryKey('two'), text('two'), 'two');
+
+    expect(queue.drain().map((e) => e.payload)).toEqual([text('one'), text('two')]);
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps one entry per key, in its original place, with the latest payload', () => {
+    const queue = new OutboundQueue(null);
+    const first = queue.enqueue('bsl-mode', text('BSL on', false), null);
+    queue.enqueue(textEntryKey('hello'), text('hello'), 'hello');
+    const again = queue.enqueue('bsl-mode', text('BSL off', false), null);
+
+    expect(again).toEqual({ entry: first.entry, isDuplicate: true });
+    expect(queue.entries.map((e) => e.payload)).toEqual([text('BSL off', false), text('hello')]);
+  });
+
+  it('cancels a waiting entry only once', () => {
+    const queue = new OutboundQueue(null);
+    const { entry } = queue.enqueue(textEntryKey('oops'), text('oops'), 'oops');
+
+    expect(queue.cancel(entry.id)).toBe(entry);
+    expect(queue.cancel(entry.id)).toBeNull();
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps entries across page loads under its storage key', () => {
+    const queue = new OutboundQueue('outboundQueue:hank');
+    queue.enqueue(textEntryKey('still here'), text('still here'), 'still here');
+
+    expect(new OutboundQueue('outboundQueue:hank').entries).toEqual(queue.entries);
+    expect(new OutboundQueue('outboundQueue:aria').size).toBe(0);
+
+    queue.drain();
+    expect(sessionStorage.getItem('outboundQueue:hank')).toBeNull();
+  });
+
+  it('ignores stored entries it cannot read', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    sessionStorage.setItem('outboundQueue:hank', '{not json');
+    expect(new OutboundQueue('outboundQueue:hank').size).toBe(0);
+
+    sessionStorage.setItem('outboundQueue:hank', JSON.stringify([{ id: 'a', key: 'k', payload: { type: 'video' } }]));
+    expect(new OutboundQueue('outboundQueue:hank').size).toBe(0);
+  });
+
+  it('tells images with the same prompt apart', () => {
+    expect(imageEntryKey('AAAA', 'Look')).not.toBe(imageEntryKey('BBBB', 'Look'));
+    expect(imageEntryKey('AAAA', 'Look')).toBe(imageEntryKey('AAAA', 'Look'));
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { PCM16Chunker, floatToPCM16, pcm16ToFloat } from '@/lib/pcmCapture';
+
+describe('PCM16Chunker', () => {
+  it('cuts samples into fixed frames and flushes the remainder', () => {
+    const chunker = new PCM16Chunker(640);
+    expect(chunker.push(new Float32Array(500))).toHaveLength(0);
+    const frames = chunker.push(new Float32Array(1000));
+    expect(frames.map((f) => f.length)).toEqual([640, 640]);
+    expect(chunker.flush()?.length).toBe(220);
+    expect(chunker.flush()).toBeNull();
+  });
+
+  it('clamps samples into the PCM16 range', () => {
+    expect(Array.from(floatToPCM16(Float32Array.from([-2, -1, 0, 1, 2])))).toEqual([-32768, -32768, 0, 32767, 32767]);
+  });
+
+  it('converts PCM16 back to floats', () => {
+    expect(Array.from(pcm16ToFloat(Int16Array.from([-32768, 0, 16384])))).toEqual([-1, 0, 0.5]);
+  });
+});
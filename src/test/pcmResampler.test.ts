@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { PCM16Resampler, Resampler, resample, resamplePCM16 } from '@/lib/pcmResampler';
+import { floatToPCM16 } from '@/lib/pcmCapture';
+
+const RATE_PAIRS: Array<[number, number]> = [
+  [48000, 16000],
+  [44100, 16000],
+  [24000, 16000],
+  [16000, 24000],
+  [22050, 48000],
+];
+
+const tone = (frequency: number, rate: number, length: number, amplitude = 0.5) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / rate));
+
+const concat = (parts: Float32Array[]) => {
+  const output = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+// Feed a signal through in worklet-sized blocks, then flush the tail
+const resampleInBlocks = (resampler: Resampler, input: Float32Array, block = 128) => {
+  const parts: Float32Array[] = [];
+  for (let i = 0; i < input.length; i += block) parts.push(resampler.process(input.subarray(i, i + block)));
+  parts.push(resampler.flush());
+  return concat(parts);
+};
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+
+// Signal-to-noise ratio of `actual` against the ideal signal, ignoring the
+// edges where the filter sees the silence around the stream
+const snrDb = (actual: ArrayLike<number>, expected: ArrayLike<number>, edge: number) => {
+  let signal = 0;
+  let noise = 0;
+  for (let i = edge; i < expected.length - edge; i++) {
+    signal += expected[i] * expected[i];
+    noise += (actual[i] - expected[i]) ** 2;
+  }
+  return 10 * Math.log10(signal / noise);
+};
+
+describe('Resampler', () => {
+  it.each(RATE_PAIRS)('produces one output per output period from %i Hz to %i Hz', (from, to) => {
+    const output = resampleInBlocks(new Resampler(from, to), new Float32Array(from));
+    expect(Math.abs(output.length - to)).toBeLessThanOrEqual(1);
+  });
+
+  it.each(RATE_PAIRS)('reproduces a sine sweep through the passband from %i Hz to %i Hz', (from, to) => {
+    const nyquist = Math.min(from, to) / 2;
+    const length = Math.round(from * 0.1);
+    for (const fraction of [0.02, 0.2, 0.4, 0.6, 0.75]) {
+      const frequency = nyquist * fraction;
+      const output = resample(tone(frequency, from, length), from, to);
+      const ideal = tone(frequency, to, output.length);
+      expect(snrDb(output, ideal, Math.round(to * 0.005))).toBeGreaterThan(60);
+    }
+  });
+
+  it.each([
+    [48000, 16000, 9000],
+    [48000, 16000, 20000],
+    [44100, 16000, 12000],
+    [24000, 16000, 9500],
+  ])('suppresses a %i Hz to %i Hz tone at %i Hz that would alias', (from, to, frequency) => {
+    const output = resample(tone(frequency, from, from / 10, 1), from, to);
+    const edge = Math.round(to * 0.005);
+    // Better than 60 dB down
+    expect(rms(output.subarray(edge, output.length - edge))).toBeLessThan(0.001);
+  });
+
+  it('gives the same result however the input is split', () => {
+    const input = tone(440, 44100, 4410);
+    const whole = resample(input, 44100, 16000);
+    for (const block of [1, 37, 128, 1000]) {
+      const streamed = resampleInBlocks(new Resampler(44100, 16000), input, block);
+      expect(streamed.length).toBe(whole.length);
+      expect(snrDb(streamed, whole, 0)).toBeGreaterThan(100);
+    }
+  });
+
+  it('keeps a constant signal constant', () => {
+    const output = resample(new Float32Array(4800).fill(0.25), 48000, 16000);
+    for (const s of output.subarray(100, output.length - 100)) expect(s).toBeCloseTo(0.25, 4);
+  });
+
+  it('only holds back its lookahead until flushed', () => {
+    const resampler = new Resampler(48000, 16000);
+    const body = resampler.process(new Float32Array(4800));
+    expect(body.length).toBe(Math.ceil((4800 - resampler.latency) / 3));
+    expect(body.length + resampler.flush().length).toBe(1600);
+  });
+
+  it('starts fresh after a reset', () => {
+    const resampler = new Resampler(24000, 16000);
+    const first = resampleInBlocks(resampler, tone(1000, 24000, 2400));
+    resampler.process(tone(3000, 24000, 500));
+    resampler.reset();
+    expect(resampleInBlocks(resampler, tone(1000, 24000, 2400))).toEqual(first);
+  });
+
+  it('passes audio through unchanged at the same rate', () => {
+    const input = tone(440, 16000, 256);
+    const resampler = new Resampler(16000, 16000);
+    expect(resampler.process(input)).toEqual(input);
+    expect(resampler.flush()).toHaveLength(0);
+  });
+
+  it('rejects rates that are not positive', () => {
+    expect(() => new Resampler(0, 16000)).toThrow(RangeError);
+  });
+});
+
+describe('PCM16Resampler', () => {
+  it('converts 24 kHz Gemini audio to 16 kHz within 16-bit precision', () => {
+    const input = floatToPCM16(tone(700, 24000, 4800));
+    const resampler = new PCM16Resampler(24000, 16000);
+    const output = new Int16Array([...resampler.process(input.subarray(0, 2000)), ...resampler.process(input.subarray(2000)), ...resampler.flush()]);
+
+    expect(output.length).toBe(3200);
+    const ideal = Array.from(tone(700, 16000, output.length), (s) => s * 0x8000);
+    expect(snrDb(output, ideal, 80)).toBeGreaterThan(60);
+    expect(Array.from(output)).toEqual(Array.from(resamplePCM16(input, 24000, 16000)));
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { createQuiz, formatQuizResults, markAnswer, parseNumericAnswer, summarizeQuiz, type QuizQuestion } from '@/lib/quiz';
+
+const question = (overrides: Partial<QuizQuestion>): QuizQuestion => ({
+  id: 'q1',
+  prompt: 'Question',
+  type: 'short_answer',
+  answer: '',
+  ...overrides,
+});
+
+describe('parseNumericAnswer', () => {
+  it('reads numbers the way students write them', () => {
+    expect(parseNumericAnswer('1,250')).toBe(1250);
+    expect(parseNumericAnswer('3/4')).toBe(0.75);
+    expect(parseNumericAnswer('2.5 cm')).toBe(2.5);
+    expect(parseNumericAnswer('\\frac{1}{2}')).toBe(0.5);
+    expect(parseNumericAnswer('about five')).toBeNull();
+  });
+});
+
+describe('markAnswer', () => {
+  it('marks numeric answers with an explicit tolerance', () => {
+    const q = question({ type: 'numeric', answer: '9.43', tolerance: 0.01 });
+    expect(markAnswer(q, '9.44').correct).toBe(true);
+    expect(markAnswer(q, '9.5').correct).toBe(false);
+  });
+
+  it('accepts anything that rounds to a decimal answer', () => {
+    const q = question({ type: 'numeric', answer: '7.2' });
+    expect(markAnswer(q, '7.21').correct).toBe(true);
+    expect(markAnswer(q, '7.3').correct).toBe(false);
+    expect(markAnswer(question({ type: 'numeric', answer: '4' }), '4.4').correct).toBe(false);
+    expect(markAnswer(question({ type: 'numeric', answer: '0.5' }), '1/2').correct).toBe(true);
+  });
+
+  it('marks multiple choice by option text or letter', () => {
+    const q = question({ type: 'multiple_choice', options: ['Paris', 'Rome'], answer: 'Paris' });
+    expect(markAnswer(q, 'Paris').correct).toBe(true);
+    expect(markAnswer(q, 'Rome').correct).toBe(false);
+    expect(markAnswer({ ...q, answer: 'B' }, 'Rome').correct).toBe(true);
+  });
+
+  it('forgives case, articles and small spelling slips in short answers', () => {
+    const q = question({ answer: 'Photosynthesis', accept: ['photo synthesis'] });
+    expect(markAnswer(q, 'photosynthesis.').correct).toBe(true);
+    expect(markAnswer(q, 'Photo synthesis').correct).toBe(true);
+    const slip = markAnswer(q, 'photosynthesys');
+    expect(slip.correct).toBe(true);
+    expect(slip.feedback).toMatch(/spelling/);
+    expect(markAnswer(q, 'respiration').correct).toBe(false);
+    expect(markAnswer(question({ answer: 'The Nile' }), 'nile').correct).toBe(true);
+  });
+
+  it('does not treat a wrong digit as a spelling slip', () => {
+    expect(markAnswer(question({ answer: '12500' }), '12600').correct).toBe(false);
+    expect(markAnswer(question({ answer: '12500' }), '12,500').correct).toBe(true);
+  });
+
+  it('marks maths by algebraic equivalence', () => {
+    const q = question({ type: 'math', answer: '2x + 6' });
+    expect(markAnswer(q, '2(x+3)').correct).toBe(true);
+    expect(markAnswer(q, '2x + 3').correct).toBe(false);
+    expect(markAnswer(question({ type: 'math', answer: 'x = \\frac{3}{2}' }), '1.5').correct).toBe(true);
+  });
+});
+
+describe('quiz results', () => {
+  it('summarises and reports what was missed', () => {
+    const quiz = createQuiz({
+      title: 'Fractions',
+      questions: [
+        { prompt: 'Half of 8?', type: 'numeric', answer: '4' },
+        { prompt: 'Simplify 2/4', type: 'math', answer: '\\frac{1}{2}' },
+      ],
+    });
+    const answers = [
+      { questionId: quiz.questions[0].id, response: '4', correct: true },
+      { questionId: quiz.questions[1].id, response: '2/3', correct: false },
+    ];
+
+    const summary = summarizeQuiz(quiz, answers);
+    expect(summary).toMatchObject({ correct: 1, total: 2 });
+    expect(summary.missed.map((q) => q.prompt)).toEqual(['Simplify 2/4']);
+
+    const report = formatQuizResults(quiz, answers);
+    expect(report).toContain('got 1/2');
+    expect(report).toContain('wrong: answered 2/3; answer: \\frac{1}{2}');
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRealtimeChat } from '@/hooks/useRealtimeChat';
+import { GeminiLiveTransport } from '@/lib/geminiLiveTransport';
+import { FakeAudioContext } from './fakeAudioContext';
+import {
+  startMockGeminiLiveServer,
+  geminiAudio,
+  geminiGoAway,
+  geminiInputTranscription,
+  geminiOutputTranscription,
+  geminiText,
+  geminiToolCall,
+  geminiTurnComplete,
+  type MockGeminiLiveScript,
+  type MockGeminiLiveServer,
+} from './mocks/mockGeminiLiveServer';
+
+vi.mock('@/lib/lessonSessions', () => ({
+  createLessonSession: vi.fn(async () => null),
+  saveLessonMessages: vi.fn(async () => true),
+  saveCompletedObjectives: vi.fn(async () => true),
+  endLessonSession: vi.fn(async () => {}),
+  loadLessonMessages: vi.fn(async () => []),
+  reopenLessonSession: vi.fn(async () => {}),
+}));
+
+vi.mock('@/lib/learnerMemory', () => ({
+  extractSessionMemories: vi.fn(async () => {}),
+}));
+
+let server: MockGeminiLiveServer | null = null;
+
+const renderChat = async (script: MockGeminiLiveScript) => {
+  server = await startMockGeminiLiveServer(script);
+  const url = server.url;
+  const hook = renderHook(() =>
+    useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', {
+      createTransport: () => new GeminiLiveTransport({ url }),
+    })
+  );
+  await act(() => hook.result.current.connect());
+  return hook;
+};
+
+const firstText = (message: { clientContent?: { turns: Array<{ parts: Array<{ text?: string }> }> } }) =>
+  message.clientContent?.turns[0]?.parts[0]?.text ?? '';
+
+describe('useRealtimeChat against the mock Gemini Live server', () => {
+  beforeEach(() => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await server?.close();
+    server = null;
+  });
+
+  it('sends the setup message with the teacher voice and instructions', async () => {
+    const { result, unmount } = await renderChat({});
+
+    expect(result.current.isConnected).toBe(true);
+    const setup = server!.connections[0].setup as { systemInstruction: { parts: Array<{ text: string }> } };
+    expect(setup.systemInstruction.parts[0].text).toBe('You are Hank.');
+    expect(JSON.stringify(setup)).toContain('"voiceName":"Puck"');
+    // Speech is marked by the client, so Gemini's own detection is off
+    expect(setup).toMatchObject({ realtimeInputConfig: { automaticActivityDetection: { disabled: true } } });
+    unmount();
+  });
+
+  it('assembles transcriptions, audio and text into messages', async () => {
+    const { result, unmount } = await renderChat({
+      turns: [{
+        steps: [
+          { message: geminiInputTranscription('What is') },
+          { message: geminiInputTranscription('two plus two?') },
+          { message: geminiAudio(100) },
+          { message: geminiText('Two plus two ') },
+          { message: geminiText('is four.') },
+          { message: geminiTurnComplete() },
+        ],
+      }],
+    });
+
+    act(() => result.current.sendGreeting());
+
+    await waitFor(() => expect(result.current.messages).toHaveLength(2));
+    await waitFor(() => expect(result.current.isSpeaking).toBe(false));
+
+    const [user, assistant] = result.current.messages;
+    expect(user).toMatchObject({ role: 'user', content: 'What is two plus two?' });
+    expect(assistant).toMatchObject({ role: 'assistant', originalContent: 'Two plus two is four.' });
+    unmount();
+  });
+
+  it('shows the spoken transcript and keeps leaked thoughts separate', async () => {
+    const { result, unmount } = await renderChat({
+      turns: [{
+        steps: [
+          { message: geminiText("**Greeting the Student**\n\nI've determined that the user wants to start, so I'm planning a warm welcome.") },
+          { message: geminiAudio(100) },
+          { message: geminiOutputTranscription('Hello there! ') },
+          { message: geminiOutputTranscription('Ready to begin?') },
+          { message: geminiTurnComplete() },
+        ],
+      }],
+    });
+
+    act(() => result.current.sendGreeting());
+
+    await waitFor(() => expect(result.current.messages).toHaveLength(1));
+    await waitFor(() => expect(result.current.messages[0].content).toBe('Hello there! Ready to begin?'));
+
+    const [assistant] = result.current.messages;
+    expect(assistant.thoughts).toContain('Greeting the Student');
+    expect(assistant.originalContent).toBeUndefined();
+    unmount();
+  });
+
+  it('declares teacher tools and answers tool calls', async () => {
+    const { result, unmount } = await renderChat({
+      turns: [{
+        steps: [
+          {
+            message: geminiToolCall([{
+              id: 'wb-1',
+              name: 'show_whiteboard',
+              args: { title: 'Halves', sections: [{ type: 'text', content: 'One half is $\\frac{1}{2}$' }] },
+            }]),
+          },
+        ],
+      }],
+    });
+
+    const setup = server!.connections[0].setup as { tools: Array<{ functionDeclarations: Array<{ name: string }> }> };
+    expect(setup.tools[0].functionDeclarations.map((d) => d.name)).toContain('show_whiteboard');
+
+    act(() => result.current.sendTextContent('What is a half?'));
+
+    await waitFor(() => expect(server!.connections[0].received.some((m) => m.toolResponse)).toBe(true));
+    const reply = server!.connections[0].received.find((m) => m.toolResponse);
+    expect(reply?.toolResponse?.functionResponses).toEqual([{ id: 'wb-1', name: 'show_whiteboard', response: { status: 'shown' } }]);
+    expect(result.current.showWhiteboard).toBe(true);
+    unmount();
+  });
+
+  it('reconnects after goAway and replays the lesson context', async () => {
+    const { result, unmount } = await renderChat({
+      turns: [{
+        steps: [
+          { message: geminiText('Fractions are parts of a whole.') },
+          { message: geminiTurnComplete() },
+        ],
+      }],
+    });
+
+    act(() => result.current.sendTextContent('Teach me fractions'));
+    await waitFor(() => expect(result.current.messages).toHaveLength(2));
+
+    server!.broadcast(geminiGoAway('5s'));
+
+    await waitFor(() => expect(result.current.isReconnecting).toBe(true));
+    await waitFor(() => expect(server!.connections).toHaveLength(2), { timeout: 5000 });
+    await waitFor(() => expect(result.current.isReconnecting).toBe(false), { timeout: 5000 });
+    expect(result.current.isConnected).toBe(true);
+
+    const restored = server!.connections[1].received[0];
+    expect(restored.clientContent?.turnComplete).toBe(false);
+    expect(firstText(restored)).toContain('SYSTEM NOTE');
+    expect(JSON.stringify(restored)).toContain('Fractions are parts of a whole.');
+    unmount();
+  }, 10000);
+
+  it('reconnects when the connection drops unexpectedly', async () => {
+    const { result, unmount } = await renderChat({
+      turns: [{
+        steps: [{ message: geminiText('Bye'), closeAfter: true }],
+      }],
+    });
+
+    act(() => result.current.sendTextContent('Hello'));
+
+    await waitFor(() => expect(server!.connections).toHaveLength(2), { timeout: 5000 });
+    await waitFor(() => expect(result.current.isConnected).toBe(true), { timeout: 5000 });
+    expect(result.current.isReconnecting).toBe(false);
+    unmount();
+  }, 10000);
+
+  it('measures the round trip to the proxy without bothering the model', async () => {
+    const { result, unmount } = await renderChat({ pongDelayMs: 20 });
+
+    const rtt = await act(() => result.current.pingServer());
+    expect(rtt).toBeGreaterThanOrEqual(15);
+    expect(result.current.getOutboundBacklog()).toBe(0);
+    expect(server!.connections[0].received).toHaveLength(0);
+    unmount();
+  });
+
+  it('reports a lost ping as null', async () => {
+    server = await startMockGeminiLiveServer({ pongDelayMs: null });
+    const transport = new GeminiLiveTransport({ url: server.url });
+    await transport.connect({ voice: 'Puck', systemInstruction: 'You are Hank.' });
+
+    expect(await transport.ping(50)).toBeNull();
+    transport.disconnect();
+    expect(await transport.ping(50)).toBeNull();
+  });
+
+  it('times out when the session reaches Gemini but is never set up', async () => {
+    server = await startMockGeminiLiveServer({ completeSetup: false });
+    const transport = new GeminiLiveTransport({ url: server.url, connectTimeoutMs: 200 });
+
+    await expect(transport.connect({ voice: 'Puck', systemInstruction: 'You are Hank.' })).rejects.toThrow('Connection timeout');
+    expect(server.connections[0].setup).not.toBeNull();
+  });
+
+  it('requests a whiteboard repair for placeholder tokens and opens the fixed board', async () => {
+    const broken = '[WHITEBOARD_START]\n## Title: Solve $1\n### Problem\nSolve $1\n**Step 1:** Use $2\n[WHITEBOARD_END]';
+    const fixed = '[WHITEBOARD_START]\n## Title: Solve a linear equation\n### Problem\n$$2x + 3 = 11$$\n**Step 1:** Subtract 3\n$$2x = 8$$\n### Answer\n$x = 4$\n[WHITEBOARD_END]';
+
+    const { result, unmount } = await renderChat({
+      turns: [
+        { steps: [{ message: geminiText(broken) }, { message: geminiTurnComplete() }] },
+        {
+          match: (message) => firstText(message).includes('placeholder tokens'),
+          steps: [{ message: geminiText(fixed) }, { message: geminiTurnComplete() }],
+        },
+      ],
+    });
+
+    act(() => result.current.sendTextContent('Show me on the whiteboard'));
+
+    // The broken board streams on screen first, then is replaced by the repaired one
+    await waitFor(() => expect(result.current.whiteboardContent).toContain('2x + 3 = 11'));
+    expect(result.current.showWhiteboard).toBe(true);
+    expect(result.current.whiteboardContent).not.toContain('$1');
+
+    const repairRequest = server!.connections[0].received.find((m) => firstText(m).includes('placeholder tokens'));
+    expect(firstText(repairRequest!)).toContain('MALFORMED WHITEBOARD');
+    unmount();
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildContextRestoration, estimateTokens, getContextText } from '@/lib/sessionContext';
+import type { Message } from '@/lib/chatMessage';
+
+const msg = (role: Message['role'], content: string, originalContent?: string): Message => ({
+  id: crypto.randomUUID(),
+  role,
+  content,
+  originalContent,
+  timestamp: new Date(),
+});
+
+describe('getContextText', () => {
+  it('prefers the raw assistant text', () => {
+    expect(getContextText(msg('assistant', 'badge', 'Real answer'))).toBe('Real answer');
+  });
+
+  it('collapses whiteboard blocks to a short note', () => {
+    const raw = 'Here you go. [WHITEBOARD_START]\n## Title: Solving x + 2 = 5\n**Step 1:** Subtract 2\n[WHITEBOARD_END]';
+    const text = getContextText(msg('assistant', '', raw));
+    expect(text).toContain('Here you go.');
+    expect(text).toContain('[Whiteboard shown: Title: Solving x + 2 = 5]');
+    expect(text).not.toContain('Subtract 2');
+  });
+});
+
+describe('buildContextRestoration', () => {
+  it('returns nothing for an empty lesson', () => {
+    expect(buildContextRestoration([])).toEqual([]);
+  });
+
+  it('replays short lessons verbatim after a system note', () => {
+    const turns = buildContextRestoration([
+      msg('user', 'What is a fraction?'),
+      msg('assistant', '', 'A part of a whole.'),
+    ]);
+    expect(turns).toHaveLength(2);
+    expect(turns[0].role).toBe('user');
+    expect(turns[0].parts[0].text).toContain('SYSTEM NOTE');
+    expect(turns[0].parts[1].text).toBe('What is a fraction?');
+    expect(turns[1]).toEqual({ role: 'model', parts: [{ text: 'A part of a whole.' }] });
+  });
+
+  it('summarises older turns and stays within the token budget', () => {
+    const messages: Message[] = [];
+    for (let i = 0; i < 40; i++) {
+      messages.push(msg('user', `Question ${i}: ${'word '.repeat(40)}`));
+      messages.push(msg('assistant', '', `Answer ${i}: ${'word '.repeat(40)}`));
+    }
+
+    const budget = 1000;
+    const turns = buildContextRestoration(messages, { tokenBudget: budget });
+    const total = turns.flatMap((t) => t.parts).reduce((sum, p) => sum + estimateTokens(p.text), 0);
+
+    expect(turns[0].parts[0].text).toContain('Summary of earlier parts of the lesson');
+    expect(turns[turns.length - 1].parts.at(-1)?.text).toContain('Answer 39');
+    // Allow for the fixed preamble on top of the budget
+    expect(total).toBeLessThan(budget + 150);
+  });
+});
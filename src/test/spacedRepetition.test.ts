@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { scheduleMissedQuestion, scheduleReview } from '@/lib/spacedRepetition';
+
+const now = new Date('2026-10-19T09:00:00Z');
+const days = (date: Date) => (date.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+
+describe('scheduleReview', () => {
+  it('follows the SM-2 intervals for correct answers', () => {
+    let schedule = scheduleMissedQuestion(now);
+    expect(days(schedule.dueAt)).toBe(1);
+
+    schedule = scheduleReview(schedule, 4, now);
+    expect(schedule.intervalDays).toBe(1);
+    schedule = scheduleReview(schedule, 4, now);
+    expect(schedule.intervalDays).toBe(6);
+    schedule = scheduleReview(schedule, 4, now);
+    expect(schedule.intervalDays).toBe(Math.round(6 * schedule.easeFactor));
+    expect(days(schedule.dueAt)).toBe(schedule.intervalDays);
+  });
+
+  it('starts again after a miss and lowers the ease factor to a floor', () => {
+    let schedule = { easeFactor: 2.5, intervalDays: 15, repetitions: 3 };
+    const missed = scheduleReview(schedule, 1, now);
+    expect(missed).toMatchObject({ repetitions: 0, intervalDays: 1 });
+    expect(missed.easeFactor).toBeLessThan(2.5);
+
+    for (let i = 0; i < 10; i++) schedule = scheduleReview(schedule, 0, now);
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createTeacherToolRegistry, parseQuizArgs, parseWhiteboardArgs, whiteboardDocumentFromArgs } from '@/lib/teacherTools';
+import { formatWhiteboardContent, parseWhiteboardContent } from '@/lib/whiteboardParser';
+import { validateWhiteboardDocument } from '@/lib/whiteboardDocument';
+
+const handlers = () => ({
+  showWhiteboard: vi.fn(() => ({ status: 'shown' })),
+  startQuiz: vi.fn(() => ({ status: 'started' })),
+});
+
+describe('parseWhiteboardArgs', () => {
+  it('accepts structured sections', () => {
+    const args = parseWhiteboardArgs({
+      title: 'Area of a circle',
+      sections: [{ type: 'problem', content: 'Find the area when $r = 3$' }, { type: 'math', content: 'A = \\pi r^2' }],
+    });
+    expect(args.sections).toHaveLength(2);
+  });
+
+  it('reports the path of an invalid section', () => {
+    expect(() => parseWhiteboardArgs({ title: 'X', sections: [{ type: 'problem', content: 'ok' }, { type: 'diagram', content: '' }] }))
+      .toThrow(/sections\[1\]\.type/);
+  });
+});
+
+describe('parseQuizArgs', () => {
+  it('requires options for multiple choice questions', () => {
+    expect(() => parseQuizArgs({
+      title: 'Quick check',
+      questions: [{ prompt: 'Pick one', type: 'multiple_choice', options: ['A'], answer: 'A' }],
+    })).toThrow(/fewer than two options/);
+  });
+
+  it('keeps tolerances and accepted alternatives', () => {
+    const quiz = parseQuizArgs({
+      title: 'Mixed',
+      questions: [
+        { prompt: 'Round $\\pi$ to 1 d.p.', type: 'numeric', answer: '3.1', tolerance: 0.05 },
+        { prompt: 'Capital of France?', type: 'short_answer', answer: 'Paris', accept: ['paris, france'] },
+        { prompt: 'Expand $2(x + 1)$', type: 'math', answer: '2x + 2' },
+      ],
+    });
+    expect(quiz.questions.map((q) => q.type)).toEqual(['numeric', 'short_answer', 'math']);
+    expect(quiz.questions[0].tolerance).toBe(0.05);
+    expect(quiz.questions[1].accept).toEqual(['paris, france']);
+  });
+
+  it('normalises numeric answers to strings', () => {
+    const quiz = parseQuizArgs({ title: 'Sums', questions: [{ prompt: '2 + 2?', type: 'numeric', answer: 4 }] });
+    expect(quiz.questions[0].answer).toBe('4');
+  });
+});
+
+describe('createTeacherToolRegistry', () => {
+  it('declares every teacher tool', () => {
+    const names = createTeacherToolRegistry(handlers()).declarations().map((d) => d.name);
+    expect(names).toEqual(['show_whiteboard', 'start_quiz', 'set_bsl_mode', 'request_screen_capture', 'mark_objective_complete']);
+  });
+
+  it('routes calls to their handlers', async () => {
+    const h = handlers();
+    const response = await createTeacherToolRegistry(h).execute({
+      id: '1',
+      name: 'show_whiteboard',
+      args: { title: 'T', sections: [{ type: 'text', content: 'Hello' }] },
+    });
+    expect(response).toEqual({ id: '1', name: 'show_whiteboard', response: { status: 'shown' } });
+    expect(h.showWhiteboard).toHaveBeenCalledWith({ title: 'T', sections: [{ type: 'text', content: 'Hello' }] });
+  });
+
+  it('turns unknown tools and missing handlers into error responses', async () => {
+    const registry = createTeacherToolRegistry(handlers());
+    expect((await registry.execute({ id: '1', name: 'fly', args: {} })).response).toEqual({ error: 'Unknown tool "fly"' });
+    expect((await registry.execute({ id: '2', name: 'set_bsl_mode', args: { enabled: true } })).response)
+      .toEqual({ error: "BSL mode isn't available in this session" });
+    expect((await registry.execute({ id: '3', name: 'mark_objective_complete', args: { objective_id: 'two-step' } })).response)
+      .toEqual({ error: 'This lesson has no lesson plan' });
+  });
+});
+
+describe('whiteboardDocumentFromArgs', () => {
+  it('builds a document with maths kept in the problem and steps', () => {
+    const { document, errors } = validateWhiteboardDocument(whiteboardDocumentFromArgs({
+      title: 'Solving a linear equation',
+      sections: [
+        { type: 'problem', content: 'Solve $2x + 3 = 11$' },
+        { type: 'step', content: 'Subtract 3 from both sides' },
+        { type: 'math', content: '2x = 8' },
+        { type: 'answer', content: '$x = 4$' },
+      ],
+    }));
+    expect(errors).toEqual([]);
+    expect(document).toEqual({
+      version: 1,
+      title: 'Solving a linear equation',
+      problem: [{ type: 'text', text: 'Solve $2x + 3 = 11$' }],
+      steps: [{ explanation: 'Subtract 3 from both sides', blocks: [{ type: 'math', latex: '2x = 8' }] }],
+      answer: [{ type: 'text', text: '$x = 4$' }],
+    });
+  });
+});
+
+describe('formatWhiteboardContent', () => {
+  it('round-trips through parseWhiteboardContent', () => {
+    const content = formatWhiteboardContent({
+      title: 'Solving 2x + 3 = 11',
+      sections: [
+        { type: 'problem', content: 'Solve $2x + 3 = 11$' },
+        { type: 'step', content: 'Subtract 3 from both sides' },
+        { type: 'math', content: '2x = 8' },
+        { type: 'step', content: 'Divide by 2' },
+        { type: 'answer', content: '$x = 4$' },
+      ],
+    });
+    const parsed = parseWhiteboardContent(content);
+    expect(parsed.title).toBe('Solving 2x + 3 = 11');
+    expect(parsed.sections.map((s) => s.type)).toEqual(['problem', 'step', 'math', 'step', 'answer']);
+    expect(parsed.sections[3].stepNumber).toBe(2);
+  });
+});
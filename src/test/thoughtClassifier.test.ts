@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { classifyAssistantText, isThoughtParagraph } from '@/lib/thoughtClassifier';
+
+describe('isThoughtParagraph', () => {
+  it('flags bold-titled planning summaries', () => {
+    expect(isThoughtParagraph("**Initiating the Lesson**\nI'm now focusing on a friendly opener.")).toBe(true);
+  });
+
+  it('flags third-person narration about the student', () => {
+    expect(isThoughtParagraph("I'm ready to welcome the user and ask about fractions.")).toBe(true);
+  });
+
+  it('keeps ordinary teaching text', () => {
+    expect(isThoughtParagraph("Great work! Now let's try subtracting 3 from both sides.")).toBe(false);
+    expect(isThoughtParagraph("I'm going to show you a neat trick for times tables.")).toBe(false);
+  });
+});
+
+describe('classifyAssistantText', () => {
+  it('splits thoughts from student-facing paragraphs', () => {
+    const result = classifyAssistantText(
+      "**Planning the Answer**\n\nThe student asked about photosynthesis, so my plan is to keep it simple.\n\nPlants use sunlight to make food."
+    );
+    expect(result.spoken).toBe('Plants use sunlight to make food.');
+    expect(result.thoughts).toContain('Planning the Answer');
+    expect(result.thoughts).toContain('my plan is');
+  });
+
+  it('never classifies whiteboard blocks as thoughts', () => {
+    const board = '[WHITEBOARD_START]\n## Title: The user guide\n\nThe student should note my plan below.\n[WHITEBOARD_END]';
+    const result = classifyAssistantText(`I've decided the user needs a diagram.\n\n${board}`);
+    expect(result.spoken).toBe(board);
+    expect(result.thoughts).toBe("I've decided the user needs a diagram.");
+  });
+
+  it('keeps an unfinished whiteboard intact while streaming', () => {
+    const partial = '[WHITEBOARD_START]\n## Title: Fractions\n\nThe student';
+    expect(classifyAssistantText(partial)).toEqual({ spoken: partial, thoughts: '' });
+  });
+
+  it('handles empty text', () => {
+    expect(classifyAssistantText('')).toEqual({ spoken: '', thoughts: '' });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { transcriptToJSON, transcriptToMarkdown, transcriptToWebVTT } from '@/lib/transcriptExport';
+import type { Message } from '@/lib/chatMessage';
+
+const start = new Date('2026-10-19T09:00:00Z');
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+const messages: Message[] = [
+  { id: '1', role: 'user', content: 'What is a prime number?', timestamp: at(2) },
+  { id: '2', role: 'assistant', content: 'A number with exactly two factors: 1 and itself.', timestamp: at(5) },
+  { id: '3', role: 'user', content: '...', timestamp: at(20) },
+  { id: '4', role: 'user', content: 'Is 1 < 2 --> true?', timestamp: at(3725.5) },
+];
+const meta = { teacherName: 'Hank', studentName: 'Sam', title: 'Primes', startedAt: start };
+
+describe('transcript export', () => {
+  it('writes Markdown with speakers', () => {
+    const markdown = transcriptToMarkdown(messages, meta);
+    expect(markdown).toMatch(/^# Primes\n/);
+    expect(markdown).toContain('**Sam**');
+    expect(markdown).toContain('**Hank**');
+    expect(markdown).not.toContain('...');
+  });
+
+  it('writes WebVTT cues timed from the start of the lesson', () => {
+    const vtt = transcriptToWebVTT(messages, meta);
+    expect(vtt.startsWith('WEBVTT\n\n1\n00:00:02.000 --> 00:00:04.000\n<v Sam>What is a prime number?')).toBe(true);
+    // Nine words at 2.5 words a second, with nothing following soon after
+    expect(vtt).toContain('00:00:05.000 --> 00:00:08.600\n<v Hank>');
+    expect(vtt).toContain('01:02:05.500 --> ');
+    expect(vtt).toContain('Is 1 &lt; 2 -> true?');
+  });
+
+  it('writes JSON with offsets', () => {
+    const json = JSON.parse(transcriptToJSON(messages, meta));
+    expect(json).toMatchObject({ title: 'Primes', teacher: 'Hank', student: 'Sam', startedAt: start.toISOString() });
+    expect(json.messages.map((m: { offsetSeconds: number }) => m.offsetSeconds)).toEqual([2, 5, 3725.5]);
+  });
+});
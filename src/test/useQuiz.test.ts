@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useQuiz } from '@/hooks/useQuiz';
+import { addMissedQuestions } from '@/lib/reviewItems';
+
+vi.mock('@/lib/reviewItems', () => ({
+  addMissedQuestions: vi.fn(async () => true),
+  buildReviewQuiz: vi.fn(() => null),
+  countDueReviewItems: vi.fn(async () => 0),
+  listDueReviewItems: vi.fn(async () => []),
+  recordReviewResult: vi.fn(async () => true),
+}));
+
+const spec = {
+  title: 'Fractions',
+  questions: [
+    { prompt: 'Half of 8?', type: 'numeric' as const, answer: '4' },
+    { prompt: 'Half of 10?', type: 'numeric' as const, answer: '5' },
+  ],
+};
+
+describe('useQuiz', () => {
+  it('reports a quiz closed part-way to the teacher', () => {
+    const onFinish = vi.fn();
+    const { result } = renderHook(() => useQuiz({ onFinish }));
+
+    act(() => result.current.startQuiz(spec));
+    act(() => result.current.closeQuiz());
+
+    expect(onFinish).toHaveBeenCalledTimes(1);
+    expect(result.current.quiz).toBeNull();
+  });
+
+  it('keeps an abandoned quiz from the teacher but still queues what was missed', () => {
+    const onFinish = vi.fn();
+    const { result } = renderHook(() => useQuiz({ onFinish }));
+
+    act(() => result.current.startQuiz(spec));
+    const firstId = result.current.quiz?.questions[0].id ?? '';
+    act(() => {
+      result.current.answerQuestion(firstId, '3');
+    });
+    act(() => result.current.abandonQuiz());
+
+    expect(onFinish).not.toHaveBeenCalled();
+    expect(result.current.quiz).toBeNull();
+    expect(vi.mocked(addMissedQuestions)).toHaveBeenLastCalledWith(expect.arrayContaining([expect.objectContaining({ prompt: 'Half of 8?' })]));
+  });
+});
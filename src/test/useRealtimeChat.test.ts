@@ -0,0 +1,495 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useRealtimeChat } from '@/hooks/useRealtimeChat';
+import { ScriptedTransport } from '@/lib/scriptedTransport';
+import { FakeAudioContext } from './fakeAudioContext';
+import { getLessonPlan } from '@/lib/lessonPlans';
+import { loadLessonMessages } from '@/lib/lessonSessions';
+
+vi.mock('@/lib/lessonSessions', () => ({
+  createLessonSession: vi.fn(async () => null),
+  saveLessonMessages: vi.fn(async () => true),
+  saveCompletedObjectives: vi.fn(async () => true),
+  endLessonSession: vi.fn(async () => {}),
+  loadLessonMessages: vi.fn(async () => []),
+  reopenLessonSession: vi.fn(async () => {}),
+}));
+
+vi.mock('@/lib/learnerMemory', () => ({
+  extractSessionMemories: vi.fn(async () => {}),
+}));
+
+// No microphone in jsdom; push-to-talk drives the speech gate instead
+vi.mock('@/lib/audioUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audioUtils')>()),
+  AudioRecorder: class {
+    async start() {}
+    stop() {}
+    getAudioLevel() {
+      return 0;
+    }
+  },
+}));
+
+const activity = (transport: ScriptedTransport) =>
+  transport.sent.flatMap((m) => (m.kind === 'activity' ? [m.activity] : []));
+
+describe('useRealtimeChat with a scripted transport', () => {
+  beforeEach(() => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('connects and passes the teacher config to the transport', async () => {
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+
+    await act(() => result.current.connect());
+
+    expect(result.current.isConnected).toBe(true);
+    expect(transport.config).toMatchObject({ voice: 'Puck', systemInstruction: 'You are Hank.', manualActivityDetection: true });
+    expect(transport.config?.tools?.map((tool) => tool.name)).toEqual([
+      'show_whiteboard', 'start_quiz', 'set_bsl_mode', 'request_screen_capture', 'mark_objective_complete',
+    ]);
+  });
+
+  it('assembles user and assistant messages from transport events', async () => {
+    const transport = new ScriptedTransport({
+      replies: [{
+        steps: [
+          { event: { type: 'text', text: 'Two plus two ' } },
+          { event: { type: 'text', text: 'is four.' } },
+          { event: { type: 'turnComplete' } },
+        ],
+      }],
+    });
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.sendTextContent('What is 2 + 2?'));
+
+    await waitFor(() => expect(result.current.messages).toHaveLength(2));
+    const [user, assistant] = result.current.messages;
+    expect(user.role).toBe('user');
+    expect(assistant.role).toBe('assistant');
+    expect(assistant.originalContent).toBe('Two plus two is four.');
+    expect(transport.sent[0]).toEqual({
+      kind: 'turns',
+      turns: [{ role: 'user', parts: [{ text: 'What is 2 + 2?' }] }],
+      turnComplete: true,
+    });
+  });
+
+  it('does not send anything after disconnecting', async () => {
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.disconnect());
+    act(() => result.current.sendTextContent('Hello?'));
+
+    expect(result.current.isConnected).toBe(false);
+    expect(transport.sent).toHaveLength(0);
+  });
+
+  it('starts a new lesson when calling again after hanging up', async () => {
+    const first = new ScriptedTransport({
+      replies: [{ steps: [{ event: { type: 'text', text: 'Four.' } }, { event: { type: 'turnComplete' } }] }],
+    });
+    const second = new ScriptedTransport();
+    const transports = [first, second];
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transports.shift()! })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.sendTextContent('What is 2 + 2?'));
+    await waitFor(() => expect(result.current.messages).toHaveLength(2));
+    act(() => result.current.disconnect());
+
+    await act(() => result.current.connect());
+    expect(result.current.isConnected).toBe(true);
+    expect(second.sent.filter((m) => m.kind === 'turns')).toEqual([]);
+    expect(result.current.messages).toEqual([]);
+  });
+
+  it('replays a resumed lesson into the new session', async () => {
+    vi.mocked(loadLessonMessages).mockResolvedValueOnce([
+      { id: 'u1', role: 'user', content: 'What is 2 + 2?', timestamp: new Date() },
+      { id: 'a1', role: 'assistant', content: 'Four.', timestamp: new Date() },
+    ]);
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+
+    await act(async () => {
+      await result.current.resumeLesson('session-1');
+    });
+    await act(() => result.current.connect());
+
+    expect(result.current.messages.map((m) => m.id)).toEqual(['u1', 'a1']);
+    expect(transport.sent[0]).toMatchObject({ kind: 'turns', turnComplete: false });
+  });
+
+  it('runs tool calls and answers with a tool response', async () => {
+    const onBSLModeRequest = vi.fn();
+    const transport = new ScriptedTransport({
+      replies: [{
+        steps: [
+          {
+            event: {
+              type: 'toolCall',
+              calls: [
+                {
+                  id: 'call-1',
+                  name: 'show_whiteboard',
+                  args: { title: 'Fractions', sections: [{ type: 'math', content: '\\frac{1}{2}' }] },
+                },
+                { id: 'call-2', name: 'set_bsl_mode', args: { enabled: 'yes' } },
+              ],
+            },
+          },
+        ],
+      }],
+    });
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport, onBSLModeRequest })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.sendTextContent('Show me a half'));
+
+    await waitFor(() => expect(transport.sent.some((m) => m.kind === 'toolResponses')).toBe(true));
+    expect(result.current.showWhiteboard).toBe(true);
+    expect(JSON.parse(result.current.whiteboardContent)).toEqual({
+      version: 1,
+      title: 'Fractions',
+      problem: [{ type: 'math', latex: '\\frac{1}{2}' }],
+      steps: [],
+    });
+    expect(onBSLModeRequest).not.toHaveBeenCalled();
+
+    const reply = transport.sent.find((m) => m.kind === 'toolResponses');
+    expect(reply).toEqual({
+      kind: 'toolResponses',
+      responses: [
+        { id: 'call-1', name: 'show_whiteboard', response: { status: 'shown' } },
+        { id: 'call-2', name: 'set_bsl_mode', response: { error: '"enabled" must be a boolean' } },
+      ],
+    });
+  });
+
+  it('refuses a tool whiteboard with maths in its title and says why', async () => {
+    const transport = new ScriptedTransport({
+      replies: [{
+        steps: [{
+          event: {
+            type: 'toolCall',
+            calls: [{ id: 'call-1', name: 'show_whiteboard', args: { title: 'Solve $2x = 8$', sections: [{ type: 'step', content: 'Divide by 2' }] } }],
+          },
+        }],
+      }],
+    });
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.sendTextContent('Solve 2x = 8'));
+
+    await waitFor(() => expect(transport.sent.some((m) => m.kind === 'toolResponses')).toBe(true));
+    const reply = transport.sent.find((m) => m.kind === 'toolResponses');
+    expect(reply?.kind === 'toolResponses' && reply.responses[0].response).toEqual({
+      error: expect.stringContaining('title: must be plain text'),
+    });
+    expect(result.current.showWhiteboard).toBe(false);
+  });
+
+  it('streams a whiteboard onto the screen as its lines arrive', async () => {
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+    await act(() => result.current.connect());
+
+    act(() => transport.emit({ type: 'text', text: 'Let me write it down. [WHITEBOARD_START]\n## Title: Area\n$$\nA = ' }));
+    expect(result.current.showWhiteboard).toBe(true);
+    expect(result.current.isWhiteboardStreaming).toBe(true);
+    expect(result.current.whiteboardContent).toBe('## Title: Area');
+
+    act(() => transport.emit({ type: 'text', text: 'l \\times w\n$$\n**Step 1:** Multiply' }));
+    expect(result.current.whiteboardContent).toBe('## Title: Area\n$$\nA = l \\times w\n$$');
+
+    act(() => transport.emit({ type: 'text', text: ' the sides.\n[WHITEBOARD_END]' }));
+    expect(result.current.isWhiteboardStreaming).toBe(false);
+    expect(result.current.whiteboardContent).toContain('**Step 1:** Multiply the sides.');
+  });
+
+  it('keeps a streaming whiteboard closed once the student dismisses it', async () => {
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+    await act(() => result.current.connect());
+
+    act(() => transport.emit({ type: 'text', text: '[WHITEBOARD_START]\n## Title: Area\n' }));
+    expect(result.current.showWhiteboard).toBe(true);
+    act(() => result.current.closeWhiteboard());
+
+    act(() => transport.emit({ type: 'text', text: '**Step 1:** Multiply\n[WHITEBOARD_END]' }));
+    act(() => transport.emit({ type: 'turnComplete' }));
+    expect(result.current.showWhiteboard).toBe(false);
+    expect(result.current.isWhiteboardStreaming).toBe(false);
+  });
+
+  it('keeps a finished whiteboard closed when more of the turn arrives', async () => {
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+    await act(() => result.current.connect());
+
+    act(() => transport.emit({ type: 'text', text: '[WHITEBOARD_START]\n## Title: Area\n$A = lw$\n[WHITEBOARD_END]' }));
+    expect(result.current.isWhiteboardStreaming).toBe(false);
+    act(() => result.current.closeWhiteboard());
+
+    act(() => transport.emit({ type: 'text', text: ' So multiply the sides.' }));
+    act(() => transport.emit({ type: 'text', text: ' [WHITEBOARD_START]\n## Title: Check\n' }));
+    expect(result.current.showWhiteboard).toBe(false);
+  });
+
+  it('tracks lesson plan objectives marked complete by the teacher', async () => {
+    const lessonPlan = getLessonPlan('hank-ks3-linear-equations');
+    const transport = new ScriptedTransport({
+      replies: [{
+        steps: [
+          {
+            event: {
+              type: 'toolCall',
+              calls: [
+                { id: 'call-1', name: 'mark_objective_complete', args: { objective_id: 'two-step' } },
+                { id: 'call-2', name: 'mark_objective_complete', args: { objective_id: 'long-division' } },
+              ],
+            },
+          },
+        ],
+      }],
+    });
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport, lessonPlan })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.sendTextContent('x = 5'));
+
+    await waitFor(() => expect(transport.sent.some((m) => m.kind === 'toolResponses')).toBe(true));
+    expect(result.current.completedObjectives).toEqual(['two-step']);
+
+    const reply = transport.sent.find((m) => m.kind === 'toolResponses');
+    expect(reply?.kind === 'toolResponses' && reply.responses[0].response).toMatchObject({ status: 'complete', completed: 1, total: 3 });
+    expect(reply?.kind === 'toolResponses' && reply.responses[1].response.error).toMatch(/Unknown objective "long-division"/);
+  });
+
+  it('opens teacher quizzes through onQuizRequest', async () => {
+    const onQuizRequest = vi.fn();
+    const transport = new ScriptedTransport({
+      replies: [{
+        steps: [
+          {
+            event: {
+              type: 'toolCall',
+              calls: [{
+                id: 'call-1',
+                name: 'start_quiz',
+                args: { title: 'Check', questions: [{ prompt: 'Expand $2(x+1)$', type: 'math', answer: '2x + 2' }] },
+              }],
+            },
+          },
+        ],
+      }],
+    });
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport, onQuizRequest })
+    );
+
+    await act(() => result.current.connect());
+    act(() => result.current.sendTextContent('Quiz me'));
+
+    await waitFor(() => expect(transport.sent.some((m) => m.kind === 'toolResponses')).toBe(true));
+    expect(onQuizRequest).toHaveBeenCalledWith({
+      title: 'Check',
+      questions: [{ prompt: 'Expand $2(x+1)$', type: 'math', answer: '2x + 2', options: undefined }],
+    });
+    const reply = transport.sent.find((m) => m.kind === 'toolResponses');
+    expect(reply?.kind === 'toolResponses' && reply.responses[0].response).toMatchObject({ status: 'started', questionCount: 1 });
+  });
+
+  it('stops playback and truncates the message to what was heard on interruption', async () => {
+    const contexts: FakeAudioContext[] = [];
+    vi.stubGlobal('AudioContext', class extends FakeAudioContext {
+      constructor(options?: { sampleRate?: number }) {
+        super(options);
+        contexts.push(this);
+      }
+    });
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+    const clearBuffer = vi.fn();
+
+    await act(() => result.current.connect());
+    act(() => result.current.setSimliAudioHandler(() => {}, clearBuffer));
+    act(() => {
+      // One second of audio and the words spoken over it
+      transport.emit({ type: 'audio', data: new Uint8Array(48000) });
+      transport.emit({ type: 'outputTranscription', text: 'One two three four five six seven eight' });
+    });
+
+    const context = contexts[0];
+    context.currentTime = context.sources[0].startedAt! + 0.5;
+    act(() => transport.emit({ type: 'interrupted' }));
+
+    expect(context.sources[0].stopped).toBe(true);
+    expect(clearBuffer).toHaveBeenCalled();
+    expect(result.current.isSpeaking).toBe(false);
+    expect(result.current.messages.at(-1)).toMatchObject({ role: 'assistant', content: 'One two three four…' });
+  });
+
+  it('keeps a marker when the student interrupts before any audio was heard', async () => {
+    const contexts: FakeAudioContext[] = [];
+    vi.stubGlobal('AudioContext', class extends FakeAudioContext {
+      constructor(options?: { sampleRate?: number }) {
+        super(options);
+        contexts.push(this);
+      }
+    });
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport })
+    );
+
+    await act(() => result.current.connect());
+    act(() => {
+      transport.emit({ type: 'audio', data: new Uint8Array(48000) });
+      transport.emit({ type: 'outputTranscription', text: 'One two three four' });
+    });
+
+    // Still in the jitter buffer: nothing has played yet
+    const context = contexts[0];
+    context.currentTime = context.sources[0].startedAt! - 0.05;
+    act(() => transport.emit({ type: 'interrupted' }));
+
+    expect(result.current.messages.at(-1)).toMatchObject({ role: 'assistant', content: '(interrupted)' });
+  });
+
+  it('brackets push-to-talk speech with activity signals', async () => {
+    const transport = new ScriptedTransport();
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transport, micMode: 'push-to-talk' })
+    );
+    await act(() => result.current.connect());
+    await act(() => result.current.startRecording());
+
+    act(() => result.current.startTalking());
+    expect(result.current.isUserTalking).toBe(true);
+    act(() => result.current.stopTalking());
+    expect(result.current.isUserTalking).toBe(false);
+    expect(activity(transport)).toEqual(['start', 'end']);
+  });
+
+  it('ends speech in progress when the connection drops and starts afresh on the new session', async () => {
+    const first = new ScriptedTransport();
+    const second = new ScriptedTransport();
+    const transports = [first, second];
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', {
+        createTransport: () => transports.shift()!,
+        micMode: 'push-to-talk',
+      })
+    );
+    await act(() => result.current.connect());
+    await act(() => result.current.startRecording());
+    act(() => result.current.startTalking());
+
+    act(() => first.emit({ type: 'closed', upstream: true }));
+    expect(result.current.isUserTalking).toBe(false);
+    expect(activity(first)).toEqual(['start']);
+
+    await waitFor(() => expect(result.current.isRecording && !result.current.isReconnecting).toBe(true), { timeout: 3000 });
+    expect(activity(second)).toEqual([]);
+    act(() => result.current.startTalking());
+    act(() => result.current.stopTalking());
+    expect(activity(second)).toEqual(['start', 'end']);
+  });
+
+  it('queues messages sent while reconnecting and replays them once the session is ready', async () => {
+    sessionStorage.clear();
+    const first = new ScriptedTransport();
+    const second = new ScriptedTransport();
+    const transports = [first, second];
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transports.shift()! })
+    );
+
+    await act(() => result.current.connect());
+    act(() => first.emit({ type: 'closed', upstream: true }));
+    expect(result.current.isReconnecting).toBe(true);
+
+    act(() => {
+      result.current.sendTextContent('Is it 4?');
+      result.current.sendTextContent('Is it 4?');
+      result.current.sendTextContent('Never mind');
+      result.current.sendBSLModeChange(true);
+      result.current.sendBSLModeChange(false);
+    });
+    const pending = result.current.messages.filter((m) => m.pending);
+    expect(pending.map((m) => m.content)).toEqual(['Is it 4?...', 'Never mind...']);
+
+    act(() => result.current.cancelPendingMessage(pending[1].id));
+    expect(result.current.messages.map((m) => m.content)).toEqual(['Is it 4?...']);
+
+    await waitFor(() => expect(result.current.isConnected).toBe(true), { timeout: 3000 });
+    const texts = second.sent.map((m) => (m.kind === 'turns' ? m.turns[0].parts[0] : null));
+    expect(texts).toEqual([{ text: 'Is it 4?' }, { text: expect.stringContaining('BSL mode has been DISABLED') }]);
+    expect(result.current.messages[0].pending).toBeUndefined();
+    expect(sessionStorage.getItem('outboundQueue:hank')).toBeNull();
+  });
+
+  it('drops queued messages when the student disconnects on purpose', async () => {
+    sessionStorage.clear();
+    const first = new ScriptedTransport();
+    const second = new ScriptedTransport();
+    const transports = [first, second, new ScriptedTransport()];
+    const { result } = renderHook(() =>
+      useRealtimeChat('Puck', 'You are Hank.', undefined, 'hank', { createTransport: () => transports.shift()! })
+    );
+
+    await act(() => result.current.connect());
+    act(() => first.emit({ type: 'closed', upstream: true }));
+    act(() => result.current.sendTextContent('Is it 4?'));
+    expect(result.current.messages.filter((m) => m.pending)).toHaveLength(1);
+
+    act(() => result.current.disconnect());
+    expect(result.current.messages.filter((m) => m.pending)).toHaveLength(0);
+    expect(sessionStorage.getItem('outboundQueue:hank')).toBeNull();
+
+    await act(() => result.current.connect());
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+    // Outlast the abandoned reconnect's back-off so it would have fired by now
+    await act(() => new Promise((resolve) => setTimeout(resolve, 700)));
+    expect(transports).toHaveLength(1);
+    expect(second.sent.filter((m) => m.kind === 'turns')).toEqual([]);
+    expect(result.current.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { SpeechGate, VoiceActivityDetector, frameLevelDb } from '@/lib/vad';
+
+// One 40 ms frame at 16 kHz of a tone at the given peak amplitude
+const frame = (amplitude: number) =>
+  Int16Array.from({ length: 640 }, (_, i) => Math.round(amplitude * 0x7fff * Math.sin((2 * Math.PI * 300 * i) / 16000)));
+
+const feed = (vad: VoiceActivityDetector, amplitude: number, frames: number) =>
+  Array.from({ length: frames }, () => vad.process(frame(amplitude))).filter(Boolean);
+
+describe('frameLevelDb', () => {
+  it('measures RMS in dBFS', () => {
+    expect(frameLevelDb(frame(1))).toBeCloseTo(-3, 0);
+    expect(frameLevelDb(new Int16Array(640))).toBe(-100);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it('starts after sustained speech and ends after the hangover', () => {
+    const vad = new VoiceActivityDetector();
+    expect(feed(vad, 0, 10)).toEqual([]);
+
+    // A 40 ms click is too short to be speech
+    expect(feed(vad, 0.3, 1)).toEqual([]);
+    expect(feed(vad, 0, 2)).toEqual([]);
+
+    expect(feed(vad, 0.3, 4)).toEqual(['speechStart']);
+    expect(vad.isSpeaking).toBe(true);
+
+    // A short pause between words doesn't end it
+    expect(feed(vad, 0, 5)).toEqual([]);
+    expect(feed(vad, 0.3, 2)).toEqual([]);
+    expect(feed(vad, 0, 15)).toEqual(['speechEnd']);
+  });
+
+  it('stops treating steady background noise as speech', () => {
+    const vad = new VoiceActivityDetector();
+    expect(feed(vad, 0.02, 200)).toEqual(['speechStart', 'speechEnd']);
+    expect(vad.noiseFloor).toBeGreaterThan(-45);
+
+    // Speech still stands out above the noise
+    expect(feed(vad, 0.4, 5)).toEqual(['speechStart']);
+  });
+});
+
+describe('SpeechGate', () => {
+  const createGate = (mode: 'voice-activity' | 'push-to-talk' = 'voice-activity') => {
+    const log: string[] = [];
+    const gate = new SpeechGate(
+      {
+        onSpeechStart: () => log.push('start'),
+        onFrame: (pcm) => log.push(pcm.some((s) => Math.abs(s) > 1000) ? 'loud' : 'quiet'),
+        onSpeechEnd: () => log.push('end'),
+      },
+      { mode, preRollMs: 120 }
+    );
+    return { gate, log };
+  };
+
+  it('sends nothing but speech, with the frames from just before it', () => {
+    const { gate, log } = createGate();
+    for (let i = 0; i < 10; i++) gate.push(frame(0));
+    expect(log).toEqual([]);
+
+    for (let i = 0; i < 4; i++) gate.push(frame(0.3));
+    // The three frames that built up to detection come first, from the pre-roll
+    expect(log).toEqual(['start', 'loud', 'loud', 'loud', 'loud']);
+
+    log.length = 0;
+    for (let i = 0; i < 20; i++) gate.push(frame(0));
+    expect(log.filter((e) => e === 'quiet')).toHaveLength(15);
+    expect(log.at(-1)).toBe('end');
+    expect(gate.isOpen).toBe(false);
+  });
+
+  it('only sends while held in push-to-talk mode', () => {
+    const { gate, log } = createGate('push-to-talk');
+    gate.push(frame(0.3));
+    gate.press();
+    gate.push(frame(0));
+    gate.release();
+    gate.push(frame(0.3));
+    expect(log).toEqual(['start', 'quiet', 'end']);
+  });
+
+  it('ends speech in progress when the mode changes', () => {
+    const { gate, log } = createGate('push-to-talk');
+    gate.press();
+    gate.setMode('voice-activity');
+    expect(log).toEqual(['start', 'end']);
+    gate.press();
+    expect(log).toEqual(['start', 'end']);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  annotatedBoardToPng,
+  annotationsBottom,
+  annotationsToPng,
+  checkMyWorkingPrompt,
+  drawAnnotations,
+  emptyAnnotationLayer,
+  newSketchKey,
+  parseAnnotationLayer,
+  whiteboardBoardKey,
+  type Annotation,
+} from '@/lib/whiteboardAnnotations';
+
+const stroke: Annotation = { kind: 'stroke', points: [{ x: 1, y: 2 }, { x: 10, y: 20 }], color: '#ef4444', width: 4 };
+const erase: Annotation = { kind: 'erase', points: [{ x: 5, y: 5 }], width: 20 };
+const box: Annotation = { kind: 'shape', shape: 'rectangle', from: { x: 30, y: 40 }, to: { x: 10, y: 60 }, color: '#3b82f6', width: 2 };
+const label: Annotation = { kind: 'text', at: { x: 0, y: 100 }, text: 'x = 4\ncheck', color: '#22c55e', size: 20 };
+
+// Records what would have been drawn
+const recordingContext = () => {
+  const calls: string[] = [];
+  const state = { globalCompositeOperation: 'source-over' };
+  const context = new Proxy(state as unknown as CanvasRenderingContext2D, {
+    get: (target, key: string) =>
+      key in target ? target[key as keyof typeof target] : (...args: unknown[]) => {
+        calls.push(`${key}(${args.join(',')})`);
+      },
+    set: (target, key: string, value) => {
+      if (key === 'globalCompositeOperation') calls.push(`composite ${value}`);
+      (target as unknown as Record<string, unknown>)[key] = value;
+      return true;
+    },
+  });
+  return { context, calls };
+};
+
+describe('whiteboardBoardKey', () => {
+  it('is the same for the same board, ignoring surrounding whitespace', () => {
+    expect(whiteboardBoardKey('## Title: Area\n$A = lw$')).toBe(whiteboardBoardKey('  ## Title: Area\n$A = lw$\n'));
+  });
+
+  it('differs between boards', () => {
+    expect(whiteboardBoardKey('$x = 4$')).not.toBe(whiteboardBoardKey('$x = 5$'));
+    expect(whiteboardBoardKey('')).toMatch(/^[0-9a-f]{8}-0$/);
+  });
+});
+
+describe('newSketchKey', () => {
+  it('gives every blank sketch its own key, apart from board keys', () => {
+    const key = newSketchKey();
+    expect(key).not.toBe(newSketchKey());
+    expect(key).not.toBe(whiteboardBoardKey(''));
+  });
+});
+
+describe('parseAnnotationLayer', () => {
+  it('reads back a saved layer', () => {
+    const layer = { version: 1, width: 640, annotations: [stroke, erase, box, label] };
+    expect(parseAnnotationLayer(JSON.parse(JSON.stringify(layer)))).toEqual(layer);
+  });
+
+  it('drops annotations it cannot draw but keeps the rest', () => {
+    const layer = parseAnnotationLayer({
+      version: 1,
+      width: 640,
+      annotations: [stroke, { kind: 'stroke', points: [], color: 'red', width: 2 }, { kind: 'shape', shape: 'star' }, { kind: 'text', at: { x: 0, y: 0 }, text: '', color: 'red', size: 12 }],
+    });
+    expect(layer?.annotations).toEqual([stroke]);
+  });
+
+  it('rejects anything that is not a layer', () => {
+    expect(parseAnnotationLayer(null)).toBeNull();
+    expect(parseAnnotationLayer({ version: 2, width: 640, annotations: [] })).toBeNull();
+    expect(parseAnnotationLayer({ version: 1, width: 0, annotations: [] })).toBeNull();
+  });
+});
+
+describe('drawAnnotations', () => {
+  it('erases through what was drawn before', () => {
+    const { context, calls } = recordingContext();
+    drawAnnotations(context, [stroke, erase]);
+    expect(calls).toContain('lineTo(10,20)');
+    expect(calls.indexOf('composite destination-out')).toBeGreaterThan(calls.lastIndexOf('lineTo(10,20)'));
+  });
+
+  it('draws rectangles from either corner and text line by line', () => {
+    const { context, calls } = recordingContext();
+    drawAnnotations(context, [box, label]);
+    expect(calls).toContain('rect(10,40,20,20)');
+    expect(calls).toContain('fillText(x = 4,0,100)');
+    expect(calls).toContain('fillText(check,0,124)');
+  });
+});
+
+describe('annotationsBottom', () => {
+  it('reaches the lowest ink, counting line width and text height', () => {
+    expect(annotationsBottom([stroke])).toBe(22);
+    expect(annotationsBottom([stroke, box])).toBe(61);
+    expect(annotationsBottom([label])).toBe(148);
+    expect(annotationsBottom([])).toBe(0);
+  });
+});
+
+describe('annotationsToPng', () => {
+  it('has nothing to send without ink', () => {
+    expect(annotationsToPng(emptyAnnotationLayer(640))).toBeNull();
+    expect(annotationsToPng({ ...emptyAnnotationLayer(640), annotations: [erase] })).toBeNull();
+  });
+});
+
+describe('annotatedBoardToPng', () => {
+  it('has nothing to send without ink, whatever the board', async () => {
+    const board = { title: 'Area', sections: [{ type: 'text' as const, content: 'A = lw' }], rawContent: 'A = lw' };
+    await expect(annotatedBoardToPng(emptyAnnotationLayer(640), board)).resolves.toBeNull();
+    await expect(annotatedBoardToPng({ ...emptyAnnotationLayer(640), annotations: [erase] }, null)).resolves.toBeNull();
+  });
+});
+
+describe('checkMyWorkingPrompt', () => {
+  it('names the board drawn over', () => {
+    expect(checkMyWorkingPrompt('Area')).toContain('the "Area" whiteboard with my working drawn over it');
+    expect(checkMyWorkingPrompt(null)).toContain('blank whiteboard');
+  });
+});
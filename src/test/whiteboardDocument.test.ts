@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WHITEBOARD_SCHEMA_VERSION,
+  formatWhiteboardErrors,
+  loadWhiteboard,
+  samplePlot,
+  validateWhiteboardDocument,
+  type WhiteboardDocument,
+} from '@/lib/whiteboardDocument';
+
+const validBoard = (): WhiteboardDocument => ({
+  version: WHITEBOARD_SCHEMA_VERSION,
+  title: 'Solving a quadratic',
+  problem: [{ type: 'text', text: 'Solve $x^2 - 5x + 6 = 0$.' }],
+  steps: [
+    { explanation: 'Factorise the left-hand side.', blocks: [{ type: 'math', latex: '(x - 2)(x - 3) = 0' }] },
+    {
+      explanation: 'Check both roots.',
+      blocks: [{ type: 'table', header: ['$x$', 'value'], rows: [['2', '0'], ['3', '0']] }],
+    },
+    { explanation: '', blocks: [{ type: 'diagram', alt: 'Parabola crossing the x-axis at 2 and 3', plot: { expression: 'x^2 - 5*x + 6', xMin: 0, xMax: 5 } }] },
+  ],
+  answer: [{ type: 'text', text: '$x = 2$ or $x = 3$' }],
+  notes: [{ kind: 'tips', blocks: [{ type: 'text', text: 'Look for two numbers that multiply to 6.' }] }],
+});
+
+const errorPaths = (value: unknown) => validateWhiteboardDocument(value).errors.map((e) => e.path);
+
+describe('validateWhiteboardDocument', () => {
+  it('accepts a well-formed board', () => {
+    const result = validateWhiteboardDocument(validBoard());
+    expect(result.errors).toEqual([]);
+    expect(result.document).toEqual(validBoard());
+  });
+
+  it('reports placeholder tokens at the field they appear in', () => {
+    const board = validBoard();
+    board.steps[0].explanation = 'Use $1 to get $2 on the left.';
+    const { document, errors } = validateWhiteboardDocument(board);
+    expect(document).toBeNull();
+    expect(errors).toEqual([{ path: 'steps[0].explanation', message: 'contains the placeholder $1, $2 instead of real maths' }]);
+  });
+
+  it('reports an unpaired $ in prose', () => {
+    const board = validBoard();
+    board.problem = [{ type: 'text', text: 'Solve $x^2 = 4 for x.' }];
+    expect(errorPaths(board)).toEqual(['problem[0].text']);
+  });
+
+  it('keeps maths out of the title', () => {
+    const board = validBoard();
+    board.title = 'Solving $x^2 = 4$';
+    expect(validateWhiteboardDocument(board).errors).toEqual([
+      { path: 'title', message: 'must be plain text; put formulas in the problem' },
+    ]);
+  });
+
+  it('checks LaTeX blocks for delimiters and unbalanced braces', () => {
+    const board = validBoard();
+    board.steps[0].blocks = [
+      { type: 'math', latex: '$x = 2$' },
+      { type: 'math', latex: '\\frac{1}{2' },
+      { type: 'math', latex: '\\{x\\} = 1' },
+    ];
+    const { errors } = validateWhiteboardDocument(board);
+    expect(errors).toEqual([
+      { path: 'steps[0].blocks[0].latex', message: 'must be raw LaTeX without $ delimiters' },
+      { path: 'steps[0].blocks[1].latex', message: 'has a { that is never closed' },
+    ]);
+  });
+
+  it('requires table rows to match the header', () => {
+    const board = validBoard();
+    board.steps[1].blocks = [{ type: 'table', header: ['a', 'b'], rows: [['1', '2'], ['3']] }];
+    expect(validateWhiteboardDocument(board).errors).toEqual([
+      { path: 'steps[1].blocks[0].rows[1]', message: 'has 1 cells but the header has 2' },
+    ]);
+  });
+
+  it('checks plot expressions and ranges', () => {
+    const board = validBoard();
+    board.steps[2].blocks = [
+      { type: 'diagram', alt: 'graph', plot: { expression: 'x^2 + y', xMin: 0, xMax: 1 } },
+      { type: 'diagram', alt: 'graph', plot: { expression: 'x +', xMin: 0, xMax: 1 } },
+      { type: 'diagram', alt: 'graph', plot: { expression: 'x', xMin: 2, xMax: 1 } },
+    ];
+    const { errors } = validateWhiteboardDocument(board);
+    expect(errors.map((e) => e.path)).toEqual([
+      'steps[2].blocks[0].plot.expression',
+      'steps[2].blocks[1].plot.expression',
+      'steps[2].blocks[2].plot.xMax',
+    ]);
+    expect(errors[0].message).toBe('may only use x, not y');
+    expect(errors[2].message).toBe('must be greater than xMin');
+  });
+
+  it('rejects unknown versions, block types and note kinds', () => {
+    const board = { ...validBoard(), version: 2, notes: [{ kind: 'aside', blocks: [{ type: 'video' }] }] };
+    expect(errorPaths(board)).toEqual(['version', 'notes[0].kind', 'notes[0].blocks[0].type']);
+  });
+
+  it('rejects an empty board', () => {
+    const { errors } = validateWhiteboardDocument({ version: 1, title: 'Nothing', steps: [] });
+    expect(errors).toEqual([{ path: '', message: 'board is empty; give it a problem, steps, an answer or notes' }]);
+  });
+
+  it('formats errors one per line', () => {
+    expect(formatWhiteboardErrors([
+      { path: '', message: 'board is empty' },
+      { path: 'title', message: 'must not be empty' },
+    ])).toBe('- board: board is empty\n- title: must not be empty');
+  });
+});
+
+describe('loadWhiteboard', () => {
+  it('reads JSON boards', () => {
+    const board = loadWhiteboard(JSON.stringify(validBoard()));
+    expect(board.format).toBe('json');
+    expect(board.document?.title).toBe('Solving a quadratic');
+  });
+
+  it('explains JSON that does not parse', () => {
+    const board = loadWhiteboard('{"version": 1, "title": ');
+    expect(board.document).toBeNull();
+    expect(board.errors[0].message).toMatch(/^board is not valid JSON/);
+  });
+
+  it('converts Markdown boards, attaching maths and tables to their step', () => {
+    const board = loadWhiteboard([
+      '## Title: Area of a rectangle',
+      '## Problem',
+      'Find the area of a 3 by 4 rectangle.',
+      '**Step 1:** Multiply the sides.',
+      '$$A = 3 \\times 4$$',
+      '**Step 2:** Compare sizes.',
+      '| side | length |',
+      '| --- | --- |',
+      '| a | 3 |',
+      '| b | 4 |',
+      '## Answer',
+      '$A = 12$',
+    ].join('\n'));
+
+    expect(board.format).toBe('markdown');
+    expect(board.errors).toEqual([]);
+    expect(board.document.problem).toEqual([{ type: 'text', text: 'Find the area of a 3 by 4 rectangle.' }]);
+    expect(board.document.steps[0].blocks).toContainEqual({ type: 'math', latex: 'A = 3 \\times 4' });
+    expect(board.document.steps[1].blocks).toContainEqual({ type: 'table', header: ['side', 'length'], rows: [['a', '3'], ['b', '4']] });
+    expect(board.document.answer).toBeDefined();
+  });
+
+  it('lets Markdown titles hold maths but still flags placeholders', () => {
+    expect(loadWhiteboard('## Title: Solving $x^2 = 4$\n\n**Step 1:** Take roots.').errors).toEqual([]);
+    expect(loadWhiteboard('## Title: Quadratics\n\n**Step 1:** Use $1 then $2.').errors.map((e) => e.path)).toEqual([
+      'steps[0].explanation',
+    ]);
+  });
+});
+
+describe('samplePlot', () => {
+  it('splits the curve where the function is undefined', () => {
+    const segments = samplePlot({ expression: '1/x', xMin: -1, xMax: 1 }, 20);
+    expect(segments).toHaveLength(2);
+    expect(segments[0].every((p) => p.x < 0)).toBe(true);
+    expect(segments[1].every((p) => p.x > 0)).toBe(true);
+  });
+
+  it('returns nothing for an expression it cannot read', () => {
+    expect(samplePlot({ expression: 'x +', xMin: 0, xMax: 1 })).toEqual([]);
+  });
+});
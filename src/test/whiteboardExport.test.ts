@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseWhiteboardContent } from '@/lib/whiteboardParser';
+import type { WhiteboardDocument } from '@/lib/whiteboardDocument';
+import {
+  printWhiteboard,
+  whiteboardFileName,
+  whiteboardToHtml,
+  whiteboardToLatex,
+  whiteboardToMarkdown,
+} from '@/lib/whiteboardExport';
+
+const parsed = parseWhiteboardContent([
+  '## Title: Solving 50% discounts',
+  '### Problem',
+  'A coat costs £80 & is **half price**. What is $80 \\times 0.5$?',
+  '',
+  '**Step 1:** Halve the price.',
+  '$$80 \\div 2 = 40$$',
+  '### Answer',
+  '$40$ pounds',
+].join('\n'));
+
+const meta = { teacherName: 'Hank', topic: 'Percentages', date: new Date('2026-03-04T10:00:00Z') };
+
+const jsonBoard: WhiteboardDocument = {
+  version: 1,
+  title: 'Graph of a parabola',
+  steps: [{
+    explanation: 'Plot it.',
+    blocks: [
+      { type: 'diagram', alt: 'A parabola', plot: { expression: 'x^2', xMin: -2, xMax: 2 } },
+      { type: 'table', header: ['x', 'y'], rows: [['1', '1']] },
+    ],
+  }],
+};
+
+describe('whiteboardToMarkdown', () => {
+  it('puts the topic, teacher and date in the header', () => {
+    const markdown = whiteboardToMarkdown(parsed, meta);
+    const [title, , header] = markdown.split('\n');
+    expect(title).toBe('# Solving 50% discounts');
+    expect(header).toContain('**Topic:** Percentages');
+    expect(header).toContain('**Teacher:** Hank');
+    expect(header).toContain(meta.date.toLocaleDateString([], { dateStyle: 'long' }));
+  });
+
+  it('lists the parts in board order with their maths', () => {
+    const markdown = whiteboardToMarkdown(parsed, meta);
+    expect(markdown.indexOf('## Problem')).toBeLessThan(markdown.indexOf('## Step 1'));
+    expect(markdown.indexOf('## Step 1')).toBeLessThan(markdown.indexOf('## Answer'));
+    expect(markdown).toContain('Halve the price.\n\n$$80 \\div 2 = 40$$');
+  });
+
+  it('falls back to the board title for the topic', () => {
+    expect(whiteboardToMarkdown(jsonBoard, { teacherName: 'Hank' })).toContain('**Topic:** Graph of a parabola');
+  });
+});
+
+describe('whiteboardToLatex', () => {
+  it('builds a standalone document', () => {
+    const tex = whiteboardToLatex(parsed, meta);
+    expect(tex.startsWith('\\documentclass')).toBe(true);
+    expect(tex).toContain('\\usepackage{amsmath,amssymb}');
+    expect(tex).toContain('\\author{Hank}');
+    expect(tex).toContain('\\noindent\\textbf{Topic:} Percentages');
+    expect(tex.trim().endsWith('\\end{document}')).toBe(true);
+  });
+
+  it('escapes prose but keeps maths and bold', () => {
+    const tex = whiteboardToLatex(parsed, meta);
+    expect(tex).toContain('\\title{Solving 50\\% discounts}');
+    expect(tex).toContain('£80 \\& is \\textbf{half price}. What is $80 \\times 0.5$?');
+    expect(tex).toContain('\\[\n80 \\div 2 = 40\n\\]');
+  });
+
+  it('writes tables and describes diagrams', () => {
+    const tex = whiteboardToLatex(jsonBoard, meta);
+    expect(tex).toContain('\\begin{tabular}{ll}');
+    expect(tex).toContain('x & y \\\\');
+    expect(tex).toContain('\\emph{Diagram: A parabola}');
+    expect(tex).toContain('\\texttt{y = x\\textasciicircum{}2}');
+  });
+});
+
+describe('whiteboardToHtml', () => {
+  it('renders maths as MathML and escapes text', () => {
+    const html = whiteboardToHtml(parsed, meta);
+    expect(html).toContain('<math');
+    expect(html).toContain('£80 &amp; is <strong>half price</strong>');
+    expect(html).toContain('Teacher: Hank');
+    expect(html).not.toContain('<link');
+  });
+
+  it('draws plots as inline SVG', () => {
+    const html = whiteboardToHtml(jsonBoard, meta);
+    expect(html).toMatch(/<svg[^>]+aria-label="A parabola"/);
+    expect(html).toContain('<polyline');
+  });
+});
+
+describe('printWhiteboard', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reports a blocked pop-up', () => {
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    expect(printWhiteboard(parsed, meta)).toBe(false);
+  });
+});
+
+describe('whiteboardFileName', () => {
+  it('names the file after the board and date', () => {
+    expect(whiteboardFileName(parsed, meta)).toBe('whiteboard-solving-50-discounts-2026-03-04');
+  });
+});
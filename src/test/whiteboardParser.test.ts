@@ -5,6 +5,8 @@ import {
   parseWhiteboardContent,
   hasWhiteboardContent,
   extractWhiteboardContent,
+  stableWhiteboardPrefix,
+  streamingWhiteboardContent,
 } from '@/lib/whiteboardParser';
 
 describe('sanitizeLatex', () => {
@@ -141,3 +143,46 @@ describe('extractWhiteboardContent', () => {
     expect(result.content).toBe('Still writing...');
   });
 });
+
+describe('stableWhiteboardPrefix', () => {
+  it('holds back the line still being written', () => {
+    expect(stableWhiteboardPrefix('## Title: Fractions\n**Step 1:** Find a common')).toBe('## Title: Fractions');
+  });
+
+  it('waits for a display block to close', () => {
+    const partial = '**Step 1:** Expand\n$$\n(x + 1)^2\n';
+    expect(stableWhiteboardPrefix(partial)).toBe('**Step 1:** Expand');
+    expect(stableWhiteboardPrefix(`${partial}$$\n`)).toBe('**Step 1:** Expand\n$$\n(x + 1)^2\n$$');
+  });
+
+  it('waits for inline and bracket delimiters to balance', () => {
+    expect(stableWhiteboardPrefix('Start\nSo $x = \n')).toBe('Start');
+    expect(stableWhiteboardPrefix('Start\nSo \\(x = 2\n')).toBe('Start');
+    expect(stableWhiteboardPrefix('Start\nSo $x = 2$ and \\[y = 3\\]\n')).toBe('Start\nSo $x = 2$ and \\[y = 3\\]');
+  });
+
+  it('ignores escaped dollars', () => {
+    expect(stableWhiteboardPrefix('It costs \\$5\n')).toBe('It costs \\$5');
+  });
+
+  it('keeps partial JSON boards back entirely', () => {
+    expect(stableWhiteboardPrefix('{\n  "version": 1,\n')).toBe('');
+  });
+});
+
+describe('streamingWhiteboardContent', () => {
+  it('returns null without a start marker', () => {
+    expect(streamingWhiteboardContent('Just talking')).toBeNull();
+  });
+
+  it('trims an unfinished board and returns a finished one whole', () => {
+    expect(streamingWhiteboardContent('Here [WHITEBOARD_START]\n## Title: Area\n$$A = ')).toEqual({
+      content: '## Title: Area',
+      isComplete: false,
+    });
+    expect(streamingWhiteboardContent('[WHITEBOARD_START]\n## Title: Area\n$$A = lw$$[WHITEBOARD_END]')).toEqual({
+      content: '## Title: Area\n$$A = lw$$',
+      isComplete: true,
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { loadWhiteboard } from '@/lib/whiteboardDocument';
+import { explainStepPrompt, narratedStepIndex, sectionGroupStarts, walkthroughSteps } from '@/lib/whiteboardWalkthrough';
+
+const markdownBoard = loadWhiteboard([
+  '## Title: Solve a linear equation',
+  '### Problem',
+  'Solve $2x + 3 = 11$.',
+  '',
+  '**Step 1:** Subtract three from both sides to isolate the term.',
+  '$$2x = 8$$',
+  '**Step 2:** Divide both sides by two to find the unknown.',
+  '$$x = 4$$',
+  '### Answer',
+  '$x = 4$',
+].join('\n'));
+
+const jsonBoard = loadWhiteboard(JSON.stringify({
+  version: 1,
+  title: 'Area',
+  steps: [
+    { explanation: 'Multiply length by width.', blocks: [{ type: 'math', latex: 'A = lw' }] },
+    { explanation: 'Substitute the measurements.', blocks: [{ type: 'table', header: ['l', 'w'], rows: [['3', '4']] }] },
+  ],
+}));
+
+describe('sectionGroupStarts', () => {
+  it('keeps maths and loose text with the heading before them', () => {
+    expect(sectionGroupStarts([
+      { type: 'problem', content: 'p' },
+      { type: 'step', content: 's1', stepNumber: 1 },
+      { type: 'math', content: 'm' },
+      { type: 'text', content: 't' },
+      { type: 'step', content: 's2', stepNumber: 2 },
+    ])).toEqual([0, 1, 4]);
+  });
+});
+
+describe('walkthroughSteps', () => {
+  it('groups each Markdown step with its maths', () => {
+    const steps = walkthroughSteps(markdownBoard);
+    expect(steps).toHaveLength(2);
+    expect(steps[0].section).toEqual({
+      type: 'step',
+      stepNumber: 1,
+      content: 'Subtract three from both sides to isolate the term.\n\n$$2x = 8$$',
+    });
+    const { sections } = markdownBoard.format === 'markdown' ? markdownBoard.parsed : { sections: [] };
+    expect(steps[1].sectionIndexes.map((i) => sections[i].type)).toEqual(['step', 'math']);
+  });
+
+  it('quotes JSON steps back as Markdown', () => {
+    const steps = walkthroughSteps(jsonBoard);
+    expect(steps.map((s) => s.sectionIndexes)).toEqual([[], []]);
+    expect(steps[0].section.content).toBe('Multiply length by width.\n\n$$A = lw$$');
+    expect(steps[1].section.content).toBe('Substitute the measurements.\n\n| l | w |\n| --- | --- |\n| 3 | 4 |');
+  });
+});
+
+describe('narratedStepIndex', () => {
+  const steps = walkthroughSteps(markdownBoard);
+
+  it('follows the step the teacher names', () => {
+    expect(narratedStepIndex('Good. Now for step two, we', steps)).toBe(1);
+    expect(narratedStepIndex('Looking at step 1 again', steps)).toBe(0);
+  });
+
+  it('matches what the teacher is describing', () => {
+    expect(narratedStepIndex('First we subtract three from both sides so the term is isolated', steps)).toBe(0);
+    expect(narratedStepIndex('and then we divide both sides by two to find the unknown', steps)).toBe(1);
+  });
+
+  it('returns null when nothing matches well enough', () => {
+    expect(narratedStepIndex('Hello there, how are you today?', steps)).toBeNull();
+    expect(narratedStepIndex('', steps)).toBeNull();
+    expect(narratedStepIndex('step nine', steps)).toBeNull();
+  });
+});
+
+describe('explainStepPrompt', () => {
+  it('names the board and quotes the step', () => {
+    const prompt = explainStepPrompt('Area', { type: 'step', stepNumber: 2, content: 'Substitute.' });
+    expect(prompt).toContain('step 2 of the "Area" whiteboard');
+    expect(prompt.endsWith('Substitute.')).toBe(true);
+  });
+});
@@ -0,0 +1,20 @@
+// Resolve the calling learner from the request's Supabase JWT.
+
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Supabase client acting as the caller (RLS applies) plus their user, or null
+ * when the request carries no valid session
+ */
+export const getCaller = async (req: Request): Promise<{ supabase: SupabaseClient; user: User } | null> => {
+  const authorization = req.headers.get("Authorization");
+  if (!authorization) return null;
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", Deno.env.get("SUPABASE_ANON_KEY") ?? "", {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await supabase.auth.getUser();
+  if (error || !data.user) return null;
+  return { supabase, user: data.user };
+};
@@ -0,0 +1,58 @@
+// Gemini API helpers shared by edge functions.
+
+/**
+ * Read GEMINI_API_KEY, tolerating quotes pasted around the secret
+ */
+export const getGeminiApiKey = () => {
+  const raw = Deno.env.get("GEMINI_API_KEY") ?? "";
+  let key = raw.trim();
+  if (
+    (key.startsWith('"') && key.endsWith('"')) ||
+    (key.startsWith("'") && key.endsWith("'"))
+  ) {
+    key = key.slice(1, -1).trim();
+  }
+  return key;
+};
+
+/**
+ * One-shot generateContent call that asks for JSON matching `responseSchema`
+ */
+export const generateJson = async <T>(
+  model: string,
+  prompt: string,
+  responseSchema: Record<string, unknown>
+): Promise<T> => {
+  const apiKey = getGeminiApiKey();
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY is not configured");
+  }
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        contents: [{ role: "user", parts: [{ text: prompt }] }],
+        generationConfig: {
+          temperature: 0.2,
+          responseMimeType: "application/json",
+          responseSchema,
+        },
+      }),
+    }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Gemini generateContent failed (${response.status}): ${errorText}`);
+  }
+
+  const data = await response.json();
+  const text = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (typeof text !== "string") {
+    throw new Error("Gemini returned no content");
+  }
+  return JSON.parse(text) as T;
+};
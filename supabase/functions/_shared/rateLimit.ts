@@ -0,0 +1,53 @@
+// Per-user rate limits for token minting, backed by the session_token_grants table.
+// Edge workers don't share memory, so counts live in Postgres, and the check and
+// the grant happen together in one database function.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface RateLimitWindow {
+  /** Window length in seconds */
+  seconds: number;
+  /** Grants allowed per window */
+  max: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the oldest grant in the exceeded window expires */
+  retryAfter?: number;
+}
+
+export const createAdminClient = (): SupabaseClient => {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY are not configured");
+  }
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+};
+
+/**
+ * Check every window and, if all pass, record a grant for the user, atomically
+ * in the consume_rate_limit database function.
+ * Fails closed: a database error counts as "not allowed".
+ */
+export const consumeRateLimit = async (
+  admin: SupabaseClient,
+  userId: string,
+  kind: string,
+  windows: RateLimitWindow[]
+): Promise<RateLimitResult> => {
+  const { data, error } = await admin.rpc("consume_rate_limit", {
+    p_user_id: userId,
+    p_kind: kind,
+    p_windows: windows,
+  });
+
+  if (error || !data) {
+    console.error("Rate limit check failed:", error);
+    return { allowed: false, retryAfter: 60 };
+  }
+
+  const result = data as { allowed: boolean; retry_after?: number };
+  return result.allowed ? { allowed: true } : { allowed: false, retryAfter: result.retry_after ?? 60 };
+};
@@ -0,0 +1,93 @@
+// Short-lived HMAC-signed tickets.
+// `session-token` mints them for a signed-in user; `realtime-chat` verifies one
+// before upgrading the WebSocket, so the Gemini proxy can't be used anonymously.
+// Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+// Each ticket opens one socket: `redeemTicket` records its id on first use.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface TicketPayload {
+  /** User id the ticket was issued to */
+  sub: string;
+  /** What the ticket unlocks, e.g. "realtime-chat" */
+  scope: string;
+  /** Expiry, seconds since epoch */
+  exp: number;
+  /** Random id; recorded when the ticket is redeemed so it can't be used twice */
+  jti: string;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+};
+
+const getSecret = () => {
+  const secret = Deno.env.get("SESSION_TICKET_SECRET") ?? "";
+  if (secret.length < 32) {
+    throw new Error("SESSION_TICKET_SECRET must be set to at least 32 characters");
+  }
+  return secret;
+};
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+
+export const signTicket = async (userId: string, scope: string, ttlSeconds: number) => {
+  const payload: TicketPayload = {
+    sub: userId,
+    scope,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+    jti: crypto.randomUUID(),
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const key = await importKey(getSecret());
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(body)));
+  return { ticket: `${body}.${toBase64Url(signature)}`, expiresAt: payload.exp };
+};
+
+/**
+ * Returns the payload when the ticket is authentic, unexpired and for `scope`; otherwise null
+ */
+export const verifyTicket = async (ticket: string, scope: string): Promise<TicketPayload | null> => {
+  const [body, signature, extra] = ticket.split(".");
+  if (!body || !signature || extra !== undefined) return null;
+
+  try {
+    const key = await importKey(getSecret());
+    const valid = await crypto.subtle.verify("HMAC", key, fromBase64Url(signature), encoder.encode(body));
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as TicketPayload;
+    if (payload.scope !== scope) return null;
+    if (typeof payload.exp !== "number" || payload.exp < Math.floor(Date.now() / 1000)) return null;
+    return payload;
+  } catch (error) {
+    console.warn("Ticket verification failed:", error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+// Postgres unique_violation: the ticket id is already in session_ticket_redemptions
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Mark a verified ticket as used. False if it was used before, or if the
+ * database can't say (fails closed like the rate limit).
+ */
+export const redeemTicket = async (admin: SupabaseClient, claims: TicketPayload): Promise<boolean> => {
+  const { error } = await admin.from("session_ticket_redemptions").insert({ jti: claims.jti, user_id: claims.sub });
+  if (!error) return true;
+  if (error.code === UNIQUE_VIOLATION) {
+    console.warn("Ticket already redeemed", { ticketId: claims.jti, userId: claims.sub });
+  } else {
+    console.error("Ticket redemption failed:", error);
+  }
+  return false;
+};
@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getCaller } from "../_shared/auth.ts";
+import { generateJson } from "../_shared/gemini.ts";
+import { consumeRateLimit, createAdminClient, type RateLimitWindow } from "../_shared/rateLimit.ts";
+
+// Reads a finished lesson and updates the learner's long-term memory:
+// new strengths, misconceptions, goals and preferences are added, and
+// memories the lesson shows are out of date are removed.
+// Runs as the caller, so RLS keeps every read and write to their own rows.
+// Each ended lesson is claimed once before the model is called, and calls are
+// rate limited per user, since learners can reopen their own lessons.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST,OPTIONS",
+};
+
+const EXTRACTION_MODEL = "gemini-2.5-flash";
+const MEMORY_KINDS = ["strength", "misconception", "goal", "preference", "fact"];
+// Keep the prompt block small: oldest memories beyond this are dropped
+const MAX_MEMORIES = 40;
+const MAX_TRANSCRIPT_CHARS = 30000;
+// A few lessons an hour is plenty; reopened lessons can't be mined without limit
+const RATE_LIMITS: RateLimitWindow[] = [{ seconds: 3600, max: 10 }, { seconds: 86400, max: 30 }];
+
+interface ExtractionResult {
+  add?: Array<{ kind: string; content: string }>;
+  remove?: string[];
+}
+
+const RESPONSE_SCHEMA = {
+  type: "OBJECT",
+  properties: {
+    add: {
+      type: "ARRAY",
+      items: {
+        type: "OBJECT",
+        properties: {
+          kind: { type: "STRING", enum: MEMORY_KINDS },
+          content: { type: "STRING" },
+        },
+        required: ["kind", "content"],
+      },
+    },
+    remove: { type: "ARRAY", items: { type: "STRING" } },
+  },
+  required: ["add", "remove"],
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const buildPrompt = (transcript: string, existing: Array<{ id: string; kind: string; content: string }>) => `
+You maintain a tutor's long-term notes about one school student.
+Read the lesson transcript and return JSON with:
+- "add": new, durable facts worth remembering next lesson, each under 120 characters, written in the third person
+  ("Struggles with adding fractions with different denominators", "Prefers visual examples", "Has a maths exam in June").
+  kind is one of: strength, misconception, goal, preference, fact.
+- "remove": ids of existing notes that this lesson shows are wrong or no longer true (e.g. a misconception now fixed, a goal reached).
+
+Rules:
+- Only record things the transcript supports. Ignore small talk and one-off questions.
+- Never record sensitive personal data (health, family, contact details, location).
+- Don't repeat an existing note, even reworded.
+- Return empty arrays when there is nothing new.
+
+Existing notes:
+${existing.length ? existing.map((m) => `- [${m.id}] (${m.kind}) ${m.content}`).join("\n") : "(none)"}
+
+Transcript:
+${transcript}
+`;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  // Set once this call owns the lesson's extraction, so a failure can hand it back
+  let release: (() => Promise<unknown>) | null = null;
+
+  try {
+    const caller = await getCaller(req);
+    if (!caller) {
+      return json({ error: "Not signed in" }, 401);
+    }
+    const { supabase, user } = caller;
+
+    const { sessionId } = await req.json().catch(() => ({}));
+    if (typeof sessionId !== "string") {
+      return json({ error: "sessionId is required" }, 400);
+    }
+
+    // Claim the lesson atomically: only an ended lesson nobody has mined yet
+    const { data: claimed, error: claimError } = await supabase
+      .from("lesson_sessions")
+      .update({ memories_extracted_at: new Date().toISOString() })
+      .eq("id", sessionId)
+      .is("memories_extracted_at", null)
+      .not("ended_at", "is", null)
+      .select("id")
+      .maybeSingle();
+    if (claimError) throw claimError;
+
+    if (!claimed) {
+      const { data: session, error: sessionError } = await supabase
+        .from("lesson_sessions")
+        .select("id, ended_at")
+        .eq("id", sessionId)
+        .maybeSingle();
+      if (sessionError) throw sessionError;
+      if (!session) {
+        return json({ error: "Lesson not found" }, 404);
+      }
+      if (!session.ended_at) {
+        return json({ error: "Lesson has not ended" }, 409);
+      }
+      return json({ added: 0, removed: 0, skipped: true });
+    }
+    release = () => supabase.from("lesson_sessions").update({ memories_extracted_at: null }).eq("id", sessionId);
+
+    const { data: messages, error: messagesError } = await supabase
+      .from("lesson_messages")
+      .select("role, content")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: true });
+    if (messagesError) throw messagesError;
+
+    const transcript = (messages ?? [])
+      .filter((m: { content: string }) => m.content.trim())
+      .map((m: { role: string; content: string }) => `${m.role === "user" ? "Student" : "Teacher"}: ${m.content.trim()}`)
+      .join("\n")
+      .slice(-MAX_TRANSCRIPT_CHARS);
+
+    // Too short to learn anything from; checked first so it doesn't spend the quota
+    if (transcript.length < 200) {
+      return json({ added: 0, removed: 0 });
+    }
+
+    const limit = await consumeRateLimit(createAdminClient(), user.id, "extract-memories", RATE_LIMITS);
+    if (!limit.allowed) {
+      console.warn("Memory extraction rate limited", { userId: user.id, sessionId, retryAfter: limit.retryAfter });
+      await release();
+      return json({ error: "Too many lessons to review right now. Try again later.", retryAfter: limit.retryAfter }, 429);
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from("learner_memories")
+      .select("id, kind, content")
+      .order("created_at", { ascending: false });
+    if (existingError) throw existingError;
+
+    const result = await generateJson<ExtractionResult>(EXTRACTION_MODEL, buildPrompt(transcript, existing ?? []), RESPONSE_SCHEMA);
+
+    const known = new Set((existing ?? []).map((m: { content: string }) => m.content.trim().toLowerCase()));
+    const additions = (result.add ?? [])
+      .filter((m) => MEMORY_KINDS.includes(m.kind) && m.content?.trim())
+      .map((m) => ({ kind: m.kind, content: m.content.trim().slice(0, 200), source_session_id: sessionId }))
+      .filter((m) => !known.has(m.content.toLowerCase()));
+
+    const existingIds = new Set((existing ?? []).map((m: { id: string }) => m.id));
+    const removals = (result.remove ?? []).filter((id) => existingIds.has(id));
+
+    // Oldest memories fall off once the cap is reached (existing is newest first)
+    const kept = (existing ?? []).filter((m: { id: string }) => !removals.includes(m.id));
+    const overflow = Math.max(0, kept.length + additions.length - MAX_MEMORIES);
+    const overflowIds = overflow > 0 ? kept.slice(-overflow).map((m: { id: string }) => m.id) : [];
+    const toDelete = [...removals, ...overflowIds];
+
+    if (toDelete.length > 0) {
+      const { error } = await supabase.from("learner_memories").delete().in("id", toDelete);
+      if (error) throw error;
+    }
+    if (additions.length > 0) {
+      const { error } = await supabase.from("learner_memories").insert(additions);
+      if (error) throw error;
+    }
+
+    console.log("Learner memories updated", { sessionId, added: additions.length, removed: toDelete.length });
+    return json({ added: additions.length, removed: toDelete.length });
+  } catch (error) {
+    console.error("Error:", error);
+    // Let a later call try this lesson again
+    await release?.();
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
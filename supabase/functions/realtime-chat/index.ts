@@ -1,32 +1,36 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { redeemTicket, verifyTicket } from "../_shared/ticket.ts";
+import { createAdminClient } from "../_shared/rateLimit.ts";
+import { getGeminiApiKey } from "../_shared/gemini.ts";
 
 const GEMINI_MODEL = "gemini-2.5-flash-native-audio-preview-12-2025";
 
-const getGeminiApiKey = () => {
-  const raw = Deno.env.get("GEMINI_API_KEY") ?? "";
-  let key = raw.trim();
-  if (
-    (key.startsWith('"') && key.endsWith('"')) ||
-    (key.startsWith("'") && key.endsWith("'"))
-  ) {
-    key = key.slice(1, -1).trim();
-  }
-  return key;
-};
-
 serve(async (req) => {
   const upgrade = req.headers.get("upgrade") || "";
   if (upgrade.toLowerCase() !== "websocket") {
     return new Response("Expected WebSocket upgrade", { status: 426 });
   }
 
+  // Browsers can't set headers on a WebSocket, so the session-token ticket rides in the query
+  const ticket = new URL(req.url).searchParams.get("ticket");
+  const claims = ticket ? await verifyTicket(ticket, "realtime-chat") : null;
+  if (!claims) {
+    console.warn("Rejected realtime-chat connection without a valid ticket");
+    return new Response("Invalid or expired session ticket", { status: 401 });
+  }
+
+  // One socket per ticket, so each connection counts against the session-token rate limit
+  if (!(await redeemTicket(createAdminClient(), claims))) {
+    return new Response("Session ticket already used", { status: 401 });
+  }
+
   const apiKey = getGeminiApiKey();
   if (!apiKey) {
     console.error("GEMINI_API_KEY is not configured");
     return new Response("Server configuration error", { status: 500 });
   }
 
-  console.log("Gemini Live proxy starting", { keyLength: apiKey.length });
+  console.log("Gemini Live proxy starting", { keyLength: apiKey.length, userId: claims.sub, ticketId: claims.jti });
 
   const { socket: clientSocket, response } = Deno.upgradeWebSocket(req);
 
@@ -82,6 +86,17 @@ serve(async (req) => {
   };
 
   clientSocket.onmessage = (event) => {
+    // Answer connection-quality pings here; Gemini doesn't know them
+    if (typeof event.data === "string" && event.data.startsWith('{"type":"proxy.ping"')) {
+      try {
+        const { id } = JSON.parse(event.data);
+        clientSocket.send(JSON.stringify({ type: "proxy.pong", id }));
+      } catch (error) {
+        console.warn("Malformed ping:", error);
+      }
+      return;
+    }
+
     // Forward client messages to Gemini
     if (geminiSocket && geminiSocket.readyState === WebSocket.OPEN) {
       geminiSocket.send(event.data);
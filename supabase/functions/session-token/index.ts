@@ -0,0 +1,112 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getCaller } from "../_shared/auth.ts";
+import { signTicket } from "../_shared/ticket.ts";
+import { consumeRateLimit, createAdminClient, type RateLimitWindow } from "../_shared/rateLimit.ts";
+
+// Mints short-lived credentials for a signed-in learner so no provider API key
+// ever reaches the browser:
+//   { kind: "realtime" }        -> ticket for the realtime-chat WebSocket proxy
+//   { kind: "simli", faceId }   -> Simli session token for one avatar session
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST,OPTIONS",
+};
+
+const REALTIME_TICKET_TTL_SECONDS = 60;
+
+const RATE_LIMITS: Record<"realtime" | "simli", RateLimitWindow[]> = {
+  // Reconnects (goAway, dropped sockets) each need a fresh ticket
+  realtime: [{ seconds: 60, max: 10 }, { seconds: 3600, max: 60 }],
+  simli: [{ seconds: 60, max: 5 }, { seconds: 3600, max: 20 }],
+};
+
+// Session settings are fixed here rather than trusted from the client
+const SIMLI_SESSION_CONFIG = {
+  handleSilence: false,
+  maxSessionLength: 3600,
+  maxIdleTime: 3600, // 1 hour to prevent the 10-minute idle freeze
+  model: "fasttalk",
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const json = (body: unknown, status = 200, extraHeaders: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json", ...extraHeaders },
+  });
+
+const mintSimliToken = async (faceId: string): Promise<string> => {
+  const SIMLI_API_KEY = Deno.env.get("SIMLI_API_KEY");
+  if (!SIMLI_API_KEY) {
+    throw new Error("SIMLI_API_KEY is not configured");
+  }
+
+  const response = await fetch("https://api.simli.ai/compose/token", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-simli-api-key": SIMLI_API_KEY,
+    },
+    body: JSON.stringify({ faceId, ...SIMLI_SESSION_CONFIG }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Simli token request failed (${response.status}): ${errorText}`);
+  }
+
+  const data = await response.json();
+  if (!data?.session_token) {
+    throw new Error("Simli returned no session token");
+  }
+  return data.session_token;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const caller = await getCaller(req);
+    if (!caller) {
+      return json({ error: "Sign in to start a lesson" }, 401);
+    }
+    const userId = caller.user.id;
+
+    const { kind, faceId } = await req.json().catch(() => ({}));
+    if (kind !== "realtime" && kind !== "simli") {
+      return json({ error: 'kind must be "realtime" or "simli"' }, 400);
+    }
+    if (kind === "simli" && (typeof faceId !== "string" || !UUID_PATTERN.test(faceId))) {
+      return json({ error: "A valid faceId is required" }, 400);
+    }
+
+    const limit = await consumeRateLimit(createAdminClient(), userId, kind, RATE_LIMITS[kind]);
+    if (!limit.allowed) {
+      console.warn("Session token rate limited", { userId, kind, retryAfter: limit.retryAfter });
+      return json(
+        { error: "Too many sessions started. Please wait a moment and try again.", retryAfter: limit.retryAfter },
+        429,
+        { "Retry-After": String(limit.retryAfter ?? 60) }
+      );
+    }
+
+    if (kind === "realtime") {
+      const { ticket, expiresAt } = await signTicket(userId, "realtime-chat", REALTIME_TICKET_TTL_SECONDS);
+      return json({ ticket, expiresAt });
+    }
+
+    const sessionToken = await mintSimliToken(faceId);
+    return json({ sessionToken });
+  } catch (error) {
+    console.error("Error:", error);
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,73 @@
+-- Lesson sessions and their transcripts.
+-- Every call with a teacher is a lesson session; each finalized chat message
+-- (user transcription, typed text or assistant turn) is stored against it.
+
+create table public.lesson_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  teacher_id text not null,
+  title text,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index lesson_sessions_user_started_idx
+  on public.lesson_sessions (user_id, started_at desc);
+
+create table public.lesson_messages (
+  id uuid primary key,
+  session_id uuid not null references public.lesson_sessions (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null default '',
+  original_content text,
+  whiteboard_content text,
+  created_at timestamptz not null default now()
+);
+
+create index lesson_messages_session_created_idx
+  on public.lesson_messages (session_id, created_at);
+
+-- Keep the session's updated_at fresh whenever a message is written
+create or replace function public.touch_lesson_session()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.lesson_sessions
+    set updated_at = now()
+    where id = new.session_id;
+  return new;
+end;
+$$;
+
+create trigger lesson_messages_touch_session
+  after insert or update on public.lesson_messages
+  for each row execute function public.touch_lesson_session();
+
+alter table public.lesson_sessions enable row level security;
+alter table public.lesson_messages enable row level security;
+
+create policy "Learners manage their own lesson sessions"
+  on public.lesson_sessions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Learners manage messages in their own sessions"
+  on public.lesson_messages
+  for all
+  using (
+    exists (
+      select 1 from public.lesson_sessions s
+      where s.id = session_id and s.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.lesson_sessions s
+      where s.id = session_id and s.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,6 @@
+-- Keep the model's leaked reasoning separate from what the student heard.
+-- Assistant `content` now holds the spoken transcript; anything the thought
+-- classifier flags is stored here instead of being discarded.
+
+alter table public.lesson_messages
+  add column thoughts text;
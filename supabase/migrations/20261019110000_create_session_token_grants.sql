@@ -0,0 +1,15 @@
+-- One row per token minted by the session-token function.
+-- Used for per-user rate limits; only the service role reads or writes it.
+
+create table public.session_token_grants (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('realtime', 'simli')),
+  created_at timestamptz not null default now()
+);
+
+create index session_token_grants_user_kind_created_idx
+  on public.session_token_grants (user_id, kind, created_at desc);
+
+-- RLS on with no policies: invisible to anon/authenticated clients
+alter table public.session_token_grants enable row level security;
@@ -0,0 +1,47 @@
+-- Learner profiles, one per auth user.
+-- Teachers use these to know who they are talking to (name, key stage,
+-- year group) and how to adapt (BSL-first, captions).
+
+create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  display_name text not null default '',
+  key_stage text check (key_stage in ('EYFS', 'KS1', 'KS2', 'KS3', 'KS4', 'KS5')),
+  year_group smallint check (year_group between 0 and 13),
+  bsl_first boolean not null default false,
+  captions boolean not null default false,
+  avatar_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create or replace function public.touch_profile()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger profiles_touch_updated_at
+  before update on public.profiles
+  for each row execute function public.touch_profile();
+
+alter table public.profiles enable row level security;
+
+create policy "Learners read their own profile"
+  on public.profiles
+  for select
+  using (auth.uid() = id);
+
+create policy "Learners create their own profile"
+  on public.profiles
+  for insert
+  with check (auth.uid() = id);
+
+create policy "Learners update their own profile"
+  on public.profiles
+  for update
+  using (auth.uid() = id)
+  with check (auth.uid() = id);
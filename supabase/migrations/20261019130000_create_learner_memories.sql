@@ -0,0 +1,36 @@
+-- Long-term learner memory: short facts extracted from finished lessons
+-- ("struggles with fractions", "prefers visual examples", "exam in June").
+-- A compact block of these is added to the teacher's system instruction.
+
+create table public.learner_memories (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  kind text not null check (kind in ('strength', 'misconception', 'goal', 'preference', 'fact')),
+  content text not null check (char_length(content) between 1 and 200),
+  source_session_id uuid references public.lesson_sessions (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index learner_memories_user_created_idx
+  on public.learner_memories (user_id, created_at desc);
+
+-- Set once a session has been mined so it isn't processed twice
+alter table public.lesson_sessions
+  add column memories_extracted_at timestamptz;
+
+alter table public.learner_memories enable row level security;
+
+create policy "Learners read their own memories"
+  on public.learner_memories
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Learners insert their own memories"
+  on public.learner_memories
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Learners delete their own memories"
+  on public.learner_memories
+  for delete
+  using (auth.uid() = user_id);
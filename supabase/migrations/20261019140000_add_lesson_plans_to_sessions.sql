@@ -0,0 +1,6 @@
+-- Structured lessons: which lesson plan a session follows (plans live in the
+-- app, see src/lib/lessonPlans.ts) and which of its objectives have been met.
+
+alter table public.lesson_sessions
+  add column lesson_plan_id text,
+  add column completed_objectives text[] not null default '{}';
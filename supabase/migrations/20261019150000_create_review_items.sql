@@ -0,0 +1,42 @@
+-- Spaced-repetition queue: quiz questions the student missed, rescheduled
+-- with SM-2 each time they are reviewed (see src/lib/spacedRepetition.ts).
+
+create table public.review_items (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  prompt text not null,
+  question jsonb not null,
+  ease_factor real not null default 2.5,
+  interval_days integer not null default 0,
+  repetitions integer not null default 0,
+  lapses integer not null default 0,
+  due_at timestamptz not null default now(),
+  last_reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, prompt)
+);
+
+create index review_items_user_due_idx
+  on public.review_items (user_id, due_at);
+
+alter table public.review_items enable row level security;
+
+create policy "Learners read their own review items"
+  on public.review_items
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Learners insert their own review items"
+  on public.review_items
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Learners update their own review items"
+  on public.review_items
+  for update
+  using (auth.uid() = user_id);
+
+create policy "Learners delete their own review items"
+  on public.review_items
+  for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,54 @@
+-- What the student drew over a whiteboard: pen strokes, shapes and text,
+-- kept per board so the drawing is back when the board is opened again
+-- (see src/lib/whiteboardAnnotations.ts). Boards are keyed by a hash of
+-- their content, since the same board can be reopened from any lesson.
+
+create table public.whiteboard_annotations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade default auth.uid(),
+  board_key text not null,
+  board_title text not null default '',
+  layer jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, board_key)
+);
+
+create index whiteboard_annotations_user_updated_idx
+  on public.whiteboard_annotations (user_id, updated_at desc);
+
+create or replace function public.touch_whiteboard_annotation()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+create trigger whiteboard_annotations_touch_updated_at
+  before update on public.whiteboard_annotations
+  for each row execute function public.touch_whiteboard_annotation();
+
+alter table public.whiteboard_annotations enable row level security;
+
+create policy "Learners read their own whiteboard annotations"
+  on public.whiteboard_annotations
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Learners insert their own whiteboard annotations"
+  on public.whiteboard_annotations
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Learners update their own whiteboard annotations"
+  on public.whiteboard_annotations
+  for update
+  using (auth.uid() = user_id);
+
+create policy "Learners delete their own whiteboard annotations"
+  on public.whiteboard_annotations
+  for delete
+  using (auth.uid() = user_id);
@@ -0,0 +1,16 @@
+-- One row per realtime-chat ticket that has opened a socket.
+-- The ticket id is the primary key, so a second connection with the same
+-- ticket fails to insert and is rejected; only the service role reads or
+-- writes it.
+
+create table public.session_ticket_redemptions (
+  jti uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  redeemed_at timestamptz not null default now()
+);
+
+create index session_ticket_redemptions_redeemed_idx
+  on public.session_ticket_redemptions (redeemed_at);
+
+-- RLS on with no policies: invisible to anon/authenticated clients
+alter table public.session_ticket_redemptions enable row level security;
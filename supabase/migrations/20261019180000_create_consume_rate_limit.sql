@@ -0,0 +1,45 @@
+-- Check a user's rate-limit windows and record a grant in one transaction.
+-- The advisory lock serialises callers for the same user and kind, so
+-- parallel requests can't all pass the count before any of them inserts.
+-- Windows are [{ "seconds": 60, "max": 10 }, ...]; returns
+-- { "allowed": true } or { "allowed": false, "retry_after": <seconds> }.
+
+create or replace function public.consume_rate_limit(p_user_id uuid, p_kind text, p_windows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rate_window jsonb;
+  window_seconds integer;
+  used integer;
+  oldest timestamptz;
+begin
+  perform pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_kind));
+
+  for rate_window in select value from jsonb_array_elements(p_windows) loop
+    window_seconds := (rate_window ->> 'seconds')::integer;
+
+    select count(*), min(created_at)
+      into used, oldest
+      from public.session_token_grants
+      where user_id = p_user_id
+        and kind = p_kind
+        and created_at >= now() - make_interval(secs => window_seconds);
+
+    if used >= (rate_window ->> 'max')::integer then
+      return jsonb_build_object(
+        'allowed', false,
+        'retry_after', greatest(1, ceil(extract(epoch from oldest + make_interval(secs => window_seconds) - now()))::integer)
+      );
+    end if;
+  end loop;
+
+  insert into public.session_token_grants (user_id, kind) values (p_user_id, p_kind);
+  return jsonb_build_object('allowed', true);
+end;
+$$;
+
+-- Edge functions call it with the service role; learners can't spend each other's limits
+revoke execute on function public.consume_rate_limit(uuid, text, jsonb) from public, anon, authenticated;
@@ -0,0 +1,8 @@
+-- extract-memories shares the per-user rate limiter with session-token.
+
+alter table public.session_token_grants
+  drop constraint session_token_grants_kind_check;
+
+alter table public.session_token_grants
+  add constraint session_token_grants_kind_check
+  check (kind in ('realtime', 'simli', 'extract-memories'));